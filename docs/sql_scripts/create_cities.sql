@@ -0,0 +1,41 @@
+-- Cities
+-- Cities used to be hardcoded in the client; they now live in the cities table
+-- and load with the rest of the game data. Only wealth and population are
+-- stored: wages, purchase power and quality demand are derived from them
+-- (src/lib/services/city/cityEconomy.ts).
+-- On the first tick of each game month the game-tick edge function moves each
+-- city's wealth towards base_wealth plus the wages and retail spending player
+-- facilities generated there, and grows or shrinks its population with
+-- employment and wealth. processRetailSales adds each tick's consumer spending
+-- to retail_spending_month, which the monthly tick resets.
+
+-- ============================================================================
+-- CITIES
+-- ============================================================================
+
+create table if not exists cities (
+  id text primary key,
+  name text not null unique,
+  wealth numeric not null check (wealth >= 0 and wealth <= 1),
+  population integer not null check (population > 0),
+  base_wealth numeric not null check (base_wealth >= 0 and base_wealth <= 1), -- Wealth without player activity
+  retail_spending_month numeric not null default 0 check (retail_spending_month >= 0),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table cities enable row level security;
+
+create policy "Anyone can view cities"
+  on cities for select
+  using (true);
+
+-- The cities the client used to hardcode (DEFAULT_CITIES)
+insert into cities (id, name, wealth, population, base_wealth, sort_order) values
+  ('city-1', 'Capital City', 0.8, 100000, 0.8, 1),
+  ('city-2', 'Port Town', 0.6, 50000, 0.6, 2),
+  ('city-3', 'Mountain Village', 0.4, 10000, 0.4, 3),
+  ('city-4', 'Riverside', 0.5, 30000, 0.5, 4),
+  ('city-5', 'Plains Town', 0.5, 25000, 0.5, 5)
+on conflict (id) do nothing;
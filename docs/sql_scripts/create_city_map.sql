@@ -0,0 +1,33 @@
+-- City map positions
+-- Each city gets a position on the client's city map (0-100 on both axes,
+-- x west to east, y north to south). City routes (create_shipping.sql) are
+-- drawn as the connections between them. Cities without a position are laid
+-- out in a circle by the client.
+-- Run after create_cities.sql.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table cities
+  add column if not exists map_x numeric check (map_x >= 0 and map_x <= 100),
+  add column if not exists map_y numeric check (map_y >= 0 and map_y <= 100);
+
+-- ============================================================================
+-- SEED POSITIONS
+-- ============================================================================
+
+-- Roughly follows the route distances: Riverside and Plains Town close to the
+-- capital, Port Town on the coast, Mountain Village far inland
+update cities c
+   set map_x = v.map_x,
+       map_y = v.map_y
+  from (values
+    ('city-1', 50, 45),
+    ('city-2', 15, 30),
+    ('city-3', 85, 15),
+    ('city-4', 40, 70),
+    ('city-5', 70, 65)
+  ) as v(id, map_x, map_y)
+ where c.id = v.id
+   and c.map_x is null;
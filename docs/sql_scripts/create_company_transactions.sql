@@ -0,0 +1,52 @@
+-- Company payments from the server
+-- apply_company_transaction changes a company balance by an amount and records
+-- the matching transaction in one statement pair, so concurrent trades
+-- (settle_trade, purchase_from_listing) and tick payments never overwrite each
+-- other's balance. Used by the game-tick RPCs (supply contract deliveries,
+-- retail sales, wages).
+-- Run before create_supply_contracts.sql, create_retail.sql and create_workforce.sql.
+
+-- ============================================================================
+-- PAYMENTS
+-- ============================================================================
+
+-- Add p_amount (negative to charge) to a company balance and record the transaction
+-- dated with the company's world clock.
+-- Returns the new balance, or null when the company does not exist.
+create or replace function apply_company_transaction(
+  p_company_id uuid,
+  p_amount numeric,
+  p_description text,
+  p_category text
+) returns numeric
+language plpgsql
+security definer
+as $$
+declare
+  v_balance numeric;
+  v_game_time game_time%rowtype;
+begin
+  update companies
+     set money = money + p_amount,
+         updated_at = now()
+   where id = p_company_id
+  returning money into v_balance;
+
+  if not found then
+    return null;
+  end if;
+
+  v_game_time := company_game_time(p_company_id);
+
+  insert into transactions (
+    company_id, amount, description, category, balance_after,
+    game_day, game_month, game_year, game_tick
+  ) values (
+    p_company_id, p_amount, p_description, p_category, v_balance,
+    coalesce(v_game_time.day, 1), coalesce(v_game_time.month, 1),
+    coalesce(v_game_time.year, 2024), coalesce(v_game_time.tick, 0)
+  );
+
+  return v_balance;
+end;
+$$;
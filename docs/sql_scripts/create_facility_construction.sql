@@ -0,0 +1,149 @@
+-- Facility construction and demolition
+-- Building a facility costs its type's build_cost ('facility_purchase'
+-- transaction, client). The facility exists right away but does not produce:
+-- the game-tick edge function counts down construction_ticks_remaining and
+-- starts the selected recipe when it reaches zero.
+-- Demolishing a facility cancels its listings, moves or destroys its inventory,
+-- pays back part of the build cost ('facility_sale') and deletes the row in one
+-- transaction (demolish_facility); it is refused while shipments are on their
+-- way to the facility or a supply contract names it.
+-- demolish_facility uses transfer_inventory (create_facility_transfers.sql) and
+-- apply_company_transaction (create_company_transactions.sql).
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table facility_types
+  add column if not exists build_cost numeric not null default 0 check (build_cost >= 0),
+  add column if not exists construction_ticks integer not null default 0 check (construction_ticks >= 0);
+
+alter table facilities
+  add column if not exists construction_ticks_remaining integer not null default 0
+    check (construction_ticks_remaining >= 0);
+
+-- ============================================================================
+-- FACILITY TYPE COSTS
+-- ============================================================================
+
+update facility_types set build_cost = 400, construction_ticks = 3 where id = 'farm';
+update facility_types set build_cost = 600, construction_ticks = 4 where id = 'mill';
+update facility_types set build_cost = 500, construction_ticks = 4 where id = 'bakery';
+
+-- ============================================================================
+-- DEMOLITION
+-- ============================================================================
+
+-- Fraction of the build cost paid back on demolition
+-- (matches FACILITY_DEFAULTS.DEMOLITION_REFUND_RATE on the client)
+create or replace function demolition_refund_rate()
+returns numeric
+language sql
+immutable
+as $$
+  select 0.5::numeric;
+$$;
+
+-- Demolish a facility of p_company_id in one transaction
+-- Refused while shipments are on their way to the facility (they were paid for)
+-- or a proposed or active supply contract names it. Cancels its listings, moves
+-- the leftover inventory to p_transfer_to_facility_id with transfer_inventory
+-- (shipped and charged between cities) or destroys it when null, pays back
+-- demolition_refund_rate() of the build cost and deletes the facility.
+-- Returns { success: boolean, error?: text, refund?: numeric, shippingCost?: numeric }
+create or replace function demolish_facility(
+  p_company_id uuid,
+  p_facility_id uuid,
+  p_transfer_to_facility_id uuid default null
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_facility facilities%rowtype;
+  v_target facilities%rowtype;
+  v_item jsonb;
+  v_transfer jsonb;
+  v_inbound numeric;
+  v_refund numeric := 0;
+  v_shipping_cost numeric := 0;
+begin
+  if p_transfer_to_facility_id = p_facility_id then
+    return jsonb_build_object('success', false, 'error', 'Choose another facility of your company to receive the inventory');
+  end if;
+
+  -- Lock both facilities in id order, like transfer_inventory
+  perform 1 from facilities
+   where id in (p_facility_id, p_transfer_to_facility_id)
+   order by id
+   for update;
+
+  select * into v_facility from facilities where id = p_facility_id and company_id = p_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  v_inbound := inbound_shipment_quantity(v_facility.id);
+  if v_inbound > 0 then
+    return jsonb_build_object('success', false, 'error',
+      format('Wait until the %s units in transit to this facility have arrived', v_inbound));
+  end if;
+
+  if exists (
+    select 1 from supply_contracts
+     where contract_status in ('proposed', 'active')
+       and v_facility.id in (supplier_facility_id, buyer_facility_id)
+  ) then
+    return jsonb_build_object('success', false, 'error',
+      'Finish or cancel the supply contracts of this facility first');
+  end if;
+
+  if p_transfer_to_facility_id is not null then
+    select * into v_target from facilities where id = p_transfer_to_facility_id and company_id = p_company_id;
+    if not found then
+      return jsonb_build_object('success', false, 'error', 'Choose another facility of your company to receive the inventory');
+    end if;
+  end if;
+
+  -- Listed stock returns to the inventory and moves or is destroyed with it
+  perform cancel_facility_listings(v_facility.id);
+
+  if v_target.id is not null then
+    select * into v_facility from facilities where id = p_facility_id;
+    for v_item in select value from jsonb_array_elements(coalesce(v_facility.inventory->'items', '[]'::jsonb)) loop
+      if (v_item->>'quantity')::numeric > 0 then
+        v_transfer := transfer_inventory(
+          p_company_id, v_facility.id, v_target.id,
+          v_item->>'resourceId', (v_item->>'quantity')::numeric, 'shipping'
+        );
+        -- Undo the listing cancellations and earlier transfers too
+        if not (v_transfer->>'success')::boolean then
+          raise exception '%', v_transfer->>'error';
+        end if;
+        v_shipping_cost := v_shipping_cost + coalesce((v_transfer->>'shippingCost')::numeric, 0);
+      end if;
+    end loop;
+  end if;
+
+  select round(coalesce(max(build_cost), 0) * demolition_refund_rate(), 2)
+    into v_refund
+    from facility_types
+   where id = v_facility.facility_subtype;
+
+  -- Payment through create_company_transactions.sql
+  if v_refund > 0 then
+    perform apply_company_transaction(
+      p_company_id, v_refund, format('Demolished: %s', v_facility.name), 'facility_sale'
+    );
+  end if;
+
+  -- Open buy orders of the facility go with it (on delete cascade)
+  delete from facilities where id = v_facility.id;
+
+  return jsonb_build_object(
+    'success', true,
+    'refund', v_refund,
+    'shippingCost', v_shipping_cost
+  );
+end;
+$$;
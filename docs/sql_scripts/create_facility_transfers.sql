@@ -0,0 +1,160 @@
+-- Warehouses and inter-facility transfers
+-- Warehouses are a facility type with a large inventory and no recipes
+-- (facility_types.facility_type = 'warehouse'); the client creates them like
+-- production facilities.
+-- A company moves unreserved stock between two of its own facilities with
+-- transfer_inventory: within a city the goods land immediately, between
+-- cities they travel as a shipment along the city route (create_shipping.sql)
+-- and the company pays the route's shipping cost per unit.
+-- Run after create_shipping.sql and create_facility_construction.sql.
+
+-- ============================================================================
+-- WAREHOUSE FACILITY TYPE
+-- ============================================================================
+
+alter table facility_types
+  add column if not exists facility_type text not null default 'production'
+    check (facility_type in ('production', 'warehouse', 'retail'));
+
+insert into facility_types (
+  id, name, facility_type, auto_start_recipe_id, default_inventory_capacity, default_effectivity,
+  required_workers, build_cost, construction_ticks, icon, sort_order
+) values
+  ('warehouse', 'Warehouse', 'warehouse', null, 10000, 100, 2, 800, 4, '📦', 10)
+on conflict (id) do nothing;
+
+-- ============================================================================
+-- TRANSFER
+-- ============================================================================
+
+-- Move p_quantity of a resource from one facility of p_company_id to another
+-- Only unreserved stock can move (listed units stay put). The destination must
+-- have room for the goods, counting shipments already on their way to it.
+-- Returns { success: boolean, error?: text, shippingCost?: numeric, arrivesAtTick?: integer }
+create or replace function transfer_inventory(
+  p_company_id uuid,
+  p_from_facility_id uuid,
+  p_to_facility_id uuid,
+  p_resource_id text,
+  p_quantity numeric,
+  p_shipping_category text default 'shipping'
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_from_facility facilities%rowtype;
+  v_to_facility facilities%rowtype;
+  v_company companies%rowtype;
+  v_game_time game_time%rowtype;
+  v_route city_routes%rowtype;
+  v_shipping_cost numeric := 0;
+  v_arrives_at_tick integer;
+  v_available numeric;
+  v_quality numeric;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+  end if;
+
+  if p_from_facility_id = p_to_facility_id then
+    return jsonb_build_object('success', false, 'error', 'Choose a different destination facility');
+  end if;
+
+  -- Lock both facilities in id order to avoid deadlocks with trades
+  perform 1 from facilities
+   where id in (p_from_facility_id, p_to_facility_id)
+   order by id
+   for update;
+
+  select * into v_from_facility from facilities where id = p_from_facility_id and company_id = p_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Source facility not found');
+  end if;
+
+  select * into v_to_facility from facilities where id = p_to_facility_id and company_id = p_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Destination facility not found');
+  end if;
+
+  v_available := inventory_item_quantity(v_from_facility.inventory, p_resource_id)
+               - inventory_item_reserved(v_from_facility.inventory, p_resource_id);
+  if v_available < p_quantity then
+    return jsonb_build_object('success', false, 'error',
+      format('Insufficient unreserved quantity. Available: %s, Requested: %s', v_available, p_quantity));
+  end if;
+
+  if coalesce((v_to_facility.inventory->>'currentUsage')::numeric, 0)
+       + inbound_shipment_quantity(v_to_facility.id) + p_quantity
+       > coalesce((v_to_facility.inventory->>'capacity')::numeric, 1000) then
+    return jsonb_build_object('success', false, 'error', 'Destination facility does not have enough free capacity');
+  end if;
+
+  v_game_time := company_game_time(p_company_id);
+
+  -- Moved goods keep the quality of the source stock (create_resource_quality.sql)
+  v_quality := inventory_item_quality(v_from_facility.inventory, p_resource_id);
+
+  if v_from_facility.city_id <> v_to_facility.city_id then
+    v_route := find_city_route(v_from_facility.city_id, v_to_facility.city_id);
+    if v_route.from_city_id is null then
+      return jsonb_build_object('success', false, 'error', 'No shipping route between these cities');
+    end if;
+    v_shipping_cost := round(p_quantity * v_route.shipping_cost_per_unit, 2);
+    v_arrives_at_tick := coalesce(v_game_time.tick, 0) + v_route.transit_ticks;
+
+    select * into v_company from companies where id = p_company_id for update;
+    if v_company.money < v_shipping_cost then
+      return jsonb_build_object('success', false, 'error', 'Insufficient funds for shipping');
+    end if;
+  end if;
+
+  -- All checks passed: apply the transfer
+  update facilities
+     set inventory = adjust_inventory_item(inventory, p_resource_id, -p_quantity),
+         updated_at = now()
+   where id = v_from_facility.id;
+
+  -- Local transfers land immediately; shipped goods wait in transit (deliver_shipments)
+  if v_arrives_at_tick is null then
+    update facilities
+       set inventory = adjust_inventory_item(inventory, p_resource_id, p_quantity, v_quality),
+           updated_at = now()
+     where id = v_to_facility.id;
+  else
+    insert into shipments (
+      company_id, listing_id, from_facility_id, to_facility_id, from_city_id, to_city_id,
+      resource_id, quantity, quality, shipping_cost, dispatched_tick, arrives_at_tick
+    ) values (
+      p_company_id, null, v_from_facility.id, v_to_facility.id,
+      v_from_facility.city_id, v_to_facility.city_id,
+      p_resource_id, p_quantity, v_quality, v_shipping_cost,
+      coalesce(v_game_time.tick, 0), v_arrives_at_tick
+    );
+  end if;
+
+  if v_shipping_cost > 0 then
+    update companies set money = v_company.money - v_shipping_cost, updated_at = now() where id = p_company_id;
+
+    insert into transactions (
+      company_id, amount, description, category, balance_after,
+      game_day, game_month, game_year, game_tick
+    ) values (
+      p_company_id,
+      -v_shipping_cost,
+      format('Transfer shipping: %s x %s from %s to %s', p_quantity, p_resource_id,
+             v_from_facility.city_id, v_to_facility.city_id),
+      p_shipping_category,
+      v_company.money - v_shipping_cost,
+      coalesce(v_game_time.day, 1), coalesce(v_game_time.month, 1),
+      coalesce(v_game_time.year, 2024), coalesce(v_game_time.tick, 0)
+    );
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'shippingCost', v_shipping_cost,
+    'arrivesAtTick', v_arrives_at_tick
+  );
+end;
+$$;
@@ -0,0 +1,112 @@
+-- Facility upgrades
+-- Upgrade levels are game data like recipes and facility types: the client
+-- loads them once via loadGameData. Level 0 is the facility type defaults
+-- (default_inventory_capacity, default_effectivity); every row here is an
+-- absolute level 1..n of one facility type.
+--   inventory_capacity           storage of the facility at this level
+--   effectivity_cap              effectivity at full staffing (scaled by workers)
+--   processing_ticks_multiplier  applied to recipe processing_ticks (0.8 = 20% faster)
+-- Starting an upgrade costs `cost` ('facility_upgrade' transaction, client) and
+-- sets upgrade_target_level; the game-tick edge function counts down
+-- upgrade_ticks_remaining and applies the level when it reaches zero
+-- (complete_facility_upgrade).
+-- Run after create_workforce.sql.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+create table if not exists facility_upgrade_levels (
+  facility_type_id text not null references facility_types(id) on delete cascade,
+  level integer not null check (level >= 1),
+  name text not null,
+  cost numeric not null check (cost >= 0),
+  construction_ticks integer not null check (construction_ticks >= 1),
+  inventory_capacity integer not null check (inventory_capacity > 0),
+  effectivity_cap integer not null check (effectivity_cap > 0),
+  processing_ticks_multiplier numeric not null default 1 check (processing_ticks_multiplier > 0),
+  primary key (facility_type_id, level)
+);
+
+alter table facility_upgrade_levels enable row level security;
+
+create policy "Anyone can view facility upgrade levels"
+  on facility_upgrade_levels for select
+  using (true);
+
+insert into facility_upgrade_levels
+  (facility_type_id, level, name, cost, construction_ticks, inventory_capacity, effectivity_cap, processing_ticks_multiplier) values
+  ('farm', 1, 'Expanded Farm', 500, 3, 1500, 110, 1),
+  ('farm', 2, 'Irrigated Farm', 1500, 6, 2000, 120, 0.9),
+  ('farm', 3, 'Industrial Farm', 4000, 12, 3000, 135, 0.75),
+  ('mill', 1, 'Expanded Mill', 750, 3, 1500, 110, 1),
+  ('mill', 2, 'Steam Mill', 2000, 6, 2000, 115, 0.85),
+  ('mill', 3, 'Roller Mill', 5000, 12, 3000, 125, 0.7),
+  ('bakery', 1, 'Expanded Bakery', 600, 3, 1500, 110, 1),
+  ('bakery', 2, 'Bakery with Ovens', 1800, 6, 2000, 120, 0.85),
+  ('bakery', 3, 'Industrial Bakery', 4500, 12, 3000, 130, 0.7)
+on conflict (facility_type_id, level) do nothing;
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table facilities
+  add column if not exists level integer not null default 0 check (level >= 0),
+  add column if not exists processing_ticks_multiplier numeric not null default 1
+    check (processing_ticks_multiplier > 0),
+  add column if not exists upgrade_target_level integer,
+  add column if not exists upgrade_ticks_remaining integer not null default 0
+    check (upgrade_ticks_remaining >= 0);
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+-- Apply the target level of a facility whose upgrade finished
+-- p_effectivity is the level's effectivity cap scaled by staffing, computed by
+-- the edge function (calculateStaffingEffectivity). Only the capacity field of
+-- the inventory changes, so stock moved since the tick read the facility is kept.
+-- Returns { success, error?, level?, levelName? }
+create or replace function complete_facility_upgrade(
+  p_facility_id uuid,
+  p_effectivity integer
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_facility facilities%rowtype;
+  v_level facility_upgrade_levels%rowtype;
+begin
+  select * into v_facility from facilities where id = p_facility_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  if v_facility.upgrade_target_level is null then
+    return jsonb_build_object('success', false, 'error', 'Facility has no upgrade in progress');
+  end if;
+
+  select * into v_level
+    from facility_upgrade_levels
+   where facility_type_id = v_facility.facility_subtype
+     and level = v_facility.upgrade_target_level;
+  if not found then
+    return jsonb_build_object('success', false, 'error',
+      format('Upgrade level %s of %s not found', v_facility.upgrade_target_level, v_facility.facility_subtype));
+  end if;
+
+  update facilities
+     set level = v_level.level,
+         processing_ticks_multiplier = v_level.processing_ticks_multiplier,
+         effectivity = p_effectivity,
+         inventory = jsonb_set(coalesce(inventory, '{}'::jsonb), '{capacity}', to_jsonb(v_level.inventory_capacity)),
+         upgrade_target_level = null,
+         upgrade_ticks_remaining = 0,
+         updated_at = now()
+   where id = v_facility.id;
+
+  return jsonb_build_object('success', true, 'level', v_level.level, 'levelName', v_level.name);
+end;
+$$;
@@ -0,0 +1,282 @@
+-- Inventory reservation RPCs
+-- Listed goods stay in the seller's facility inventory but are reserved
+-- (FacilityInventoryItem.reservedQuantity) so they cannot be listed twice
+-- or consumed as recipe inputs by the game tick.
+-- Listings are created here too, together with their reservations and listing fee.
+-- Requires adjust_inventory_item / inventory_item_quantity
+-- (create_purchase_from_listing_function.sql).
+
+-- ============================================================================
+-- INVENTORY HELPERS
+-- ============================================================================
+
+-- Reserved quantity of a resource in a facility inventory JSON document
+create or replace function inventory_item_reserved(
+  p_inventory jsonb,
+  p_resource_id text
+) returns numeric
+language sql
+immutable
+as $$
+  select coalesce(sum(coalesce((item->>'reservedQuantity')::numeric, 0)), 0)
+    from jsonb_array_elements(coalesce(p_inventory->'items', '[]'::jsonb)) as item
+   where item->>'resourceId' = p_resource_id;
+$$;
+
+-- Change the reserved quantity of a resource by p_delta, clamped to [0, quantity]
+create or replace function adjust_inventory_reservation(
+  p_inventory jsonb,
+  p_resource_id text,
+  p_delta numeric
+) returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_new_items jsonb := '[]'::jsonb;
+  v_item jsonb;
+  v_reserved numeric;
+begin
+  for v_item in select value from jsonb_array_elements(coalesce(p_inventory->'items', '[]'::jsonb)) loop
+    if v_item->>'resourceId' = p_resource_id then
+      v_reserved := greatest(0, least(
+        (v_item->>'quantity')::numeric,
+        coalesce((v_item->>'reservedQuantity')::numeric, 0) + p_delta
+      ));
+      v_item := jsonb_set(v_item, '{reservedQuantity}', to_jsonb(v_reserved));
+    end if;
+    v_new_items := v_new_items || jsonb_build_array(v_item);
+  end loop;
+
+  return jsonb_set(coalesce(p_inventory, '{}'::jsonb), '{items}', v_new_items);
+end;
+$$;
+
+-- ============================================================================
+-- RESERVE / RELEASE
+-- ============================================================================
+
+-- Reserve unreserved stock for a listing
+-- Returns { success: boolean, error?: text, availableQuantity: numeric }
+create or replace function reserve_inventory(
+  p_facility_id uuid,
+  p_resource_id text,
+  p_quantity numeric
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_inventory jsonb;
+  v_available numeric;
+begin
+  select inventory into v_inventory from facilities where id = p_facility_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Facility not found', 'availableQuantity', 0);
+  end if;
+
+  v_available := inventory_item_quantity(v_inventory, p_resource_id)
+               - inventory_item_reserved(v_inventory, p_resource_id);
+
+  if p_quantity <= 0 or v_available < p_quantity then
+    return jsonb_build_object(
+      'success', false,
+      'error', format('Insufficient unreserved quantity. Available: %s, Requested: %s', v_available, p_quantity),
+      'availableQuantity', v_available
+    );
+  end if;
+
+  update facilities
+     set inventory = adjust_inventory_reservation(inventory, p_resource_id, p_quantity),
+         updated_at = now()
+   where id = p_facility_id;
+
+  return jsonb_build_object('success', true, 'availableQuantity', v_available - p_quantity);
+end;
+$$;
+
+-- Release a reservation (listing cancelled, expired or reduced)
+create or replace function release_inventory(
+  p_facility_id uuid,
+  p_resource_id text,
+  p_quantity numeric
+) returns void
+language plpgsql
+security definer
+as $$
+begin
+  update facilities
+     set inventory = adjust_inventory_reservation(inventory, p_resource_id, -p_quantity),
+         updated_at = now()
+   where id = p_facility_id;
+end;
+$$;
+
+-- ============================================================================
+-- LISTING CREATION
+-- ============================================================================
+
+-- Create listings for a facility and charge the listing fee in one transaction
+-- p_listings: [{ resourceId, quantity, pricePerUnit, expiryTicks, expiresAtTick }]
+-- Every listing reserves its stock; the company pays market_fee_amount('listing_fee')
+-- per listing, credited to the market_fees system account (create_market_fees.sql).
+-- If any listing cannot be reserved or the fee cannot be paid, nothing is created.
+-- Returns { success: boolean, error?: text, listingFee: numeric, listings: market_listings[] }
+create or replace function create_market_listings(
+  p_company_id uuid,
+  p_facility_id uuid,
+  p_listings jsonb,
+  p_fee_category text default 'listing_fee'
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_count integer := coalesce(jsonb_array_length(p_listings), 0);
+  v_money numeric;
+  v_facility_company_id uuid;
+  v_fee numeric;
+  v_item jsonb;
+  v_reservation jsonb;
+  v_listing market_listings%rowtype;
+  v_created jsonb := '[]'::jsonb;
+begin
+  if v_count = 0 then
+    return jsonb_build_object('success', false, 'error', 'No listings to create');
+  end if;
+
+  -- Lock the paying company, then the facility the stock is reserved in
+  select money into v_money from companies where id = p_company_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Company not found');
+  end if;
+
+  select company_id into v_facility_company_id from facilities where id = p_facility_id for update;
+  if not found or v_facility_company_id <> p_company_id then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  v_fee := market_fee_amount('listing_fee', 0) * v_count;
+  if v_money < v_fee then
+    return jsonb_build_object(
+      'success', false,
+      'error', format('Insufficient funds for the listing fee of %s', v_fee)
+    );
+  end if;
+
+  -- A failed listing rolls back the reservations and listings made before it
+  begin
+    for v_item in select * from jsonb_array_elements(p_listings) loop
+      if (v_item->>'pricePerUnit')::numeric < 0 then
+        raise exception '%: Price cannot be negative', v_item->>'resourceId';
+      end if;
+
+      v_reservation := reserve_inventory(
+        p_facility_id, v_item->>'resourceId', (v_item->>'quantity')::numeric
+      );
+      if not (v_reservation->>'success')::boolean then
+        raise exception '%: %', v_item->>'resourceId', v_reservation->>'error';
+      end if;
+
+      insert into market_listings (
+        facility_id, company_id, resource_id, quantity, price_per_unit,
+        listing_status, expiry_ticks, expires_at_tick
+      ) values (
+        p_facility_id, p_company_id, v_item->>'resourceId', (v_item->>'quantity')::numeric,
+        (v_item->>'pricePerUnit')::numeric, 'active',
+        (v_item->>'expiryTicks')::integer, (v_item->>'expiresAtTick')::integer
+      )
+      returning * into v_listing;
+
+      v_created := v_created || to_jsonb(v_listing);
+    end loop;
+  exception when others then
+    return jsonb_build_object('success', false, 'error', sqlerrm);
+  end;
+
+  if v_fee > 0 then
+    perform apply_company_transaction(
+      p_company_id,
+      -v_fee,
+      case when v_count = 1
+        then format('Listing fee: %s x %s', p_listings->0->>'quantity', p_listings->0->>'resourceId')
+        else format('Listing fee: %s listings', v_count)
+      end,
+      p_fee_category
+    );
+    perform credit_system_account('market_fees', v_fee);
+  end if;
+
+  return jsonb_build_object('success', true, 'listingFee', v_fee, 'listings', v_created);
+end;
+$$;
+
+-- ============================================================================
+-- LISTING CANCELLATION
+-- ============================================================================
+
+-- Cancel a single listing and release its reservation in one transaction
+create or replace function cancel_market_listing(
+  p_listing_id uuid
+) returns market_listings
+language plpgsql
+security definer
+as $$
+declare
+  v_listing market_listings%rowtype;
+begin
+  select * into v_listing from market_listings where id = p_listing_id for update;
+  if not found then
+    raise exception 'Listing not found';
+  end if;
+
+  if v_listing.listing_status = 'active' then
+    perform release_inventory(v_listing.facility_id, v_listing.resource_id, v_listing.quantity);
+    -- Price history (create_price_history.sql)
+    perform record_market_price_event(
+      v_listing.id, v_listing.resource_id, 'cancellation', v_listing.quantity, v_listing.price_per_unit
+    );
+  end if;
+
+  update market_listings
+     set listing_status = 'cancelled',
+         updated_at = now()
+   where id = p_listing_id
+  returning * into v_listing;
+
+  return v_listing;
+end;
+$$;
+
+-- Cancel all active listings of a facility and release their reservations
+-- Returns the number of cancelled listings
+create or replace function cancel_facility_listings(
+  p_facility_id uuid
+) returns integer
+language plpgsql
+security definer
+as $$
+declare
+  v_listing market_listings%rowtype;
+  v_count integer := 0;
+begin
+  for v_listing in
+    select * from market_listings
+     where facility_id = p_facility_id
+       and listing_status = 'active'
+     for update
+  loop
+    perform release_inventory(v_listing.facility_id, v_listing.resource_id, v_listing.quantity);
+    perform record_market_price_event(
+      v_listing.id, v_listing.resource_id, 'cancellation', v_listing.quantity, v_listing.price_per_unit
+    );
+    update market_listings
+       set listing_status = 'cancelled',
+           updated_at = now()
+     where id = v_listing.id;
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
@@ -0,0 +1,126 @@
+-- Listing expiry driven by game ticks
+-- Listings may carry an optional lifetime in ticks. The game-tick edge function
+-- calls expire_market_listings each tick; expired listings release their
+-- inventory reservation and can be renewed by the seller.
+-- Requires create_inventory_reservation_functions.sql.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table market_listings
+  add column if not exists expiry_ticks integer check (expiry_ticks is null or expiry_ticks > 0),
+  add column if not exists expires_at_tick integer;
+
+create index if not exists idx_market_listings_active_expiry
+  on market_listings(expires_at_tick)
+  where listing_status = 'active' and expires_at_tick is not null;
+
+-- ============================================================================
+-- EXPIRE
+-- ============================================================================
+
+-- Expire all active listings of a world whose expires_at_tick has been reached
+-- Returns one row per expired listing so the caller can notify sellers
+create or replace function expire_market_listings(
+  p_current_tick integer,
+  p_world_id text default 'global'
+) returns table (
+  listing_id uuid,
+  company_id uuid,
+  company_name text,
+  resource_id text,
+  resource_name text,
+  quantity numeric
+)
+language plpgsql
+security definer
+as $$
+#variable_conflict use_column
+declare
+  v_listing market_listings%rowtype;
+begin
+  for v_listing in
+    select * from market_listings
+     where listing_status = 'active'
+       and expires_at_tick is not null
+       and expires_at_tick <= p_current_tick
+       and world_id = p_world_id
+     for update
+  loop
+    perform release_inventory(v_listing.facility_id, v_listing.resource_id, v_listing.quantity);
+
+    update market_listings
+       set listing_status = 'expired',
+           updated_at = now()
+     where id = v_listing.id;
+
+    listing_id := v_listing.id;
+    company_id := v_listing.company_id;
+    select c.name into company_name from companies c where c.id = v_listing.company_id;
+    resource_id := v_listing.resource_id;
+    select coalesce(max(r.name), v_listing.resource_id) into resource_name
+      from resources r where r.id = v_listing.resource_id;
+    quantity := v_listing.quantity;
+    return next;
+  end loop;
+end;
+$$;
+
+-- ============================================================================
+-- RENEW
+-- ============================================================================
+
+-- Renew an active or expired listing for another p_expiry_ticks
+-- (defaults to the listing's own expiry_ticks). Expired listings re-reserve
+-- their quantity first and fail if the stock is no longer available.
+-- Returns { success, error?, expiresAtTick? }
+create or replace function renew_market_listing(
+  p_listing_id uuid,
+  p_expiry_ticks integer default null
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_listing market_listings%rowtype;
+  v_expiry_ticks integer;
+  v_current_tick integer;
+  v_reservation jsonb;
+begin
+  select * into v_listing from market_listings where id = p_listing_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Listing not found');
+  end if;
+
+  if v_listing.listing_status not in ('active', 'expired') then
+    return jsonb_build_object('success', false, 'error', 'Only active or expired listings can be renewed');
+  end if;
+
+  v_expiry_ticks := coalesce(p_expiry_ticks, v_listing.expiry_ticks);
+  if v_expiry_ticks is null or v_expiry_ticks <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Listing has no expiry to renew');
+  end if;
+
+  if v_listing.listing_status = 'expired' then
+    v_reservation := reserve_inventory(v_listing.facility_id, v_listing.resource_id, v_listing.quantity);
+    if not (v_reservation->>'success')::boolean then
+      return jsonb_build_object('success', false, 'error', v_reservation->>'error');
+    end if;
+  end if;
+
+  v_current_tick := (company_game_time(v_listing.company_id)).tick;
+
+  update market_listings
+     set listing_status = 'active',
+         expiry_ticks = v_expiry_ticks,
+         expires_at_tick = coalesce(v_current_tick, 0) + v_expiry_ticks,
+         updated_at = now()
+   where id = p_listing_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'expiresAtTick', coalesce(v_current_tick, 0) + v_expiry_ticks
+  );
+end;
+$$;
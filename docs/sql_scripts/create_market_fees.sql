@@ -0,0 +1,108 @@
+-- Marketplace fees
+-- Fee rates are game data like recipes and resources: the client loads them once
+-- via loadGameData, the trade RPCs read them directly.
+-- Fees are paid to the 'market_fees' system account: the money is deducted
+-- from the paying company and credited to system_accounts in the same transaction.
+--   listing_fee  flat amount charged per listing created
+--                (create_market_listings, with the listings themselves)
+--   sales_fee    percentage of the trade value charged to the seller
+--                (purchase_from_listing, in the trade's own transaction)
+-- Run before create_purchase_from_listing_function.sql.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+create table if not exists market_fees (
+  id text primary key,
+  name text not null,
+  fee_type text not null check (fee_type in ('flat', 'percent')),
+  rate numeric not null check (rate >= 0), -- money for flat fees, fraction for percent fees
+  description text,
+  sort_order integer not null default 0
+);
+
+alter table market_fees enable row level security;
+
+create policy "Anyone can view market fees"
+  on market_fees for select
+  using (true);
+
+insert into market_fees (id, name, fee_type, rate, description, sort_order) values
+  ('listing_fee', 'Listing Fee', 'flat', 1.00, 'Charged for every listing created', 1),
+  ('sales_fee', 'Sales Fee', 'percent', 0.02, 'Share of the sale value charged to the seller', 2)
+on conflict (id) do nothing;
+
+-- ============================================================================
+-- SYSTEM ACCOUNTS
+-- ============================================================================
+
+-- Balances held by the game itself rather than by a company
+create table if not exists system_accounts (
+  id text primary key,
+  name text not null,
+  balance numeric not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+alter table system_accounts enable row level security;
+
+create policy "Anyone can view system accounts"
+  on system_accounts for select
+  using (true);
+
+insert into system_accounts (id, name) values
+  ('market_fees', 'Market Fees')
+on conflict (id) do nothing;
+
+-- Credit an amount to a system account; called by the RPCs that charge fees
+create or replace function credit_system_account(
+  p_account_id text,
+  p_amount numeric
+) returns void
+language sql
+security definer
+as $$
+  update system_accounts
+     set balance = balance + p_amount,
+         updated_at = now()
+   where id = p_account_id;
+$$;
+
+-- ============================================================================
+-- FEE CALCULATION
+-- ============================================================================
+
+-- Fee owed for a value, rounded to cents; unknown fees cost nothing
+create or replace function market_fee_amount(
+  p_fee_id text,
+  p_value numeric
+) returns numeric
+language sql
+stable
+as $$
+  select coalesce((
+    select round(greatest(0, case when fee_type = 'percent' then p_value * rate else rate end), 2)
+      from market_fees
+     where id = p_fee_id
+  ), 0);
+$$;
+
+-- ============================================================================
+-- FEES COLLECTED
+-- ============================================================================
+
+-- Net amount recorded under the given transaction categories across all companies
+-- (fees are negative amounts)
+-- Security definer: transaction rows are otherwise only readable by their owner
+create or replace function sum_transactions_by_category(
+  p_categories text[]
+) returns numeric
+language sql
+stable
+security definer
+as $$
+  select coalesce(sum(amount), 0)
+    from transactions
+   where category = any(p_categories);
+$$;
@@ -0,0 +1,314 @@
+-- Market buy orders (bids) and matching engine
+-- A buy order asks for up to `quantity` units of a resource at a maximum unit
+-- price, delivered into one of the buyer's facilities.
+-- Orders are matched against active listings with price-time priority:
+--   * placing an order fills against the cheapest listings first, oldest first
+--     among equal prices, at the listing price
+--   * a new listing fills against the highest bids first, oldest first among
+--     equal prices, at the order price
+-- Every fill is settled through purchase_from_listing, so inventory, money,
+-- listing quantity and transactions move together.
+-- Order prices are goods prices: fills from other cities also pay shipping.
+-- Requires create_purchase_from_listing_function.sql,
+-- create_inventory_reservation_functions.sql and create_shipping.sql.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+create table if not exists market_orders (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  facility_id uuid not null references facilities(id) on delete cascade,
+  resource_id text not null,
+  quantity numeric not null check (quantity >= 0), -- Remaining (unfilled) quantity
+  filled_quantity numeric not null default 0 check (filled_quantity >= 0),
+  max_price_per_unit numeric not null check (max_price_per_unit >= 0),
+  order_status text not null default 'open' check (order_status in ('open', 'filled', 'cancelled')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_market_orders_company on market_orders(company_id);
+create index if not exists idx_market_orders_facility on market_orders(facility_id);
+create index if not exists idx_market_orders_open_resource
+  on market_orders(resource_id, max_price_per_unit desc, created_at)
+  where order_status = 'open';
+
+alter table market_orders enable row level security;
+
+-- The game has no Supabase auth: the order book reads open orders, companies
+-- read their own filled and cancelled orders by company id
+create policy "Anyone can view market orders"
+  on market_orders for select
+  using (true);
+
+-- Orders are written only through the RPCs below (security definer)
+
+-- ============================================================================
+-- MATCHING HELPERS
+-- ============================================================================
+
+-- Largest quantity the buyer facility/company can take at a unit price
+-- plus shipping per unit; units in transit to the facility hold their space
+drop function if exists buy_order_fill_limit(uuid, numeric);
+
+create or replace function buy_order_fill_limit(
+  p_facility_id uuid,
+  p_price_per_unit numeric,
+  p_shipping_per_unit numeric default 0
+) returns numeric
+language plpgsql
+stable
+as $$
+declare
+  v_free_capacity numeric;
+  v_money numeric;
+begin
+  select greatest(0,
+           coalesce((f.inventory->>'capacity')::numeric, 1000)
+           - coalesce((f.inventory->>'currentUsage')::numeric, 0)
+           - inbound_shipment_quantity(f.id)
+         ),
+         c.money
+    into v_free_capacity, v_money
+    from facilities f
+    join companies c on c.id = f.company_id
+   where f.id = p_facility_id;
+
+  if not found then
+    return 0;
+  end if;
+
+  if p_price_per_unit + p_shipping_per_unit <= 0 then
+    return v_free_capacity;
+  end if;
+
+  return least(v_free_capacity, floor(v_money / (p_price_per_unit + p_shipping_per_unit)));
+end;
+$$;
+
+-- Record a fill on an order, marking it filled when nothing remains
+create or replace function apply_order_fill(
+  p_order_id uuid,
+  p_quantity numeric
+) returns void
+language sql
+as $$
+  update market_orders
+     set quantity = quantity - p_quantity,
+         filled_quantity = filled_quantity + p_quantity,
+         order_status = case when quantity - p_quantity <= 0 then 'filled' else order_status end,
+         updated_at = now()
+   where id = p_order_id;
+$$;
+
+-- ============================================================================
+-- PLACE ORDER
+-- ============================================================================
+
+-- Insert a buy order and immediately match it against active listings
+-- Returns { success, error?, order?, filledQuantity, totalCost }
+drop function if exists place_market_order(uuid, uuid, text, numeric, numeric, text, text);
+drop function if exists place_market_order(uuid, uuid, text, numeric, numeric, text, text, text);
+
+create or replace function place_market_order(
+  p_company_id uuid,
+  p_facility_id uuid,
+  p_resource_id text,
+  p_quantity numeric,
+  p_max_price_per_unit numeric,
+  p_purchase_category text default 'market_purchase',
+  p_sale_category text default 'market_sale',
+  p_fee_category text default 'sales_fee',
+  p_shipping_category text default 'shipping'
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_order market_orders%rowtype;
+  v_listing market_listings%rowtype;
+  v_fill numeric;
+  v_result jsonb;
+  v_filled numeric := 0;
+  v_total_cost numeric := 0;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+  end if;
+
+  if p_max_price_per_unit is null or p_max_price_per_unit < 0 then
+    return jsonb_build_object('success', false, 'error', 'Maximum price cannot be negative');
+  end if;
+
+  perform 1 from facilities where id = p_facility_id and company_id = p_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Destination facility does not belong to this company');
+  end if;
+
+  insert into market_orders (company_id, facility_id, resource_id, quantity, max_price_per_unit)
+  values (p_company_id, p_facility_id, p_resource_id, p_quantity, p_max_price_per_unit)
+  returning * into v_order;
+
+  -- Price-time priority: cheapest listing first, oldest first within a price
+  for v_listing in
+    select * from market_listings
+     where resource_id = p_resource_id
+       and listing_status = 'active'
+       and price_per_unit <= p_max_price_per_unit
+       and company_id <> p_company_id
+       and world_id = v_order.world_id
+     order by price_per_unit asc, created_at asc
+  loop
+    v_fill := least(
+      v_order.quantity,
+      v_listing.quantity,
+      buy_order_fill_limit(
+        p_facility_id, v_listing.price_per_unit,
+        facility_shipping_cost_per_unit(v_listing.facility_id, p_facility_id)
+      )
+    );
+    -- Shipping makes affordability listing-dependent: a nearer listing may still fit
+    continue when v_fill <= 0;
+
+    v_result := purchase_from_listing(
+      v_listing.id, p_facility_id, v_fill, p_purchase_category, p_sale_category,
+      null, p_fee_category, p_shipping_category
+    );
+
+    -- Seller-side failures (listing taken, stock gone) skip to the next listing
+    continue when not (v_result->>'success')::boolean;
+
+    perform apply_order_fill(v_order.id, v_fill);
+    v_order.quantity := v_order.quantity - v_fill;
+    v_filled := v_filled + v_fill;
+    v_total_cost := v_total_cost + (v_result->>'totalPrice')::numeric;
+
+    exit when v_order.quantity <= 0;
+  end loop;
+
+  select * into v_order from market_orders where id = v_order.id;
+
+  return jsonb_build_object(
+    'success', true,
+    'order', to_jsonb(v_order),
+    'filledQuantity', v_filled,
+    'totalCost', v_total_cost
+  );
+end;
+$$;
+
+-- ============================================================================
+-- MATCH NEW LISTING
+-- ============================================================================
+
+-- Fill open buy orders from a newly created listing
+-- Returns { success, filledQuantity, totalPrice, ordersFilled }
+drop function if exists match_listing_orders(uuid, text, text);
+drop function if exists match_listing_orders(uuid, text, text, text);
+
+create or replace function match_listing_orders(
+  p_listing_id uuid,
+  p_purchase_category text default 'market_purchase',
+  p_sale_category text default 'market_sale',
+  p_fee_category text default 'sales_fee',
+  p_shipping_category text default 'shipping'
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_listing market_listings%rowtype;
+  v_order market_orders%rowtype;
+  v_fill numeric;
+  v_result jsonb;
+  v_filled numeric := 0;
+  v_total_price numeric := 0;
+  v_orders_filled integer := 0;
+begin
+  select * into v_listing from market_listings where id = p_listing_id;
+  if not found or v_listing.listing_status <> 'active' then
+    return jsonb_build_object('success', true, 'filledQuantity', 0, 'totalPrice', 0, 'ordersFilled', 0);
+  end if;
+
+  -- Price-time priority: highest bid first, oldest first within a price
+  for v_order in
+    select * from market_orders
+     where resource_id = v_listing.resource_id
+       and order_status = 'open'
+       and max_price_per_unit >= v_listing.price_per_unit
+       and company_id <> v_listing.company_id
+       and world_id = v_listing.world_id
+     order by max_price_per_unit desc, created_at asc
+     for update
+  loop
+    v_fill := least(
+      v_order.quantity,
+      v_listing.quantity,
+      buy_order_fill_limit(
+        v_order.facility_id, v_order.max_price_per_unit,
+        facility_shipping_cost_per_unit(v_listing.facility_id, v_order.facility_id)
+      )
+    );
+    -- Buyer cannot take anything right now; the order stays open for later listings
+    continue when v_fill <= 0;
+
+    -- The resting order sets the trade price
+    v_result := purchase_from_listing(
+      v_listing.id, v_order.facility_id, v_fill,
+      p_purchase_category, p_sale_category, v_order.max_price_per_unit,
+      p_fee_category, p_shipping_category
+    );
+
+    if not (v_result->>'success')::boolean then
+      -- Listing itself is no longer fillable (sold, seller stock gone)
+      exit when (select listing_status from market_listings where id = v_listing.id) <> 'active';
+      continue;
+    end if;
+
+    perform apply_order_fill(v_order.id, v_fill);
+    v_listing.quantity := (v_result->>'remainingQuantity')::numeric;
+    v_filled := v_filled + v_fill;
+    v_total_price := v_total_price + (v_result->>'totalPrice')::numeric;
+    v_orders_filled := v_orders_filled + 1;
+
+    exit when v_listing.quantity <= 0;
+  end loop;
+
+  return jsonb_build_object(
+    'success', true,
+    'filledQuantity', v_filled,
+    'totalPrice', v_total_price,
+    'ordersFilled', v_orders_filled
+  );
+end;
+$$;
+
+-- ============================================================================
+-- CANCEL ORDER
+-- ============================================================================
+
+create or replace function cancel_market_order(
+  p_order_id uuid
+) returns market_orders
+language plpgsql
+security definer
+as $$
+declare
+  v_order market_orders%rowtype;
+begin
+  update market_orders
+     set order_status = 'cancelled',
+         updated_at = now()
+   where id = p_order_id
+     and order_status = 'open'
+  returning * into v_order;
+
+  if not found then
+    raise exception 'Order not found or no longer open';
+  end if;
+
+  return v_order;
+end;
+$$;
@@ -0,0 +1,100 @@
+-- Market price history
+-- Every price change, sale and cancellation of a market listing is stored with
+-- the game time it happened at. The client aggregates these events into
+-- daily/monthly OHLC series and a volume-weighted average price (VWAP).
+-- Sales are recorded by purchase_from_listing, cancellations by
+-- cancel_market_listing / cancel_facility_listings, price changes by the
+-- trigger below.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+create table if not exists market_price_events (
+  id uuid primary key default gen_random_uuid(),
+  listing_id uuid references market_listings(id) on delete set null,
+  resource_id text not null,
+  event_type text not null check (event_type in ('price_change', 'sale', 'cancellation')),
+  quantity numeric not null,
+  price_per_unit numeric not null,
+  game_tick integer not null,
+  game_day integer not null,
+  game_month integer not null,
+  game_year integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_market_price_events_resource_tick
+  on market_price_events(resource_id, game_tick);
+
+alter table market_price_events enable row level security;
+
+create policy "Anyone can view price history"
+  on market_price_events for select
+  using (true);
+
+-- Events are written only by the security definer functions below
+
+-- ============================================================================
+-- RECORDING
+-- ============================================================================
+
+-- Store one price event at the game time of its world
+-- The world is p_world_id when given (sales without a listing, such as trade
+-- offers), otherwise the listing's world.
+drop function if exists record_market_price_event(uuid, text, text, numeric, numeric);
+
+create or replace function record_market_price_event(
+  p_listing_id uuid,
+  p_resource_id text,
+  p_event_type text,
+  p_quantity numeric,
+  p_price_per_unit numeric,
+  p_world_id text default null
+) returns void
+language plpgsql
+security definer
+as $$
+declare
+  v_world_id text := p_world_id;
+  v_game_time game_time%rowtype;
+begin
+  if v_world_id is null then
+    select world_id into v_world_id from market_listings where id = p_listing_id;
+  end if;
+  v_game_time := world_game_time(v_world_id);
+
+  insert into market_price_events (
+    listing_id, resource_id, event_type, quantity, price_per_unit,
+    game_tick, game_day, game_month, game_year, world_id
+  ) values (
+    p_listing_id, p_resource_id, p_event_type, p_quantity, p_price_per_unit,
+    coalesce(v_game_time.tick, 0), coalesce(v_game_time.day, 1),
+    coalesce(v_game_time.month, 1), coalesce(v_game_time.year, 2024),
+    coalesce(v_world_id, 'global')
+  );
+end;
+$$;
+
+-- Record price changes however the listing is updated
+create or replace function record_listing_price_change()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  if new.price_per_unit is distinct from old.price_per_unit then
+    perform record_market_price_event(
+      new.id, new.resource_id, 'price_change', new.quantity, new.price_per_unit
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_market_listings_price_change on market_listings;
+
+create trigger trg_market_listings_price_change
+  after update of price_per_unit on market_listings
+  for each row
+  execute function record_listing_price_change();
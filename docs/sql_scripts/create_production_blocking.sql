@@ -0,0 +1,13 @@
+-- Production blocking
+-- A production cycle whose outputs do not fit into the facility inventory does
+-- not complete. The game-tick edge function keeps the facility producing, holds
+-- the finished cycle and records why it is stalled; once there is room the
+-- outputs are stored on the next tick and blocked_reason is cleared again.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table facilities
+  add column if not exists blocked_reason text
+    check (blocked_reason is null or blocked_reason in ('storage_full'));
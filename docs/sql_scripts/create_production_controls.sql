@@ -0,0 +1,100 @@
+-- Production pause, resume and cancel
+-- Pausing stops the facility (is_producing = false) but keeps progress_ticks and
+-- the inputs already consumed for the running cycle; resuming continues from there.
+-- A facility the tick stopped for missing inputs took no inputs for its next
+-- cycle, so resuming it starts that cycle at 0 progress.
+-- cycle_inputs_consumed records whether the running cycle's inputs were taken
+-- from the inventory (set by the game-tick edge function when it starts the next
+-- cycle), so cancelling only refunds inputs that were actually paid for.
+-- Cancelling runs server-side (cancel_production) so the refund lands on the
+-- current inventory; it uses adjust_inventory_item
+-- (create_purchase_from_listing_function.sql) and inbound_shipment_quantity
+-- (create_shipping.sql).
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table facilities
+  add column if not exists is_paused boolean not null default false,
+  add column if not exists cycle_inputs_consumed boolean not null default false;
+
+-- ============================================================================
+-- CANCEL
+-- ============================================================================
+
+-- Cancel the running cycle of a facility (keeps the recipe selected)
+-- Locks the facility row, so tick outputs, reservations and deliveries written
+-- since the client loaded it are kept. When the cycle's inputs were consumed,
+-- floor(quantity x p_refund_rate) of each recipe input returns at the cycle's
+-- input quality; a refund that does not fit (counting shipments on their way
+-- to the facility) is refused.
+-- Returns { success: boolean, error?: text, refunded?: [{ resourceId, quantity }], facility?: facilities }
+create or replace function cancel_production(
+  p_facility_id uuid,
+  p_refund_rate numeric default 0
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_facility facilities%rowtype;
+  v_inventory jsonb;
+  v_input jsonb;
+  v_quantity numeric;
+  v_total numeric := 0;
+  v_refunded jsonb := '[]'::jsonb;
+  v_rate numeric := least(1, greatest(0, coalesce(p_refund_rate, 0)));
+begin
+  select * into v_facility from facilities where id = p_facility_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  v_inventory := v_facility.inventory;
+
+  if v_facility.cycle_inputs_consumed and v_rate > 0 then
+    for v_input in
+      select value
+        from recipes, jsonb_array_elements(coalesce(recipes.inputs, '[]'::jsonb))
+       where recipes.id = v_facility.active_recipe_id
+    loop
+      v_quantity := floor((v_input->>'quantity')::numeric * v_rate);
+      if v_quantity > 0 then
+        v_refunded := v_refunded || jsonb_build_array(jsonb_build_object(
+          'resourceId', v_input->>'resourceId',
+          'quantity', v_quantity
+        ));
+        v_total := v_total + v_quantity;
+        v_inventory := adjust_inventory_item(
+          v_inventory, v_input->>'resourceId', v_quantity, v_facility.cycle_input_quality
+        );
+      end if;
+    end loop;
+
+    if coalesce((v_facility.inventory->>'currentUsage')::numeric, 0)
+         + inbound_shipment_quantity(v_facility.id) + v_total
+         > coalesce((v_facility.inventory->>'capacity')::numeric, 1000) then
+      return jsonb_build_object('success', false, 'error', 'Not enough free storage for the refund');
+    end if;
+  end if;
+
+  update facilities
+     set is_producing = false,
+         is_paused = false,
+         progress_ticks = 0,
+         blocked_reason = null,
+         cycle_inputs_consumed = false,
+         cycle_input_quality = null,
+         inventory = v_inventory,
+         updated_at = now()
+   where id = v_facility.id
+  returning * into v_facility;
+
+  return jsonb_build_object(
+    'success', true,
+    'refunded', v_refunded,
+    'facility', to_jsonb(v_facility)
+  );
+end;
+$$;
@@ -0,0 +1,14 @@
+-- Production queue
+-- Each facility carries an ordered schedule of recipes:
+--   { "entries": [{ "id", "recipeId", "mode": "repeat" | "until_stock", "target", "completedCycles" }], "loop": false }
+-- The first entry is the active recipe. After every completed cycle the game-tick
+-- edge function counts the cycle on that entry; once it reaches its target
+-- (cycles, or units of the recipe's main output in stock) the facility switches
+-- to the next entry. An empty queue keeps producing active_recipe_id.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table facilities
+  add column if not exists production_queue jsonb not null default '{"entries": [], "loop": false}'::jsonb;
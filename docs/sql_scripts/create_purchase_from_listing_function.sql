@@ -0,0 +1,416 @@
+-- Market purchase RPC
+-- Executes a marketplace purchase in a single database transaction:
+-- listing, both facility inventories, both company balances and the paired
+-- market_purchase / market_sale transactions are updated together or not at all.
+-- The seller's sales fee (create_market_fees.sql) is charged and credited to the
+-- market_fees system account in the same transaction.
+-- Trades between cities pay shipping and arrive later as a shipment (create_shipping.sql).
+-- Row locks on the listing serialize concurrent buyers of the same listing.
+
+-- ============================================================================
+-- INVENTORY HELPER
+-- ============================================================================
+
+-- Add (positive delta) or remove (negative delta) a resource from a facility
+-- inventory JSON document and recompute currentUsage.
+-- Added units of p_quality blend into the item's quality (quantity-weighted
+-- average, see create_resource_quality.sql); a null p_quality keeps it as it is.
+-- Items that reach zero are removed. Unknown keys on the inventory are preserved.
+drop function if exists adjust_inventory_item(jsonb, text, numeric);
+
+create or replace function adjust_inventory_item(
+  p_inventory jsonb,
+  p_resource_id text,
+  p_delta numeric,
+  p_quality numeric default null
+) returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_items jsonb := coalesce(p_inventory->'items', '[]'::jsonb);
+  v_new_items jsonb := '[]'::jsonb;
+  v_item jsonb;
+  v_quantity numeric;
+  v_found boolean := false;
+  v_usage numeric;
+begin
+  for v_item in select value from jsonb_array_elements(v_items) loop
+    if v_item->>'resourceId' = p_resource_id then
+      v_found := true;
+      v_quantity := (v_item->>'quantity')::numeric + p_delta;
+      if v_quantity > 0 then
+        if p_delta > 0 and p_quality is not null then
+          v_item := jsonb_set(v_item, '{quality}', to_jsonb(round(
+            ((v_quantity - p_delta) * coalesce((v_item->>'quality')::numeric, p_quality) + p_delta * p_quality)
+              / v_quantity,
+            2
+          )));
+        end if;
+        v_item := jsonb_set(v_item, '{quantity}', to_jsonb(v_quantity));
+        -- Reservations can never exceed the stored quantity
+        if v_item ? 'reservedQuantity' then
+          v_item := jsonb_set(v_item, '{reservedQuantity}', to_jsonb(
+            least(v_quantity, (v_item->>'reservedQuantity')::numeric)
+          ));
+        end if;
+        v_new_items := v_new_items || jsonb_build_array(v_item);
+      end if;
+    else
+      v_new_items := v_new_items || jsonb_build_array(v_item);
+    end if;
+  end loop;
+
+  if not v_found and p_delta > 0 then
+    v_new_items := v_new_items || jsonb_build_array(
+      jsonb_strip_nulls(jsonb_build_object(
+        'resourceId', p_resource_id,
+        'quantity', p_delta,
+        'quality', round(p_quality, 2)
+      ))
+    );
+  end if;
+
+  select coalesce(sum((item->>'quantity')::numeric), 0)
+    into v_usage
+    from jsonb_array_elements(v_new_items) as item;
+
+  return jsonb_set(
+    jsonb_set(coalesce(p_inventory, '{}'::jsonb), '{items}', v_new_items),
+    '{currentUsage}',
+    to_jsonb(v_usage)
+  );
+end;
+$$;
+
+-- Quantity of a resource currently held in a facility inventory JSON document
+create or replace function inventory_item_quantity(
+  p_inventory jsonb,
+  p_resource_id text
+) returns numeric
+language sql
+immutable
+as $$
+  select coalesce(sum((item->>'quantity')::numeric), 0)
+    from jsonb_array_elements(coalesce(p_inventory->'items', '[]'::jsonb)) as item
+   where item->>'resourceId' = p_resource_id;
+$$;
+
+-- Quality of a resource's stock in a facility inventory JSON document
+-- Null when the facility holds none or the stock has no recorded quality
+create or replace function inventory_item_quality(
+  p_inventory jsonb,
+  p_resource_id text
+) returns numeric
+language sql
+immutable
+as $$
+  select max((item->>'quality')::numeric)
+    from jsonb_array_elements(coalesce(p_inventory->'items', '[]'::jsonb)) as item
+   where item->>'resourceId' = p_resource_id;
+$$;
+
+-- ============================================================================
+-- TRADE SETTLEMENT
+-- ============================================================================
+
+-- Settle a trade of reserved seller stock between two facilities: inventory
+-- (or a shipment between cities), both balances, the price history and the
+-- purchase / sale / shipping / sales fee transactions.
+-- Shared by listing purchases and private trade offers (create_trade_offers.sql).
+-- The caller must hold p_quantity reserved in the seller facility and lock
+-- whatever record the trade comes from (listing, offer).
+-- Returns { success: boolean, error?: text, totalPrice?: numeric, salesFee?: numeric,
+--           shippingCost?: numeric, arrivesAtTick?: integer }
+-- Validation failures return success = false before any row is modified.
+-- The sales fee is charged to the seller here rather than by the client, because
+-- a buyer's session cannot write the seller's balance or transactions.
+create or replace function settle_trade(
+  p_seller_facility_id uuid,
+  p_buyer_facility_id uuid,
+  p_resource_id text,
+  p_quantity numeric,
+  p_price_per_unit numeric,
+  p_listing_id uuid,
+  p_trade_label text,
+  p_purchase_category text,
+  p_sale_category text,
+  p_fee_category text,
+  p_shipping_category text
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_seller_facility facilities%rowtype;
+  v_buyer_facility facilities%rowtype;
+  v_seller_company companies%rowtype;
+  v_buyer_company companies%rowtype;
+  v_game_time game_time%rowtype;
+  v_total_price numeric;
+  v_sales_fee numeric;
+  v_route city_routes%rowtype;
+  v_shipping_cost numeric := 0;
+  v_arrives_at_tick integer;
+  v_buyer_balance numeric;
+  v_seller_balance numeric;
+  v_quality numeric;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+  end if;
+
+  if p_seller_facility_id = p_buyer_facility_id then
+    return jsonb_build_object('success', false, 'error', 'Cannot buy from the selling facility');
+  end if;
+
+  -- Lock both facilities in id order to avoid deadlocks between opposite trades
+  perform 1 from facilities
+   where id in (p_seller_facility_id, p_buyer_facility_id)
+   order by id
+   for update;
+
+  select * into v_seller_facility from facilities where id = p_seller_facility_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Seller facility not found');
+  end if;
+
+  select * into v_buyer_facility from facilities where id = p_buyer_facility_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Buyer facility not found');
+  end if;
+
+  if v_buyer_facility.company_id = v_seller_facility.company_id then
+    return jsonb_build_object('success', false, 'error', 'Cannot trade with your own company');
+  end if;
+
+  -- Goods already in transit to the buyer facility have their space held
+  if coalesce((v_buyer_facility.inventory->>'currentUsage')::numeric, 0)
+       + inbound_shipment_quantity(v_buyer_facility.id) + p_quantity
+       > coalesce((v_buyer_facility.inventory->>'capacity')::numeric, 1000) then
+    return jsonb_build_object('success', false, 'error', 'Buyer facility does not have enough free capacity');
+  end if;
+
+  if inventory_item_quantity(v_seller_facility.inventory, p_resource_id) < p_quantity then
+    return jsonb_build_object('success', false, 'error', 'Seller no longer holds enough of this resource');
+  end if;
+
+  -- Lock both companies in id order
+  perform 1 from companies
+   where id in (v_seller_facility.company_id, v_buyer_facility.company_id)
+   order by id
+   for update;
+
+  select * into v_seller_company from companies where id = v_seller_facility.company_id;
+  select * into v_buyer_company from companies where id = v_buyer_facility.company_id;
+
+  if v_buyer_company.world_id <> v_seller_company.world_id then
+    return jsonb_build_object('success', false, 'error', 'Seller plays in another world');
+  end if;
+
+  v_total_price := round(p_quantity * p_price_per_unit, 2);
+
+  -- Shipping between cities; same-city trades deliver immediately
+  v_game_time := company_game_time(v_buyer_company.id);
+
+  if v_seller_facility.city_id <> v_buyer_facility.city_id then
+    v_route := find_city_route(v_seller_facility.city_id, v_buyer_facility.city_id);
+    if v_route.from_city_id is null then
+      return jsonb_build_object('success', false, 'error', 'No shipping route between these cities');
+    end if;
+    v_shipping_cost := round(p_quantity * v_route.shipping_cost_per_unit, 2);
+    v_arrives_at_tick := coalesce(v_game_time.tick, 0) + v_route.transit_ticks;
+  end if;
+
+  if v_buyer_company.money < v_total_price + v_shipping_cost then
+    return jsonb_build_object('success', false, 'error', 'Insufficient funds');
+  end if;
+
+  -- Goods carry the seller's stock quality at settlement; listed units belong
+  -- to the same lot (create_resource_quality.sql)
+  v_quality := inventory_item_quality(v_seller_facility.inventory, p_resource_id);
+
+  -- All checks passed: apply the trade
+  -- Sold units leave the seller together with their reservation
+  -- (adjust_inventory_reservation: create_inventory_reservation_functions.sql)
+  update facilities
+     set inventory = adjust_inventory_item(
+           adjust_inventory_reservation(inventory, p_resource_id, -p_quantity),
+           p_resource_id,
+           -p_quantity
+         ),
+         updated_at = now()
+   where id = v_seller_facility.id;
+
+  -- Local trades land immediately; shipped goods wait in transit (deliver_shipments)
+  if v_arrives_at_tick is null then
+    update facilities
+       set inventory = adjust_inventory_item(inventory, p_resource_id, p_quantity, v_quality),
+           updated_at = now()
+     where id = v_buyer_facility.id;
+  else
+    insert into shipments (
+      company_id, listing_id, from_facility_id, to_facility_id, from_city_id, to_city_id,
+      resource_id, quantity, quality, shipping_cost, dispatched_tick, arrives_at_tick
+    ) values (
+      v_buyer_company.id, p_listing_id, v_seller_facility.id, v_buyer_facility.id,
+      v_seller_facility.city_id, v_buyer_facility.city_id,
+      p_resource_id, p_quantity, v_quality, v_shipping_cost,
+      coalesce(v_game_time.tick, 0), v_arrives_at_tick
+    );
+  end if;
+
+  -- Price history (create_price_history.sql), in the world of the trading companies
+  perform record_market_price_event(
+    p_listing_id, p_resource_id, 'sale', p_quantity, p_price_per_unit, v_seller_company.world_id
+  );
+
+  v_sales_fee := market_fee_amount('sales_fee', v_total_price);
+  v_buyer_balance := v_buyer_company.money - v_total_price;
+  v_seller_balance := v_seller_company.money + v_total_price;
+
+  update companies set money = v_buyer_balance - v_shipping_cost, updated_at = now() where id = v_buyer_company.id;
+  update companies set money = v_seller_balance - v_sales_fee, updated_at = now() where id = v_seller_company.id;
+
+  insert into transactions (
+    company_id, amount, description, category, balance_after,
+    game_day, game_month, game_year, game_tick
+  ) values (
+    v_buyer_company.id,
+    -v_total_price,
+    format('%s purchase: %s x %s', p_trade_label, p_quantity, p_resource_id),
+    p_purchase_category,
+    v_buyer_balance,
+    coalesce(v_game_time.day, 1), coalesce(v_game_time.month, 1),
+    coalesce(v_game_time.year, 2024), coalesce(v_game_time.tick, 0)
+  ), (
+    v_seller_company.id,
+    v_total_price,
+    format('%s sale: %s x %s', p_trade_label, p_quantity, p_resource_id),
+    p_sale_category,
+    v_seller_balance,
+    coalesce(v_game_time.day, 1), coalesce(v_game_time.month, 1),
+    coalesce(v_game_time.year, 2024), coalesce(v_game_time.tick, 0)
+  );
+
+  if v_shipping_cost > 0 then
+    insert into transactions (
+      company_id, amount, description, category, balance_after,
+      game_day, game_month, game_year, game_tick
+    ) values (
+      v_buyer_company.id,
+      -v_shipping_cost,
+      format('Shipping: %s x %s from %s to %s', p_quantity, p_resource_id,
+             v_seller_facility.city_id, v_buyer_facility.city_id),
+      p_shipping_category,
+      v_buyer_balance - v_shipping_cost,
+      coalesce(v_game_time.day, 1), coalesce(v_game_time.month, 1),
+      coalesce(v_game_time.year, 2024), coalesce(v_game_time.tick, 0)
+    );
+  end if;
+
+  if v_sales_fee > 0 then
+    insert into transactions (
+      company_id, amount, description, category, balance_after,
+      game_day, game_month, game_year, game_tick
+    ) values (
+      v_seller_company.id,
+      -v_sales_fee,
+      format('%s sales fee: %s x %s', p_trade_label, p_quantity, p_resource_id),
+      p_fee_category,
+      v_seller_balance - v_sales_fee,
+      coalesce(v_game_time.day, 1), coalesce(v_game_time.month, 1),
+      coalesce(v_game_time.year, 2024), coalesce(v_game_time.tick, 0)
+    );
+
+    perform credit_system_account('market_fees', v_sales_fee);
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'totalPrice', v_total_price,
+    'salesFee', v_sales_fee,
+    'shippingCost', v_shipping_cost,
+    'arrivesAtTick', v_arrives_at_tick
+  );
+end;
+$$;
+
+-- ============================================================================
+-- PURCHASE FROM LISTING
+-- ============================================================================
+
+-- Returns the settle_trade result plus remainingQuantity
+-- p_price_per_unit overrides the listing price when a listing fills a resting
+-- buy order at the order's (higher or equal) price; it can never undercut the listing.
+drop function if exists purchase_from_listing(uuid, uuid, numeric, text, text);
+drop function if exists purchase_from_listing(uuid, uuid, numeric, text, text, numeric);
+drop function if exists purchase_from_listing(uuid, uuid, numeric, text, text, numeric, text);
+
+create or replace function purchase_from_listing(
+  p_listing_id uuid,
+  p_buyer_facility_id uuid,
+  p_quantity numeric,
+  p_purchase_category text default 'market_purchase',
+  p_sale_category text default 'market_sale',
+  p_price_per_unit numeric default null,
+  p_fee_category text default 'sales_fee',
+  p_shipping_category text default 'shipping'
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_listing market_listings%rowtype;
+  v_price_per_unit numeric;
+  v_result jsonb;
+  v_remaining numeric;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+  end if;
+
+  -- Lock the listing first: a second buyer blocks here until the first commits
+  select * into v_listing from market_listings where id = p_listing_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Listing not found');
+  end if;
+
+  if v_listing.listing_status <> 'active' then
+    return jsonb_build_object('success', false, 'error', 'Listing is no longer active');
+  end if;
+
+  if v_listing.quantity < p_quantity then
+    return jsonb_build_object(
+      'success', false,
+      'error', format('Only %s units remaining on this listing', v_listing.quantity)
+    );
+  end if;
+
+  v_price_per_unit := coalesce(p_price_per_unit, v_listing.price_per_unit);
+  if v_price_per_unit < v_listing.price_per_unit then
+    return jsonb_build_object('success', false, 'error', 'Price is below the listing price');
+  end if;
+
+  -- Listed units are reserved, so they can be settled directly
+  v_result := settle_trade(
+    v_listing.facility_id, p_buyer_facility_id, v_listing.resource_id, p_quantity,
+    v_price_per_unit, v_listing.id, 'Market',
+    p_purchase_category, p_sale_category, p_fee_category, p_shipping_category
+  );
+
+  if not (v_result->>'success')::boolean then
+    return v_result;
+  end if;
+
+  v_remaining := v_listing.quantity - p_quantity;
+
+  update market_listings
+     set quantity = v_remaining,
+         listing_status = case when v_remaining <= 0 then 'sold' else listing_status end,
+         updated_at = now()
+   where id = v_listing.id;
+
+  return v_result || jsonb_build_object('remainingQuantity', v_remaining);
+end;
+$$;
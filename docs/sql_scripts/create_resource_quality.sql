@@ -0,0 +1,100 @@
+-- Resource quality
+-- Every facility inventory item carries the quality of its stock (1 -> inf):
+-- units of one resource form a single lot whose quality is the
+-- quantity-weighted average of everything added to it.
+-- Production sets quality (game-tick edge function, productionSimulation.ts):
+-- outputs get the average quality of the consumed inputs (3 for recipes
+-- without inputs) scaled by the facility's effectivity.
+-- Goods keep their quality when they move: adjust_inventory_item blends it
+-- into the receiving stock, shipments carry it while in transit, and listings
+-- show the current quality of the stock they reserve. Listed units are part of
+-- the lot, so blending new stock in changes their quality too: sales deliver
+-- the seller's stock quality at settlement, not the quality at listing time.
+-- Run after create_shipping.sql and create_production_controls.sql.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table facilities
+  add column if not exists cycle_input_quality numeric;
+
+-- Defaults match DEFAULT_RESOURCE_QUALITY in productionSimulation.ts
+alter table market_listings
+  add column if not exists quality numeric not null default 3 check (quality > 0);
+
+alter table shipments
+  add column if not exists quality numeric not null default 3 check (quality > 0);
+
+create index if not exists idx_market_listings_resource_quality
+  on market_listings(resource_id, quality)
+  where listing_status = 'active';
+
+-- ============================================================================
+-- EXISTING STOCK
+-- ============================================================================
+
+-- Stock from before quality was tracked gets the default quality
+update facilities
+   set inventory = jsonb_set(inventory, '{items}', (
+         select coalesce(jsonb_agg(
+                  case when item ? 'quality' then item else item || jsonb_build_object('quality', 3) end
+                ), '[]'::jsonb)
+           from jsonb_array_elements(coalesce(inventory->'items', '[]'::jsonb)) as item
+       ))
+ where exists (
+   select 1
+     from jsonb_array_elements(coalesce(inventory->'items', '[]'::jsonb)) as item
+    where not item ? 'quality'
+ );
+
+-- ============================================================================
+-- LISTING QUALITY
+-- ============================================================================
+
+-- A new listing records the quality of the stock it reserves
+-- (same pattern as set_listing_city in create_shipping.sql)
+create or replace function set_listing_quality()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  new.quality := coalesce(
+    (select inventory_item_quality(inventory, new.resource_id) from facilities where id = new.facility_id),
+    new.quality
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_market_listings_quality on market_listings;
+
+create trigger trg_market_listings_quality
+  before insert on market_listings
+  for each row
+  execute function set_listing_quality();
+
+-- Active listings follow their facility's stock quality as the lot changes
+create or replace function sync_listing_quality()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  update market_listings
+     set quality = coalesce(inventory_item_quality(new.inventory, resource_id), quality)
+   where facility_id = new.id
+     and listing_status = 'active'
+     and quality is distinct from coalesce(inventory_item_quality(new.inventory, resource_id), quality);
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_facilities_listing_quality on facilities;
+
+create trigger trg_facilities_listing_quality
+  after update of inventory on facilities
+  for each row
+  when (old.inventory is distinct from new.inventory)
+  execute function sync_listing_quality();
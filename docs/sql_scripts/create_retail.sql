@@ -0,0 +1,130 @@
+-- Retail facilities and consumer demand
+-- Shops are a facility type with facility_types.facility_type = 'retail': no
+-- recipes, a shelf price per resource (facilities.shelf_prices, set by the
+-- client). Each game tick the game-tick edge function lets every city's
+-- consumers buy priced, unreserved stock, cheapest shelf first; settle_retail_sales
+-- removes the sold units and pays the owner the shelf price ('retail_sale'
+-- transaction) in one transaction per shop.
+-- City demand for a resource comes from resources.consumer_price (fair price at
+-- a purchase power of 0.5) and resources.consumer_demand (units per 1000
+-- residents per tick); see src/lib/services/facility/retail.ts.
+-- Run after create_facility_transfers.sql and create_company_transactions.sql.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table resources
+  add column if not exists consumer_price numeric check (consumer_price is null or consumer_price > 0),
+  add column if not exists consumer_demand numeric not null default 0 check (consumer_demand >= 0);
+
+alter table facilities
+  add column if not exists shelf_prices jsonb not null default '{}'::jsonb,
+  add column if not exists retail_sold_tick integer; -- Last tick settle_retail_sales ran for the shop
+
+-- ============================================================================
+-- CONSUMER GOODS
+-- ============================================================================
+
+update resources set consumer_price = 4, consumer_demand = 0.5 where id = 'bread';
+update resources set consumer_price = 2.5, consumer_demand = 0.1 where id = 'flour';
+
+-- ============================================================================
+-- SHOP FACILITY TYPE
+-- ============================================================================
+
+insert into facility_types (
+  id, name, facility_type, auto_start_recipe_id, default_inventory_capacity, default_effectivity,
+  required_workers, build_cost, construction_ticks, icon, sort_order
+) values
+  ('shop', 'Shop', 'retail', null, 2000, 100, 3, 700, 3, '🏪', 11)
+on conflict (id) do nothing;
+
+-- ============================================================================
+-- SALES
+-- ============================================================================
+
+-- Sell units from a shop's shelf to city consumers for one tick
+-- p_sales is [{ resourceId, quantity }] from the edge function's demand split;
+-- each sale is capped at the unreserved stock the shop holds now and paid at its
+-- current shelf price. Stock is adjusted in place (adjust_inventory_item), so
+-- concurrent purchases and deliveries are kept. Main-world revenue adds to the
+-- city's monthly retail spending. A shop settles once per tick.
+-- Returns { success, error?, unitsSold?, revenue?, sales? }
+create or replace function settle_retail_sales(
+  p_facility_id uuid,
+  p_sales jsonb,
+  p_tick integer
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_facility facilities%rowtype;
+  v_sale jsonb;
+  v_resource_id text;
+  v_quantity numeric;
+  v_price numeric;
+  v_inventory jsonb;
+  v_revenue numeric := 0;
+  v_units numeric := 0;
+  v_sold jsonb := '[]'::jsonb;
+  v_goods text[] := '{}';
+begin
+  select * into v_facility from facilities where id = p_facility_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  if v_facility.retail_sold_tick is not distinct from p_tick then
+    return jsonb_build_object('success', false, 'error', 'Retail sales were already settled for this tick');
+  end if;
+
+  v_inventory := v_facility.inventory;
+
+  for v_sale in select * from jsonb_array_elements(coalesce(p_sales, '[]'::jsonb))
+  loop
+    v_resource_id := v_sale->>'resourceId';
+    v_price := (v_facility.shelf_prices->>v_resource_id)::numeric;
+    v_quantity := least(
+      (v_sale->>'quantity')::numeric,
+      inventory_item_quantity(v_inventory, v_resource_id) - inventory_item_reserved(v_inventory, v_resource_id)
+    );
+    continue when v_price is null or v_price <= 0 or v_quantity <= 0;
+
+    v_inventory := adjust_inventory_item(v_inventory, v_resource_id, -v_quantity);
+    v_revenue := v_revenue + v_quantity * v_price;
+    v_units := v_units + v_quantity;
+    v_sold := v_sold || jsonb_build_array(jsonb_build_object('resourceId', v_resource_id, 'quantity', v_quantity));
+    v_goods := v_goods || format('%s %s', v_quantity,
+      coalesce((select name from resources where id = v_resource_id), v_resource_id));
+  end loop;
+
+  v_revenue := round(v_revenue, 2);
+
+  update facilities
+     set inventory = v_inventory,
+         retail_sold_tick = p_tick,
+         updated_at = now()
+   where id = v_facility.id;
+
+  if v_units > 0 then
+    perform apply_company_transaction(v_facility.company_id, v_revenue,
+      format('Retail sales at %s: %s', v_facility.name, array_to_string(v_goods, ', ')), 'retail_sale');
+
+    -- Residents' spending feeds the city's monthly economy (main world only)
+    if v_facility.world_id = 'global' then
+      update cities
+         set retail_spending_month = round(retail_spending_month + v_revenue, 2)
+       where id = v_facility.city_id;
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'unitsSold', v_units,
+    'revenue', v_revenue,
+    'sales', v_sold
+  );
+end;
+$$;
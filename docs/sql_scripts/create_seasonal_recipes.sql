@@ -0,0 +1,24 @@
+-- Seasonal recipe yields
+-- A recipe can carry one output multiplier per game month (7 months of 24
+-- days, see MONTHS_PER_YEAR / DAYS_PER_MONTH); index 0 is month 1. A cycle
+-- yields its outputs × the multiplier of the month it completes in (withSeason
+-- in productionSimulation.ts, applied by the game-tick edge function). Recipes
+-- without multipliers, and months a list leaves out, yield 1.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table recipes
+  add column if not exists seasonal_multipliers numeric[]
+    check (seasonal_multipliers is null or 0 <= all(seasonal_multipliers));
+
+-- ============================================================================
+-- SEED SEASONS
+-- ============================================================================
+
+-- Grain: sown in spring, harvested in months 4-5, nothing grows in winter (month 7)
+update recipes
+   set seasonal_multipliers = array[0.5, 1, 1.2, 2, 1.8, 0.6, 0]::numeric[]
+ where name = 'Grow Grain'
+   and seasonal_multipliers is null;
@@ -0,0 +1,220 @@
+-- Distance-based shipping between cities
+-- Trades between facilities in different cities travel along a city route:
+-- the buyer pays the route's shipping cost per unit on top of the price, and
+-- the goods sit in a shipment (in transit) until the game-tick edge function
+-- delivers them into the buyer facility after the route's transit ticks.
+-- Trades within one city are delivered immediately and ship for free.
+-- Run before create_purchase_from_listing_function.sql and create_market_orders.sql.
+
+-- ============================================================================
+-- CITY ROUTES
+-- ============================================================================
+
+-- One row per city pair, stored once with from_city_id < to_city_id
+create table if not exists city_routes (
+  from_city_id text not null,
+  to_city_id text not null,
+  distance numeric not null check (distance > 0),
+  shipping_cost_per_unit numeric not null check (shipping_cost_per_unit >= 0),
+  transit_ticks integer not null check (transit_ticks >= 1),
+  primary key (from_city_id, to_city_id),
+  check (from_city_id < to_city_id)
+);
+
+alter table city_routes enable row level security;
+
+create policy "Anyone can view city routes"
+  on city_routes for select
+  using (true);
+
+insert into city_routes (from_city_id, to_city_id, distance, shipping_cost_per_unit, transit_ticks) values
+  ('city-1', 'city-2', 120, 0.12, 2),
+  ('city-1', 'city-3', 200, 0.20, 3),
+  ('city-1', 'city-4', 80, 0.08, 1),
+  ('city-1', 'city-5', 100, 0.10, 2),
+  ('city-2', 'city-3', 300, 0.30, 4),
+  ('city-2', 'city-4', 150, 0.15, 2),
+  ('city-2', 'city-5', 220, 0.22, 3),
+  ('city-3', 'city-4', 160, 0.16, 2),
+  ('city-3', 'city-5', 180, 0.18, 3),
+  ('city-4', 'city-5', 90, 0.09, 1)
+on conflict (from_city_id, to_city_id) do nothing;
+
+-- Route between two cities in either direction
+-- Returns a row of nulls for the same city or an unknown pair
+create or replace function find_city_route(
+  p_city_a text,
+  p_city_b text
+) returns city_routes
+language sql
+stable
+as $$
+  select *
+    from city_routes
+   where from_city_id = least(p_city_a, p_city_b)
+     and to_city_id = greatest(p_city_a, p_city_b)
+     and p_city_a <> p_city_b;
+$$;
+
+-- Shipping cost per unit between the cities of two facilities (0 within a city)
+create or replace function facility_shipping_cost_per_unit(
+  p_from_facility_id uuid,
+  p_to_facility_id uuid
+) returns numeric
+language sql
+stable
+as $$
+  select coalesce((
+    select r.shipping_cost_per_unit
+      from facilities f_from
+      join facilities f_to on f_to.id = p_to_facility_id
+      join city_routes r
+        on r.from_city_id = least(f_from.city_id, f_to.city_id)
+       and r.to_city_id = greatest(f_from.city_id, f_to.city_id)
+     where f_from.id = p_from_facility_id
+       and f_from.city_id <> f_to.city_id
+  ), 0);
+$$;
+
+-- ============================================================================
+-- LISTING CITY
+-- ============================================================================
+
+-- Listings carry the seller facility's city so buyers can price shipping
+alter table market_listings
+  add column if not exists city_id text;
+
+update market_listings l
+   set city_id = f.city_id
+  from facilities f
+ where f.id = l.facility_id
+   and l.city_id is null;
+
+create or replace function set_listing_city()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  select city_id into new.city_id from facilities where id = new.facility_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_market_listings_city on market_listings;
+
+create trigger trg_market_listings_city
+  before insert on market_listings
+  for each row
+  execute function set_listing_city();
+
+-- ============================================================================
+-- SHIPMENTS
+-- ============================================================================
+
+create table if not exists shipments (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade, -- Receiving company
+  listing_id uuid references market_listings(id) on delete set null,
+  from_facility_id uuid references facilities(id) on delete set null,
+  to_facility_id uuid not null references facilities(id) on delete cascade,
+  from_city_id text not null,
+  to_city_id text not null,
+  resource_id text not null,
+  quantity numeric not null check (quantity > 0),
+  shipping_cost numeric not null default 0,
+  dispatched_tick integer not null,
+  arrives_at_tick integer not null,
+  shipment_status text not null default 'in_transit' check (shipment_status in ('in_transit', 'delivered')),
+  delivered_tick integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_shipments_company on shipments(company_id);
+create index if not exists idx_shipments_in_transit_arrival
+  on shipments(arrives_at_tick)
+  where shipment_status = 'in_transit';
+create index if not exists idx_shipments_in_transit_facility
+  on shipments(to_facility_id)
+  where shipment_status = 'in_transit';
+
+alter table shipments enable row level security;
+
+-- The game has no Supabase auth: clients read shipments filtered by company id
+create policy "Anyone can view shipments"
+  on shipments for select
+  using (true);
+
+-- Shipments are written only by purchase_from_listing and deliver_shipments
+
+-- Units in transit to a facility; they count against its capacity so that
+-- every shipment still fits when it arrives
+create or replace function inbound_shipment_quantity(
+  p_facility_id uuid
+) returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(quantity), 0)
+    from shipments
+   where to_facility_id = p_facility_id
+     and shipment_status = 'in_transit';
+$$;
+
+-- ============================================================================
+-- DELIVERY
+-- ============================================================================
+
+-- Deliver all shipments of a world that have arrived by p_current_tick
+-- Returns one row per delivery so the caller can notify the receivers
+create or replace function deliver_shipments(
+  p_current_tick integer,
+  p_world_id text default 'global'
+) returns table (
+  shipment_id uuid,
+  company_id uuid,
+  company_name text,
+  facility_name text,
+  resource_id text,
+  resource_name text,
+  quantity numeric
+)
+language plpgsql
+security definer
+as $$
+#variable_conflict use_column
+declare
+  v_shipment shipments%rowtype;
+begin
+  for v_shipment in
+    select * from shipments
+     where shipment_status = 'in_transit'
+       and arrives_at_tick <= p_current_tick
+       and company_id in (select c.id from companies c where c.world_id = p_world_id)
+     order by arrives_at_tick, created_at
+     for update
+  loop
+    update facilities
+       set inventory = adjust_inventory_item(inventory, v_shipment.resource_id, v_shipment.quantity, v_shipment.quality),
+           updated_at = now()
+     where id = v_shipment.to_facility_id;
+
+    update shipments
+       set shipment_status = 'delivered',
+           delivered_tick = p_current_tick,
+           updated_at = now()
+     where id = v_shipment.id;
+
+    shipment_id := v_shipment.id;
+    company_id := v_shipment.company_id;
+    select c.name into company_name from companies c where c.id = v_shipment.company_id;
+    select f.name into facility_name from facilities f where f.id = v_shipment.to_facility_id;
+    resource_id := v_shipment.resource_id;
+    select coalesce(max(r.name), v_shipment.resource_id) into resource_name
+      from resources r where r.id = v_shipment.resource_id;
+    quantity := v_shipment.quantity;
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,492 @@
+-- Recurring supply contracts between facilities
+-- A supplier facility delivers a fixed quantity of a resource to a buyer
+-- facility every interval_ticks, at a fixed unit price, for total_deliveries.
+-- One company proposes, the other accepts (choosing its facility) or rejects.
+-- The game-tick edge function settles due deliveries one contract at a time
+-- with settle_supply_contract_delivery: goods, payments and the delivery record
+-- are written in one transaction.
+-- Deliveries between cities travel like trades (create_shipping.sql): the buyer
+-- pays the route's shipping cost and the goods arrive as a shipment after the
+-- route's transit ticks.
+-- A delivery the supplier cannot stock or the buyer cannot pay or store is a
+-- shortfall: the party at fault pays the other a penalty of
+-- penalty_rate x delivery value, and after max_missed_deliveries shortfalls the
+-- contract is breached.
+-- Run after create_company_transactions.sql and create_shipping.sql.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+create table if not exists supply_contracts (
+  id uuid primary key default gen_random_uuid(),
+  supplier_company_id uuid not null references companies(id) on delete cascade,
+  buyer_company_id uuid not null references companies(id) on delete cascade,
+  supplier_company_name text not null,
+  buyer_company_name text not null,
+  proposed_by_company_id uuid not null references companies(id) on delete cascade,
+  supplier_facility_id uuid references facilities(id) on delete set null, -- Chosen by the supplier
+  buyer_facility_id uuid references facilities(id) on delete set null, -- Chosen by the buyer
+  resource_id text not null,
+  quantity_per_delivery numeric not null check (quantity_per_delivery > 0),
+  price_per_unit numeric not null check (price_per_unit >= 0),
+  interval_ticks integer not null check (interval_ticks > 0),
+  total_deliveries integer not null check (total_deliveries > 0),
+  deliveries_completed integer not null default 0,
+  deliveries_missed integer not null default 0,
+  max_missed_deliveries integer not null default 3 check (max_missed_deliveries > 0),
+  penalty_rate numeric not null default 0.25 check (penalty_rate >= 0),
+  next_delivery_tick integer, -- Set when the contract becomes active
+  contract_status text not null default 'proposed'
+    check (contract_status in ('proposed', 'active', 'fulfilled', 'breached', 'rejected', 'cancelled')),
+  breached_by_company_id uuid references companies(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (supplier_company_id <> buyer_company_id),
+  check (proposed_by_company_id in (supplier_company_id, buyer_company_id))
+);
+
+create index if not exists idx_supply_contracts_supplier on supply_contracts(supplier_company_id);
+create index if not exists idx_supply_contracts_buyer on supply_contracts(buyer_company_id);
+create index if not exists idx_supply_contracts_active_due
+  on supply_contracts(next_delivery_tick)
+  where contract_status = 'active';
+
+alter table supply_contracts enable row level security;
+
+-- The game has no Supabase auth: clients read contracts filtered by company id
+create policy "Anyone can view supply contracts"
+  on supply_contracts for select
+  using (true);
+
+-- One row per scheduled delivery, successful or not
+create table if not exists supply_contract_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  contract_id uuid not null references supply_contracts(id) on delete cascade,
+  delivery_number integer not null,
+  game_tick integer not null,
+  quantity numeric not null,
+  amount numeric not null default 0, -- Paid by the buyer (0 for shortfalls)
+  outcome text not null
+    check (outcome in ('delivered', 'supplier_short', 'buyer_unpaid', 'buyer_no_capacity')),
+  penalty numeric not null default 0,
+  penalty_paid_by_company_id uuid references companies(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_supply_contract_deliveries_contract
+  on supply_contract_deliveries(contract_id, delivery_number);
+
+alter table supply_contract_deliveries enable row level security;
+
+create policy "Anyone can view supply contract deliveries"
+  on supply_contract_deliveries for select
+  using (true);
+
+-- Contracts are written only through the RPCs below (security definer)
+
+-- ============================================================================
+-- PROPOSE
+-- ============================================================================
+
+-- Propose a supply contract to another company
+-- p_side is the proposer's side: 'supply' (p_facility_id delivers) or
+-- 'buy' (p_facility_id receives). The other party picks its facility on accept.
+-- Returns { success: boolean, error?: text, contract?: supply_contracts }
+create or replace function create_supply_contract(
+  p_company_id uuid,
+  p_counterparty_company_id uuid,
+  p_side text,
+  p_facility_id uuid,
+  p_resource_id text,
+  p_quantity_per_delivery numeric,
+  p_price_per_unit numeric,
+  p_interval_ticks integer,
+  p_total_deliveries integer,
+  p_penalty_rate numeric default 0.25,
+  p_max_missed_deliveries integer default 3
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_company companies%rowtype;
+  v_counterparty companies%rowtype;
+  v_contract supply_contracts%rowtype;
+begin
+  if p_side not in ('supply', 'buy') then
+    return jsonb_build_object('success', false, 'error', 'Side must be supply or buy');
+  end if;
+
+  if p_quantity_per_delivery is null or p_quantity_per_delivery <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Quantity per delivery must be greater than 0');
+  end if;
+
+  if p_price_per_unit is null or p_price_per_unit < 0 then
+    return jsonb_build_object('success', false, 'error', 'Price cannot be negative');
+  end if;
+
+  if p_interval_ticks is null or p_interval_ticks <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Interval must be at least 1 tick');
+  end if;
+
+  if p_total_deliveries is null or p_total_deliveries <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Contract needs at least one delivery');
+  end if;
+
+  select * into v_company from companies where id = p_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Company not found');
+  end if;
+
+  select * into v_counterparty from companies where id = p_counterparty_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Contract partner not found');
+  end if;
+
+  if v_company.id = v_counterparty.id then
+    return jsonb_build_object('success', false, 'error', 'Cannot contract with your own company');
+  end if;
+
+  if v_company.world_id <> v_counterparty.world_id then
+    return jsonb_build_object('success', false, 'error', 'Contract partner plays in another world');
+  end if;
+
+  if not exists (select 1 from facilities where id = p_facility_id and company_id = v_company.id) then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  insert into supply_contracts (
+    supplier_company_id, buyer_company_id, supplier_company_name, buyer_company_name,
+    proposed_by_company_id, supplier_facility_id, buyer_facility_id,
+    resource_id, quantity_per_delivery, price_per_unit, interval_ticks, total_deliveries,
+    penalty_rate, max_missed_deliveries
+  ) values (
+    case when p_side = 'supply' then v_company.id else v_counterparty.id end,
+    case when p_side = 'supply' then v_counterparty.id else v_company.id end,
+    case when p_side = 'supply' then v_company.name else v_counterparty.name end,
+    case when p_side = 'supply' then v_counterparty.name else v_company.name end,
+    v_company.id,
+    case when p_side = 'supply' then p_facility_id end,
+    case when p_side = 'buy' then p_facility_id end,
+    p_resource_id, p_quantity_per_delivery, p_price_per_unit, p_interval_ticks, p_total_deliveries,
+    coalesce(p_penalty_rate, 0.25), coalesce(p_max_missed_deliveries, 3)
+  )
+  returning * into v_contract;
+
+  return jsonb_build_object('success', true, 'contract', to_jsonb(v_contract));
+end;
+$$;
+
+-- ============================================================================
+-- ACCEPT / REJECT / CANCEL
+-- ============================================================================
+
+-- Accept a proposed contract with the accepting company's facility
+-- The first delivery is due interval_ticks after acceptance
+-- Returns { success: boolean, error?: text, contract?: supply_contracts }
+create or replace function accept_supply_contract(
+  p_contract_id uuid,
+  p_company_id uuid,
+  p_facility_id uuid
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_contract supply_contracts%rowtype;
+  v_city_id text;
+  v_other_city_id text;
+  v_current_tick integer;
+begin
+  select * into v_contract from supply_contracts where id = p_contract_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Contract not found');
+  end if;
+
+  if v_contract.contract_status <> 'proposed' then
+    return jsonb_build_object('success', false, 'error', format('Contract is already %s', v_contract.contract_status));
+  end if;
+
+  if p_company_id not in (v_contract.supplier_company_id, v_contract.buyer_company_id)
+     or p_company_id = v_contract.proposed_by_company_id then
+    return jsonb_build_object('success', false, 'error', 'Contract is not addressed to this company');
+  end if;
+
+  select city_id into v_city_id from facilities where id = p_facility_id and company_id = p_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  -- Deliveries between cities need a shipping route
+  select city_id into v_other_city_id
+    from facilities
+   where id = coalesce(v_contract.supplier_facility_id, v_contract.buyer_facility_id);
+
+  if v_city_id <> v_other_city_id and (find_city_route(v_city_id, v_other_city_id)).from_city_id is null then
+    return jsonb_build_object('success', false, 'error', 'No shipping route between the contract facilities');
+  end if;
+
+  v_current_tick := (company_game_time(p_company_id)).tick;
+
+  update supply_contracts
+     set contract_status = 'active',
+         supplier_facility_id = case when p_company_id = supplier_company_id then p_facility_id else supplier_facility_id end,
+         buyer_facility_id = case when p_company_id = buyer_company_id then p_facility_id else buyer_facility_id end,
+         next_delivery_tick = coalesce(v_current_tick, 0) + interval_ticks,
+         updated_at = now()
+   where id = p_contract_id
+  returning * into v_contract;
+
+  return jsonb_build_object('success', true, 'contract', to_jsonb(v_contract));
+end;
+$$;
+
+-- Reject a proposed contract addressed to p_company_id
+create or replace function reject_supply_contract(
+  p_contract_id uuid,
+  p_company_id uuid
+) returns supply_contracts
+language plpgsql
+security definer
+as $$
+declare
+  v_contract supply_contracts%rowtype;
+begin
+  update supply_contracts
+     set contract_status = 'rejected',
+         updated_at = now()
+   where id = p_contract_id
+     and contract_status = 'proposed'
+     and p_company_id in (supplier_company_id, buyer_company_id)
+     and p_company_id <> proposed_by_company_id
+  returning * into v_contract;
+
+  if not found then
+    raise exception 'Contract not found or no longer proposed';
+  end if;
+
+  return v_contract;
+end;
+$$;
+
+-- Withdraw a proposed contract before it is accepted
+create or replace function cancel_supply_contract(
+  p_contract_id uuid,
+  p_company_id uuid
+) returns supply_contracts
+language plpgsql
+security definer
+as $$
+declare
+  v_contract supply_contracts%rowtype;
+begin
+  update supply_contracts
+     set contract_status = 'cancelled',
+         updated_at = now()
+   where id = p_contract_id
+     and contract_status = 'proposed'
+     and proposed_by_company_id = p_company_id
+  returning * into v_contract;
+
+  if not found then
+    raise exception 'Contract not found or no longer proposed';
+  end if;
+
+  return v_contract;
+end;
+$$;
+
+-- ============================================================================
+-- DELIVERIES
+-- ============================================================================
+
+-- Settle the due delivery of an active contract in one transaction
+-- Called by the game-tick edge function for each contract due at p_tick. Moves
+-- the goods (keeping the supplier stock's quality) and pays the supplier, or
+-- charges the party at fault a penalty; records the delivery and advances or
+-- ends the contract. A contract that is no longer due (already settled this
+-- tick) is refused, so a retried tick never delivers twice.
+-- Between cities the buyer also pays shipping and the goods leave as a shipment.
+-- Payments go through apply_company_transaction (create_company_transactions.sql).
+-- Returns { success, error?, outcome?, deliveryNumber?, value?, penalty?,
+--           penaltyPaidBy?, contractStatus?, shippingCost?, arrivesAtTick? }
+create or replace function settle_supply_contract_delivery(
+  p_contract_id uuid,
+  p_tick integer
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_contract supply_contracts%rowtype;
+  v_supplier_facility facilities%rowtype;
+  v_buyer_facility facilities%rowtype;
+  v_buyer_money numeric;
+  v_quantity numeric;
+  v_value numeric;
+  v_quality numeric;
+  v_route city_routes%rowtype;
+  v_shipping_cost numeric := 0;
+  v_arrives_at_tick integer;
+  v_goods text;
+  v_reason text;
+  v_outcome text := 'delivered';
+  v_penalty numeric := 0;
+  v_penalty_paid_by uuid;
+  v_payee uuid;
+  v_delivery_number integer;
+  v_completed integer;
+  v_missed integer;
+  v_status text;
+begin
+  select * into v_contract from supply_contracts where id = p_contract_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Contract not found');
+  end if;
+
+  if v_contract.contract_status <> 'active'
+     or v_contract.next_delivery_tick is null
+     or v_contract.next_delivery_tick > p_tick then
+    return jsonb_build_object('success', false, 'error', 'No delivery is due for this contract');
+  end if;
+
+  -- Lock both facilities, then both companies, in id order like settle_trade
+  perform 1 from facilities
+   where id in (v_contract.supplier_facility_id, v_contract.buyer_facility_id)
+   order by id
+   for update;
+
+  perform 1 from companies
+   where id in (v_contract.supplier_company_id, v_contract.buyer_company_id)
+   order by id
+   for update;
+
+  select * into v_supplier_facility from facilities where id = v_contract.supplier_facility_id;
+  select * into v_buyer_facility from facilities where id = v_contract.buyer_facility_id;
+  select money into v_buyer_money from companies where id = v_contract.buyer_company_id;
+
+  v_quantity := v_contract.quantity_per_delivery;
+  v_value := round(v_quantity * v_contract.price_per_unit, 2);
+  v_delivery_number := v_contract.deliveries_completed + v_contract.deliveries_missed + 1;
+  v_goods := format('%s %s', v_quantity,
+    coalesce((select name from resources where id = v_contract.resource_id), v_contract.resource_id));
+
+  -- Shipping between cities, paid by the buyer; same-city deliveries land immediately
+  if v_supplier_facility.city_id <> v_buyer_facility.city_id then
+    v_route := find_city_route(v_supplier_facility.city_id, v_buyer_facility.city_id);
+    if v_route.from_city_id is null then
+      return jsonb_build_object('success', false, 'error', 'No shipping route between the contract facilities');
+    end if;
+    v_shipping_cost := round(v_quantity * v_route.shipping_cost_per_unit, 2);
+    v_arrives_at_tick := p_tick + v_route.transit_ticks;
+  end if;
+
+  -- Only unreserved supplier stock can be delivered; goods in transit hold buyer space
+  if v_supplier_facility.id is null
+     or inventory_item_quantity(v_supplier_facility.inventory, v_contract.resource_id)
+        - inventory_item_reserved(v_supplier_facility.inventory, v_contract.resource_id) < v_quantity then
+    v_outcome := 'supplier_short';
+  elsif coalesce(v_buyer_money, 0) < v_value + v_shipping_cost then
+    v_outcome := 'buyer_unpaid';
+  elsif v_buyer_facility.id is null
+     or coalesce((v_buyer_facility.inventory->>'capacity')::numeric, 1000)
+        - coalesce((v_buyer_facility.inventory->>'currentUsage')::numeric, 0)
+        - inbound_shipment_quantity(v_buyer_facility.id) < v_quantity then
+    v_outcome := 'buyer_no_capacity';
+  end if;
+
+  if v_outcome = 'delivered' then
+    v_quality := inventory_item_quality(v_supplier_facility.inventory, v_contract.resource_id);
+
+    update facilities
+       set inventory = adjust_inventory_item(inventory, v_contract.resource_id, -v_quantity),
+           updated_at = now()
+     where id = v_supplier_facility.id;
+
+    -- Shipped goods wait in transit (deliver_shipments, create_shipping.sql)
+    if v_arrives_at_tick is null then
+      update facilities
+         set inventory = adjust_inventory_item(inventory, v_contract.resource_id, v_quantity, v_quality),
+             updated_at = now()
+       where id = v_buyer_facility.id;
+    else
+      insert into shipments (
+        company_id, listing_id, from_facility_id, to_facility_id, from_city_id, to_city_id,
+        resource_id, quantity, quality, shipping_cost, dispatched_tick, arrives_at_tick
+      ) values (
+        v_contract.buyer_company_id, null, v_supplier_facility.id, v_buyer_facility.id,
+        v_supplier_facility.city_id, v_buyer_facility.city_id,
+        v_contract.resource_id, v_quantity, v_quality, v_shipping_cost,
+        p_tick, v_arrives_at_tick
+      );
+    end if;
+
+    perform apply_company_transaction(v_contract.buyer_company_id, -v_value,
+      format('Contract purchase: %s from %s', v_goods, v_contract.supplier_company_name), 'contract_purchase');
+    perform apply_company_transaction(v_contract.supplier_company_id, v_value,
+      format('Contract sale: %s to %s', v_goods, v_contract.buyer_company_name), 'contract_sale');
+
+    if v_shipping_cost > 0 then
+      perform apply_company_transaction(v_contract.buyer_company_id, -v_shipping_cost,
+        format('Contract shipping: %s from %s to %s', v_goods,
+               v_supplier_facility.city_id, v_buyer_facility.city_id), 'shipping');
+    end if;
+  else
+    v_penalty_paid_by := case when v_outcome = 'supplier_short'
+      then v_contract.supplier_company_id else v_contract.buyer_company_id end;
+    v_payee := case when v_outcome = 'supplier_short'
+      then v_contract.buyer_company_id else v_contract.supplier_company_id end;
+    v_penalty := round(v_value * v_contract.penalty_rate, 2);
+    v_reason := case v_outcome
+      when 'supplier_short' then 'supplier lacked stock'
+      when 'buyer_unpaid' then 'buyer could not pay'
+      else 'buyer facility was full' end;
+
+    if v_penalty > 0 then
+      perform apply_company_transaction(v_penalty_paid_by, -v_penalty,
+        format('Contract penalty paid: missed delivery of %s (%s)', v_goods, v_reason), 'contract_penalty');
+      perform apply_company_transaction(v_payee, v_penalty,
+        format('Contract penalty received: missed delivery of %s (%s)', v_goods, v_reason), 'contract_penalty');
+    end if;
+  end if;
+
+  insert into supply_contract_deliveries (
+    contract_id, delivery_number, game_tick, quantity, amount, outcome, penalty, penalty_paid_by_company_id
+  ) values (
+    v_contract.id, v_delivery_number, p_tick, v_quantity,
+    case when v_outcome = 'delivered' then v_value else 0 end,
+    v_outcome, v_penalty, v_penalty_paid_by
+  );
+
+  v_completed := v_contract.deliveries_completed + case when v_outcome = 'delivered' then 1 else 0 end;
+  v_missed := v_contract.deliveries_missed + case when v_outcome = 'delivered' then 0 else 1 end;
+  v_status := case
+    when v_missed >= v_contract.max_missed_deliveries then 'breached'
+    when v_completed + v_missed >= v_contract.total_deliveries then 'fulfilled'
+    else 'active' end;
+
+  update supply_contracts
+     set deliveries_completed = v_completed,
+         deliveries_missed = v_missed,
+         next_delivery_tick = case when v_status = 'active'
+           then next_delivery_tick + interval_ticks else next_delivery_tick end,
+         contract_status = v_status,
+         breached_by_company_id = case when v_status = 'breached' then v_penalty_paid_by end,
+         updated_at = now()
+   where id = v_contract.id;
+
+  return jsonb_build_object(
+    'success', true,
+    'outcome', v_outcome,
+    'reason', v_reason,
+    'deliveryNumber', v_delivery_number,
+    'value', v_value,
+    'penalty', v_penalty,
+    'penaltyPaidBy', v_penalty_paid_by,
+    'contractStatus', v_status,
+    'shippingCost', case when v_outcome = 'delivered' then v_shipping_cost else 0 end,
+    'arrivesAtTick', case when v_outcome = 'delivered' then v_arrives_at_tick end
+  );
+end;
+$$;
@@ -0,0 +1,487 @@
+-- Locked, idempotent game ticks with an audit log
+-- Every tick of a world is claimed exactly once: claim_world_tick locks the
+-- world's game_time row, checks that the clock still shows the tick the caller
+-- read, advances it and opens a tick_runs record in one transaction. A cron
+-- tick overlapping a manual tick (or a second cron invocation) finds the clock
+-- already moved, or the world's previous run still running, and backs off.
+-- Production progress and cycle completions are applied together by
+-- apply_world_production, so a failure never leaves half a world advanced.
+-- A completion is only written over a facility nobody changed since the edge
+-- function read it (facilities.updated_at, bumped on every update); changed
+-- facilities are returned as conflicts for the edge function to recompute.
+-- Every other step is atomic per contract, shop or facility and remembers the
+-- tick it ran for, or runs as one RPC that records itself as done; finished
+-- steps are kept on the run (completed_steps). A run that failed partway is
+-- resumed by the next claim: the clock stays, completed steps are skipped and
+-- the rest run again, up to tick_run_max_attempts() times.
+-- The edge function closes the run with finish_tick_run: end time, step
+-- counts and any errors. The admin dashboard shows the history.
+-- Run after create_worlds.sql.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+create table if not exists tick_runs (
+  id uuid primary key default gen_random_uuid(),
+  world_id text not null references worlds(id) on delete cascade,
+  tick integer not null, -- Tick the run advanced the world to
+  game_day integer not null,
+  game_month integer not null,
+  game_year integer not null,
+  is_manual boolean not null default false,
+  run_status text not null default 'running'
+    check (run_status in ('running', 'completed', 'completed_with_errors', 'failed')),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  facilities_advanced integer not null default 0,
+  facilities_completed integer not null default 0,
+  production_applied_at timestamptz, -- Last apply_world_production call of the run
+  completed_steps jsonb not null default '[]'::jsonb, -- Names of the steps that finished
+  attempts integer not null default 1, -- 1 + the times the run was resumed
+  summary jsonb not null default '{}'::jsonb, -- Counts of the tick steps, by step
+  errors jsonb not null default '[]'::jsonb, -- Error messages, in order
+  unique (world_id, tick) -- The tick-number lock: one run per world tick
+);
+
+create index if not exists idx_tick_runs_world_started on tick_runs(world_id, started_at desc);
+
+alter table tick_runs enable row level security;
+
+create policy "Anyone can view tick runs"
+  on tick_runs for select
+  using (true);
+
+-- Runs are written only by the security definer functions below
+
+-- A run that has not finished after this long is treated as crashed
+create or replace function tick_run_timeout()
+returns interval
+language sql
+immutable
+as $$
+  select interval '10 minutes';
+$$;
+
+-- How often a tick is tried before the world moves on without it
+create or replace function tick_run_max_attempts()
+returns integer
+language sql
+immutable
+as $$
+  select 3;
+$$;
+
+-- ============================================================================
+-- FACILITY VERSIONS
+-- ============================================================================
+
+-- Tick the facility's production was last applied in; a retried apply skips it
+alter table facilities
+  add column if not exists production_tick integer;
+
+-- Every facility update gets a fresh updated_at, whoever writes it, so the
+-- edge function can tell whether a facility changed since it was read
+create or replace function touch_facility_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_facilities_touch_updated_at on facilities;
+
+create trigger trg_facilities_touch_updated_at
+  before update on facilities
+  for each row
+  execute function touch_facility_updated_at();
+
+-- ============================================================================
+-- CLAIM
+-- ============================================================================
+
+-- Claim the next tick of a world, or resume its failed current tick
+-- p_expected_tick is the tick the caller read; the claim fails when another
+-- invocation advanced the clock since. A failed run of the tick the clock shows
+-- is reopened (resumed = true) with its completed steps, without moving the
+-- clock. Otherwise automatic ticks fail before the world's next_tick_time, and
+-- manual ticks keep the scheduled next tick.
+-- Returns { success, error?, runId?, tick?, resumed?, completedSteps?, summary? }
+create or replace function claim_world_tick(
+  p_world_id text,
+  p_expected_tick integer,
+  p_day integer,
+  p_month integer,
+  p_year integer,
+  p_next_tick_time timestamptz,
+  p_manual boolean default false
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_game_time game_time%rowtype;
+  v_run tick_runs%rowtype;
+begin
+  select * into v_game_time from game_time where id = p_world_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'World clock not found');
+  end if;
+
+  if v_game_time.tick <> p_expected_tick then
+    return jsonb_build_object('success', false, 'error',
+      format('Tick %s was already processed', p_expected_tick + 1));
+  end if;
+
+  -- Close runs that crashed before finishing so they do not block the world forever
+  update tick_runs
+     set run_status = 'failed',
+         finished_at = now(),
+         errors = errors || jsonb_build_array('Run did not finish in time')
+   where world_id = p_world_id
+     and run_status = 'running'
+     and started_at < now() - tick_run_timeout();
+
+  if exists (select 1 from tick_runs where world_id = p_world_id and run_status = 'running') then
+    return jsonb_build_object('success', false, 'error', 'The previous tick of this world is still running');
+  end if;
+
+  -- Resume the current tick when it failed partway
+  update tick_runs
+     set run_status = 'running',
+         attempts = attempts + 1,
+         finished_at = null
+   where world_id = p_world_id
+     and tick = v_game_time.tick
+     and run_status = 'failed'
+     and attempts < tick_run_max_attempts()
+  returning * into v_run;
+
+  if found then
+    return jsonb_build_object(
+      'success', true,
+      'runId', v_run.id,
+      'tick', v_run.tick,
+      'resumed', true,
+      'completedSteps', v_run.completed_steps,
+      'summary', v_run.summary
+    );
+  end if;
+
+  if not p_manual and v_game_time.next_tick_time > now() then
+    return jsonb_build_object('success', false, 'error', 'Not yet time to advance');
+  end if;
+
+  update game_time
+     set tick = v_game_time.tick + 1,
+         day = p_day,
+         month = p_month,
+         year = p_year,
+         last_tick_time = now(),
+         next_tick_time = case when p_manual then next_tick_time else p_next_tick_time end,
+         updated_at = now()
+   where id = p_world_id;
+
+  insert into tick_runs (world_id, tick, game_day, game_month, game_year, is_manual)
+  values (p_world_id, v_game_time.tick + 1, p_day, p_month, p_year, p_manual)
+  returning * into v_run;
+
+  return jsonb_build_object(
+    'success', true,
+    'runId', v_run.id,
+    'tick', v_run.tick,
+    'resumed', false,
+    'completedSteps', v_run.completed_steps,
+    'summary', v_run.summary
+  );
+end;
+$$;
+
+-- ============================================================================
+-- PRODUCTION
+-- ============================================================================
+
+-- Apply one tick of production for a claimed run, in one transaction
+-- p_advanced_ids are the running facilities that only gain a tick of progress;
+-- p_completions hold the new state of facilities that finished a cycle (computed
+-- by the edge function with the shared production simulation), each with the
+-- updated_at the edge function read. A completion whose facility changed since
+-- (a purchase, listing, transfer or delivery) is not written and comes back in
+-- conflicts. Facilities paused since the read are left alone, and facilities
+-- already applied this tick are skipped, so the function can be called again
+-- for the conflicts or a resumed run. Counts add up on the run.
+-- Returns { success, error?, facilitiesAdvanced?, facilitiesCompleted?, conflicts? }
+create or replace function apply_world_production(
+  p_run_id uuid,
+  p_advanced_ids uuid[],
+  p_completions jsonb
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_run tick_runs%rowtype;
+  v_completion jsonb;
+  v_advanced integer := 0;
+  v_completed integer := 0;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_count integer;
+begin
+  select * into v_run from tick_runs where id = p_run_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Tick run not found');
+  end if;
+
+  if v_run.run_status <> 'running' then
+    return jsonb_build_object('success', false, 'error', format('Tick run is already %s', v_run.run_status));
+  end if;
+
+  update facilities
+     set progress_ticks = progress_ticks + 1,
+         production_tick = v_run.tick
+   where id = any(coalesce(p_advanced_ids, '{}'))
+     and world_id = v_run.world_id
+     and is_producing = true
+     and production_tick is distinct from v_run.tick;
+  get diagnostics v_advanced = row_count;
+
+  for v_completion in select * from jsonb_array_elements(coalesce(p_completions, '[]'::jsonb))
+  loop
+    update facilities
+       set inventory = v_completion->'inventory',
+           is_producing = (v_completion->>'is_producing')::boolean,
+           progress_ticks = (v_completion->>'progress_ticks')::integer,
+           blocked_reason = v_completion->>'blocked_reason',
+           active_recipe_id = v_completion->>'active_recipe_id',
+           production_queue = v_completion->'production_queue',
+           cycle_inputs_consumed = (v_completion->>'cycle_inputs_consumed')::boolean,
+           cycle_input_quality = (v_completion->>'cycle_input_quality')::numeric,
+           production_tick = v_run.tick
+     where id = (v_completion->>'id')::uuid
+       and world_id = v_run.world_id
+       and is_producing = true
+       and production_tick is distinct from v_run.tick
+       and updated_at = (v_completion->>'updated_at')::timestamptz;
+    get diagnostics v_count = row_count;
+
+    if v_count = 0 then
+      -- Still due this tick but changed since the read: the caller recomputes it
+      if exists (
+        select 1 from facilities
+         where id = (v_completion->>'id')::uuid
+           and world_id = v_run.world_id
+           and is_producing = true
+           and production_tick is distinct from v_run.tick
+      ) then
+        v_conflicts := v_conflicts || jsonb_build_array(v_completion->>'id');
+      end if;
+      continue;
+    end if;
+
+    v_advanced := v_advanced + 1;
+    if v_completion->>'blocked_reason' is null then
+      v_completed := v_completed + 1;
+    end if;
+  end loop;
+
+  update tick_runs
+     set facilities_advanced = facilities_advanced + v_advanced,
+         facilities_completed = facilities_completed + v_completed,
+         production_applied_at = now()
+   where id = p_run_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'facilitiesAdvanced', v_advanced,
+    'facilitiesCompleted', v_completed,
+    'conflicts', v_conflicts
+  );
+end;
+$$;
+
+-- Earlier versions of create_worlds.sql incremented progress without a run
+drop function if exists advance_world_production(text);
+
+-- ============================================================================
+-- STEPS
+-- ============================================================================
+
+-- Record a finished step of a running run with its count
+-- Steps that finish with errors are not recorded, so a resumed run repeats them
+create or replace function complete_tick_step(
+  p_run_id uuid,
+  p_step text,
+  p_count numeric default 0
+) returns void
+language plpgsql
+security definer
+as $$
+begin
+  update tick_runs
+     set completed_steps = case when completed_steps ? p_step
+           then completed_steps else completed_steps || to_jsonb(p_step) end,
+         summary = summary || jsonb_build_object(p_step, p_count)
+   where id = p_run_id
+     and run_status = 'running';
+end;
+$$;
+
+-- Lock a running run for a step that records itself; null when the run is not
+-- running or the step already finished
+create or replace function lock_tick_step(
+  p_run_id uuid,
+  p_step text
+) returns tick_runs
+language plpgsql
+security definer
+as $$
+declare
+  v_run tick_runs%rowtype;
+begin
+  select * into v_run from tick_runs where id = p_run_id for update;
+  if not found or v_run.run_status <> 'running' or v_run.completed_steps ? p_step then
+    return null;
+  end if;
+  return v_run;
+end;
+$$;
+
+-- Count down facilities under construction and start the finished ones, as the
+-- run's 'facilitiesBuilt' step
+-- Returns { success, error?, finished?: [{ id, name, company_id }] }
+create or replace function advance_world_construction(
+  p_run_id uuid
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_run tick_runs%rowtype;
+  v_finished jsonb;
+begin
+  v_run := lock_tick_step(p_run_id, 'facilitiesBuilt');
+  if v_run.id is null then
+    return jsonb_build_object('success', false, 'error', 'Construction already advanced for this tick');
+  end if;
+
+  with advanced as (
+    update facilities
+       set construction_ticks_remaining = construction_ticks_remaining - 1,
+           is_producing = case when construction_ticks_remaining = 1
+             then active_recipe_id is not null else is_producing end,
+           progress_ticks = case when construction_ticks_remaining = 1 then 0 else progress_ticks end
+     where world_id = v_run.world_id
+       and construction_ticks_remaining > 0
+    returning id, name, company_id, construction_ticks_remaining
+  )
+  select coalesce(jsonb_agg(jsonb_build_object('id', id, 'name', name, 'company_id', company_id)), '[]'::jsonb)
+    into v_finished
+    from advanced
+   where construction_ticks_remaining = 0;
+
+  perform complete_tick_step(p_run_id, 'facilitiesBuilt', jsonb_array_length(v_finished));
+
+  return jsonb_build_object('success', true, 'finished', v_finished);
+end;
+$$;
+
+-- Count down facility upgrades under construction, as the run's
+-- 'upgradeCountdown' step; upgrades at zero are then applied one by one with
+-- complete_facility_upgrade (create_facility_upgrades.sql)
+-- Returns { success, error?, counted?: integer }
+create or replace function count_down_world_upgrades(
+  p_run_id uuid
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_run tick_runs%rowtype;
+  v_count integer;
+begin
+  v_run := lock_tick_step(p_run_id, 'upgradeCountdown');
+  if v_run.id is null then
+    return jsonb_build_object('success', false, 'error', 'Upgrades already counted down for this tick');
+  end if;
+
+  update facilities
+     set upgrade_ticks_remaining = greatest(upgrade_ticks_remaining - 1, 0)
+   where world_id = v_run.world_id
+     and upgrade_target_level is not null;
+  get diagnostics v_count = row_count;
+
+  perform complete_tick_step(p_run_id, 'upgradeCountdown', v_count);
+
+  return jsonb_build_object('success', true, 'counted', v_count);
+end;
+$$;
+
+-- Write the month's evolved city economies (computed by the edge function with
+-- evolveCity) and reset their retail spending, as the run's 'citiesUpdated' step
+-- p_cities is [{ id, wealth, population }]
+-- Returns { success, error?, updated?: integer }
+create or replace function apply_city_economy(
+  p_run_id uuid,
+  p_cities jsonb
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_run tick_runs%rowtype;
+  v_count integer;
+begin
+  v_run := lock_tick_step(p_run_id, 'citiesUpdated');
+  if v_run.id is null then
+    return jsonb_build_object('success', false, 'error', 'Cities already updated for this tick');
+  end if;
+
+  update cities c
+     set wealth = (city->>'wealth')::numeric,
+         population = (city->>'population')::integer,
+         retail_spending_month = 0,
+         updated_at = now()
+    from jsonb_array_elements(coalesce(p_cities, '[]'::jsonb)) as city
+   where c.id = city->>'id';
+  get diagnostics v_count = row_count;
+
+  perform complete_tick_step(p_run_id, 'citiesUpdated', v_count);
+
+  return jsonb_build_object('success', true, 'updated', v_count);
+end;
+$$;
+
+-- ============================================================================
+-- FINISH
+-- ============================================================================
+
+-- Close a run with its step counts and errors
+-- Status is 'completed', 'completed_with_errors' when the run logged errors
+-- (in this or an earlier attempt), or p_status when given ('failed' for runs
+-- with unfinished steps, which the next claim resumes)
+create or replace function finish_tick_run(
+  p_run_id uuid,
+  p_summary jsonb,
+  p_errors jsonb default '[]'::jsonb,
+  p_status text default null
+) returns void
+language plpgsql
+security definer
+as $$
+begin
+  update tick_runs
+     set run_status = coalesce(
+           p_status,
+           case when jsonb_array_length(errors || coalesce(p_errors, '[]'::jsonb)) > 0
+                then 'completed_with_errors' else 'completed' end
+         ),
+         finished_at = now(),
+         summary = summary || coalesce(p_summary, '{}'::jsonb),
+         errors = errors || coalesce(p_errors, '[]'::jsonb)
+   where id = p_run_id
+     and run_status = 'running';
+end;
+$$;
@@ -0,0 +1,481 @@
+-- Private company-to-company trade offers
+-- Company A proposes to sell (or buy) a quantity of a resource at a unit price
+-- to company B. B can accept, reject or counter; a counter replaces the offer
+-- with a new pending offer proposed by B, and the negotiation continues.
+-- Pending offers expire after their expiry_ticks; the game-tick edge function
+-- calls expire_trade_offers each tick.
+-- Accepted offers settle through settle_trade, exactly like a market purchase
+-- (inventory or shipment, money, sales fee, price history, transactions).
+-- Requires create_purchase_from_listing_function.sql,
+-- create_inventory_reservation_functions.sql and create_shipping.sql.
+
+-- ============================================================================
+-- TABLE
+-- ============================================================================
+
+create table if not exists trade_offers (
+  id uuid primary key default gen_random_uuid(),
+  seller_company_id uuid not null references companies(id) on delete cascade,
+  buyer_company_id uuid not null references companies(id) on delete cascade,
+  seller_company_name text not null,
+  buyer_company_name text not null,
+  proposed_by_company_id uuid not null references companies(id) on delete cascade,
+  seller_facility_id uuid references facilities(id) on delete set null, -- Chosen by the seller
+  buyer_facility_id uuid references facilities(id) on delete set null, -- Chosen by the buyer
+  resource_id text not null,
+  quantity numeric not null check (quantity > 0),
+  price_per_unit numeric not null check (price_per_unit >= 0),
+  expiry_ticks integer not null check (expiry_ticks > 0),
+  expires_at_tick integer not null,
+  parent_offer_id uuid references trade_offers(id) on delete set null, -- Offer this one counters
+  offer_status text not null default 'pending'
+    check (offer_status in ('pending', 'accepted', 'rejected', 'countered', 'cancelled', 'expired')),
+  settled_tick integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (seller_company_id <> buyer_company_id),
+  check (proposed_by_company_id in (seller_company_id, buyer_company_id))
+);
+
+create index if not exists idx_trade_offers_seller on trade_offers(seller_company_id);
+create index if not exists idx_trade_offers_buyer on trade_offers(buyer_company_id);
+create index if not exists idx_trade_offers_pending_expiry
+  on trade_offers(expires_at_tick)
+  where offer_status = 'pending';
+
+alter table trade_offers enable row level security;
+
+-- The game has no Supabase auth: clients read offers filtered by company id
+create policy "Anyone can view trade offers"
+  on trade_offers for select
+  using (true);
+
+-- Offers are written only through the RPCs below (security definer)
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Whether p_company_id may respond to an offer: it must be pending, unexpired
+-- and addressed to p_company_id (the party that did not propose it).
+-- Returns an error message, or null when the offer can be answered.
+create or replace function trade_offer_response_error(
+  p_offer trade_offers,
+  p_company_id uuid
+) returns text
+language plpgsql
+stable
+as $$
+declare
+  v_current_tick integer;
+begin
+  if p_offer.id is null then
+    return 'Trade offer not found';
+  end if;
+
+  if p_offer.offer_status <> 'pending' then
+    return format('Trade offer is already %s', p_offer.offer_status);
+  end if;
+
+  v_current_tick := (company_game_time(p_offer.seller_company_id)).tick;
+  if p_offer.expires_at_tick <= coalesce(v_current_tick, 0) then
+    return 'Trade offer has expired';
+  end if;
+
+  if p_company_id not in (p_offer.seller_company_id, p_offer.buyer_company_id) then
+    return 'Trade offer is not addressed to this company';
+  end if;
+
+  if p_company_id = p_offer.proposed_by_company_id then
+    return 'Cannot respond to your own trade offer';
+  end if;
+
+  return null;
+end;
+$$;
+
+-- ============================================================================
+-- PROPOSE
+-- ============================================================================
+
+-- Propose a trade to another company
+-- p_side is the proposer's side: 'sell' (p_facility_id supplies the goods) or
+-- 'buy' (p_facility_id receives them). The other party picks its facility on accept.
+-- Returns { success: boolean, error?: text, offer?: trade_offers, expiresAtTick?: integer }
+create or replace function create_trade_offer(
+  p_company_id uuid,
+  p_counterparty_company_id uuid,
+  p_side text,
+  p_facility_id uuid,
+  p_resource_id text,
+  p_quantity numeric,
+  p_price_per_unit numeric,
+  p_expiry_ticks integer
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_company companies%rowtype;
+  v_counterparty companies%rowtype;
+  v_facility facilities%rowtype;
+  v_current_tick integer;
+  v_offer trade_offers%rowtype;
+begin
+  if p_side not in ('sell', 'buy') then
+    return jsonb_build_object('success', false, 'error', 'Side must be sell or buy');
+  end if;
+
+  if p_quantity is null or p_quantity <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+  end if;
+
+  if p_price_per_unit is null or p_price_per_unit < 0 then
+    return jsonb_build_object('success', false, 'error', 'Price cannot be negative');
+  end if;
+
+  if p_expiry_ticks is null or p_expiry_ticks <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Expiry must be at least 1 tick');
+  end if;
+
+  select * into v_company from companies where id = p_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Company not found');
+  end if;
+
+  select * into v_counterparty from companies where id = p_counterparty_company_id;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Trade partner not found');
+  end if;
+
+  if v_company.id = v_counterparty.id then
+    return jsonb_build_object('success', false, 'error', 'Cannot trade with your own company');
+  end if;
+
+  if v_company.world_id <> v_counterparty.world_id then
+    return jsonb_build_object('success', false, 'error', 'Trade partner plays in another world');
+  end if;
+
+  select * into v_facility from facilities where id = p_facility_id;
+  if not found or v_facility.company_id <> v_company.id then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  -- Sellers must hold the unreserved stock when proposing; it is reserved on accept
+  if p_side = 'sell'
+     and inventory_item_quantity(v_facility.inventory, p_resource_id)
+         - inventory_item_reserved(v_facility.inventory, p_resource_id) < p_quantity then
+    return jsonb_build_object('success', false, 'error', 'Facility does not hold enough unreserved stock');
+  end if;
+
+  v_current_tick := (company_game_time(v_company.id)).tick;
+
+  insert into trade_offers (
+    seller_company_id, buyer_company_id, seller_company_name, buyer_company_name,
+    proposed_by_company_id, seller_facility_id, buyer_facility_id,
+    resource_id, quantity, price_per_unit, expiry_ticks, expires_at_tick
+  ) values (
+    case when p_side = 'sell' then v_company.id else v_counterparty.id end,
+    case when p_side = 'sell' then v_counterparty.id else v_company.id end,
+    case when p_side = 'sell' then v_company.name else v_counterparty.name end,
+    case when p_side = 'sell' then v_counterparty.name else v_company.name end,
+    v_company.id,
+    case when p_side = 'sell' then v_facility.id end,
+    case when p_side = 'buy' then v_facility.id end,
+    p_resource_id, p_quantity, p_price_per_unit,
+    p_expiry_ticks, coalesce(v_current_tick, 0) + p_expiry_ticks
+  )
+  returning * into v_offer;
+
+  return jsonb_build_object(
+    'success', true,
+    'offer', to_jsonb(v_offer),
+    'expiresAtTick', v_offer.expires_at_tick
+  );
+end;
+$$;
+
+-- ============================================================================
+-- COUNTER
+-- ============================================================================
+
+-- Counter a pending offer with a new quantity and price
+-- The original offer becomes 'countered'; a new pending offer proposed by
+-- p_company_id takes its place. p_facility_id optionally sets the countering
+-- party's facility; p_expiry_ticks defaults to the original offer's lifetime.
+-- Returns { success: boolean, error?: text, offer?: trade_offers, expiresAtTick?: integer }
+create or replace function counter_trade_offer(
+  p_offer_id uuid,
+  p_company_id uuid,
+  p_quantity numeric,
+  p_price_per_unit numeric,
+  p_facility_id uuid default null,
+  p_expiry_ticks integer default null
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_offer trade_offers%rowtype;
+  v_counter trade_offers%rowtype;
+  v_error text;
+  v_is_seller boolean;
+  v_expiry_ticks integer;
+  v_current_tick integer;
+begin
+  select * into v_offer from trade_offers where id = p_offer_id for update;
+
+  v_error := trade_offer_response_error(v_offer, p_company_id);
+  if v_error is not null then
+    return jsonb_build_object('success', false, 'error', v_error);
+  end if;
+
+  if p_quantity is null or p_quantity <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+  end if;
+
+  if p_price_per_unit is null or p_price_per_unit < 0 then
+    return jsonb_build_object('success', false, 'error', 'Price cannot be negative');
+  end if;
+
+  v_is_seller := p_company_id = v_offer.seller_company_id;
+
+  if p_facility_id is not null
+     and not exists (select 1 from facilities where id = p_facility_id and company_id = p_company_id) then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  v_expiry_ticks := coalesce(p_expiry_ticks, v_offer.expiry_ticks);
+  if v_expiry_ticks <= 0 then
+    return jsonb_build_object('success', false, 'error', 'Expiry must be at least 1 tick');
+  end if;
+
+  v_current_tick := (company_game_time(p_company_id)).tick;
+
+  update trade_offers
+     set offer_status = 'countered',
+         updated_at = now()
+   where id = v_offer.id;
+
+  insert into trade_offers (
+    seller_company_id, buyer_company_id, seller_company_name, buyer_company_name,
+    proposed_by_company_id, seller_facility_id, buyer_facility_id,
+    resource_id, quantity, price_per_unit, expiry_ticks, expires_at_tick, parent_offer_id
+  ) values (
+    v_offer.seller_company_id, v_offer.buyer_company_id,
+    v_offer.seller_company_name, v_offer.buyer_company_name,
+    p_company_id,
+    case when v_is_seller then coalesce(p_facility_id, v_offer.seller_facility_id) else v_offer.seller_facility_id end,
+    case when v_is_seller then v_offer.buyer_facility_id else coalesce(p_facility_id, v_offer.buyer_facility_id) end,
+    v_offer.resource_id, p_quantity, p_price_per_unit,
+    v_expiry_ticks, coalesce(v_current_tick, 0) + v_expiry_ticks, v_offer.id
+  )
+  returning * into v_counter;
+
+  return jsonb_build_object(
+    'success', true,
+    'offer', to_jsonb(v_counter),
+    'expiresAtTick', v_counter.expires_at_tick
+  );
+end;
+$$;
+
+-- ============================================================================
+-- ACCEPT
+-- ============================================================================
+
+-- Accept a pending offer and settle it like a market purchase
+-- p_facility_id is the accepting party's facility (required when the offer
+-- has none for that side yet). The seller's stock is reserved and then settled
+-- through settle_trade in the same transaction.
+-- Returns the settle_trade result plus offerId
+create or replace function accept_trade_offer(
+  p_offer_id uuid,
+  p_company_id uuid,
+  p_facility_id uuid default null,
+  p_purchase_category text default 'market_purchase',
+  p_sale_category text default 'market_sale',
+  p_fee_category text default 'sales_fee',
+  p_shipping_category text default 'shipping'
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_offer trade_offers%rowtype;
+  v_error text;
+  v_seller_facility_id uuid;
+  v_buyer_facility_id uuid;
+  v_reservation jsonb;
+  v_result jsonb;
+  v_current_tick integer;
+begin
+  select * into v_offer from trade_offers where id = p_offer_id for update;
+
+  v_error := trade_offer_response_error(v_offer, p_company_id);
+  if v_error is not null then
+    return jsonb_build_object('success', false, 'error', v_error);
+  end if;
+
+  if p_facility_id is not null
+     and not exists (select 1 from facilities where id = p_facility_id and company_id = p_company_id) then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  if p_company_id = v_offer.seller_company_id then
+    v_seller_facility_id := coalesce(p_facility_id, v_offer.seller_facility_id);
+    v_buyer_facility_id := v_offer.buyer_facility_id;
+  else
+    v_seller_facility_id := v_offer.seller_facility_id;
+    v_buyer_facility_id := coalesce(p_facility_id, v_offer.buyer_facility_id);
+  end if;
+
+  if v_seller_facility_id is null or v_buyer_facility_id is null then
+    return jsonb_build_object('success', false, 'error', 'Choose a facility for this trade');
+  end if;
+
+  -- settle_trade consumes reserved stock; listings reserve on creation, offers reserve here
+  v_reservation := reserve_inventory(v_seller_facility_id, v_offer.resource_id, v_offer.quantity);
+  if not (v_reservation->>'success')::boolean then
+    return jsonb_build_object('success', false, 'error', 'Seller no longer holds enough unreserved stock');
+  end if;
+
+  v_result := settle_trade(
+    v_seller_facility_id, v_buyer_facility_id, v_offer.resource_id, v_offer.quantity,
+    v_offer.price_per_unit, null, 'Trade',
+    p_purchase_category, p_sale_category, p_fee_category, p_shipping_category
+  );
+
+  if not (v_result->>'success')::boolean then
+    perform release_inventory(v_seller_facility_id, v_offer.resource_id, v_offer.quantity);
+    return v_result;
+  end if;
+
+  v_current_tick := (company_game_time(p_company_id)).tick;
+
+  update trade_offers
+     set offer_status = 'accepted',
+         seller_facility_id = v_seller_facility_id,
+         buyer_facility_id = v_buyer_facility_id,
+         settled_tick = coalesce(v_current_tick, 0),
+         updated_at = now()
+   where id = v_offer.id;
+
+  return v_result || jsonb_build_object('offerId', v_offer.id);
+end;
+$$;
+
+-- ============================================================================
+-- REJECT / CANCEL
+-- ============================================================================
+
+-- Reject a pending offer addressed to p_company_id
+create or replace function reject_trade_offer(
+  p_offer_id uuid,
+  p_company_id uuid
+) returns trade_offers
+language plpgsql
+security definer
+as $$
+declare
+  v_offer trade_offers%rowtype;
+  v_error text;
+begin
+  select * into v_offer from trade_offers where id = p_offer_id for update;
+
+  v_error := trade_offer_response_error(v_offer, p_company_id);
+  if v_error is not null then
+    raise exception '%', v_error;
+  end if;
+
+  update trade_offers
+     set offer_status = 'rejected',
+         updated_at = now()
+   where id = p_offer_id
+  returning * into v_offer;
+
+  return v_offer;
+end;
+$$;
+
+-- Withdraw a pending offer proposed by p_company_id
+create or replace function cancel_trade_offer(
+  p_offer_id uuid,
+  p_company_id uuid
+) returns trade_offers
+language plpgsql
+security definer
+as $$
+declare
+  v_offer trade_offers%rowtype;
+begin
+  update trade_offers
+     set offer_status = 'cancelled',
+         updated_at = now()
+   where id = p_offer_id
+     and proposed_by_company_id = p_company_id
+     and offer_status = 'pending'
+  returning * into v_offer;
+
+  if not found then
+    raise exception 'Trade offer not found or no longer pending';
+  end if;
+
+  return v_offer;
+end;
+$$;
+
+-- ============================================================================
+-- EXPIRE
+-- ============================================================================
+
+-- Expire all pending offers of a world whose expires_at_tick has been reached
+-- Returns one row per expired offer so the caller can notify both parties
+create or replace function expire_trade_offers(
+  p_current_tick integer,
+  p_world_id text default 'global'
+) returns table (
+  offer_id uuid,
+  proposer_company_name text,
+  recipient_company_name text,
+  resource_id text,
+  resource_name text,
+  quantity numeric,
+  price_per_unit numeric
+)
+language plpgsql
+security definer
+as $$
+#variable_conflict use_column
+declare
+  v_offer trade_offers%rowtype;
+begin
+  for v_offer in
+    select * from trade_offers
+     where offer_status = 'pending'
+       and expires_at_tick <= p_current_tick
+       and seller_company_id in (select c.id from companies c where c.world_id = p_world_id)
+     for update
+  loop
+    update trade_offers
+       set offer_status = 'expired',
+           updated_at = now()
+     where id = v_offer.id;
+
+    offer_id := v_offer.id;
+    if v_offer.proposed_by_company_id = v_offer.seller_company_id then
+      proposer_company_name := v_offer.seller_company_name;
+      recipient_company_name := v_offer.buyer_company_name;
+    else
+      proposer_company_name := v_offer.buyer_company_name;
+      recipient_company_name := v_offer.seller_company_name;
+    end if;
+    resource_id := v_offer.resource_id;
+    select coalesce(max(r.name), v_offer.resource_id) into resource_name
+      from resources r where r.id = v_offer.resource_id;
+    quantity := v_offer.quantity;
+    price_per_unit := v_offer.price_per_unit;
+    return next;
+  end loop;
+end;
+$$;
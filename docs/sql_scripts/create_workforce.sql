@@ -0,0 +1,67 @@
+-- Facility workforce
+-- Each facility type needs required_workers for full effectivity; a facility's
+-- effectivity is its type's default_effectivity scaled by worker_count /
+-- required_workers (capped at 100% staffing). The game-tick edge function pays
+-- wages monthly from the facility's city baseWage ('wages' transactions,
+-- pay_facility_wages). Run after create_company_transactions.sql.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+alter table facility_types
+  add column if not exists required_workers integer not null default 5 check (required_workers >= 0);
+
+alter table facilities
+  add column if not exists wages_paid_tick integer; -- Tick of the facility's last wage payment
+
+-- ============================================================================
+-- EXISTING FACILITIES
+-- ============================================================================
+
+-- Facilities created before staffing mattered have no workers; staff them fully
+-- so their production keeps running at the current effectivity
+update facilities f
+   set worker_count = ft.required_workers
+  from facility_types ft
+ where f.facility_subtype = ft.id
+   and f.worker_count = 0;
+
+-- ============================================================================
+-- WAGES
+-- ============================================================================
+
+-- Charge a facility's owner its monthly wages (amount computed by the edge
+-- function from the city's baseWage) and remember the tick, so a retried tick
+-- never pays the same wages twice.
+-- Returns { success, error? }
+create or replace function pay_facility_wages(
+  p_facility_id uuid,
+  p_amount numeric,
+  p_description text,
+  p_tick integer
+) returns jsonb
+language plpgsql
+security definer
+as $$
+declare
+  v_facility facilities%rowtype;
+begin
+  select * into v_facility from facilities where id = p_facility_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'error', 'Facility not found');
+  end if;
+
+  if v_facility.wages_paid_tick is not distinct from p_tick then
+    return jsonb_build_object('success', false, 'error', 'Wages were already paid this tick');
+  end if;
+
+  if apply_company_transaction(v_facility.company_id, -p_amount, p_description, 'wages') is null then
+    return jsonb_build_object('success', false, 'error', 'Company not found');
+  end if;
+
+  update facilities set wages_paid_tick = p_tick where id = v_facility.id;
+
+  return jsonb_build_object('success', true);
+end;
+$$;
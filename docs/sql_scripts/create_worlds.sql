@@ -0,0 +1,176 @@
+-- Game worlds
+-- A world is a separate game: its own clock (the game_time row whose id is the
+-- world id), tick cadence, calendar start and starting capital, and its own
+-- companies. Facilities, listings, buy orders and price history carry the
+-- world of their company (set by trigger), so marketplaces never mix; trades,
+-- contracts and offers between companies of different worlds are refused.
+-- Cities and their routes are shared by all worlds.
+-- The game-tick edge function runs every minute and advances each world whose
+-- next_tick_time has passed, with world-scoped production, shipments and
+-- expiries. The 'global' world keeps the existing hourly game.
+-- Run after the other scripts, then re-run the scripts whose functions were
+-- updated for worlds: create_shipping.sql, create_listing_expiry.sql,
+-- create_price_history.sql, create_purchase_from_listing_function.sql,
+-- create_market_orders.sql, create_trade_offers.sql,
+-- create_supply_contracts.sql and create_facility_transfers.sql.
+
+-- ============================================================================
+-- WORLDS
+-- ============================================================================
+
+create table if not exists worlds (
+  id text primary key, -- Also the id of the world's game_time row
+  name text not null unique,
+  description text,
+  tick_interval_seconds integer not null default 3600 check (tick_interval_seconds >= 60),
+  starting_day integer not null default 1 check (starting_day between 1 and 24),
+  starting_month integer not null default 1 check (starting_month between 1 and 7),
+  starting_year integer not null default 2024,
+  starting_tick integer not null default 0 check (starting_tick >= 0),
+  starting_capital numeric not null default 1000 check (starting_capital >= 0),
+  is_active boolean not null default true, -- Inactive worlds are not ticked
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table worlds enable row level security;
+
+create policy "Anyone can view worlds"
+  on worlds for select
+  using (true);
+
+insert into worlds (id, name, description, tick_interval_seconds, sort_order) values
+  ('global', 'Main World', 'The main game, one game day per hour.', 3600, 1),
+  ('test', 'Test World', 'Fast world for testing, one game day per minute.', 60, 2)
+on conflict (id) do nothing;
+
+-- Each world's clock starts at its configured start; the main world keeps its row
+insert into game_time (id, tick, day, month, year, last_tick_time, next_tick_time)
+select w.id, w.starting_tick, w.starting_day, w.starting_month, w.starting_year,
+       now(), date_trunc('minute', now()) + interval '1 minute'
+  from worlds w
+on conflict (id) do nothing;
+
+-- ============================================================================
+-- WORLD OF EACH COMPANY
+-- ============================================================================
+
+alter table companies
+  add column if not exists world_id text not null default 'global' references worlds(id);
+
+create index if not exists idx_companies_world on companies(world_id);
+
+alter table facilities
+  add column if not exists world_id text not null default 'global' references worlds(id);
+
+alter table market_listings
+  add column if not exists world_id text not null default 'global' references worlds(id);
+
+alter table market_orders
+  add column if not exists world_id text not null default 'global' references worlds(id);
+
+alter table market_price_events
+  add column if not exists world_id text not null default 'global' references worlds(id);
+
+create index if not exists idx_facilities_world_city on facilities(world_id, city_id);
+create index if not exists idx_market_listings_world_resource
+  on market_listings(world_id, resource_id)
+  where listing_status = 'active';
+create index if not exists idx_market_orders_world_resource
+  on market_orders(world_id, resource_id)
+  where order_status = 'open';
+create index if not exists idx_market_price_events_world_resource_tick
+  on market_price_events(world_id, resource_id, game_tick);
+
+-- Rows created before worlds existed belong to their company's world
+update facilities f
+   set world_id = c.world_id
+  from companies c
+ where c.id = f.company_id
+   and f.world_id <> c.world_id;
+
+update market_listings l
+   set world_id = c.world_id
+  from companies c
+ where c.id = l.company_id
+   and l.world_id <> c.world_id;
+
+update market_orders o
+   set world_id = c.world_id
+  from companies c
+ where c.id = o.company_id
+   and o.world_id <> c.world_id;
+
+-- Copy the company's world onto new rows; clients never set world_id themselves
+create or replace function set_world_from_company()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  select world_id into new.world_id from companies where id = new.company_id;
+  new.world_id := coalesce(new.world_id, 'global');
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_facilities_world on facilities;
+
+create trigger trg_facilities_world
+  before insert on facilities
+  for each row
+  execute function set_world_from_company();
+
+drop trigger if exists trg_market_listings_world on market_listings;
+
+create trigger trg_market_listings_world
+  before insert on market_listings
+  for each row
+  execute function set_world_from_company();
+
+drop trigger if exists trg_market_orders_world on market_orders;
+
+create trigger trg_market_orders_world
+  before insert on market_orders
+  for each row
+  execute function set_world_from_company();
+
+-- ============================================================================
+-- WORLD CLOCKS
+-- ============================================================================
+
+-- The game_time row of a world (the main world when null)
+create or replace function world_game_time(
+  p_world_id text
+) returns game_time
+language sql
+stable
+as $$
+  select * from game_time where id = coalesce(p_world_id, 'global');
+$$;
+
+-- The game_time row of a company's world; replaces reads of the 'global' row
+create or replace function company_game_time(
+  p_company_id uuid
+) returns game_time
+language sql
+stable
+as $$
+  select g.*
+    from game_time g
+   where g.id = coalesce((select c.world_id from companies c where c.id = p_company_id), 'global');
+$$;
+
+-- ============================================================================
+-- WORLD TICK FUNCTIONS
+-- ============================================================================
+
+-- Production is applied per world by apply_world_production (create_tick_runs.sql)
+
+-- The tick functions gained a p_world_id parameter (create_shipping.sql,
+-- create_listing_expiry.sql, create_trade_offers.sql); drop the old signatures
+-- so calls with only p_current_tick are not ambiguous
+drop function if exists deliver_shipments(integer);
+drop function if exists expire_market_listings(integer);
+drop function if exists expire_trade_offers(integer);
@@ -11,7 +11,10 @@ import { Highscores } from '@/components/pages/highscores';
 import { Facilities } from '@/components/pages/facilities';
 import { FacilityDetail } from '@/components/pages/facility-detail';
 import { Marketplace } from '@/components/pages/marketplace';
-import { setCurrentCompanyForNotifications, notificationService, initializeGameState, cleanupGameState } from '@/lib/services/core';
+import { Contracts } from '@/components/pages/contracts';
+import { Cities } from '@/components/pages/cities';
+import { CityDetail } from '@/components/pages/city-detail';
+import { setCurrentCompanyForNotifications, setCurrentWorld, notificationService, initializeGameState, cleanupGameState } from '@/lib/services/core';
 import { loadGameData } from '@/lib/constants/gameData';
 import { useCompany } from '@/hooks';
 import type { Facility } from '@/lib/types/types';
@@ -35,12 +38,18 @@ function App() {
   const [selectedCompanyId, setSelectedCompanyId] = useState<string | null>(null);
   const [facilities, setFacilities] = useState<Facility[]>([]);
   const [selectedFacilityId, setSelectedFacilityId] = useState<string | null>(null);
+  const [selectedCityId, setSelectedCityId] = useState<string | null>(null);
+  const [buildCityId, setBuildCityId] = useState<string | null>(null);
   const isAdmin = true; // TODO: Get from auth context
 
   // Use the useCompany hook for real-time company updates
   const { company: currentCompany } = useCompany(selectedCompanyId);
 
   const handleCompanySelected = (company: any) => {
+    // Follow the clock and marketplace of the company's world
+    if (company?.world_id) {
+      setCurrentWorld(company.world_id);
+    }
     setSelectedCompanyId(company.id);
     setCurrentPage('company-overview');
     
@@ -64,6 +73,11 @@ function App() {
     setCurrentPage(page);
   };
 
+  const handleCitySelect = (cityId: string) => {
+    setSelectedCityId(cityId);
+    setCurrentPage('city-detail');
+  };
+
   const handleTimeAdvance = () => {
     // Called after time advance
   };
@@ -131,6 +145,8 @@ function App() {
               setCurrentPage('facility-detail');
             }}
             onBack={() => setCurrentPage('company-overview')}
+            createInCityId={buildCityId}
+            onCreateInCityHandled={() => setBuildCityId(null)}
           />
         );
       case 'facility-detail':
@@ -142,6 +158,7 @@ function App() {
               setSelectedFacilityId(null);
               setCurrentPage('facilities');
             }}
+            onCitySelect={handleCitySelect}
           />
         ) : (
           <Facilities
@@ -160,6 +177,41 @@ function App() {
             onBack={() => setCurrentPage('company-overview')}
           />
         );
+      case 'contracts':
+        return <Contracts currentCompany={currentCompany} />;
+      case 'cities':
+        return (
+          <Cities
+            currentCompany={currentCompany}
+            onCitySelect={handleCitySelect}
+            onBack={() => setCurrentPage('company-overview')}
+          />
+        );
+      case 'city-detail':
+        return selectedCityId ? (
+          <CityDetail
+            cityId={selectedCityId}
+            currentCompany={currentCompany}
+            onBack={() => {
+              setSelectedCityId(null);
+              setCurrentPage('cities');
+            }}
+            onBuildFacility={(cityId) => {
+              setBuildCityId(cityId);
+              setCurrentPage('facilities');
+            }}
+            onFacilitySelect={(facilityId) => {
+              setSelectedFacilityId(facilityId);
+              setCurrentPage('facility-detail');
+            }}
+          />
+        ) : (
+          <Cities
+            currentCompany={currentCompany}
+            onCitySelect={handleCitySelect}
+            onBack={() => setCurrentPage('company-overview')}
+          />
+        );
       default:
         return currentCompany ? <CompanyOverview onNavigate={handleNavigate} /> : <Login onCompanySelected={handleCompanySelected} />;
     }
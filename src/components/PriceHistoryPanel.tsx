@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui';
+import { getResourceName } from '@/lib/constants';
+import { getPriceHistory, type PriceHistory, type PriceCandle, type PricePeriod } from '@/lib/services';
+import { formatNumber } from '@/lib/utils';
+import { useGameTick } from '@/hooks';
+import type { ResourceId } from '@/lib/types/types';
+
+interface PriceHistoryPanelProps {
+  resourceId: ResourceId;
+  onUseSuggestedPrice?: (price: number) => void; // Shows a "Use" button when provided
+  maxCandles?: number;
+}
+
+const CHART_WIDTH = 600;
+const PRICE_HEIGHT = 150;
+const VOLUME_HEIGHT = 40;
+const CHART_PADDING = 4;
+
+function CandlestickChart({ candles }: { candles: PriceCandle[] }) {
+  const high = Math.max(...candles.map(c => c.high));
+  const low = Math.min(...candles.map(c => c.low));
+  const priceRange = high - low || 1;
+  const maxVolume = Math.max(...candles.map(c => c.volume)) || 1;
+  const slot = (CHART_WIDTH - CHART_PADDING * 2) / candles.length;
+  const bodyWidth = Math.max(2, slot * 0.6);
+
+  const priceY = (price: number) =>
+    CHART_PADDING + (1 - (price - low) / priceRange) * (PRICE_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${PRICE_HEIGHT + VOLUME_HEIGHT}`}
+      className="w-full h-48"
+      preserveAspectRatio="none"
+    >
+      {candles.map((candle, index) => {
+        const x = CHART_PADDING + index * slot + slot / 2;
+        const rising = candle.close >= candle.open;
+        const color = rising ? '#16a34a' : '#dc2626';
+        const bodyTop = priceY(Math.max(candle.open, candle.close));
+        const bodyHeight = Math.max(1, Math.abs(priceY(candle.open) - priceY(candle.close)));
+        const volumeHeight = (candle.volume / maxVolume) * (VOLUME_HEIGHT - CHART_PADDING);
+
+        return (
+          <g key={candle.label}>
+            <title>
+              {`${candle.label}: O ${candle.open.toFixed(2)} H ${candle.high.toFixed(2)} L ${candle.low.toFixed(2)} C ${candle.close.toFixed(2)} · Vol ${candle.volume}`}
+            </title>
+            <line x1={x} x2={x} y1={priceY(candle.high)} y2={priceY(candle.low)} stroke={color} strokeWidth={1} />
+            <rect x={x - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+            <rect
+              x={x - bodyWidth / 2}
+              y={PRICE_HEIGHT + VOLUME_HEIGHT - volumeHeight}
+              width={bodyWidth}
+              height={volumeHeight}
+              fill="#94a3b8"
+            />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function PriceHistoryPanel({ resourceId, onUseSuggestedPrice, maxCandles = 30 }: PriceHistoryPanelProps) {
+  const { gameState } = useGameTick();
+  const currentTick = gameState.time.tick;
+  const [period, setPeriod] = useState<PricePeriod>('day');
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!resourceId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    getPriceHistory(resourceId, currentTick)
+      .then((data) => {
+        if (!cancelled) setHistory(data);
+      })
+      .catch((err) => console.error('Error loading price history:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resourceId, currentTick]);
+
+  const candles = (period === 'day' ? history?.daily : history?.monthly)?.slice(-maxCandles) ?? [];
+  const lastCandle = candles[candles.length - 1];
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">Price History · {getResourceName(resourceId)}</h4>
+        <div className="flex gap-1">
+          <Button size="sm" variant={period === 'day' ? 'default' : 'outline'} onClick={() => setPeriod('day')}>
+            Daily
+          </Button>
+          <Button size="sm" variant={period === 'month' ? 'default' : 'outline'} onClick={() => setPeriod('month')}>
+            Monthly
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && !history ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">Loading price history...</p>
+      ) : candles.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">No trades recorded yet</p>
+      ) : (
+        <CandlestickChart candles={candles} />
+      )}
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div>
+          <div className="text-xs text-muted-foreground">Last Close</div>
+          <div className="font-semibold">
+            {lastCandle ? formatNumber(lastCandle.close, { currency: true, decimals: 2 }) : '-'}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Recent VWAP</div>
+          <div className="font-semibold">
+            {history?.recentVwap != null ? formatNumber(history.recentVwap, { currency: true, decimals: 2 }) : '-'}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground">Suggested Price</div>
+          <div className="flex items-center gap-2">
+            <span className="font-semibold">
+              {history?.suggestedPrice != null ? formatNumber(history.suggestedPrice, { currency: true, decimals: 2 }) : '-'}
+            </span>
+            {onUseSuggestedPrice && history?.suggestedPrice != null && (
+              <Button size="sm" variant="outline" onClick={() => onUseSuggestedPrice(history.suggestedPrice!)}>
+                Use
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,3 @@
 // Barrel export for components
 export { NotificationCenter, useNotifications } from './NotificationCenter';
-
+export { PriceHistoryPanel } from './PriceHistoryPanel';
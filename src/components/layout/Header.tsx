@@ -56,6 +56,8 @@ export function Header({
     { id: 'finance', label: 'Finance', icon: NAVIGATION_EMOJIS.finance },
     { id: 'facilities', label: 'Facilities', icon: NAVIGATION_EMOJIS.facilities },
     { id: 'marketplace', label: 'Marketplace', icon: NAVIGATION_EMOJIS.marketplace },
+    { id: 'contracts', label: 'Contracts', icon: NAVIGATION_EMOJIS.contracts },
+    { id: 'cities', label: 'Cities', icon: NAVIGATION_EMOJIS.cities },
   ];
 
   return (
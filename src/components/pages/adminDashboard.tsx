@@ -1,13 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
 import { useLoadingState } from '@/hooks';
-import { SimpleCard, Button, Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui';
-import { Settings, Trash2, Clock } from 'lucide-react';
+import { SimpleCard, Button, Badge, Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/shadCN/table';
+import { Settings, Trash2, Clock, RefreshCw } from 'lucide-react';
 import { PageProps, NavigationProps } from '@/lib/types/UItypes';
-import { adminClearAllCompanies, adminResetGameTime } from '@/lib/services';
+import {
+  adminClearAllCompanies,
+  adminGetTickHistory,
+  adminResetGameTime,
+  getMarketplaceStats,
+  getGameState,
+} from '@/lib/services';
+import type { TickRun, TickRunStatus } from '@/lib/database';
+import { getWorld, getWorldInitialization } from '@/lib/constants';
+import { formatDate, formatGameDate, formatNumber } from '@/lib/utils';
 
 interface AdminDashboardProps extends PageProps, NavigationProps {}
 
+const TICK_RUN_STATUS_CLASSES: Record<TickRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800 border-blue-200',
+  completed: 'bg-green-100 text-green-800 border-green-200',
+  completed_with_errors: 'bg-amber-100 text-amber-800 border-amber-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+};
+
+/**
+ * Wall-clock duration of a tick run, while running measured up to now
+ */
+function formatRunDuration(run: TickRun): string {
+  const end = run.finishedAt ? new Date(run.finishedAt) : new Date();
+  const seconds = (end.getTime() - new Date(run.startedAt).getTime()) / 1000;
+  return `${formatNumber(seconds, { decimals: 1 })}s`;
+}
+
 export function AdminDashboard({ onBack, onNavigateToLogin }: AdminDashboardProps) {
   const { isLoading, withLoading } = useLoadingState();
+  const [marketStats, setMarketStats] = useState<Awaited<ReturnType<typeof getMarketplaceStats>> | null>(null);
+  const [tickRuns, setTickRuns] = useState<TickRun[] | null>(null);
+  const { worldId } = getGameState();
+  const worldName = getWorld(worldId)?.name ?? worldId;
+  const worldStart = getWorldInitialization(worldId);
+
+  const loadMarketStats = useCallback(async () => {
+    try {
+      setMarketStats(await getMarketplaceStats());
+    } catch (error) {
+      console.error('Error loading marketplace stats:', error);
+    }
+  }, []);
+
+  const loadTickHistory = useCallback(async () => {
+    try {
+      setTickRuns(await adminGetTickHistory());
+    } catch (error) {
+      console.error('Error loading tick history:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMarketStats();
+  }, [loadMarketStats]);
+
+  useEffect(() => {
+    loadTickHistory();
+  }, [loadTickHistory]);
 
   // Database cleanup functions
   const handleClearAllAccounts = () => withLoading(async () => {
@@ -32,7 +88,7 @@ export function AdminDashboard({ onBack, onNavigateToLogin }: AdminDashboardProp
   });
 
   const handleResetGameTime = () => withLoading(async () => {
-    await adminResetGameTime();
+    await adminResetGameTime(worldId);
     // Reload to sync the new time
     setTimeout(() => {
       window.location.reload();
@@ -60,8 +116,10 @@ export function AdminDashboard({ onBack, onNavigateToLogin }: AdminDashboardProp
       </div>
 
       <Tabs defaultValue="database" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-1">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="database">Database</TabsTrigger>
+          <TabsTrigger value="economy">Economy</TabsTrigger>
+          <TabsTrigger value="ticks">Ticks</TabsTrigger>
         </TabsList>
 
         {/* Database Management */}
@@ -83,13 +141,13 @@ export function AdminDashboard({ onBack, onNavigateToLogin }: AdminDashboardProp
                   Clear All Accounts
                 </Button>
                 <p className="text-xs text-muted-foreground mt-2">
-                  Removes all companies and resets game time to 1.1.2024.
+                  Removes all companies in every world and resets each world's game time to its start.
                 </p>
               </SimpleCard>
 
               <SimpleCard
                 title="Game Time"
-                description="Reset game time to initial"
+                description={`Reset ${worldName} game time to initial`}
               >
                 <Button
                   variant="destructive"
@@ -101,12 +159,115 @@ export function AdminDashboard({ onBack, onNavigateToLogin }: AdminDashboardProp
                   Reset Game Time
                 </Button>
                 <p className="text-xs text-muted-foreground mt-2">
-                  Resets game time to Day 1, Month 1, Year 2024. Does not affect other data.
+                  Resets {worldName} game time to Day {worldStart.STARTING_DAY}, Month {worldStart.STARTING_MONTH}, Year {worldStart.STARTING_YEAR}. Does not affect other data.
                 </p>
               </SimpleCard>
             </div>
           </div>
         </TabsContent>
+
+        {/* Economy Overview */}
+        <TabsContent value="economy">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <SimpleCard
+              title="Marketplace"
+              description="Listings and money removed from the economy by fees"
+            >
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Fees collected</span>
+                  <span className="font-semibold">
+                    {marketStats ? formatNumber(marketStats.totalFeesCollected, { currency: true, decimals: 2 }) : '-'}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Active listings</span>
+                  <span>{marketStats?.totalActiveListings ?? '-'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Resources listed</span>
+                  <span>{marketStats?.uniqueResources ?? '-'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Selling facilities</span>
+                  <span>{marketStats?.uniqueSellers ?? '-'}</span>
+                </div>
+              </div>
+              <Button variant="outline" onClick={loadMarketStats} className="w-full mt-4">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+            </SimpleCard>
+          </div>
+        </TabsContent>
+
+        {/* Tick History */}
+        <TabsContent value="ticks">
+          <SimpleCard
+            title="Tick History"
+            description={`Latest ticks processed in ${worldName}, newest first`}
+          >
+            {!tickRuns ? (
+              <p className="text-sm text-muted-foreground">Loading tick history...</p>
+            ) : tickRuns.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No ticks recorded yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">Tick</TableHead>
+                    <TableHead>Game date</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead className="text-right">Duration</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Advanced</TableHead>
+                    <TableHead className="text-right">Completed</TableHead>
+                    <TableHead>Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tickRuns.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-right font-medium">{run.tick}</TableCell>
+                      <TableCell>{formatGameDate(run.gameDay, run.gameMonth, run.gameYear)}</TableCell>
+                      <TableCell>{formatDate(new Date(run.startedAt), true)}</TableCell>
+                      <TableCell className="text-right">{formatRunDuration(run)}</TableCell>
+                      <TableCell>
+                        {run.isManual ? 'Manual' : 'Scheduled'}
+                        {run.attempts > 1 && (
+                          <span className="text-xs text-muted-foreground"> ({run.attempts} attempts)</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`text-xs ${TICK_RUN_STATUS_CLASSES[run.runStatus]}`}>
+                          {run.runStatus.replace(/_/g, ' ')}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{run.facilitiesAdvanced}</TableCell>
+                      <TableCell className="text-right">{run.facilitiesCompleted}</TableCell>
+                      <TableCell className="text-xs text-red-700 max-w-xs">
+                        {run.errors.length === 0 ? (
+                          <span className="text-muted-foreground">-</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {run.errors.map((message, index) => (
+                              <li key={index}>{message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <Button variant="outline" onClick={loadTickHistory} className="w-full mt-4">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </SimpleCard>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,96 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button } from '@/components/ui';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/shadCN/table';
+import { getAllCities } from '@/lib/constants';
+import { getMonthlyWagePerWorker } from '@/lib/services';
+import { formatNumber } from '@/lib/utils';
+import { useFacilities, useGameTick } from '@/hooks';
+import { MapPin } from 'lucide-react';
+import { CityMap } from './cities/CityMap';
+
+interface CitiesProps {
+  currentCompany?: { id: string; name: string } | null;
+  onCitySelect: (cityId: string) => void;
+  onBack?: () => void;
+}
+
+export function Cities({ currentCompany, onCitySelect, onBack }: CitiesProps) {
+  const { facilities } = useFacilities(currentCompany?.id || null);
+  // Re-render when the monthly tick reloads the cities
+  useGameTick();
+  const cities = getAllCities();
+
+  const facilityCounts = facilities.reduce((acc, facility) => {
+    acc[facility.cityId] = (acc[facility.cityId] ?? 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Cities</h1>
+          <p className="text-muted-foreground">
+            Where to build: city economies and the shipping routes between them
+          </p>
+        </div>
+        {onBack && (
+          <Button variant="outline" onClick={onBack}>
+            Back
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Map
+          </CardTitle>
+          <CardDescription>
+            Larger markers are more populous, darker ones wealthier; numbers count your facilities.
+            Routes show travel time in ticks and shipping cost per unit. Click a city to open it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="max-w-3xl mx-auto">
+            <CityMap cities={cities} facilityCounts={facilityCounts} onCitySelect={onCitySelect} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Cities</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>City</TableHead>
+                <TableHead className="text-right">Population</TableHead>
+                <TableHead className="text-right">Wealth</TableHead>
+                <TableHead className="text-right">Wage / worker / month</TableHead>
+                <TableHead className="text-right">Quality demand</TableHead>
+                <TableHead className="text-right">Your facilities</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cities.map((city) => (
+                <TableRow key={city.id} className="cursor-pointer" onClick={() => onCitySelect(city.id)}>
+                  <TableCell className="font-medium">{city.name}</TableCell>
+                  <TableCell className="text-right">{formatNumber(city.population)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(city.wealth, { decimals: 2 })}</TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(getMonthlyWagePerWorker(city.baseWage), { currency: true, decimals: 2 })}
+                  </TableCell>
+                  <TableCell className="text-right">{formatNumber(city.qualityDemand, { decimals: 1 })}</TableCell>
+                  <TableCell className="text-right">{facilityCounts[city.id] ?? 0}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
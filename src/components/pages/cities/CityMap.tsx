@@ -0,0 +1,100 @@
+import { getAllCityRoutes } from '@/lib/constants';
+import { formatNumber } from '@/lib/utils';
+import type { City } from '@/lib/types/types';
+
+interface CityMapProps {
+  cities: City[];
+  facilityCounts?: Record<string, number>; // The company's facilities per city
+  selectedCityId?: string | null;
+  onCitySelect: (cityId: string) => void;
+}
+
+interface MapPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Place each city on the 0-100 map grid
+ * Cities without a stored position are spread around a circle
+ */
+function getCityPositions(cities: City[]): Record<string, MapPoint> {
+  return cities.reduce((acc, city, index) => {
+    const angle = (2 * Math.PI * index) / Math.max(1, cities.length);
+    acc[city.id] = {
+      x: city.mapX ?? 50 + 35 * Math.cos(angle),
+      y: city.mapY ?? 50 + 35 * Math.sin(angle),
+    };
+    return acc;
+  }, {} as Record<string, MapPoint>);
+}
+
+/**
+ * Radius of a city marker, growing with population
+ */
+function getCityRadius(population: number): number {
+  return 2 + Math.log10(Math.max(1000, population) / 1000) * 1.5;
+}
+
+export function CityMap({ cities, facilityCounts = {}, selectedCityId, onCitySelect }: CityMapProps) {
+  const positions = getCityPositions(cities);
+  const routes = getAllCityRoutes().filter(route => positions[route.fromCityId] && positions[route.toCityId]);
+
+  return (
+    <svg viewBox="0 0 100 100" className="w-full h-auto rounded-lg border bg-sky-50" role="img" aria-label="City map">
+      {routes.map((route) => {
+        const from = positions[route.fromCityId];
+        const to = positions[route.toCityId];
+        return (
+          <g key={`${route.fromCityId}-${route.toCityId}`}>
+            <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="#94a3b8" strokeWidth={0.4} strokeDasharray="1 0.6" />
+            <text
+              x={(from.x + to.x) / 2}
+              y={(from.y + to.y) / 2 - 0.8}
+              fontSize={2}
+              textAnchor="middle"
+              fill="#64748b"
+            >
+              {route.transitTicks}t · {formatNumber(route.shippingCostPerUnit, { currency: true, decimals: 2 })}
+            </text>
+          </g>
+        );
+      })}
+      {cities.map((city) => {
+        const { x, y } = positions[city.id];
+        const radius = getCityRadius(city.population);
+        const isSelected = city.id === selectedCityId;
+        const ownFacilities = facilityCounts[city.id] ?? 0;
+        return (
+          <g
+            key={city.id}
+            onClick={() => onCitySelect(city.id)}
+            className="cursor-pointer"
+            role="button"
+            aria-label={`Open ${city.name}`}
+          >
+            <title>
+              {`${city.name}: ${formatNumber(city.population)} residents, wealth ${formatNumber(city.wealth, { decimals: 2 })}`}
+            </title>
+            <circle
+              cx={x}
+              cy={y}
+              r={radius}
+              fill={`hsl(35, 90%, ${75 - city.wealth * 35}%)`}
+              stroke={isSelected ? '#1d4ed8' : '#78350f'}
+              strokeWidth={isSelected ? 0.8 : 0.3}
+            />
+            <text x={x} y={y + radius + 3} fontSize={2.6} textAnchor="middle" fontWeight={600} fill="#1f2937">
+              {city.name}
+            </text>
+            {ownFacilities > 0 && (
+              <text x={x} y={y + 0.9} fontSize={2.4} textAnchor="middle" fontWeight={700} fill="#1f2937">
+                {ownFacilities}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1 @@
+export { CityMap } from './CityMap';
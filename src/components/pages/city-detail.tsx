@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Badge } from '@/components/ui';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/shadCN/table';
+import { getCityById, getResourceName, getResourceIcon, getConsumerResources } from '@/lib/constants';
+import {
+  getCityFacilities,
+  getLocalPrices,
+  getMonthlyWagePerWorker,
+  getFairConsumerPrice,
+  isUnderConstruction,
+  type CityFacilityEntry,
+  type LocalResourcePrice,
+} from '@/lib/services';
+import { formatNumber } from '@/lib/utils';
+import { useGameTick } from '@/hooks';
+import { ArrowLeft, Plus } from 'lucide-react';
+
+interface CityDetailProps {
+  cityId: string;
+  currentCompany?: { id: string; name: string } | null;
+  onBack?: () => void;
+  onBuildFacility?: (cityId: string) => void;
+  onFacilitySelect?: (facilityId: string) => void;
+}
+
+export function CityDetail({ cityId, currentCompany, onBack, onBuildFacility, onFacilitySelect }: CityDetailProps) {
+  const { gameState } = useGameTick();
+  const currentTick = gameState.time.tick;
+  const city = getCityById(cityId);
+  const [cityFacilities, setCityFacilities] = useState<CityFacilityEntry[]>([]);
+  const [localPrices, setLocalPrices] = useState<LocalResourcePrice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Facilities and listings change on game ticks
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getCityFacilities(cityId), getLocalPrices(cityId)])
+      .then(([facilities, prices]) => {
+        if (cancelled) return;
+        setCityFacilities(facilities);
+        setLocalPrices(prices);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [cityId, currentTick]);
+
+  if (!city) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <p className="text-muted-foreground">City not found</p>
+        {onBack && (
+          <Button variant="outline" onClick={onBack} className="mt-4">
+            Back
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  // Listed resources plus consumer goods residents buy, even when nobody lists them here
+  const pricesByResource = new Map(localPrices.map(price => [price.resourceId, price]));
+  const consumerResources = getConsumerResources();
+  const priceResourceIds = [
+    ...localPrices.map(price => price.resourceId),
+    ...consumerResources.map(resource => resource.id).filter(id => !pricesByResource.has(id)),
+  ];
+
+  const stats = [
+    { label: 'Population', value: formatNumber(city.population) },
+    { label: 'Wealth', value: `${formatNumber(city.wealth, { decimals: 2 })} (base ${formatNumber(city.baseWealth, { decimals: 2 })})` },
+    { label: 'Wage / worker / month', value: formatNumber(getMonthlyWagePerWorker(city.baseWage), { currency: true, decimals: 2 }) },
+    { label: 'Purchase power', value: formatNumber(city.purchasePower, { decimals: 2 }) },
+    { label: 'Quality demand', value: formatNumber(city.qualityDemand, { decimals: 1 }) },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          {onBack && (
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          )}
+          <div>
+            <h1 className="text-3xl font-bold">{city.name}</h1>
+            <p className="text-muted-foreground">Wealth and population change every game month</p>
+          </div>
+        </div>
+        {onBuildFacility && currentCompany && (
+          <Button onClick={() => onBuildFacility(city.id)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Build facility here
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground mb-1">{stat.label}</p>
+              <p className="text-lg font-semibold">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Facilities</CardTitle>
+          <CardDescription>Every company's facilities in {city.name}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading facilities...</p>
+          ) : cityFacilities.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No facilities in {city.name} yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Facility</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Level</TableHead>
+                  <TableHead className="text-right">Workers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cityFacilities.map(({ facility, companyName }) => {
+                  const isOwn = facility.companyId === currentCompany?.id;
+                  return (
+                    <TableRow
+                      key={facility.id}
+                      className={isOwn && onFacilitySelect ? 'cursor-pointer' : undefined}
+                      onClick={isOwn ? () => onFacilitySelect?.(facility.id) : undefined}
+                    >
+                      <TableCell className="font-medium">
+                        {facility.name}
+                        {isUnderConstruction(facility) && (
+                          <Badge variant="outline" className="ml-2 text-xs bg-amber-100 text-amber-800 border-amber-200">
+                            Building
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {companyName}
+                        {isOwn && <Badge variant="secondary" className="ml-2 text-xs">You</Badge>}
+                      </TableCell>
+                      <TableCell>{facility.facilitySubtype || facility.type}</TableCell>
+                      <TableCell className="text-right">{facility.level ?? 0}</TableCell>
+                      <TableCell className="text-right">{facility.workerCount}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Local Prices</CardTitle>
+          <CardDescription>
+            Active marketplace listings sold from {city.name}, and the shelf price residents consider fair
+            for goods that meet their quality demand
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading prices...</p>
+          ) : priceResourceIds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing is listed in {city.name}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Resource</TableHead>
+                  <TableHead className="text-right">Lowest ask</TableHead>
+                  <TableHead className="text-right">Average ask</TableHead>
+                  <TableHead className="text-right">Listed</TableHead>
+                  <TableHead className="text-right">Fair shelf price</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {priceResourceIds.map((resourceId) => {
+                  const price = pricesByResource.get(resourceId);
+                  const consumerResource = consumerResources.find(resource => resource.id === resourceId);
+                  return (
+                    <TableRow key={resourceId}>
+                      <TableCell>
+                        {getResourceIcon(resourceId)} {getResourceName(resourceId)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {price ? formatNumber(price.lowestPrice, { currency: true, decimals: 2 }) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {price ? formatNumber(price.averagePrice, { currency: true, decimals: 2 }) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {price ? `${price.quantity} (${price.listingCount} ${price.listingCount === 1 ? 'listing' : 'listings'})` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {consumerResource
+                          ? formatNumber(getFairConsumerPrice(consumerResource, city, city.qualityDemand), { currency: true, decimals: 2 })
+                          : '—'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
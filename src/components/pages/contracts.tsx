@@ -0,0 +1,337 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Button,
+  Badge,
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from '@/components/ui';
+import { getResourceIcon } from '@/lib/constants';
+import { FileText, Plus } from 'lucide-react';
+import { toast, formatNumber, getErrorMessage } from '@/lib/utils';
+import { useFacilities, useGameTick } from '@/hooks';
+import type { SupplyContract, ContractDelivery } from '@/lib/database';
+import {
+  getCompanyContracts,
+  getContractHistory,
+  groupContractsByStatus,
+  getContractCounterparty,
+  getRemainingDeliveries,
+  getDeliveryValue,
+  describeContract,
+  acceptContract,
+  rejectContract,
+  cancelContract,
+} from '@/lib/services';
+import { ContractDialog } from './contracts/ContractDialog';
+
+interface ContractsProps {
+  currentCompany?: { id: string; name: string; money?: number } | null;
+}
+
+const OUTCOME_LABELS: Record<ContractDelivery['outcome'], string> = {
+  delivered: 'Delivered',
+  supplier_short: 'Supplier short',
+  buyer_unpaid: 'Buyer could not pay',
+  buyer_no_capacity: 'Buyer facility full',
+};
+
+const selectClassName = 'flex h-8 rounded-md border border-input bg-transparent px-2 py-1 text-xs shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50';
+
+export function Contracts({ currentCompany }: ContractsProps) {
+  const { facilities } = useFacilities(currentCompany?.id || null);
+  const { gameState } = useGameTick();
+  const currentTick = gameState.time.tick;
+
+  const [contracts, setContracts] = useState<SupplyContract[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState('active');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [acceptFacilityIds, setAcceptFacilityIds] = useState<Record<string, string>>({});
+  const [busyContractId, setBusyContractId] = useState<string | null>(null);
+  const [historyContractId, setHistoryContractId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ContractDelivery[]>([]);
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  // Deliveries run on game ticks, so reload on every tick
+  const companyId = currentCompany?.id;
+  useEffect(() => {
+    if (!companyId) return;
+    let cancelled = false;
+
+    getCompanyContracts(companyId)
+      .then((data) => {
+        if (!cancelled) setContracts(data);
+      })
+      .catch((err) => console.error('Error loading contracts:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, currentTick, refreshToken]);
+
+  useEffect(() => {
+    if (!historyContractId) return;
+    let cancelled = false;
+
+    getContractHistory(historyContractId)
+      .then((data) => {
+        if (!cancelled) setHistory(data);
+      })
+      .catch((err) => console.error('Error loading contract deliveries:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [historyContractId, currentTick]);
+
+  const overview = useMemo(() => groupContractsByStatus(contracts), [contracts]);
+
+  if (!currentCompany) return null;
+
+  const refresh = () => setRefreshToken(t => t + 1);
+
+  const facilityName = (facilityId: string | null) =>
+    facilityId ? facilities.find(f => f.id === facilityId)?.name ?? `Facility #${facilityId.slice(0, 8)}` : '—';
+
+  const describeRole = (contract: SupplyContract) => {
+    const counterparty = getContractCounterparty(contract, currentCompany.id).name;
+    return contract.supplierCompanyId === currentCompany.id
+      ? `Supplying ${counterparty}`
+      : `Buying from ${counterparty}`;
+  };
+
+  const ownFacilityId = (contract: SupplyContract) =>
+    contract.supplierCompanyId === currentCompany.id ? contract.supplierFacilityId : contract.buyerFacilityId;
+
+  const handleAccept = async (contract: SupplyContract) => {
+    const facilityId = acceptFacilityIds[contract.id] ?? facilities[0]?.id;
+    if (!facilityId) return;
+
+    setBusyContractId(contract.id);
+    try {
+      const result = await acceptContract(contract, currentCompany.id, facilityId);
+      if (result.success) {
+        toast({
+          title: 'Contract Accepted',
+          description: `First delivery at tick ${result.contract?.nextDeliveryTick ?? '?'}`,
+        });
+        refresh();
+      } else {
+        toast({ title: 'Accept Failed', description: result.error || 'Failed to accept contract', variant: 'destructive' });
+      }
+    } finally {
+      setBusyContractId(null);
+    }
+  };
+
+  const handleReject = async (contract: SupplyContract) => {
+    setBusyContractId(contract.id);
+    try {
+      await rejectContract(contract, currentCompany.id);
+      toast({ title: 'Contract Rejected', description: describeContract(contract) });
+      refresh();
+    } catch (error) {
+      toast({ title: 'Error', description: getErrorMessage(error, 'Failed to reject contract'), variant: 'destructive' });
+    } finally {
+      setBusyContractId(null);
+    }
+  };
+
+  const handleWithdraw = async (contract: SupplyContract) => {
+    setBusyContractId(contract.id);
+    try {
+      await cancelContract(contract, currentCompany.id);
+      toast({ title: 'Proposal Withdrawn', description: describeContract(contract) });
+      refresh();
+    } catch (error) {
+      toast({ title: 'Error', description: getErrorMessage(error, 'Failed to withdraw contract'), variant: 'destructive' });
+    } finally {
+      setBusyContractId(null);
+    }
+  };
+
+  const toggleHistory = (contractId: string) => {
+    setHistory([]);
+    setHistoryContractId(id => (id === contractId ? null : contractId));
+  };
+
+  const renderContract = (contract: SupplyContract) => {
+    const isIncomingProposal = contract.contractStatus === 'proposed' && contract.proposedByCompanyId !== currentCompany.id;
+    const isOwnProposal = contract.contractStatus === 'proposed' && contract.proposedByCompanyId === currentCompany.id;
+    const ticksUntilDelivery = contract.nextDeliveryTick !== null ? Math.max(0, contract.nextDeliveryTick - currentTick) : null;
+
+    return (
+      <div key={contract.id} className="rounded-lg border p-3 text-sm space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span>{getResourceIcon(contract.resourceId)}</span>
+            <span className="font-medium">{describeRole(contract)}</span>
+            <span className="text-muted-foreground">{describeContract(contract)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {isIncomingProposal && (
+              <>
+                <select
+                  value={acceptFacilityIds[contract.id] ?? facilities[0]?.id ?? ''}
+                  onChange={(e) => setAcceptFacilityIds(ids => ({ ...ids, [contract.id]: e.target.value }))}
+                  disabled={busyContractId === contract.id}
+                  className={selectClassName}
+                >
+                  {facilities.map((f) => (
+                    <option key={f.id} value={f.id}>
+                      {f.name}
+                    </option>
+                  ))}
+                </select>
+                <Button size="sm" onClick={() => handleAccept(contract)} disabled={busyContractId === contract.id || facilities.length === 0}>
+                  Accept
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleReject(contract)} disabled={busyContractId === contract.id}>
+                  Reject
+                </Button>
+              </>
+            )}
+            {isOwnProposal && (
+              <Button variant="outline" size="sm" onClick={() => handleWithdraw(contract)} disabled={busyContractId === contract.id}>
+                Withdraw
+              </Button>
+            )}
+            {contract.contractStatus !== 'proposed' && (
+              <Button variant="outline" size="sm" onClick={() => toggleHistory(contract.id)}>
+                {historyContractId === contract.id ? 'Hide History' : 'History'}
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+          <span>Your facility: {facilityName(ownFacilityId(contract))}</span>
+          <span>Per delivery: {formatNumber(getDeliveryValue(contract), { currency: true, decimals: 2 })}</span>
+          <span>
+            Delivered {contract.deliveriesCompleted}/{contract.totalDeliveries}
+            {contract.deliveriesMissed > 0 && ` · ${contract.deliveriesMissed} missed (breach at ${contract.maxMissedDeliveries})`}
+          </span>
+          {contract.contractStatus === 'active' && ticksUntilDelivery !== null && (
+            <span>
+              Next delivery in {ticksUntilDelivery} tick{ticksUntilDelivery !== 1 ? 's' : ''} · {getRemainingDeliveries(contract)} remaining
+            </span>
+          )}
+          {contract.contractStatus === 'breached' && (
+            <span className="text-red-600">
+              Breached by {contract.breachedByCompanyId === currentCompany.id ? 'you' : getContractCounterparty(contract, currentCompany.id).name}
+            </span>
+          )}
+        </div>
+        {historyContractId === contract.id && (
+          <div className="space-y-1 border-t pt-2">
+            {history.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No deliveries yet</p>
+            ) : (
+              history.map((delivery) => (
+                <div key={delivery.id} className="flex justify-between text-xs">
+                  <span>
+                    #{delivery.deliveryNumber} · tick {delivery.gameTick} · {OUTCOME_LABELS[delivery.outcome]}
+                  </span>
+                  <span className={delivery.outcome === 'delivered' ? '' : 'text-red-600'}>
+                    {delivery.outcome === 'delivered'
+                      ? formatNumber(delivery.amount, { currency: true, decimals: 2 })
+                      : `Penalty ${formatNumber(delivery.penalty, { currency: true, decimals: 2 })} paid by ${delivery.penaltyPaidByCompanyId === currentCompany.id ? 'you' : getContractCounterparty(contract, currentCompany.id).name}`}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderList = (list: SupplyContract[], emptyText: string) => (
+    list.length === 0 ? (
+      <p className="py-6 text-center text-sm text-muted-foreground">{emptyText}</p>
+    ) : (
+      <div className="space-y-2">{list.map(renderContract)}</div>
+    )
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-4">
+          <div className="p-3 rounded-lg bg-sky-100 text-sky-700">
+            <FileText className="h-6 w-6" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Contracts</h1>
+            <p className="text-muted-foreground">Recurring supply deliveries between your facilities and other companies</p>
+          </div>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} disabled={facilities.length === 0}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Contract
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Supply Contracts</CardTitle>
+          <CardDescription>Deliveries and payments run automatically each game tick</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="py-6 text-center text-muted-foreground">Loading contracts...</p>
+          ) : (
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-4 max-w-xl">
+                <TabsTrigger value="active">
+                  Active <Badge variant="outline" className="ml-2 text-xs">{overview.active.length}</Badge>
+                </TabsTrigger>
+                <TabsTrigger value="proposed">
+                  Proposed <Badge variant="outline" className="ml-2 text-xs">{overview.proposed.length}</Badge>
+                </TabsTrigger>
+                <TabsTrigger value="fulfilled">
+                  Fulfilled <Badge variant="outline" className="ml-2 text-xs">{overview.fulfilled.length}</Badge>
+                </TabsTrigger>
+                <TabsTrigger value="breached">
+                  Breached <Badge variant="outline" className="ml-2 text-xs">{overview.breached.length}</Badge>
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="active" className="mt-4">
+                {renderList(overview.active, 'No active contracts')}
+              </TabsContent>
+              <TabsContent value="proposed" className="mt-4">
+                {renderList(overview.proposed, 'No open proposals')}
+              </TabsContent>
+              <TabsContent value="fulfilled" className="mt-4">
+                {renderList(overview.fulfilled, 'No fulfilled contracts yet')}
+              </TabsContent>
+              <TabsContent value="breached" className="mt-4">
+                {renderList(overview.breached, 'No breached contracts')}
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+
+      <ContractDialog
+        key={`contract-${isDialogOpen}`}
+        open={isDialogOpen}
+        companyId={currentCompany.id}
+        facilities={facilities}
+        onOpenChange={setIsDialogOpen}
+        onProposed={refresh}
+      />
+    </div>
+  );
+}
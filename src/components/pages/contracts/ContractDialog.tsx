@@ -0,0 +1,227 @@
+import { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Button, Input, Label } from '@/components/ui';
+import { getResourceName, getResourceIcon, getAllResources, CONTRACT_DEFAULTS } from '@/lib/constants';
+import { proposeSupplyContract, getDeliveryValue, describeContract } from '@/lib/services';
+import { toast, formatNumber } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import type { ContractSide } from '@/lib/database';
+import type { Facility, ResourceId } from '@/lib/types/types';
+
+interface ContractDialogProps {
+  open: boolean;
+  companyId: string;
+  facilities: Facility[];
+  onOpenChange: (open: boolean) => void;
+  onProposed?: () => void;
+}
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50';
+
+export function ContractDialog({ open, companyId, facilities, onOpenChange, onProposed }: ContractDialogProps) {
+  const resourceIds = useMemo(() => Object.keys(getAllResources()).sort() as ResourceId[], []);
+  // Parent remounts the dialog when it opens (key), so initial state is derived once
+  const [counterpartyName, setCounterpartyName] = useState('');
+  const [side, setSide] = useState<ContractSide>('supply');
+  const [resourceId, setResourceId] = useState<ResourceId>(resourceIds[0] ?? '');
+  const [facilityId, setFacilityId] = useState<string>(facilities[0]?.id || '');
+  const [quantityPerDelivery, setQuantityPerDelivery] = useState(0);
+  const [pricePerUnit, setPricePerUnit] = useState(0);
+  const [intervalTicks, setIntervalTicks] = useState(1);
+  const [totalDeliveries, setTotalDeliveries] = useState(1);
+  const { isLoading: isSubmitting, withLoading } = useLoadingState();
+
+  const terms = { resourceId, quantityPerDelivery, pricePerUnit, intervalTicks, totalDeliveries };
+  const deliveryValue = getDeliveryValue(terms);
+
+  const validationError = !counterpartyName.trim()
+    ? 'Enter the company to contract with'
+    : !facilityId
+      ? 'Select a facility'
+      : quantityPerDelivery <= 0
+        ? 'Quantity per delivery must be greater than 0'
+        : intervalTicks <= 0
+          ? 'Interval must be at least 1 tick'
+          : totalDeliveries <= 0
+            ? 'Contract needs at least one delivery'
+            : null;
+
+  const handleConfirm = async () => {
+    if (validationError) return;
+
+    await withLoading(async () => {
+      const result = await proposeSupplyContract({
+        companyId,
+        counterpartyName,
+        side,
+        facilityId,
+        ...terms,
+      });
+
+      if (result.success) {
+        toast({
+          title: 'Contract Proposed',
+          description: `${describeContract(terms)} sent to ${counterpartyName.trim()}`,
+        });
+        onOpenChange(false);
+        onProposed?.();
+      } else {
+        toast({
+          title: 'Proposal Failed',
+          description: result.error || 'Failed to propose contract',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Propose Supply Contract</DialogTitle>
+          <DialogDescription>
+            Recurring deliveries at a fixed price; the other company accepts with its own facility
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="contract-company">Company</Label>
+              <Input
+                id="contract-company"
+                value={counterpartyName}
+                onChange={(e) => setCounterpartyName(e.target.value)}
+                placeholder="Company name"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contract-side">You will</Label>
+              <select
+                id="contract-side"
+                value={side}
+                onChange={(e) => setSide(e.target.value as ContractSide)}
+                disabled={isSubmitting}
+                className={selectClassName}
+              >
+                <option value="supply">Supply them</option>
+                <option value="buy">Buy from them</option>
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="contract-resource">Resource</Label>
+              <select
+                id="contract-resource"
+                value={resourceId}
+                onChange={(e) => setResourceId(e.target.value as ResourceId)}
+                disabled={isSubmitting}
+                className={selectClassName}
+              >
+                {resourceIds.map((id) => (
+                  <option key={id} value={id}>
+                    {getResourceIcon(id)} {getResourceName(id)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contract-facility">{side === 'supply' ? 'Deliver From' : 'Deliver To'}</Label>
+              <select
+                id="contract-facility"
+                value={facilityId}
+                onChange={(e) => setFacilityId(e.target.value)}
+                disabled={isSubmitting}
+                className={selectClassName}
+              >
+                {facilities.length === 0 && <option value="">No facilities available</option>}
+                {facilities.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="contract-quantity">Quantity</Label>
+              <Input
+                id="contract-quantity"
+                type="number"
+                min="1"
+                value={quantityPerDelivery}
+                onChange={(e) => setQuantityPerDelivery(Math.max(0, parseInt(e.target.value) || 0))}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contract-price">Price/Unit</Label>
+              <Input
+                id="contract-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={pricePerUnit}
+                onChange={(e) => setPricePerUnit(Math.max(0, parseFloat(e.target.value) || 0))}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contract-interval">Every (ticks)</Label>
+              <Input
+                id="contract-interval"
+                type="number"
+                min="1"
+                value={intervalTicks}
+                onChange={(e) => setIntervalTicks(Math.max(0, parseInt(e.target.value) || 0))}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contract-deliveries">Deliveries</Label>
+              <Input
+                id="contract-deliveries"
+                type="number"
+                min="1"
+                value={totalDeliveries}
+                onChange={(e) => setTotalDeliveries(Math.max(0, parseInt(e.target.value) || 0))}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          <div className="rounded-lg bg-muted p-3 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Per Delivery</span>
+              <span>{formatNumber(deliveryValue, { currency: true, decimals: 2 })}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Contract Value</span>
+              <span className="font-semibold">{formatNumber(deliveryValue * totalDeliveries, { currency: true, decimals: 2 })}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Penalty per Missed Delivery</span>
+              <span>{formatNumber(deliveryValue * CONTRACT_DEFAULTS.PENALTY_RATE, { currency: true, decimals: 2 })}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A supplier without stock, or a buyer without money or space, pays the penalty.
+              {` ${CONTRACT_DEFAULTS.MAX_MISSED_DELIVERIES} missed deliveries breach the contract.`}
+            </p>
+            {validationError && (
+              <p className="text-xs text-red-600">{validationError}</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={isSubmitting || !!validationError}>
+              {isSubmitting ? 'Sending...' : 'Propose Contract'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,9 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Badge, Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Label } from '@/components/ui';
-import { DEFAULT_CITIES, getResourceName } from '@/lib/constants';
-import { createFacility } from '@/lib/services';
+import { getAllCities, getResourceName, getAllFacilityTypeConfigs } from '@/lib/constants';
+import { createFacility, isUnderConstruction } from '@/lib/services';
 import { Building2, Factory, Warehouse, Store, Plus } from 'lucide-react';
-import { toast } from '@/lib/utils';
+import { toast, formatNumber } from '@/lib/utils';
 import { useLoadingState, useFacilities } from '@/hooks';
 import type { ProductionFacilityType } from '@/lib/types/types';
 
@@ -11,16 +11,24 @@ interface FacilitiesProps {
   currentCompany?: { id: string; name: string } | null;
   onFacilitySelect?: (facilityId: string) => void;
   onBack?: () => void;
+  createInCityId?: string | null; // Open the create dialog for this city (e.g. "Build facility here")
+  onCreateInCityHandled?: () => void;
 }
 
-export function Facilities({ currentCompany, onFacilitySelect, onBack }: FacilitiesProps) {
-  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [selectedCityId, setSelectedCityId] = useState<string>(DEFAULT_CITIES[0].id);
+export function Facilities({ currentCompany, onFacilitySelect, onBack, createInCityId, onCreateInCityHandled }: FacilitiesProps) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(!!createInCityId);
+  const [selectedCityId, setSelectedCityId] = useState<string>(createInCityId || getAllCities()[0]?.id || '');
   const [selectedFacilityType, setSelectedFacilityType] = useState<ProductionFacilityType>('farm');
   const { isLoading: isCreating, withLoading } = useLoadingState();
   
   // Use centralized game data hook for realtime facility updates
   const { facilities, isLoading, refetch } = useFacilities(currentCompany?.id || null);
+  const selectedConfig = getAllFacilityTypeConfigs()[selectedFacilityType];
+
+  // The prefilled city is taken once on mount; let the parent forget it
+  useEffect(() => {
+    if (createInCityId) onCreateInCityHandled?.();
+  }, [createInCityId, onCreateInCityHandled]);
 
   const handleCreateFacility = async () => {
     if (!currentCompany?.id) {
@@ -43,16 +51,18 @@ export function Facilities({ currentCompany, onFacilitySelect, onBack }: Facilit
 
         const facilityTypeName = selectedFacilityType.charAt(0).toUpperCase() + selectedFacilityType.slice(1);
         const hasAutoStart = newFacility.activeRecipeId !== undefined;
-        const successMessage = hasAutoStart
-          ? `${facilityTypeName} "${newFacility.name}" created successfully! Production started automatically.`
-          : `${facilityTypeName} "${newFacility.name}" created successfully!`;
+        const successMessage = isUnderConstruction(newFacility)
+          ? `${facilityTypeName} "${newFacility.name}" is under construction for ${newFacility.constructionTicksRemaining} ticks.`
+          : hasAutoStart
+            ? `${facilityTypeName} "${newFacility.name}" created successfully! Production started automatically.`
+            : `${facilityTypeName} "${newFacility.name}" created successfully!`;
 
         toast({
           title: 'Success',
           description: successMessage,
         });
         setIsCreateDialogOpen(false);
-        setSelectedCityId(DEFAULT_CITIES[0].id);
+        setSelectedCityId(getAllCities()[0]?.id ?? '');
         setSelectedFacilityType('farm');
         refetch();
       } catch (error: any) {
@@ -156,7 +166,13 @@ export function Facilities({ currentCompany, onFacilitySelect, onBack }: Facilit
                       </CardDescription>
                     </div>
                   </div>
-                  <Badge variant="outline">{facility.type}</Badge>
+                  {isUnderConstruction(facility) ? (
+                    <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                      Building: {facility.constructionTicksRemaining} ticks
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">{facility.type}</Badge>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="space-y-3">
@@ -226,7 +242,7 @@ export function Facilities({ currentCompany, onFacilitySelect, onBack }: Facilit
           <DialogHeader>
             <DialogTitle>Create New Facility</DialogTitle>
             <DialogDescription>
-              Build a new production facility. Select the type of facility you want to create.
+              Build a new production facility or warehouse. Select the type of facility you want to create.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -239,7 +255,7 @@ export function Facilities({ currentCompany, onFacilitySelect, onBack }: Facilit
                 disabled={isCreating}
                 className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
               >
-                {DEFAULT_CITIES.map((city) => (
+                {getAllCities().map((city) => (
                   <option key={city.id} value={city.id}>
                     {city.name}
                   </option>
@@ -258,12 +274,16 @@ export function Facilities({ currentCompany, onFacilitySelect, onBack }: Facilit
                 <option value="farm">Farm</option>
                 <option value="mill">Mill</option>
                 <option value="bakery">Bakery</option>
+                <option value="warehouse">Warehouse</option>
+                <option value="shop">Shop</option>
               </select>
             </div>
             <div className="rounded-lg bg-muted p-3 space-y-2">
               <p className="text-sm font-medium">Facility Details</p>
               <div className="flex items-center gap-2">
-                <Badge variant="secondary">Production</Badge>
+                <Badge variant="secondary">
+                  {selectedConfig?.type === 'warehouse' ? 'Warehouse' : selectedConfig?.type === 'retail' ? 'Retail' : 'Production'}
+                </Badge>
                 <Badge variant="outline">
                   {selectedFacilityType.charAt(0).toUpperCase() + selectedFacilityType.slice(1)}
                 </Badge>
@@ -272,7 +292,19 @@ export function Facilities({ currentCompany, onFacilitySelect, onBack }: Facilit
                 {selectedFacilityType === 'farm' && 'Farms can produce grain using the "Grow Grain" recipe. Production starts automatically.'}
                 {selectedFacilityType === 'mill' && 'Mills can process grain into flour using the "Mill Grain" recipe. Requires grain input to start production.'}
                 {selectedFacilityType === 'bakery' && 'Bakeries can bake bread from flour using the "Bake Bread" recipe. Requires flour input to start production.'}
+                {selectedFacilityType === 'warehouse' && 'Warehouses store large amounts of goods and produce nothing. Transfer goods in from your other facilities.'}
+                {selectedFacilityType === 'shop' && 'Shops sell goods to the residents of their city. Set a shelf price per product; consumers buy every tick, cheapest shop first.'}
               </p>
+              {selectedConfig && (
+                <div className="flex justify-between text-sm pt-2 border-t">
+                  <span>Build cost: <span className="font-semibold">{formatNumber(selectedConfig.buildCost, { currency: true })}</span></span>
+                  <span className="text-muted-foreground">
+                    {selectedConfig.constructionTicks > 0
+                      ? `Construction: ${selectedConfig.constructionTicks} ticks`
+                      : 'Ready immediately'}
+                  </span>
+                </div>
+              )}
             </div>
             <div className="flex justify-end gap-2 pt-2">
               <Button
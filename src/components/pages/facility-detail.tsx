@@ -3,23 +3,36 @@ import type { RecipeId, ResourceId } from '@/lib/types/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Badge, Input, Switch, Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/shadCN/table';
 import { updateFacility } from '@/lib/database';
-import { getRecipe, getResourceName, getResourceIcon, getAllResources } from '@/lib/constants';
-import { startProduction, stopProduction, createMultipleListings } from '@/lib/services';
+import { getRecipe, getCityById, getResourceName, getResourceIcon, getAllResources, getMarketFee, calculateMarketFee, MARKET_FEE_IDS } from '@/lib/constants';
+import { startProduction, pauseProduction, resumeProduction, createMultipleListings, getAvailableQuantity, getItemQuality, getPriceHistory, calculateOutputs, calculateOutputQuality, predictNextCycle, getProcessingTicks, withProcessingSpeed, withSeason, getSeasonalMultiplier, getGameMonthAfterTicks, isUnderConstruction } from '@/lib/services';
 import { getGameState } from '@/lib/services/core';
-import { Building2, Factory, Warehouse, Store, ArrowLeft, Pencil, Check, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { Building2, Factory, Warehouse, Store, ArrowLeft, Pencil, Check, X, ChevronDown, ChevronRight, Trash2, ArrowUpDown } from 'lucide-react';
 import { toast, formatNumber } from '@/lib/utils';
 import { useLoadingState, useFacility } from '@/hooks';
+import { FacilityListings } from './facility-detail/FacilityListings';
+import { ProductionQueueEditor } from './facility-detail/ProductionQueueEditor';
+import { CancelProductionDialog } from './facility-detail/CancelProductionDialog';
+import { WorkforcePanel } from './facility-detail/WorkforcePanel';
+import { FacilityUpgradePanel } from './facility-detail/FacilityUpgradePanel';
+import { ShelfPricesPanel } from './facility-detail/ShelfPricesPanel';
+import { DemolishFacilityDialog } from './facility-detail/DemolishFacilityDialog';
+import { TransferDialog } from './facility-detail/TransferDialog';
+import { YieldCalendar } from './facility-detail/YieldCalendar';
+import { PriceHistoryPanel } from '@/components';
 
 interface FacilityDetailProps {
   facilityId: string;
   currentCompany?: { id: string; name: string } | null;
   onBack?: () => void;
+  onCitySelect?: (cityId: string) => void;
 }
 
-export function FacilityDetail({ facilityId, currentCompany: _currentCompany, onBack }: FacilityDetailProps) {
+export function FacilityDetail({ facilityId, currentCompany: _currentCompany, onBack, onCitySelect }: FacilityDetailProps) {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState('');
   const [showAvailableOnly, setShowAvailableOnly] = useState(false);
+  const [minQuality, setMinQuality] = useState(0); // 0 = no quality filter
+  const [sortByQuality, setSortByQuality] = useState(false);
   const [showRecipes, setShowRecipes] = useState(false);
   const [forSaleValues, setForSaleValues] = useState<Record<string, number>>({});
   const [expandedSections, setExpandedSections] = useState({
@@ -29,9 +42,15 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
     otherResources: false,
   });
   const [salePrices, setSalePrices] = useState<Record<string, number>>({});
+  const [listingExpiryTicks, setListingExpiryTicks] = useState(0); // 0 = listings never expire
+  const [listingsRefreshToken, setListingsRefreshToken] = useState(0);
+  const [priceHistoryResource, setPriceHistoryResource] = useState<ResourceId | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const { isLoading: isStarting, withLoading: withStartingLoading } = useLoadingState();
-  const { isLoading: isStopping, withLoading: withStoppingLoading } = useLoadingState();
+  const { isLoading: isPausing, withLoading: withPausingLoading } = useLoadingState();
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [isDemolishDialogOpen, setIsDemolishDialogOpen] = useState(false);
+  const [transferResourceId, setTransferResourceId] = useState<ResourceId | null>(null);
   const { isLoading: isRenaming, withLoading: withRenamingLoading } = useLoadingState();
   const { isLoading: isSavingListings, withLoading: withSavingListingsLoading } = useLoadingState();
   const lastActiveRecipeRef = useRef<RecipeId | undefined>(undefined);
@@ -80,20 +99,40 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
     });
   };
 
-  const handleStopProduction = async () => {
+  const handlePauseProduction = async () => {
     if (!facility) return;
 
-    await withStoppingLoading(async () => {
-      const updatedFacility = await stopProduction(facility);
+    await withPausingLoading(async () => {
+      const updatedFacility = await pauseProduction(facility);
       if (updatedFacility) {
         toast({
-          title: 'Production Stopped',
-          description: 'Production has been paused. You can resume by selecting the same recipe.',
+          title: 'Production Paused',
+          description: 'Progress and consumed inputs are kept. Resume to continue the cycle.',
         });
       } else {
         toast({
           title: 'Error',
-          description: 'Failed to stop production.',
+          description: 'Failed to pause production.',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  const handleResumeProduction = async () => {
+    if (!facility) return;
+
+    await withPausingLoading(async () => {
+      const updatedFacility = await resumeProduction(facility);
+      if (updatedFacility) {
+        toast({
+          title: 'Production Resumed',
+          description: `Continuing at ${updatedFacility.progressTicks ?? 0} ticks of progress.`,
+        });
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to resume production.',
           variant: 'destructive',
         });
       }
@@ -218,13 +257,13 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
       // Check if this resource is produced
       const outputItem = recipe?.outputs.find(o => o.resourceId === resourceId);
       if (outputItem && recipe) {
-        production = outputItem.quantity / recipe.processingTicks; // per tick
+        production = outputItem.quantity / getProcessingTicks(recipe, facility.processingTicksMultiplier); // per tick
       }
 
       // Check if this resource is consumed
       const inputItem = recipe?.inputs.find(i => i.resourceId === resourceId);
       if (inputItem && recipe) {
-        consumption = inputItem.quantity / recipe.processingTicks; // per tick
+        consumption = inputItem.quantity / getProcessingTicks(recipe, facility.processingTicksMultiplier); // per tick
       }
     }
 
@@ -263,14 +302,27 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
 
   // Handle for sale value change
   const handleForSaleChange = (resourceId: ResourceId, value: number) => {
-    const inventoryItem = facility?.inventory.items.find(i => i.resourceId === resourceId);
-    const maxValue = inventoryItem?.quantity || 0;
+    // Stock already reserved by active listings cannot be listed again
+    const maxValue = facility ? getAvailableQuantity(facility.inventory, resourceId) : 0;
     const validValue = Math.max(0, Math.min(value, maxValue));
     
     setForSaleValues(prev => ({
       ...prev,
       [resourceId]: validValue
     }));
+    setPriceHistoryResource(resourceId);
+
+    // Default the sale price to the suggested (recent VWAP) price
+    if (validValue > 0 && salePrices[resourceId] === undefined) {
+      getPriceHistory(resourceId, getGameState().time.tick)
+        .then(history => {
+          if (history.suggestedPrice === null) return;
+          setSalePrices(prev => prev[resourceId] === undefined
+            ? { ...prev, [resourceId]: history.suggestedPrice! }
+            : prev);
+        })
+        .catch(error => console.error('Error loading suggested price:', error));
+    }
   };
 
   // Handle sale price change
@@ -298,6 +350,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
             resourceId: resourceId as ResourceId,
             quantity,
             pricePerUnit: salePrices[resourceId] || 0,
+            expiryTicks: listingExpiryTicks > 0 ? listingExpiryTicks : undefined,
           }));
 
         if (listingsToCreate.length === 0) {
@@ -324,6 +377,8 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
         // Reset form values
         setForSaleValues({});
         setSalePrices({});
+        setPriceHistoryResource(null);
+        setListingsRefreshToken(t => t + 1);
       } catch (error: any) {
         console.error('Error saving listings:', error);
         toast({
@@ -374,11 +429,14 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
       });
     });
 
-    // Filter function based on "Show Available Only" toggle
+    // Filter function based on "Show Available Only" toggle and the minimum quality
     const shouldShowResource = (resourceId: ResourceId) => {
-      if (showAvailableOnly) {
-        const inventoryItem = facility.inventory.items.find(item => item.resourceId === resourceId);
-        return inventoryItem && inventoryItem.quantity > 0;
+      const inventoryItem = facility.inventory.items.find(item => item.resourceId === resourceId);
+      if (showAvailableOnly && !(inventoryItem && inventoryItem.quantity > 0)) {
+        return false;
+      }
+      if (minQuality > 0) {
+        return !!inventoryItem && getItemQuality(facility.inventory, resourceId) >= minQuality;
       }
       return true;
     };
@@ -405,6 +463,15 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
       }
     });
 
+    // Highest quality stock first within each sublist; resources without stock last
+    if (sortByQuality) {
+      const qualityOf = (resourceId: ResourceId) =>
+        facility.inventory.items.some(item => item.resourceId === resourceId)
+          ? getItemQuality(facility.inventory, resourceId)
+          : 0;
+      Object.values(categorized).forEach(list => list.sort((a, b) => qualityOf(b) - qualityOf(a)));
+    }
+
     return categorized;
   };
 
@@ -439,6 +506,10 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
     );
   }
 
+  // Warehouses and retail facilities have no recipes
+  const hasProduction = facility.type === 'production';
+  const cityName = getCityById(facility.cityId)?.name || facility.cityId;
+
   const inventoryUsagePercent = facility.inventory.capacity > 0
     ? (facility.inventory.currentUsage / facility.inventory.capacity) * 100
     : 0;
@@ -509,7 +580,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
               )}
             </div>
             <p className="text-muted-foreground">
-              {facility.facilitySubtype || facility.type} • {facility.cityId}
+              {facility.facilitySubtype || facility.type} • {cityName}
             </p>
           </div>
         </div>
@@ -519,10 +590,10 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
         <CardContent className="p-0">
           <Tabs defaultValue="management" className="w-full">
             <div className="px-6 pt-6">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className={`grid w-full ${hasProduction ? 'grid-cols-3' : 'grid-cols-2'}`}>
                 <TabsTrigger value="management">Management</TabsTrigger>
                 <TabsTrigger value="inventory">Inventory</TabsTrigger>
-                <TabsTrigger value="production">Production</TabsTrigger>
+                {hasProduction && <TabsTrigger value="production">Production</TabsTrigger>}
               </TabsList>
             </div>
 
@@ -545,35 +616,77 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                 )}
                 <div>
                   <p className="text-sm text-muted-foreground mb-1">City</p>
-                  <p className="font-semibold">{facility.cityId}</p>
+                  {onCitySelect ? (
+                    <button
+                      type="button"
+                      onClick={() => onCitySelect(facility.cityId)}
+                      className="font-semibold text-primary hover:underline"
+                    >
+                      {cityName}
+                    </button>
+                  ) : (
+                    <p className="font-semibold">{cityName}</p>
+                  )}
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground mb-1">Workers</p>
                   <p className="font-semibold">{facility.workerCount}</p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground mb-1">Production Status</p>
-                  {facility.isProducing ? (
-                    <Badge 
-                      variant="outline" 
-                      className="text-xs bg-green-100 text-green-800 border-green-200 relative"
-                    >
-                      <div className="absolute inset-0 bg-green-300 opacity-50 animate-[ping_2s_ease-in-out_infinite] rounded-md" />
-                      <span className="relative z-10">Producing</span>
-                    </Badge>
-                  ) : (
-                    <Badge 
-                      variant="outline" 
-                      className="text-xs bg-orange-100 text-orange-800 border-orange-200"
-                    >
-                      Missing Inputs
-                    </Badge>
-                  )}
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground mb-1">Selected Recipe</p>
-                  <p className="font-semibold">{getRecipe(facility.activeRecipeId!)?.name || 'Unknown Recipe'}</p>
+                  <p className="text-sm text-muted-foreground mb-1">Level</p>
+                  <p className="font-semibold">
+                    {facility.level ?? 0}
+                    {facility.upgradeTargetLevel ? ` (upgrading to ${facility.upgradeTargetLevel})` : ''}
+                  </p>
                 </div>
+                {hasProduction && (
+                  <>
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-1">Production Status</p>
+                      {isUnderConstruction(facility) ? (
+                        <Badge 
+                          variant="outline" 
+                          className="text-xs bg-amber-100 text-amber-800 border-amber-200"
+                        >
+                          Under construction: {facility.constructionTicksRemaining} {facility.constructionTicksRemaining === 1 ? 'tick' : 'ticks'}
+                        </Badge>
+                      ) : facility.blockedReason === 'storage_full' ? (
+                        <Badge 
+                          variant="outline" 
+                          className="text-xs bg-red-100 text-red-800 border-red-200"
+                        >
+                          Storage full
+                        </Badge>
+                      ) : facility.isPaused ? (
+                        <Badge 
+                          variant="outline" 
+                          className="text-xs bg-blue-100 text-blue-800 border-blue-200"
+                        >
+                          Paused
+                        </Badge>
+                      ) : facility.isProducing ? (
+                        <Badge 
+                          variant="outline" 
+                          className="text-xs bg-green-100 text-green-800 border-green-200 relative"
+                        >
+                          <div className="absolute inset-0 bg-green-300 opacity-50 animate-[ping_2s_ease-in-out_infinite] rounded-md" />
+                          <span className="relative z-10">Producing</span>
+                        </Badge>
+                      ) : (
+                        <Badge 
+                          variant="outline" 
+                          className="text-xs bg-orange-100 text-orange-800 border-orange-200"
+                        >
+                          {facility.progressTicks > 0 ? 'Missing Inputs' : 'Stopped'}
+                        </Badge>
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground mb-1">Selected Recipe</p>
+                      <p className="font-semibold">{getRecipe(facility.activeRecipeId!)?.name || 'Unknown Recipe'}</p>
+                    </div>
+                  </>
+                )}
               </div>
               <div className="mt-4 pt-4 border-t">
                 <p className="text-sm text-muted-foreground mb-2">Effectivity</p>
@@ -581,7 +694,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                   <div className="flex-1 bg-muted rounded-full h-2">
                     <div
                       className="bg-primary h-2 rounded-full transition-all"
-                      style={{ width: `${facility.effectivity}%` }}
+                      style={{ width: `${Math.min(100, facility.effectivity)}%` }}
                     />
                   </div>
                   <span className="text-sm font-semibold w-12 text-right">
@@ -589,6 +702,23 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                   </span>
                 </div>
               </div>
+              {facility.type === 'retail' && <ShelfPricesPanel facility={facility} />}
+              <WorkforcePanel key={facility.workerCount} facility={facility} />
+              <FacilityUpgradePanel facility={facility} />
+              <div className="mt-4 pt-4 border-t flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Demolish the facility to get part of its build cost back
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-700"
+                  onClick={() => setIsDemolishDialogOpen(true)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Demolish
+                </Button>
+              </div>
             </TabsContent>
 
             {/* Inventory Tab */}
@@ -615,6 +745,20 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                         Show available only
                       </label>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <label htmlFor="minQuality" className="text-sm font-medium">
+                        Min quality
+                      </label>
+                      <Input
+                        id="minQuality"
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={minQuality}
+                        onChange={(e) => setMinQuality(Math.max(0, parseFloat(e.target.value) || 0))}
+                        className="w-20 h-8"
+                      />
+                    </div>
                     <Badge variant="outline">
                       {facility.inventory.currentUsage} / {facility.inventory.capacity}
                     </Badge>
@@ -638,6 +782,8 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                 const renderResourceRow = (resourceId: ResourceId) => {
                   const inventoryItem = facility.inventory.items.find(i => i.resourceId === resourceId);
                   const amount = inventoryItem?.quantity || 0;
+                  const reserved = inventoryItem?.reservedQuantity || 0;
+                  const available = getAvailableQuantity(facility.inventory, resourceId);
                   const metrics = calculateResourceMetrics(resourceId);
 
                   return (
@@ -650,6 +796,11 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                         </div>
                       </TableCell>
 
+                      {/* Quality */}
+                      <TableCell className="text-center">
+                        {inventoryItem ? formatNumber(getItemQuality(facility.inventory, resourceId), { decimals: 1 }) : '-'}
+                      </TableCell>
+
                       {/* Import */}
                       <TableCell className="text-center text-blue-600">
                         {metrics.import > 0 ? formatNumber(metrics.import, { decimals: 1, smartDecimals: true }) : '-'}
@@ -687,11 +838,11 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                         <Input
                           type="number"
                           min="0"
-                          max={amount}
+                          max={available}
                           value={forSaleValues[resourceId] || 0}
                           onChange={(e) => handleForSaleChange(resourceId, parseInt(e.target.value) || 0)}
                           className="w-20 h-8 text-center"
-                          disabled={amount === 0}
+                          disabled={available === 0}
                         />
                       </TableCell>
 
@@ -703,6 +854,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                           step="0.01"
                           value={salePrices[resourceId] || 0}
                           onChange={(e) => handleSalePriceChange(resourceId, parseFloat(e.target.value) || 0)}
+                          onFocus={() => setPriceHistoryResource(resourceId)}
                           className="w-20 h-8 text-center"
                           disabled={(forSaleValues[resourceId] || 0) === 0}
                         />
@@ -711,6 +863,20 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                       {/* Amount */}
                       <TableCell className="text-right font-semibold">
                         {amount}
+                        {reserved > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {reserved} listed
+                          </div>
+                        )}
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs font-normal"
+                          onClick={() => setTransferResourceId(resourceId)}
+                          disabled={available === 0}
+                        >
+                          Transfer to…
+                        </Button>
                       </TableCell>
                     </TableRow>
                   );
@@ -722,6 +888,18 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                       <TableHeader>
                         <TableRow>
                           <TableHead className="w-[180px]">Resource</TableHead>
+                          <TableHead className="text-center w-[80px]">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-auto p-0 font-medium"
+                              onClick={() => setSortByQuality(!sortByQuality)}
+                              title="Sort by quality"
+                            >
+                              Quality
+                              <ArrowUpDown className={`h-3 w-3 ml-1 ${sortByQuality ? 'text-primary' : ''}`} />
+                            </Button>
+                          </TableHead>
                           <TableHead className="text-center w-[80px]">Import</TableHead>
                           <TableHead className="text-center w-[80px]">Export</TableHead>
                           <TableHead className="text-center w-[100px]">Production</TableHead>
@@ -741,7 +919,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                               className="bg-blue-50 hover:bg-blue-100 cursor-pointer"
                               onClick={() => toggleSection('activeRecipeInputs')}
                             >
-                              <TableCell colSpan={10} className="font-semibold text-blue-900">
+                              <TableCell colSpan={11} className="font-semibold text-blue-900">
                                 <div className="flex items-center gap-2">
                                   {expandedSections.activeRecipeInputs ? (
                                     <ChevronDown className="h-4 w-4" />
@@ -763,7 +941,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                               className="bg-green-50 hover:bg-green-100 cursor-pointer"
                               onClick={() => toggleSection('facilityInputs')}
                             >
-                              <TableCell colSpan={10} className="font-semibold text-green-900">
+                              <TableCell colSpan={11} className="font-semibold text-green-900">
                                 <div className="flex items-center gap-2">
                                   {expandedSections.facilityInputs ? (
                                     <ChevronDown className="h-4 w-4" />
@@ -785,7 +963,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                               className="bg-purple-50 hover:bg-purple-100 cursor-pointer"
                               onClick={() => toggleSection('facilityOutputs')}
                             >
-                              <TableCell colSpan={10} className="font-semibold text-purple-900">
+                              <TableCell colSpan={11} className="font-semibold text-purple-900">
                                 <div className="flex items-center gap-2">
                                   {expandedSections.facilityOutputs ? (
                                     <ChevronDown className="h-4 w-4" />
@@ -807,7 +985,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                               className="bg-gray-50 hover:bg-gray-100 cursor-pointer"
                               onClick={() => toggleSection('otherResources')}
                             >
-                              <TableCell colSpan={10} className="font-semibold text-gray-900">
+                              <TableCell colSpan={11} className="font-semibold text-gray-900">
                                 <div className="flex items-center gap-2">
                                   {expandedSections.otherResources ? (
                                     <ChevronDown className="h-4 w-4" />
@@ -842,9 +1020,37 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                 </div>
               </div>
 
+              {/* Price history for the resource being listed */}
+              {priceHistoryResource && (
+                <div className="mt-4">
+                  <PriceHistoryPanel
+                    resourceId={priceHistoryResource}
+                    onUseSuggestedPrice={(price) => handleSalePriceChange(priceHistoryResource, price)}
+                  />
+                </div>
+              )}
+
               {/* Save button for inventory changes */}
               {(Object.keys(forSaleValues).length > 0 || Object.keys(salePrices).length > 0) && (
-                <div className="flex justify-end mt-4 pt-4 border-t">
+                <div className="flex items-center justify-end gap-4 mt-4 pt-4 border-t">
+                  <span className="text-xs text-muted-foreground">
+                    Listing fee {formatNumber(calculateMarketFee(MARKET_FEE_IDS.LISTING), { currency: true, decimals: 2 })} per listing
+                    {' · '}Sales fee {formatNumber((getMarketFee(MARKET_FEE_IDS.SALES)?.rate ?? 0) * 100, { decimals: 1 })}%
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="listingExpiryTicks" className="text-sm text-muted-foreground">
+                      Expires after (ticks, 0 = never)
+                    </label>
+                    <Input
+                      id="listingExpiryTicks"
+                      type="number"
+                      min="0"
+                      value={listingExpiryTicks}
+                      onChange={(e) => setListingExpiryTicks(Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-20 h-8 text-center"
+                      disabled={isSavingListings}
+                    />
+                  </div>
                   <Button
                     onClick={handleSaveListings}
                     disabled={isSavingListings}
@@ -853,6 +1059,8 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                   </Button>
                 </div>
               )}
+
+              <FacilityListings facilityId={facility.id} refreshToken={listingsRefreshToken} />
               </div>
             </TabsContent>
 
@@ -865,18 +1073,28 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                   if (!activeRecipe) return null;
                   
                   const progressTicks = facility.progressTicks ?? 0;
-                  const totalTicks = activeRecipe.processingTicks;
+                  const totalTicks = getProcessingTicks(activeRecipe, facility.processingTicksMultiplier);
                   const progressPercent = totalTicks > 0 ? (progressTicks / totalTicks) * 100 : 0;
                   
                   const gameState = getGameState();
                   const currentTick = gameState.time.tick;
                   const startedTick = currentTick - progressTicks;
                   const completionTick = startedTick + totalTicks;
+                  // Outputs follow the season of the month the cycle completes in
+                  const completionMonth = getGameMonthAfterTicks(gameState.time, totalTicks - progressTicks).month;
+                  const seasonalMultiplier = getSeasonalMultiplier(activeRecipe, completionMonth);
+                  const lookupRecipe = withSeason(withProcessingSpeed(getRecipe, facility.processingTicksMultiplier), completionMonth);
                   
-                  const mainOutput = activeRecipe.outputs[0];
+                  // Same simulation as the game tick, so the prediction matches what will happen
+                  const mainOutput = calculateOutputs(lookupRecipe(activeRecipe.id) ?? activeRecipe, facility.effectivity)[0];
                   const outputIcon = mainOutput ? getResourceIcon(mainOutput.resourceId) : '';
                   const outputName = mainOutput ? getResourceName(mainOutput.resourceId) : '';
                   const outputAmount = mainOutput?.quantity || 0;
+                  const outputQuality = calculateOutputQuality(
+                    facility.effectivity,
+                    facility.cycleInputsConsumed ? facility.cycleInputQuality ?? null : null
+                  );
+                  const nextCycle = predictNextCycle(facility, lookupRecipe);
                   
                   return (
                     <Card className="border-l-4 border-l-green-500">
@@ -889,7 +1107,28 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                               </CardTitle>
                               <CardDescription>Currently producing: {activeRecipe.name}</CardDescription>
                             </div>
-                            {facility.isProducing ? (
+                            {isUnderConstruction(facility) ? (
+                              <Badge 
+                                variant="outline" 
+                                className="text-xs bg-amber-100 text-amber-800 border-amber-200"
+                              >
+                                Under construction: {facility.constructionTicksRemaining} {facility.constructionTicksRemaining === 1 ? 'tick' : 'ticks'}
+                              </Badge>
+                            ) : facility.blockedReason === 'storage_full' ? (
+                              <Badge 
+                                variant="outline" 
+                                className="text-xs bg-red-100 text-red-800 border-red-200"
+                              >
+                                Storage full
+                              </Badge>
+                            ) : facility.isPaused ? (
+                              <Badge 
+                                variant="outline" 
+                                className="text-xs bg-blue-100 text-blue-800 border-blue-200"
+                              >
+                                Paused
+                              </Badge>
+                            ) : facility.isProducing ? (
                               <Badge 
                                 variant="outline" 
                                 className="text-xs bg-green-100 text-green-800 border-green-200 relative"
@@ -902,7 +1141,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                                 variant="outline" 
                                 className="text-xs bg-orange-100 text-orange-800 border-orange-200"
                               >
-                                Missing Inputs
+                                {facility.progressTicks > 0 ? 'Missing Inputs' : 'Stopped'}
                               </Badge>
                             )}
                           </div>
@@ -914,14 +1153,36 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                             >
                               {showRecipes ? 'Hide Recipes' : 'Change Recipe'}
                             </Button>
-                            {facility.isProducing && (
+                            {facility.isProducing ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handlePauseProduction}
+                                disabled={isPausing}
+                                title="Stop advancing; keeps progress and consumed inputs"
+                              >
+                                Pause
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleResumeProduction}
+                                disabled={isPausing || isUnderConstruction(facility)}
+                                title="Continue the current cycle from its progress"
+                              >
+                                Resume
+                              </Button>
+                            )}
+                            {(facility.isProducing || facility.progressTicks > 0) && (
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={handleStopProduction}
-                                disabled={isStopping}
+                                className="text-red-700"
+                                onClick={() => setIsCancelDialogOpen(true)}
+                                title="Discard the cycle's progress, optionally refunding part of its inputs"
                               >
-                                Stop
+                                Cancel
                               </Button>
                             )}
                           </div>
@@ -951,8 +1212,36 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                             <span className="font-medium text-green-700">
                               {outputAmount} {outputIcon} {outputName}
                             </span>
+                            <span>(quality {formatNumber(outputQuality, { decimals: 1 })})</span>
                             <span>@Tick #{completionTick}</span>
+                            {seasonalMultiplier !== 1 && (
+                              <span>(month {completionMonth} season ×{formatNumber(seasonalMultiplier, { decimals: 2 })})</span>
+                            )}
+                            {nextCycle.nextRecipeId !== activeRecipe.id && (
+                              <>
+                                <span className="mx-1">•</span>
+                                <span>Then: {getRecipe(nextCycle.nextRecipeId)?.name || 'Unknown Recipe'}</span>
+                              </>
+                            )}
                           </div>
+
+                          {facility.blockedReason === 'storage_full' ? (
+                            <p className="text-xs text-red-700">
+                              Storage full: the finished outputs do not fit ({facility.inventory.currentUsage} / {facility.inventory.capacity}).
+                              Production resumes once there is room.
+                            </p>
+                          ) : facility.isProducing && nextCycle.blockedReason === 'storage_full' ? (
+                            <p className="text-xs text-red-700">
+                              Not enough free storage for this cycle's outputs; production will block when it completes.
+                            </p>
+                          ) : facility.isProducing && !nextCycle.willContinue && (
+                            <p className="text-xs text-orange-700">
+                              Production will stop after this cycle. Missing for the next cycle:{' '}
+                              {nextCycle.missingInputs
+                                .map(input => `${getResourceName(input.resourceId)} ${input.available}/${input.required}`)
+                                .join(', ')}
+                            </p>
+                          )}
                           
                           <div className="grid grid-cols-2 gap-4 pt-2 border-t">
                             <div>
@@ -992,6 +1281,17 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                   );
                 })()}
 
+                {/* Year-ahead yields of the active recipe */}
+                {(() => {
+                  const activeRecipe = getRecipe(facility.activeRecipeId!);
+                  return activeRecipe ? (
+                    <YieldCalendar facility={facility} recipe={activeRecipe} time={getGameState().time} />
+                  ) : null;
+                })()}
+
+                {/* Production Queue */}
+                <ProductionQueueEditor facility={facility} />
+
                 {/* Recipe Selection - Only show when user clicks "Change Recipe" */}
                 {showRecipes && (
                   <Card>
@@ -1008,6 +1308,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                           if (!recipe) return null;
                           
                           const isActive = facility.activeRecipeId === recipeId;
+                          const ticks = getProcessingTicks(recipe, facility.processingTicksMultiplier);
                           
                           return (
                             <Button
@@ -1018,7 +1319,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                                   setShowRecipes(false);
                                 }
                               }}
-                              disabled={isStarting || isActive}
+                              disabled={isStarting || isActive || isUnderConstruction(facility)}
                               variant="outline"
                               className={`w-full justify-start h-auto flex flex-col items-start p-3 ${
                                 isActive 
@@ -1032,7 +1333,7 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
                                   {isActive && ' (Current)'}
                                 </span>
                                 <Badge variant="secondary" className="text-xs">
-                                  {recipe.processingTicks} {recipe.processingTicks === 1 ? 'tick' : 'ticks'}
+                                  {ticks} {ticks === 1 ? 'tick' : 'ticks'}
                                 </Badge>
                               </div>
                               
@@ -1084,6 +1385,29 @@ export function FacilityDetail({ facilityId, currentCompany: _currentCompany, on
           </Tabs>
         </CardContent>
       </Card>
+
+      <CancelProductionDialog
+        key={`cancel-${isCancelDialogOpen}`}
+        open={isCancelDialogOpen}
+        facility={facility}
+        onOpenChange={setIsCancelDialogOpen}
+      />
+
+      <DemolishFacilityDialog
+        key={`demolish-${isDemolishDialogOpen}`}
+        open={isDemolishDialogOpen}
+        facility={facility}
+        onOpenChange={setIsDemolishDialogOpen}
+        onDemolished={onBack}
+      />
+
+      <TransferDialog
+        key={`transfer-${transferResourceId}`}
+        open={transferResourceId !== null}
+        facility={facility}
+        resourceId={transferResourceId}
+        onOpenChange={(open) => !open && setTransferResourceId(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Button, Label, Switch } from '@/components/ui';
+import { getRecipe, getResourceName, getResourceIcon, PRODUCTION_DEFAULTS } from '@/lib/constants';
+import { cancelProduction, calculateCancelRefund, canStoreItems } from '@/lib/services';
+import { toast } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import type { Facility } from '@/lib/types/types';
+
+interface CancelProductionDialogProps {
+  open: boolean;
+  facility: Facility;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CancelProductionDialog({ open, facility, onOpenChange }: CancelProductionDialogProps) {
+  const recipe = getRecipe(facility.activeRecipeId);
+  const refund = recipe ? calculateCancelRefund(facility, recipe, PRODUCTION_DEFAULTS.CANCEL_REFUND_RATE) : [];
+  const refundFits = canStoreItems(facility.inventory, refund);
+  // Parent remounts the dialog when it opens (key), so initial state is derived once
+  const [refundInputs, setRefundInputs] = useState(refund.length > 0 && refundFits);
+  const { isLoading: isCancelling, withLoading } = useLoadingState();
+
+  const handleConfirm = async () => {
+    await withLoading(async () => {
+      const updated = await cancelProduction(facility, refundInputs);
+      if (updated) {
+        toast({
+          title: 'Production Cancelled',
+          description: refundInputs && refund.length > 0
+            ? `Refunded ${refund.map(item => `${item.quantity} ${getResourceName(item.resourceId)}`).join(', ')}`
+            : 'Cycle progress was discarded.',
+        });
+        onOpenChange(false);
+      } else {
+        toast({ title: 'Error', description: 'Failed to cancel production.', variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Production Cycle</DialogTitle>
+          <DialogDescription>
+            Discards {facility.progressTicks} {facility.progressTicks === 1 ? 'tick' : 'ticks'} of progress on {recipe?.name || 'the current recipe'}.
+            Use Pause instead to keep the progress.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="rounded-lg bg-muted p-3 space-y-2 text-sm">
+            {refund.length === 0 ? (
+              <p className="text-muted-foreground">
+                {facility.cycleInputsConsumed
+                  ? 'Nothing to refund at this rate.'
+                  : 'No inputs were consumed for this cycle, so there is nothing to refund.'}
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="refundInputs" className="cursor-pointer">
+                    Refund {Math.round(PRODUCTION_DEFAULTS.CANCEL_REFUND_RATE * 100)}% of the consumed inputs
+                  </Label>
+                  <Switch
+                    id="refundInputs"
+                    checked={refundInputs}
+                    onCheckedChange={setRefundInputs}
+                    disabled={isCancelling || !refundFits}
+                  />
+                </div>
+                <ul className="space-y-1">
+                  {refund.map((item) => (
+                    <li key={item.resourceId} className="flex items-center gap-1">
+                      <span>{getResourceIcon(item.resourceId)}</span>
+                      <span>{getResourceName(item.resourceId)} × {item.quantity}</span>
+                    </li>
+                  ))}
+                </ul>
+                {!refundFits && (
+                  <p className="text-xs text-red-600">Not enough free storage for the refund</p>
+                )}
+              </>
+            )}
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCancelling}>
+              Keep Producing
+            </Button>
+            <Button variant="destructive" onClick={handleConfirm} disabled={isCancelling}>
+              {isCancelling ? 'Cancelling...' : 'Cancel Cycle'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
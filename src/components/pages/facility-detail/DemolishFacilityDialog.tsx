@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Button, Label } from '@/components/ui';
+import { demolishFacility, getDemolitionRefund, getFreeCapacity, normalizeInventory } from '@/lib/services';
+import { toast, formatNumber, getErrorMessage } from '@/lib/utils';
+import { useLoadingState, useFacilities } from '@/hooks';
+import type { Facility } from '@/lib/types/types';
+
+interface DemolishFacilityDialogProps {
+  open: boolean;
+  facility: Facility;
+  onOpenChange: (open: boolean) => void;
+  onDemolished?: () => void;
+}
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50';
+
+export function DemolishFacilityDialog({ open, facility, onOpenChange, onDemolished }: DemolishFacilityDialogProps) {
+  const { facilities } = useFacilities(facility.companyId);
+  const [transferToFacilityId, setTransferToFacilityId] = useState('');
+  const { isLoading: isDemolishing, withLoading } = useLoadingState();
+
+  const refund = getDemolitionRefund(facility);
+  const hasInventory = facility.inventory.currentUsage > 0;
+  const targets = facilities.filter(f => f.id !== facility.id);
+  const canReceive = (target: Facility) =>
+    getFreeCapacity(normalizeInventory(target.inventory)) >= facility.inventory.currentUsage;
+
+  const handleConfirm = async () => {
+    await withLoading(async () => {
+      try {
+        const refunded = await demolishFacility(facility, transferToFacilityId || null);
+        const target = targets.find(f => f.id === transferToFacilityId);
+        toast({
+          title: 'Facility Demolished',
+          description: `${facility.name} was demolished for ${formatNumber(refunded, { currency: true })}.` +
+            (hasInventory ? (target ? ` Inventory moved to ${target.name}.` : ' Inventory destroyed.') : ''),
+        });
+        onOpenChange(false);
+        onDemolished?.();
+      } catch (error) {
+        toast({ title: 'Error', description: getErrorMessage(error, 'Failed to demolish facility.'), variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Demolish {facility.name}</DialogTitle>
+          <DialogDescription>
+            Cancels all market listings of the facility and removes its open buy orders. This cannot be undone. Not possible while shipments are on their way to the facility or a supply contract names it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="rounded-lg bg-muted p-3 text-sm flex justify-between">
+            <span>Build cost refund</span>
+            <span className="font-semibold">{formatNumber(refund, { currency: true })}</span>
+          </div>
+          {hasInventory && (
+            <div className="space-y-2">
+              <Label htmlFor="demolish-inventory">Leftover inventory ({facility.inventory.currentUsage} units)</Label>
+              <select
+                id="demolish-inventory"
+                value={transferToFacilityId}
+                onChange={(e) => setTransferToFacilityId(e.target.value)}
+                disabled={isDemolishing}
+                className={selectClassName}
+              >
+                <option value="">Destroy it</option>
+                {targets.map((target) => (
+                  <option key={target.id} value={target.id} disabled={!canReceive(target)}>
+                    Transfer to {target.name}{canReceive(target) ? '' : ' (not enough storage)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isDemolishing}>
+              Keep Facility
+            </Button>
+            <Button variant="destructive" onClick={handleConfirm} disabled={isDemolishing}>
+              {isDemolishing ? 'Demolishing...' : 'Demolish'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
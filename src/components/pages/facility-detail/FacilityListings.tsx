@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { Button, Badge } from '@/components/ui';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/shadCN/table';
+import { getResourceName, getResourceIcon } from '@/lib/constants';
+import { getFacilityListings, renewListing, cancelListing, getListingTicksRemaining } from '@/lib/services';
+import { toast, formatNumber, getErrorMessage } from '@/lib/utils';
+import { useGameTick } from '@/hooks';
+import type { MarketListing } from '@/lib/database';
+
+interface FacilityListingsProps {
+  facilityId: string;
+  refreshToken?: number; // Bump to reload after listings were created elsewhere on the page
+}
+
+export function FacilityListings({ facilityId, refreshToken }: FacilityListingsProps) {
+  const { gameState } = useGameTick();
+  const currentTick = gameState.time.tick;
+  const [listings, setListings] = useState<MarketListing[]>([]);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [busyListingId, setBusyListingId] = useState<string | null>(null);
+
+  // Reload on new ticks too, since the game tick expires listings
+  useEffect(() => {
+    let cancelled = false;
+
+    getFacilityListings(facilityId)
+      .then((data) => {
+        if (!cancelled) {
+          setListings(data.filter(l => l.listingStatus === 'active' || l.listingStatus === 'expired'));
+        }
+      })
+      .catch((err) => console.error('Error loading facility listings:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [facilityId, refreshToken, reloadToken, currentTick]);
+
+  const handleRenew = async (listing: MarketListing) => {
+    setBusyListingId(listing.id);
+    try {
+      const result = await renewListing(listing.id);
+      if (result.success) {
+        toast({
+          title: 'Listing Renewed',
+          description: `${getResourceName(listing.resourceId)} listing now expires at tick ${result.expiresAtTick}`,
+        });
+        setReloadToken(t => t + 1);
+      } else {
+        toast({ title: 'Renewal Failed', description: result.error || 'Failed to renew listing', variant: 'destructive' });
+      }
+    } finally {
+      setBusyListingId(null);
+    }
+  };
+
+  const handleCancel = async (listing: MarketListing) => {
+    setBusyListingId(listing.id);
+    try {
+      await cancelListing(listing.id);
+      toast({ title: 'Listing Cancelled', description: `${getResourceName(listing.resourceId)} returned to inventory` });
+      setReloadToken(t => t + 1);
+    } catch (error) {
+      toast({ title: 'Error', description: getErrorMessage(error, 'Failed to cancel listing'), variant: 'destructive' });
+    } finally {
+      setBusyListingId(null);
+    }
+  };
+
+  if (listings.length === 0) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t">
+      <h4 className="text-sm font-semibold mb-2">Market Listings</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Resource</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+            <TableHead className="text-right">Quality</TableHead>
+            <TableHead className="text-right">Price/Unit</TableHead>
+            <TableHead className="text-center">Expires</TableHead>
+            <TableHead className="text-right">Action</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {listings.map((listing) => (
+            <TableRow key={listing.id}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span>{getResourceIcon(listing.resourceId)}</span>
+                  <span className="font-medium">{getResourceName(listing.resourceId)}</span>
+                </div>
+              </TableCell>
+              <TableCell className="text-right">{formatNumber(listing.quantity, { decimals: 0 })}</TableCell>
+              <TableCell className="text-right">{formatNumber(listing.quality, { decimals: 1 })}</TableCell>
+              <TableCell className="text-right">
+                {formatNumber(listing.pricePerUnit, { currency: true, decimals: 2 })}
+              </TableCell>
+              <TableCell className="text-center">
+                {listing.listingStatus === 'expired' ? (
+                  <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700">Expired</Badge>
+                ) : (
+                  <span className="text-sm text-muted-foreground">
+                    {(() => {
+                      const ticksLeft = getListingTicksRemaining(listing, currentTick);
+                      if (ticksLeft === null) return 'Never';
+                      return ticksLeft === 0 ? 'This tick' : `In ${ticksLeft} tick${ticksLeft !== 1 ? 's' : ''}`;
+                    })()}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                <div className="flex justify-end gap-2">
+                  {listing.expiryTicks !== null && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRenew(listing)}
+                      disabled={busyListingId === listing.id}
+                    >
+                      Renew
+                    </Button>
+                  )}
+                  {listing.listingStatus === 'active' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCancel(listing)}
+                      disabled={busyListingId === listing.id}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { Button, Badge } from '@/components/ui';
+import { getFacilityUpgradeLevels } from '@/lib/constants';
+import { startFacilityUpgrade, getFacilityLevelStats, getNextUpgradeLevel, type FacilityLevelStats } from '@/lib/services';
+import { toast, formatNumber, getErrorMessage } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import { Hammer } from 'lucide-react';
+import type { Facility } from '@/lib/types/types';
+
+interface FacilityUpgradePanelProps {
+  facility: Facility;
+}
+
+function describeSpeed(stats: FacilityLevelStats): string {
+  const faster = Math.round((1 - stats.processingTicksMultiplier) * 100);
+  return faster > 0 ? `${faster}% faster` : 'Normal speed';
+}
+
+export function FacilityUpgradePanel({ facility }: FacilityUpgradePanelProps) {
+  const { isLoading: isUpgrading, withLoading } = useLoadingState();
+
+  if (!facility.facilitySubtype) return null;
+
+  const currentLevel = facility.level ?? 0;
+  const levels = [0, ...getFacilityUpgradeLevels(facility.facilitySubtype).map(level => level.level)]
+    .map(level => getFacilityLevelStats(facility.facilitySubtype!, level))
+    .filter((stats): stats is FacilityLevelStats => stats !== undefined);
+  const nextLevel = getNextUpgradeLevel(facility);
+  const targetLevel = facility.upgradeTargetLevel
+    ? levels.find(stats => stats.level === facility.upgradeTargetLevel)
+    : undefined;
+
+  const handleUpgrade = async () => {
+    await withLoading(async () => {
+      try {
+        const updated = await startFacilityUpgrade(facility);
+        toast({
+          title: 'Upgrade Started',
+          description: `${updated.name} will reach ${nextLevel?.name} in ${updated.upgradeTicksRemaining} ticks`,
+        });
+      } catch (error) {
+        toast({ title: 'Error', description: getErrorMessage(error, 'Failed to start upgrade.'), variant: 'destructive' });
+      }
+    });
+  };
+
+  // Facility types without upgrade levels only have their base stats
+  if (levels.length <= 1) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground flex items-center gap-1">
+          <Hammer className="h-4 w-4" />
+          Upgrades
+        </p>
+        {targetLevel ? (
+          <Badge variant="outline" className="text-xs bg-amber-100 text-amber-800 border-amber-200">
+            Building {targetLevel.name}: {facility.upgradeTicksRemaining} {facility.upgradeTicksRemaining === 1 ? 'tick' : 'ticks'} left
+          </Badge>
+        ) : nextLevel ? (
+          <Button size="sm" onClick={handleUpgrade} disabled={isUpgrading}>
+            {isUpgrading
+              ? 'Starting...'
+              : `Upgrade for ${formatNumber(nextLevel.cost, { currency: true })} (${nextLevel.constructionTicks} ticks)`}
+          </Button>
+        ) : (
+          <Badge variant="secondary" className="text-xs">Highest level</Badge>
+        )}
+      </div>
+      <ol className="space-y-1">
+        {levels.map((stats) => (
+          <li
+            key={stats.level}
+            className={`flex items-center justify-between rounded-md border px-2 py-1 text-xs ${
+              stats.level === currentLevel ? 'bg-green-50 border-green-300' : stats.level < currentLevel ? 'text-muted-foreground' : ''
+            }`}
+          >
+            <span className="font-medium">
+              {stats.level}. {stats.name}
+              {stats.level === currentLevel && ' (Current)'}
+            </span>
+            <span className="text-muted-foreground">
+              Storage {formatNumber(stats.inventoryCapacity)} · Effectivity {stats.effectivityCap}% · {describeSpeed(stats)}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
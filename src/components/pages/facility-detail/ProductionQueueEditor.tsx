@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Badge, Input, Label, Switch } from '@/components/ui';
+import { getRecipe, getResourceName } from '@/lib/constants';
+import { setProductionQueue, createQueueEntry, describeQueueEntry } from '@/lib/services';
+import { toast } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import type { Facility, ProductionQueue, ProductionQueueEntry, ProductionQueueMode, RecipeId } from '@/lib/types/types';
+
+interface ProductionQueueEditorProps {
+  facility: Facility;
+}
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50';
+
+export function ProductionQueueEditor({ facility }: ProductionQueueEditorProps) {
+  const queue: ProductionQueue = facility.productionQueue ?? { entries: [], loop: false };
+  const [recipeId, setRecipeId] = useState<RecipeId>(facility.availableRecipeIds[0] ?? '');
+  const [mode, setMode] = useState<ProductionQueueMode>('repeat');
+  const [target, setTarget] = useState(1);
+  const { isLoading: isSaving, withLoading } = useLoadingState();
+
+  const saveQueue = async (nextQueue: ProductionQueue, successTitle: string) => {
+    await withLoading(async () => {
+      const updated = await setProductionQueue(facility, nextQueue);
+      if (updated) {
+        toast({ title: successTitle, description: nextQueue.entries[0] ? `Now: ${describeQueueEntry(nextQueue.entries[0])}` : 'Queue is empty' });
+      } else {
+        toast({ title: 'Error', description: 'Failed to update production queue.', variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleAdd = () => {
+    if (!recipeId || target <= 0) return;
+    saveQueue({ ...queue, entries: [...queue.entries, createQueueEntry(recipeId, mode, target)] }, 'Added to Queue');
+  };
+
+  const handleRemove = (entryId: string) => {
+    saveQueue({ ...queue, entries: queue.entries.filter(e => e.id !== entryId) }, 'Removed from Queue');
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const entries = [...queue.entries];
+    const [entry] = entries.splice(index, 1);
+    entries.splice(index + offset, 0, entry);
+    // An entry moved to the front starts counting from scratch
+    const reordered = entries.map((e, i) => (i === 0 && e.id !== queue.entries[0]?.id ? { ...e, completedCycles: 0 } : e));
+    saveQueue({ ...queue, entries: reordered }, 'Queue Reordered');
+  };
+
+  const handleLoopChange = (loop: boolean) => {
+    saveQueue({ ...queue, loop }, loop ? 'Queue Loops' : 'Queue Runs Once');
+  };
+
+  const describeProgress = (entry: ProductionQueueEntry) => {
+    if (entry.mode === 'repeat') {
+      return `${entry.completedCycles} / ${entry.target} cycles`;
+    }
+    const mainOutput = getRecipe(entry.recipeId)?.outputs[0];
+    const stock = mainOutput
+      ? facility.inventory.items.find(i => i.resourceId === mainOutput.resourceId)?.quantity ?? 0
+      : 0;
+    return `${stock} / ${entry.target} ${mainOutput ? getResourceName(mainOutput.resourceId) : 'units'}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Production Queue</CardTitle>
+            <CardDescription>
+              Scheduled recipes run in order; the facility moves on when an entry reaches its target
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="queueLoop"
+              checked={queue.loop}
+              onCheckedChange={handleLoopChange}
+              disabled={isSaving}
+            />
+            <Label htmlFor="queueLoop" className="text-sm cursor-pointer">
+              Loop
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {queue.entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No scheduled recipes. The facility keeps producing {getRecipe(facility.activeRecipeId)?.name || 'its current recipe'}.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {queue.entries.map((entry, index) => (
+              <li key={entry.id} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground w-5">{index + 1}.</span>
+                  <span className="font-medium">{describeQueueEntry(entry)}</span>
+                  {index === 0 && (
+                    <Badge variant="outline" className="text-xs bg-green-100 text-green-800 border-green-200">
+                      Active
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-muted-foreground mr-2">{describeProgress(entry)}</span>
+                  <Button variant="ghost" size="sm" onClick={() => handleMove(index, -1)} disabled={isSaving || index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleMove(index, 1)} disabled={isSaving || index === queue.entries.length - 1}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(entry.id)} disabled={isSaving}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="grid grid-cols-4 gap-2 items-end pt-2 border-t">
+          <div className="space-y-1">
+            <Label htmlFor="queue-recipe" className="text-xs">Recipe</Label>
+            <select
+              id="queue-recipe"
+              value={recipeId}
+              onChange={(e) => setRecipeId(e.target.value)}
+              disabled={isSaving}
+              className={selectClassName}
+            >
+              {facility.availableRecipeIds.map((id) => (
+                <option key={id} value={id}>
+                  {getRecipe(id)?.name || id}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="queue-mode" className="text-xs">Run</Label>
+            <select
+              id="queue-mode"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as ProductionQueueMode)}
+              disabled={isSaving}
+              className={selectClassName}
+            >
+              <option value="repeat">Number of cycles</option>
+              <option value="until_stock">Until units in stock</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="queue-target" className="text-xs">{mode === 'repeat' ? 'Cycles' : 'Units'}</Label>
+            <Input
+              id="queue-target"
+              type="number"
+              min="1"
+              value={target}
+              onChange={(e) => setTarget(Math.max(0, parseInt(e.target.value) || 0))}
+              disabled={isSaving}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={isSaving || !recipeId || target <= 0}>
+            Add to Queue
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Button, Input } from '@/components/ui';
+import { getCityById, getConsumerResources } from '@/lib/constants';
+import { setShelfPrice, getExpectedConsumerDemand, getFairConsumerPrice, getAvailableQuantity, getItemQuality } from '@/lib/services';
+import { toast, formatNumber } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import { Store } from 'lucide-react';
+import type { Facility, Resource } from '@/lib/types/types';
+
+interface ShelfPricesPanelProps {
+  facility: Facility;
+}
+
+interface ShelfPriceRowProps {
+  facility: Facility;
+  resource: Resource;
+}
+
+function ShelfPriceRow({ facility, resource }: ShelfPriceRowProps) {
+  const currentPrice = facility.shelfPrices?.[resource.id] ?? null;
+  const city = getCityById(facility.cityId);
+  const quality = getItemQuality(facility.inventory, resource.id);
+  const fairPrice = city ? getFairConsumerPrice(resource, city, quality) : 0;
+  // Parent remounts the row when the saved price changes (key), so initial state is derived once
+  const [price, setPrice] = useState(String(currentPrice ?? fairPrice));
+  const { isLoading: isSaving, withLoading } = useLoadingState();
+
+  const parsedPrice = parseFloat(price) || 0;
+  const stock = getAvailableQuantity(facility.inventory, resource.id);
+  const expectedDemand = getExpectedConsumerDemand(facility, resource.id, parsedPrice);
+
+  const handleSave = async (shelfPrice: number | null) => {
+    await withLoading(async () => {
+      const updated = await setShelfPrice(facility, resource.id, shelfPrice);
+      if (updated) {
+        toast({
+          title: shelfPrice === null ? 'Removed From Shelf' : 'Shelf Price Set',
+          description: shelfPrice === null
+            ? `${resource.name} is no longer sold to consumers`
+            : `${resource.name} sells for ${formatNumber(shelfPrice, { currency: true, decimals: 2 })}`,
+        });
+      } else {
+        toast({ title: 'Error', description: 'Failed to update shelf price.', variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="w-28 truncate">{resource.icon} {resource.name}</span>
+      <span className="w-20 text-muted-foreground">{stock} in stock</span>
+      <span className="w-12 text-muted-foreground" title="Quality of the stock">Q {formatNumber(quality, { decimals: 1 })}</span>
+      <Input
+        type="number"
+        min="0.01"
+        step="0.01"
+        value={price}
+        onChange={(e) => setPrice(e.target.value)}
+        disabled={isSaving}
+        className="w-24"
+        aria-label={`${resource.name} shelf price`}
+      />
+      <span className="flex-1 text-xs text-muted-foreground">
+        Fair {formatNumber(fairPrice, { currency: true, decimals: 2 })} · demand ~{expectedDemand}/tick
+      </span>
+      <Button
+        size="sm"
+        onClick={() => handleSave(parsedPrice)}
+        disabled={isSaving || parsedPrice <= 0 || parsedPrice === currentPrice}
+      >
+        {currentPrice === null ? 'Sell' : 'Update'}
+      </Button>
+      {currentPrice !== null && (
+        <Button size="sm" variant="outline" onClick={() => handleSave(null)} disabled={isSaving}>
+          Remove
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function ShelfPricesPanel({ facility }: ShelfPricesPanelProps) {
+  const consumerResources = getConsumerResources();
+  const city = getCityById(facility.cityId);
+  const cityName = city?.name || facility.cityId;
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <p className="text-sm text-muted-foreground flex items-center gap-1">
+        <Store className="h-4 w-4" />
+        Shelf Prices
+      </p>
+      <p className="text-xs text-muted-foreground">
+        Consumers in {cityName} buy priced, unlisted stock every tick, best value first.
+        The fair price follows the stock's quality against the city's quality demand
+        ({formatNumber(city?.qualityDemand ?? 0, { decimals: 1 })}); demand falls as the price rises above it.
+      </p>
+      {consumerResources.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No goods are bought by consumers yet</p>
+      ) : (
+        consumerResources.map((resource) => (
+          <ShelfPriceRow
+            key={`${resource.id}-${facility.shelfPrices?.[resource.id] ?? ''}`}
+            facility={facility}
+            resource={resource}
+          />
+        ))
+      )}
+    </div>
+  );
+}
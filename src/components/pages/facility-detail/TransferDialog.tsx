@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Button, Input, Label } from '@/components/ui';
+import { getResourceName, getResourceIcon, getCityById } from '@/lib/constants';
+import { transferResource, quoteTransfer, getAvailableQuantity, getFreeCapacity, normalizeInventory } from '@/lib/services';
+import { toast, formatNumber, getErrorMessage } from '@/lib/utils';
+import { useLoadingState, useFacilities } from '@/hooks';
+import type { Facility, ResourceId } from '@/lib/types/types';
+
+interface TransferDialogProps {
+  open: boolean;
+  facility: Facility;
+  resourceId: ResourceId | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50';
+
+export function TransferDialog({ open, facility, resourceId, onOpenChange }: TransferDialogProps) {
+  const { facilities } = useFacilities(facility.companyId);
+  const [targetId, setTargetId] = useState('');
+  const available = resourceId ? getAvailableQuantity(facility.inventory, resourceId) : 0;
+  // Parent remounts the dialog when it opens (key), so initial state is derived once
+  const [quantity, setQuantity] = useState(available);
+  const { isLoading: isTransferring, withLoading } = useLoadingState();
+
+  const targets = facilities.filter(f => f.id !== facility.id);
+  const target = targets.find(f => f.id === targetId);
+  const quote = target ? quoteTransfer(facility, target, quantity) : null;
+  const freeCapacity = target ? getFreeCapacity(normalizeInventory(target.inventory)) : 0;
+
+  const handleConfirm = async () => {
+    if (!resourceId || !target) return;
+
+    await withLoading(async () => {
+      try {
+        const result = await transferResource(facility, target, resourceId, quantity);
+        toast({
+          title: result.arrivesAtTick ? 'Goods Shipped' : 'Goods Transferred',
+          description: result.arrivesAtTick
+            ? `${quantity} ${getResourceName(resourceId)} arrive at ${target.name} on tick ${result.arrivesAtTick} (shipping ${formatNumber(result.shippingCost ?? 0, { currency: true, decimals: 2 })})`
+            : `${quantity} ${getResourceName(resourceId)} moved to ${target.name}`,
+        });
+        onOpenChange(false);
+      } catch (error) {
+        toast({ title: 'Error', description: getErrorMessage(error, 'Failed to transfer goods.'), variant: 'destructive' });
+      }
+    });
+  };
+
+  if (!resourceId) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Transfer {getResourceIcon(resourceId)} {getResourceName(resourceId)}
+          </DialogTitle>
+          <DialogDescription>
+            Move stock to another of your facilities. Transfers within a city are instant; between cities the goods are shipped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="transfer-target">Destination</Label>
+            <select
+              id="transfer-target"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              disabled={isTransferring}
+              className={selectClassName}
+            >
+              <option value="">Select a facility</option>
+              {targets.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name} ({getCityById(f.cityId)?.name || f.cityId})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-quantity">Quantity (available: {available})</Label>
+            <Input
+              id="transfer-quantity"
+              type="number"
+              min="1"
+              max={available}
+              value={quantity}
+              onChange={(e) => setQuantity(Math.max(0, Math.min(available, parseInt(e.target.value) || 0)))}
+              disabled={isTransferring}
+            />
+          </div>
+          {target && (
+            <div className="rounded-lg bg-muted p-3 space-y-1 text-sm">
+              {!quote ? (
+                <p className="text-red-600">No shipping route to {target.name}</p>
+              ) : quote.isLocal ? (
+                <p>Same city: delivered immediately, no shipping cost</p>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span>Shipping cost</span>
+                    <span className="font-semibold">{formatNumber(quote.cost, { currency: true, decimals: 2 })}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Travel time</span>
+                    <span>{quote.transitTicks} {quote.transitTicks === 1 ? 'tick' : 'ticks'}</span>
+                  </div>
+                </>
+              )}
+              {quantity > freeCapacity && (
+                <p className="text-xs text-red-600">{target.name} has only {freeCapacity} units of free storage</p>
+              )}
+            </div>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isTransferring}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={isTransferring || !target || !quote || quantity <= 0 || quantity > freeCapacity}
+            >
+              {isTransferring ? 'Transferring...' : 'Transfer'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Button, Input, Label } from '@/components/ui';
+import { getCityById } from '@/lib/constants';
+import { setWorkerCount, getRequiredWorkers, getFacilityMonthlyWages } from '@/lib/services';
+import { toast, formatNumber } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import { Users } from 'lucide-react';
+import type { Facility } from '@/lib/types/types';
+
+interface WorkforcePanelProps {
+  facility: Facility;
+}
+
+export function WorkforcePanel({ facility }: WorkforcePanelProps) {
+  const requiredWorkers = getRequiredWorkers(facility);
+  const [headcount, setHeadcount] = useState(facility.workerCount);
+  const { isLoading: isSaving, withLoading } = useLoadingState();
+
+  const cityName = getCityById(facility.cityId)?.name || facility.cityId;
+  const currentWages = getFacilityMonthlyWages(facility);
+  const plannedWages = getFacilityMonthlyWages(facility, headcount);
+  const difference = headcount - facility.workerCount;
+
+  const handleApply = async () => {
+    await withLoading(async () => {
+      const updated = await setWorkerCount(facility, headcount);
+      if (updated) {
+        toast({
+          title: difference > 0 ? 'Workers Hired' : 'Workers Fired',
+          description: `${updated.workerCount} workers, effectivity ${updated.effectivity}%`,
+        });
+      } else {
+        toast({ title: 'Error', description: 'Failed to update workforce.', variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground flex items-center gap-1">
+          <Users className="h-4 w-4" />
+          Workforce
+        </p>
+        <p className="text-sm">
+          <span className="font-semibold">{facility.workerCount}</span>
+          <span className="text-muted-foreground"> / {requiredWorkers} required</span>
+        </p>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Wages in {cityName}: {formatNumber(currentWages, { currency: true })} per month.
+        Understaffing lowers effectivity proportionally.
+      </p>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 w-32">
+          <Label htmlFor="workerCount" className="text-xs">Workers</Label>
+          <Input
+            id="workerCount"
+            type="number"
+            min="0"
+            value={headcount}
+            onChange={(e) => setHeadcount(Math.max(0, parseInt(e.target.value) || 0))}
+            disabled={isSaving}
+          />
+        </div>
+        <Button onClick={handleApply} disabled={isSaving || difference === 0}>
+          {isSaving
+            ? 'Saving...'
+            : difference >= 0
+              ? `Hire ${difference}`
+              : `Fire ${-difference}`}
+        </Button>
+        {difference !== 0 && (
+          <span className="text-xs text-muted-foreground pb-2">
+            New wages: {formatNumber(plannedWages, { currency: true })} / month
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/shadCN/table';
+import { getResourceIcon, getResourceName } from '@/lib/constants';
+import { getYieldCalendar } from '@/lib/services';
+import { formatNumber } from '@/lib/utils';
+import { CalendarDays } from 'lucide-react';
+import type { Facility, GameTime, Recipe } from '@/lib/types/types';
+
+interface YieldCalendarProps {
+  facility: Facility;
+  recipe: Recipe;
+  time: GameTime;
+}
+
+/**
+ * Color a month by its seasonal multiplier (harvest green, off-season red)
+ */
+function getMultiplierClass(multiplier: number): string {
+  if (multiplier === 0) return 'text-red-700';
+  if (multiplier < 1) return 'text-orange-700';
+  if (multiplier > 1) return 'text-green-700 font-semibold';
+  return 'text-muted-foreground';
+}
+
+export function YieldCalendar({ facility, recipe, time }: YieldCalendarProps) {
+  const calendar = getYieldCalendar(facility, recipe, time);
+  const yearTotals = calendar.reduce((acc, month) => {
+    for (const output of month.outputs) {
+      acc[output.resourceId] = (acc[output.resourceId] ?? 0) + output.quantity;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Yield Calendar
+        </CardTitle>
+        <CardDescription>
+          {recipe.seasonalMultipliers?.length
+            ? `${recipe.name} yields follow the season. Expected output for the next year if production keeps running.`
+            : `${recipe.name} yields the same all year. Expected output for the next year if production keeps running.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Month</TableHead>
+              <TableHead className="text-right">Season</TableHead>
+              <TableHead className="text-right">Cycles</TableHead>
+              <TableHead>Per cycle</TableHead>
+              <TableHead>Month total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {calendar.map((month, index) => (
+              <TableRow key={`${month.year}-${month.month}`}>
+                <TableCell>
+                  Month {month.month}, {month.year}
+                  {index === 0 && <span className="text-xs text-muted-foreground"> (current)</span>}
+                </TableCell>
+                <TableCell className={`text-right ${getMultiplierClass(month.multiplier)}`}>
+                  ×{formatNumber(month.multiplier, { decimals: 2 })}
+                </TableCell>
+                <TableCell className="text-right">{month.cycles}</TableCell>
+                <TableCell>
+                  {month.outputsPerCycle
+                    .map(output => `${output.quantity} ${getResourceIcon(output.resourceId)}`)
+                    .join(', ')}
+                </TableCell>
+                <TableCell className="font-medium">
+                  {month.outputs
+                    .map(output => `${formatNumber(output.quantity)} ${getResourceIcon(output.resourceId)} ${getResourceName(output.resourceId)}`)
+                    .join(', ')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground mt-3">
+          Year total:{' '}
+          {Object.entries(yearTotals)
+            .map(([resourceId, quantity]) => `${formatNumber(quantity)} ${getResourceName(resourceId)}`)
+            .join(', ') || 'nothing'}
+          {' '}· storage {facility.inventory.currentUsage} / {facility.inventory.capacity}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { FacilityListings } from './FacilityListings';
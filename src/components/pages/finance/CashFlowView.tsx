@@ -3,8 +3,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui';
 import { formatNumber } from '@/lib/utils';
 import { getTransactionsByCompanyId, Transaction } from '@/lib/database';
+import { CAPITAL_FLOW_CATEGORIES, FEE_CATEGORIES } from '@/lib/services';
 
-type FlowType = 'income' | 'expense' | 'capital';
+type FlowType = 'income' | 'expense' | 'fee' | 'capital';
 
 const FLOW_TYPE_META: Record<FlowType, { label: string; textClass: string; badgeClass: string }> = {
   income: {
@@ -17,6 +18,11 @@ const FLOW_TYPE_META: Record<FlowType, { label: string; textClass: string; badge
     textClass: 'text-red-600',
     badgeClass: 'bg-red-100 text-red-800'
   },
+  fee: {
+    label: 'Fee',
+    textClass: 'text-orange-600',
+    badgeClass: 'bg-orange-100 text-orange-800'
+  },
   capital: {
     label: 'Capital',
     textClass: 'text-blue-600',
@@ -25,10 +31,12 @@ const FLOW_TYPE_META: Record<FlowType, { label: string; textClass: string; badge
 };
 
 function getFlowType(category: string, amount: number): FlowType {
-  const capitalCategories = ['starting_capital'];
-  if (capitalCategories.includes(category)) {
+  if (CAPITAL_FLOW_CATEGORIES.has(category)) {
     return 'capital';
   }
+  if (FEE_CATEGORIES.has(category)) {
+    return 'fee';
+  }
   return amount >= 0 ? 'income' : 'expense';
 }
 
@@ -151,7 +159,9 @@ export function CashFlowView({ companyId }: { companyId: string | null }) {
                     ? 'bg-gradient-to-r from-green-50 to-emerald-50'
                     : flowType === 'expense'
                       ? 'bg-gradient-to-r from-red-50 to-orange-50'
-                      : 'bg-gradient-to-r from-blue-50 to-indigo-50';
+                      : flowType === 'fee'
+                        ? 'bg-gradient-to-r from-orange-50 to-amber-50'
+                        : 'bg-gradient-to-r from-blue-50 to-indigo-50';
 
                 return (
                   <div key={transaction.id} className="border border-gray-300 rounded-lg overflow-hidden bg-white">
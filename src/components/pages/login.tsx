@@ -9,7 +9,8 @@ import { ScrollArea } from '@/components/ui/shadCN/scroll-area';
 import { getOrCreateCompany } from '@/lib/services/user/companyService';
 import { getCompanyByName, type Company } from '@/lib/database/core/companiesDB';
 import { useLoadingState } from '@/hooks/useLoadingState';
-import { getGameState, addGameStateListener, initializeGameState } from '@/lib/services/core';
+import { getGameState, addGameStateListener, initializeGameState, setCurrentWorld, fetchWorlds } from '@/lib/services/core';
+import type { World } from '@/lib/types/types';
 import { formatGameDateFromObject } from '@/lib/utils';
 import ReactMarkdown from 'react-markdown';
 import readmeContent from '../../../readme.md?raw';
@@ -26,6 +27,16 @@ const PREVIOUSLY_USED_COMPANIES_KEY = 'previouslyUsedCompanies';
 interface PreviouslyUsedCompany {
   name: string;
   lastUsed: number; // timestamp
+  worldId?: string; // Missing for companies saved before worlds existed
+}
+
+/**
+ * Describe a world's tick cadence, e.g. "1 tick per hour"
+ */
+function describeTickInterval(seconds: number): string {
+  if (seconds % 3600 === 0) return seconds === 3600 ? '1 tick per hour' : `1 tick every ${seconds / 3600} hours`;
+  if (seconds % 60 === 0) return seconds === 60 ? '1 tick per minute' : `1 tick every ${seconds / 60} minutes`;
+  return `1 tick every ${seconds} seconds`;
 }
 
 export function Login({ onCompanySelected }: LoginProps) {
@@ -37,6 +48,8 @@ export function Login({ onCompanySelected }: LoginProps) {
   const [isReadmeOpen, setIsReadmeOpen] = useState(false);
   const [isVersionLogOpen, setIsVersionLogOpen] = useState(false);
   const [gameState, setGameState] = useState(getGameState());
+  const [worlds, setWorlds] = useState<World[]>([]);
+  const selectedWorld = worlds.find(world => world.id === gameState.worldId);
 
   // Initialize game state and subscribe to updates
   useEffect(() => {
@@ -51,6 +64,11 @@ export function Login({ onCompanySelected }: LoginProps) {
     return unsubscribe;
   }, []);
 
+  // Worlds a new company can join
+  useEffect(() => {
+    fetchWorlds().then(setWorlds).catch(console.error);
+  }, []);
+
   // Load previously used companies from localStorage
   const loadPreviouslyUsedCompanies = (): PreviouslyUsedCompany[] => {
     try {
@@ -72,7 +90,7 @@ export function Login({ onCompanySelected }: LoginProps) {
       const filtered = existing.filter(c => c.name !== company.name);
       // Add to front with current timestamp
       const updated = [
-        { name: company.name, lastUsed: Date.now() },
+        { name: company.name, lastUsed: Date.now(), worldId: company.world_id },
         ...filtered
       ].slice(0, 10); // Keep only last 10
       
@@ -99,8 +117,8 @@ export function Login({ onCompanySelected }: LoginProps) {
     }
 
     const company = await withLoading(async () => {
-      // Get or create company
-      const result = await getOrCreateCompany(trimmedName);
+      // Get or create company (new companies join the selected world)
+      const result = await getOrCreateCompany(trimmedName, gameState.worldId);
       
       // Add to previously used list
       addToPreviouslyUsed(result);
@@ -196,6 +214,7 @@ export function Login({ onCompanySelected }: LoginProps) {
           <div className="flex items-center justify-center gap-1.5 text-xs text-white/90 drop-shadow-md">
             <Calendar className="h-3.5 w-3.5" />
             <span className="font-medium">{formatGameDateFromObject(gameState.time)}</span>
+            {worlds.length > 1 && selectedWorld && <span>· {selectedWorld.name}</span>}
           </div>
         </div>
 
@@ -230,7 +249,14 @@ export function Login({ onCompanySelected }: LoginProps) {
                                 onClick={() => handleSelectPreviouslyUsedCompany(prevCompany.name)}
                               >
                                 <div className="flex items-center justify-between">
-                                  <span className="text-sm font-medium truncate">{prevCompany.name}</span>
+                                  <span className="text-sm font-medium truncate">
+                                    {prevCompany.name}
+                                    {worlds.length > 1 && prevCompany.worldId && (
+                                      <span className="text-xs text-muted-foreground font-normal">
+                                        {' '}· {worlds.find(world => world.id === prevCompany.worldId)?.name ?? prevCompany.worldId}
+                                      </span>
+                                    )}
+                                  </span>
                                   <span className="text-xs text-muted-foreground ml-2">
                                     {new Date(prevCompany.lastUsed).toLocaleDateString()}
                                   </span>
@@ -271,6 +297,28 @@ export function Login({ onCompanySelected }: LoginProps) {
                       If the company exists, you'll be logged in. Otherwise, a new company will be created.
                     </p>
                   </div>
+                  {worlds.length > 1 && (
+                    <div>
+                      <Label htmlFor="world">World</Label>
+                      <select
+                        id="world"
+                        value={gameState.worldId}
+                        onChange={(e) => setCurrentWorld(e.target.value)}
+                        disabled={isLoading}
+                        className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {worlds.map((world) => (
+                          <option key={world.id} value={world.id}>
+                            {world.name} ({describeTickInterval(world.tickIntervalSeconds)})
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {selectedWorld?.description ? `${selectedWorld.description} ` : ''}
+                        New companies join this world; existing companies stay in their own.
+                      </p>
+                    </div>
+                  )}
                   <Button 
                     type="submit" 
                     disabled={isLoading || !companyName.trim()}
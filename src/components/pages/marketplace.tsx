@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useCallback } from 'react';
 import type { ResourceId } from '@/lib/types/types';
 import {
   Card,
@@ -12,47 +12,97 @@ import {
   Select,
 } from '@/components/ui';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/shadCN/table';
-import { getResourceName, getResourceIcon, getAllResources } from '@/lib/constants';
-import { ShoppingCart, Search, TrendingUp, Package, Users, ArrowUpDown } from 'lucide-react';
+import { getResourceName, getResourceIcon, getAllResources, getCityById } from '@/lib/constants';
+import { PriceHistoryPanel } from '@/components';
+import { ShoppingCart, Search, TrendingUp, Package, Users, ArrowUpDown, Truck } from 'lucide-react';
 import { toast, formatNumber } from '@/lib/utils';
-import { useLoadingState } from '@/hooks';
-import { getActiveMarketListings, type MarketListing } from '@/lib/database';
+import { useFacilities, useGameTick } from '@/hooks';
+import type { MarketListing, Shipment } from '@/lib/database';
+import {
+  getAllActiveListings,
+  getCompanyListings,
+  renewListing,
+  getListingTicksRemaining,
+  calculateLandedCost,
+  getInTransitShipments,
+  getInboundQuantityByFacility,
+} from '@/lib/services';
+import { PurchaseDialog } from './marketplace/PurchaseDialog';
+import { OrderBook } from './marketplace/OrderBook';
+import { TradeOffers } from './marketplace/TradeOffers';
 
 interface MarketplaceProps {
-  currentCompany?: { id: string; name: string } | null;
+  currentCompany?: { id: string; name: string; money?: number } | null;
   onBack?: () => void;
 }
 
-type SortOption = 'price-asc' | 'price-desc' | 'quantity-asc' | 'quantity-desc' | 'newest' | 'oldest';
+type SortOption = 'price-asc' | 'price-desc' | 'landed-asc' | 'quality-desc' | 'quantity-asc' | 'quantity-desc' | 'newest' | 'oldest';
 
 export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedResource, setSelectedResource] = useState<ResourceId | 'all'>('all');
   const [sortBy, setSortBy] = useState<SortOption>('newest');
-  const { isLoading: isPurchasing, withLoading: withPurchasingLoading } = useLoadingState();
+  const [minQuality, setMinQuality] = useState(0); // 0 = no quality filter
+  const [purchaseListing, setPurchaseListing] = useState<MarketListing | null>(null);
+  const [marketResource, setMarketResource] = useState<ResourceId>(() => Object.keys(getAllResources()).sort()[0] || '');
+  const [deliveryFacilityId, setDeliveryFacilityId] = useState('');
+  const { facilities } = useFacilities(currentCompany?.id || null);
+  const deliveryFacility = facilities.find(f => f.id === deliveryFacilityId) ?? facilities[0] ?? null;
+  const { gameState } = useGameTick();
+  const currentTick = gameState.time.tick;
   
   // Fetch market listings
   const [listings, setListings] = useState<MarketListing[]>([]);
+  const [expiredListings, setExpiredListings] = useState<MarketListing[]>([]);
+  const [inTransit, setInTransit] = useState<Shipment[]>([]);
+  const [renewingListingId, setRenewingListingId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
-  const fetchListings = async () => {
+  const companyId = currentCompany?.id;
+  const fetchListings = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
-      const data = await getActiveMarketListings();
+      const [data, companyListings, shipments] = await Promise.all([
+        getAllActiveListings(),
+        companyId ? getCompanyListings(companyId) : Promise.resolve([]),
+        companyId ? getInTransitShipments(companyId) : Promise.resolve([]),
+      ]);
       setListings(data);
+      setExpiredListings(companyListings.filter(l => l.listingStatus === 'expired'));
+      setInTransit(shipments);
     } catch (err) {
       console.error('Error loading market listings:', err);
       setError(err as Error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [companyId]);
 
   useEffect(() => {
     fetchListings();
-  }, []);
+  }, [fetchListings]);
+
+  // Shipments arrive on game ticks
+  useEffect(() => {
+    if (!companyId) return;
+    getInTransitShipments(companyId)
+      .then(setInTransit)
+      .catch((err) => console.error('Error loading shipments:', err));
+  }, [companyId, currentTick]);
+
+  const inboundByFacility = useMemo(() => getInboundQuantityByFacility(inTransit), [inTransit]);
+
+  // Landed cost (price plus shipping) to the chosen delivery facility
+  const landedCosts = useMemo(() => {
+    const costs = new Map<string, ReturnType<typeof calculateLandedCost>>();
+    if (!deliveryFacility) return costs;
+    for (const listing of listings) {
+      costs.set(listing.id, calculateLandedCost(listing, deliveryFacility));
+    }
+    return costs;
+  }, [listings, deliveryFacility]);
 
   // Calculate marketplace stats
   const stats = useMemo(() => {
@@ -91,6 +141,11 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
       );
     }
 
+    // Filter by minimum quality
+    if (minQuality > 0) {
+      filtered = filtered.filter(l => l.quality >= minQuality);
+    }
+
     // Sort
     switch (sortBy) {
       case 'price-asc':
@@ -99,6 +154,14 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
       case 'price-desc':
         filtered.sort((a, b) => b.pricePerUnit - a.pricePerUnit);
         break;
+      case 'landed-asc':
+        filtered.sort((a, b) =>
+          (landedCosts.get(a.id)?.landedPricePerUnit ?? Infinity) - (landedCosts.get(b.id)?.landedPricePerUnit ?? Infinity)
+        );
+        break;
+      case 'quality-desc':
+        filtered.sort((a, b) => b.quality - a.quality);
+        break;
       case 'quantity-asc':
         filtered.sort((a, b) => a.quantity - b.quantity);
         break;
@@ -114,10 +177,10 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
     }
 
     return filtered;
-  }, [listings, selectedResource, searchQuery, sortBy]);
+  }, [listings, selectedResource, searchQuery, minQuality, sortBy, landedCosts]);
 
-  // Handle purchase (stubbed for now)
-  const handlePurchase = async (listing: MarketListing) => {
+  // Open the purchase dialog for a listing
+  const handlePurchase = (listing: MarketListing) => {
     if (!currentCompany) {
       toast({
         title: 'Error',
@@ -127,14 +190,30 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
       return;
     }
 
-    await withPurchasingLoading(async () => {
-      // TODO: Implement purchase functionality when transaction system is ready
-      toast({
-        title: 'Feature Coming Soon',
-        description: 'Purchase functionality will be implemented with the transaction system',
-        variant: 'default',
-      });
-    });
+    setPurchaseListing(listing);
+  };
+
+  // Renew one of the company's own listings (active or expired)
+  const handleRenew = async (listing: MarketListing) => {
+    setRenewingListingId(listing.id);
+    try {
+      const result = await renewListing(listing.id);
+      if (result.success) {
+        toast({
+          title: 'Listing Renewed',
+          description: `${getResourceName(listing.resourceId)} listing now expires at tick ${result.expiresAtTick}`,
+        });
+        fetchListings();
+      } else {
+        toast({
+          title: 'Renewal Failed',
+          description: result.error || 'Failed to renew listing',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setRenewingListingId(null);
+    }
   };
 
   if (error) {
@@ -223,7 +302,7 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
           <CardDescription>Filter and search for resources</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             {/* Search */}
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -248,6 +327,17 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
               ))}
             </Select>
 
+            {/* Minimum quality */}
+            <Input
+              type="number"
+              min="0"
+              step="0.5"
+              placeholder="Min quality"
+              value={minQuality || ''}
+              onChange={(e) => setMinQuality(Math.max(0, parseFloat(e.target.value) || 0))}
+              aria-label="Minimum quality"
+            />
+
             {/* Sort */}
             <Select
               value={sortBy}
@@ -257,13 +347,121 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
               <option value="oldest">Oldest First</option>
               <option value="price-asc">Price: Low to High</option>
               <option value="price-desc">Price: High to Low</option>
+              <option value="landed-asc">Landed Cost: Low to High</option>
+              <option value="quality-desc">Quality: High to Low</option>
               <option value="quantity-asc">Quantity: Low to High</option>
               <option value="quantity-desc">Quantity: High to Low</option>
             </Select>
+
+            {/* Delivery facility for landed costs */}
+            <select
+              value={deliveryFacility?.id ?? ''}
+              onChange={(e) => setDeliveryFacilityId(e.target.value)}
+              disabled={facilities.length === 0}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {facilities.length === 0 && <option value="">No facilities to deliver to</option>}
+              {facilities.map((facility) => (
+                <option key={facility.id} value={facility.id}>
+                  Deliver to {facility.name} ({getCityById(facility.cityId)?.name ?? facility.cityId})
+                </option>
+              ))}
+            </select>
           </div>
         </CardContent>
       </Card>
 
+      {/* Order Book */}
+      <OrderBook
+        resourceId={marketResource}
+        onResourceChange={setMarketResource}
+        listings={listings}
+        currentCompany={currentCompany}
+        facilities={facilities}
+        onTraded={fetchListings}
+      />
+
+      {/* Private trade offers with other companies */}
+      <TradeOffers
+        currentCompany={currentCompany}
+        facilities={facilities}
+        currentTick={currentTick}
+        onTraded={fetchListings}
+      />
+
+      {/* Price History for the order book resource */}
+      {marketResource && (
+        <div className="mb-6">
+          <PriceHistoryPanel resourceId={marketResource} />
+        </div>
+      )}
+
+      {/* Own expired listings */}
+      {expiredListings.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Your Expired Listings</CardTitle>
+            <CardDescription>Expired listings were returned to inventory; renew to list them again</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {expiredListings.map((listing) => (
+                <div key={listing.id} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{getResourceIcon(listing.resourceId)}</span>
+                    <span className="font-medium">{getResourceName(listing.resourceId)}</span>
+                    <span className="text-muted-foreground">
+                      {formatNumber(listing.quantity, { decimals: 0 })} @ {formatNumber(listing.pricePerUnit, { currency: true, decimals: 2 })}
+                    </span>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRenew(listing)}
+                    disabled={renewingListingId === listing.id}
+                  >
+                    Renew
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Goods in transit to own facilities */}
+      {inTransit.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              In Transit
+            </CardTitle>
+            <CardDescription>Purchases shipped from other cities; they arrive on the listed tick</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {inTransit.map((shipment) => (
+                <div key={shipment.id} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{getResourceIcon(shipment.resourceId)}</span>
+                    <span className="font-medium">
+                      {formatNumber(shipment.quantity, { decimals: 0 })} {getResourceName(shipment.resourceId)}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {getCityById(shipment.fromCityId)?.name ?? shipment.fromCityId} → {facilities.find(f => f.id === shipment.toFacilityId)?.name ?? getCityById(shipment.toCityId)?.name ?? shipment.toCityId}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    Arrives in {Math.max(0, shipment.arrivesAtTick - currentTick)} tick{shipment.arrivesAtTick - currentTick !== 1 ? 's' : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Listings Table */}
       <Card>
         <CardHeader>
@@ -302,7 +500,9 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
                   <TableRow>
                     <TableHead className="w-[200px]">Resource</TableHead>
                     <TableHead className="text-right w-[100px]">Quantity</TableHead>
+                    <TableHead className="text-right w-[80px]">Quality</TableHead>
                     <TableHead className="text-right w-[120px]">Price/Unit</TableHead>
+                    <TableHead className="text-right w-[140px]">Landed/Unit</TableHead>
                     <TableHead className="text-right w-[120px]">Total Price</TableHead>
                     <TableHead className="w-[180px]">Seller</TableHead>
                     <TableHead className="text-center w-[100px]">Listed</TableHead>
@@ -315,6 +515,8 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
                     const isOwnListing = currentCompany?.id === listing.companyId;
                     const listingDate = new Date(listing.createdAt);
                     const daysAgo = Math.floor((Date.now() - listingDate.getTime()) / (1000 * 60 * 60 * 24));
+                    const ticksLeft = getListingTicksRemaining(listing, currentTick);
+                    const landed = landedCosts.get(listing.id);
 
                     return (
                       <TableRow key={listing.id}>
@@ -331,11 +533,34 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
                           {formatNumber(listing.quantity, { decimals: 0 })}
                         </TableCell>
 
+                        {/* Quality */}
+                        <TableCell className="text-right">
+                          {formatNumber(listing.quality, { decimals: 1 })}
+                        </TableCell>
+
                         {/* Price per Unit */}
                         <TableCell className="text-right">
                           {formatNumber(listing.pricePerUnit, { currency: true, decimals: 2 })}
                         </TableCell>
 
+                        {/* Landed cost at the delivery facility */}
+                        <TableCell className="text-right">
+                          {isOwnListing || !deliveryFacility ? (
+                            <span className="text-muted-foreground">-</span>
+                          ) : landed ? (
+                            <div>
+                              <div>{formatNumber(landed.landedPricePerUnit, { currency: true, decimals: 2 })}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {landed.transitTicks === 0
+                                  ? 'Local'
+                                  : `+${formatNumber(landed.shippingPerUnit, { currency: true, decimals: 2 })} · ${landed.transitTicks} tick${landed.transitTicks !== 1 ? 's' : ''}`}
+                              </div>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">No route</span>
+                          )}
+                        </TableCell>
+
                         {/* Total Price */}
                         <TableCell className="text-right font-semibold">
                           {formatNumber(totalPrice, { currency: true, decimals: 2 })}
@@ -352,6 +577,7 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
                             {!isOwnListing && (
                               <span className="text-sm text-muted-foreground">
                                 Facility #{listing.facilityId.slice(0, 8)}
+                                {listing.cityId && ` · ${getCityById(listing.cityId)?.name ?? listing.cityId}`}
                               </span>
                             )}
                           </div>
@@ -360,11 +586,23 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
                         {/* Listed Date */}
                         <TableCell className="text-center text-sm text-muted-foreground">
                           {daysAgo === 0 ? 'Today' : daysAgo === 1 ? 'Yesterday' : `${daysAgo} days ago`}
+                          {ticksLeft !== null && (
+                            <div className="text-xs">Expires in {ticksLeft} tick{ticksLeft !== 1 ? 's' : ''}</div>
+                          )}
                         </TableCell>
 
                         {/* Action */}
                         <TableCell className="text-center">
-                          {isOwnListing ? (
+                          {isOwnListing && listing.expiryTicks !== null ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRenew(listing)}
+                              disabled={renewingListingId === listing.id}
+                            >
+                              Renew
+                            </Button>
+                          ) : isOwnListing ? (
                             <Badge variant="outline" className="text-xs">
                               Your Item
                             </Badge>
@@ -372,7 +610,6 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
                             <Button
                               size="sm"
                               onClick={() => handlePurchase(listing)}
-                              disabled={isPurchasing}
                             >
                               <ShoppingCart className="h-4 w-4 mr-1" />
                               Buy
@@ -388,6 +625,19 @@ export function Marketplace({ currentCompany, onBack: _onBack }: MarketplaceProp
           )}
         </CardContent>
       </Card>
+
+      <PurchaseDialog
+        key={purchaseListing?.id ?? 'none'}
+        listing={purchaseListing}
+        facilities={facilities}
+        buyerBalance={currentCompany?.money}
+        inboundByFacility={inboundByFacility}
+        defaultFacilityId={deliveryFacility?.id}
+        onOpenChange={(open) => {
+          if (!open) setPurchaseListing(null);
+        }}
+        onPurchased={fetchListings}
+      />
     </div>
   );
 }
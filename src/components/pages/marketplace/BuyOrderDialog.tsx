@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Button, Input, Label } from '@/components/ui';
+import { getResourceName, getResourceIcon } from '@/lib/constants';
+import { placeBuyOrder, getFreeCapacity } from '@/lib/services';
+import { toast, formatNumber } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import type { Facility, ResourceId } from '@/lib/types/types';
+
+interface BuyOrderDialogProps {
+  open: boolean;
+  resourceId: ResourceId;
+  companyId: string;
+  facilities: Facility[];
+  buyerBalance?: number;
+  suggestedPrice?: number | null;
+  onOpenChange: (open: boolean) => void;
+  onPlaced?: () => void;
+}
+
+export function BuyOrderDialog({
+  open,
+  resourceId,
+  companyId,
+  facilities,
+  buyerBalance,
+  suggestedPrice,
+  onOpenChange,
+  onPlaced,
+}: BuyOrderDialogProps) {
+  // Parent remounts the dialog per resource (key), so initial state is derived once
+  const [quantity, setQuantity] = useState(0);
+  const [maxPrice, setMaxPrice] = useState(suggestedPrice ?? 0);
+  const [facilityId, setFacilityId] = useState<string>(facilities[0]?.id || '');
+  const { isLoading: isPlacing, withLoading } = useLoadingState();
+
+  const facility = facilities.find(f => f.id === facilityId) || null;
+  const freeCapacity = facility ? getFreeCapacity(facility.inventory) : 0;
+  const maxCost = quantity * maxPrice;
+
+  const validationError = !facility
+    ? 'Select a destination facility'
+    : quantity <= 0
+      ? 'Quantity must be greater than 0'
+      : maxPrice < 0
+        ? 'Maximum price cannot be negative'
+        : null;
+
+  const handleConfirm = async () => {
+    if (!facility || validationError) return;
+
+    await withLoading(async () => {
+      const result = await placeBuyOrder({
+        companyId,
+        facilityId: facility.id,
+        resourceId,
+        quantity,
+        maxPricePerUnit: maxPrice,
+      });
+
+      if (result.success) {
+        const remaining = quantity - result.filledQuantity;
+        toast({
+          title: 'Buy Order Placed',
+          description: result.filledQuantity > 0
+            ? `Filled ${formatNumber(result.filledQuantity, { decimals: 0 })} ${getResourceName(resourceId)} for ${formatNumber(result.totalCost, { currency: true, decimals: 2 })}${remaining > 0 ? `; ${formatNumber(remaining, { decimals: 0 })} remain open` : ''}`
+            : `Order for ${formatNumber(quantity, { decimals: 0 })} ${getResourceName(resourceId)} is open at up to ${formatNumber(maxPrice, { currency: true, decimals: 2 })}`,
+        });
+        onOpenChange(false);
+        onPlaced?.();
+      } else {
+        toast({
+          title: 'Order Failed',
+          description: result.error || 'Failed to place buy order',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Buy Order: {getResourceIcon(resourceId)} {getResourceName(resourceId)}
+          </DialogTitle>
+          <DialogDescription>
+            Fills immediately against listings at or below your price; the rest stays open for new listings
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="order-facility">Destination Facility</Label>
+            <select
+              id="order-facility"
+              value={facilityId}
+              onChange={(e) => setFacilityId(e.target.value)}
+              disabled={isPlacing}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {facilities.length === 0 && <option value="">No facilities available</option>}
+              {facilities.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name} ({getFreeCapacity(f.inventory)} free)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="order-quantity">Quantity</Label>
+              <Input
+                id="order-quantity"
+                type="number"
+                min="1"
+                value={quantity}
+                onChange={(e) => setQuantity(Math.max(0, parseInt(e.target.value) || 0))}
+                disabled={isPlacing}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-price">Max Price/Unit</Label>
+              <Input
+                id="order-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={maxPrice}
+                onChange={(e) => setMaxPrice(Math.max(0, parseFloat(e.target.value) || 0))}
+                disabled={isPlacing}
+              />
+            </div>
+          </div>
+          <div className="rounded-lg bg-muted p-3 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Maximum Cost</span>
+              <span className="font-semibold">{formatNumber(maxCost, { currency: true, decimals: 2 })}</span>
+            </div>
+            {buyerBalance !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Your Balance</span>
+                <span>{formatNumber(buyerBalance, { currency: true, decimals: 2 })}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Destination Free Capacity</span>
+              <span className={quantity > freeCapacity ? 'text-amber-600' : ''}>
+                {formatNumber(freeCapacity, { decimals: 0 })}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Fills are limited by your balance and free capacity at the time of each match.
+            </p>
+            {validationError && (
+              <p className="text-xs text-red-600">{validationError}</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPlacing}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={isPlacing || !!validationError}>
+              {isPlacing ? 'Placing...' : 'Place Buy Order'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Badge } from '@/components/ui';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/shadCN/table';
+import { getResourceName, getResourceIcon, getAllResources } from '@/lib/constants';
+import { buildOrderBook, getOpenOrdersForResource, cancelBuyOrder, type OrderBookLevel } from '@/lib/services';
+import { toast, formatNumber, getErrorMessage } from '@/lib/utils';
+import type { MarketListing, MarketOrder } from '@/lib/database';
+import type { Facility, ResourceId } from '@/lib/types/types';
+import { BookOpen, Plus } from 'lucide-react';
+import { BuyOrderDialog } from './BuyOrderDialog';
+
+interface OrderBookProps {
+  resourceId: ResourceId;
+  onResourceChange: (resourceId: ResourceId) => void;
+  listings: MarketListing[]; // Active listings (sell side)
+  currentCompany?: { id: string; name: string; money?: number } | null;
+  facilities: Facility[];
+  onTraded?: () => void;
+}
+
+function DepthTable({ levels, side }: { levels: OrderBookLevel[]; side: 'bid' | 'ask' }) {
+  const maxDepth = levels.length > 0 ? levels[levels.length - 1].cumulativeQuantity : 0;
+  const barColor = side === 'bid' ? 'bg-emerald-100' : 'bg-red-100';
+  const priceColor = side === 'bid' ? 'text-emerald-700' : 'text-red-700';
+
+  if (levels.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        No {side === 'bid' ? 'buy orders' : 'listings'}
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Price</TableHead>
+          <TableHead className="text-right">Quantity</TableHead>
+          <TableHead className="text-right">Depth</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {levels.map((level) => (
+          <TableRow key={level.price}>
+            <TableCell className={`font-semibold ${priceColor}`}>
+              {formatNumber(level.price, { currency: true, decimals: 2 })}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatNumber(level.quantity, { decimals: 0 })}
+              {level.count > 1 && <span className="text-xs text-muted-foreground"> ({level.count})</span>}
+            </TableCell>
+            <TableCell className="text-right relative">
+              <div
+                className={`absolute inset-y-1 right-0 ${barColor}`}
+                style={{ width: `${maxDepth > 0 ? (level.cumulativeQuantity / maxDepth) * 100 : 0}%` }}
+              />
+              <span className="relative">{formatNumber(level.cumulativeQuantity, { decimals: 0 })}</span>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function OrderBook({ resourceId, onResourceChange, listings, currentCompany, facilities, onTraded }: OrderBookProps) {
+  const resourceIds = useMemo(() => Object.keys(getAllResources()).sort() as ResourceId[], []);
+  const [orders, setOrders] = useState<MarketOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isOrderDialogOpen, setIsOrderDialogOpen] = useState(false);
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  // Reload bids when the resource changes or listings were refreshed (fills change both sides)
+  useEffect(() => {
+    if (!resourceId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    getOpenOrdersForResource(resourceId)
+      .then((data) => {
+        if (!cancelled) setOrders(data);
+      })
+      .catch((err) => console.error('Error loading buy orders:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resourceId, listings, refreshToken]);
+
+  const book = useMemo(() => buildOrderBook(resourceId, listings, orders), [resourceId, listings, orders]);
+  const ownOrders = book.orders.filter(o => o.companyId === currentCompany?.id);
+
+  const handleCancelOrder = async (order: MarketOrder) => {
+    try {
+      await cancelBuyOrder(order.id);
+      toast({ title: 'Buy Order Cancelled', description: `${getResourceName(order.resourceId)} order cancelled` });
+      setRefreshToken(t => t + 1);
+    } catch (error) {
+      toast({ title: 'Error', description: getErrorMessage(error, 'Failed to cancel order'), variant: 'destructive' });
+    }
+  };
+
+  const handlePlaced = () => {
+    setRefreshToken(t => t + 1);
+    onTraded?.();
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              Order Book
+            </CardTitle>
+            <CardDescription>
+              Buy orders and listings for one resource, best prices first
+              {book.spread !== null && ` · Spread ${formatNumber(book.spread, { currency: true, decimals: 2 })}`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={resourceId}
+              onChange={(e) => onResourceChange(e.target.value as ResourceId)}
+              className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {resourceIds.map((id) => (
+                <option key={id} value={id}>
+                  {getResourceIcon(id)} {getResourceName(id)}
+                </option>
+              ))}
+            </select>
+            <Button
+              size="sm"
+              onClick={() => setIsOrderDialogOpen(true)}
+              disabled={!currentCompany || !resourceId}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Buy Order
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading && orders.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">Loading order book...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-semibold mb-2">
+                Bids {book.bestBid !== null && <span className="text-muted-foreground font-normal">· best {formatNumber(book.bestBid, { currency: true, decimals: 2 })}</span>}
+              </h4>
+              <DepthTable levels={book.bids} side="bid" />
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">
+                Asks {book.bestAsk !== null && <span className="text-muted-foreground font-normal">· best {formatNumber(book.bestAsk, { currency: true, decimals: 2 })}</span>}
+              </h4>
+              <DepthTable levels={book.asks} side="ask" />
+            </div>
+          </div>
+        )}
+
+        {ownOrders.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-sm font-semibold mb-2">Your Open Buy Orders</h4>
+            <div className="space-y-2">
+              {ownOrders.map((order) => (
+                <div key={order.id} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700">Your Order</Badge>
+                    <span>
+                      {formatNumber(order.quantity, { decimals: 0 })} @ ≤ {formatNumber(order.maxPricePerUnit, { currency: true, decimals: 2 })}
+                    </span>
+                    {order.filledQuantity > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        ({formatNumber(order.filledQuantity, { decimals: 0 })} filled)
+                      </span>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      into {facilities.find(f => f.id === order.facilityId)?.name ?? `Facility #${order.facilityId.slice(0, 8)}`}
+                    </span>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleCancelOrder(order)}>
+                    Cancel
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      {currentCompany && (
+        <BuyOrderDialog
+          key={`${resourceId}-${isOrderDialogOpen}`}
+          open={isOrderDialogOpen}
+          resourceId={resourceId}
+          companyId={currentCompany.id}
+          facilities={facilities}
+          buyerBalance={currentCompany.money}
+          suggestedPrice={book.bestAsk}
+          onOpenChange={setIsOrderDialogOpen}
+          onPlaced={handlePlaced}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Button, Input, Label } from '@/components/ui';
+import { getResourceName, getResourceIcon } from '@/lib/constants';
+import { purchaseFromListing, calculatePurchasePreview, getFreeCapacity } from '@/lib/services';
+import { toast, formatNumber } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import type { MarketListing } from '@/lib/database';
+import type { Facility } from '@/lib/types/types';
+
+interface PurchaseDialogProps {
+  listing: MarketListing | null;
+  facilities: Facility[];
+  buyerBalance?: number;
+  inboundByFacility?: Record<string, number>; // Units already in transit per facility
+  defaultFacilityId?: string; // Preselected destination
+  onOpenChange: (open: boolean) => void;
+  onPurchased?: () => void;
+}
+
+export function PurchaseDialog({ listing, facilities, buyerBalance, inboundByFacility = {}, defaultFacilityId, onOpenChange, onPurchased }: PurchaseDialogProps) {
+  // Parent remounts the dialog per listing (key), so initial state is derived once
+  const [quantity, setQuantity] = useState(listing?.quantity ?? 0);
+  const [buyerFacilityId, setBuyerFacilityId] = useState<string>(defaultFacilityId || facilities[0]?.id || '');
+  const { isLoading: isPurchasing, withLoading } = useLoadingState();
+
+  if (!listing) return null;
+
+  const buyerFacility = facilities.find(f => f.id === buyerFacilityId) || null;
+  const preview = calculatePurchasePreview(listing, buyerFacility, quantity, inboundByFacility[buyerFacilityId] ?? 0);
+  const canAffordPurchase = buyerBalance === undefined || buyerBalance >= preview.landedCost;
+
+  const handleConfirm = async () => {
+    if (!buyerFacility || !preview.valid) return;
+
+    await withLoading(async () => {
+      const result = await purchaseFromListing(listing.id, buyerFacility.id, quantity);
+
+      if (result.success) {
+        const delivery = result.arrivesAtTick != null
+          ? `, arriving at ${buyerFacility.name} at tick ${result.arrivesAtTick}`
+          : ` into ${buyerFacility.name}`;
+        toast({
+          title: 'Purchase Complete',
+          description: `Bought ${formatNumber(quantity, { decimals: 0 })} ${getResourceName(listing.resourceId)} for ${formatNumber(result.totalPrice ?? preview.totalCost, { currency: true, decimals: 2 })}${delivery}`,
+        });
+        onOpenChange(false);
+        onPurchased?.();
+      } else {
+        toast({
+          title: 'Purchase Failed',
+          description: result.error || 'Failed to purchase listing',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={!!listing} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Buy {getResourceIcon(listing.resourceId)} {getResourceName(listing.resourceId)}
+          </DialogTitle>
+          <DialogDescription>
+            {formatNumber(listing.quantity, { decimals: 0 })} units available at{' '}
+            {formatNumber(listing.pricePerUnit, { currency: true, decimals: 2 })} per unit,
+            quality {formatNumber(listing.quality, { decimals: 1 })}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="purchase-facility">Destination Facility</Label>
+            <select
+              id="purchase-facility"
+              value={buyerFacilityId}
+              onChange={(e) => setBuyerFacilityId(e.target.value)}
+              disabled={isPurchasing}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {facilities.length === 0 && <option value="">No facilities available</option>}
+              {facilities.map((facility) => (
+                <option key={facility.id} value={facility.id}>
+                  {facility.name} ({getFreeCapacity(facility.inventory)} free)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="purchase-quantity">Quantity</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="purchase-quantity"
+                type="number"
+                min="1"
+                max={preview.maxQuantity}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.max(0, parseInt(e.target.value) || 0))}
+                disabled={isPurchasing}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setQuantity(preview.maxQuantity)}
+                disabled={isPurchasing || preview.maxQuantity <= 0}
+              >
+                Max
+              </Button>
+            </div>
+          </div>
+          <div className="rounded-lg bg-muted p-3 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Goods</span>
+              <span>{formatNumber(preview.totalCost, { currency: true, decimals: 2 })}</span>
+            </div>
+            {preview.shipping && !preview.shipping.isLocal && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Shipping (arrives in {preview.shipping.transitTicks} tick{preview.shipping.transitTicks !== 1 ? 's' : ''})
+                </span>
+                <span>{formatNumber(preview.shipping.cost, { currency: true, decimals: 2 })}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Total Cost</span>
+              <span className="font-semibold">{formatNumber(preview.landedCost, { currency: true, decimals: 2 })}</span>
+            </div>
+            {buyerBalance !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Your Balance</span>
+                <span className={canAffordPurchase ? '' : 'text-red-600'}>
+                  {formatNumber(buyerBalance, { currency: true, decimals: 2 })}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Destination Free Capacity</span>
+              <span>{formatNumber(preview.freeCapacity, { decimals: 0 })}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Free Capacity After Purchase</span>
+              <span className={preview.remainingCapacity < 0 ? 'text-red-600' : ''}>
+                {formatNumber(preview.remainingCapacity, { decimals: 0 })}
+              </span>
+            </div>
+            {!preview.valid && preview.error && (
+              <p className="text-xs text-red-600">{preview.error}</p>
+            )}
+            {preview.valid && !canAffordPurchase && (
+              <p className="text-xs text-red-600">Insufficient funds for this purchase</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPurchasing}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={isPurchasing || !preview.valid || !canAffordPurchase}>
+              {isPurchasing ? 'Purchasing...' : 'Confirm Purchase'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
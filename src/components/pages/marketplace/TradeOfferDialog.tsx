@@ -0,0 +1,235 @@
+import { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Button, Input, Label } from '@/components/ui';
+import { getResourceName, getResourceIcon, getAllResources, TRADE_OFFER_DEFAULTS } from '@/lib/constants';
+import { proposeTradeOffer, counterOffer, getTradeCounterparty, describeTradeOffer, getFreeCapacity } from '@/lib/services';
+import { toast, formatNumber } from '@/lib/utils';
+import { useLoadingState } from '@/hooks';
+import type { TradeOffer, TradeOfferSide } from '@/lib/database';
+import type { Facility, ResourceId } from '@/lib/types/types';
+
+interface TradeOfferDialogProps {
+  open: boolean;
+  companyId: string;
+  facilities: Facility[];
+  counterTo?: TradeOffer | null; // Set to counter this offer instead of proposing a new one
+  onOpenChange: (open: boolean) => void;
+  onSubmitted?: () => void;
+}
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50';
+
+export function TradeOfferDialog({ open, companyId, facilities, counterTo, onOpenChange, onSubmitted }: TradeOfferDialogProps) {
+  const resourceIds = useMemo(() => Object.keys(getAllResources()).sort() as ResourceId[], []);
+  const isSellerOfCounter = counterTo ? counterTo.sellerCompanyId === companyId : false;
+  const ownCounterFacilityId = counterTo
+    ? (isSellerOfCounter ? counterTo.sellerFacilityId : counterTo.buyerFacilityId)
+    : null;
+
+  // Parent remounts the dialog per offer (key), so initial state is derived once
+  const [counterpartyName, setCounterpartyName] = useState('');
+  const [side, setSide] = useState<TradeOfferSide>(counterTo ? (isSellerOfCounter ? 'sell' : 'buy') : 'sell');
+  const [resourceId, setResourceId] = useState<ResourceId>(counterTo?.resourceId ?? resourceIds[0] ?? '');
+  const [facilityId, setFacilityId] = useState<string>(ownCounterFacilityId || facilities[0]?.id || '');
+  const [quantity, setQuantity] = useState(counterTo?.quantity ?? 0);
+  const [pricePerUnit, setPricePerUnit] = useState(counterTo?.pricePerUnit ?? 0);
+  const [expiryTicks, setExpiryTicks] = useState(counterTo?.expiryTicks ?? TRADE_OFFER_DEFAULTS.EXPIRY_TICKS);
+  const { isLoading: isSubmitting, withLoading } = useLoadingState();
+
+  const facility = facilities.find(f => f.id === facilityId) || null;
+  const availableQuantity = facility
+    ? facility.inventory.items
+        .filter(item => item.resourceId === resourceId)
+        .reduce((sum, item) => sum + item.quantity - (item.reservedQuantity ?? 0), 0)
+    : 0;
+
+  const validationError = !counterTo && !counterpartyName.trim()
+    ? 'Enter the company to trade with'
+    : !facility
+      ? 'Select a facility'
+      : quantity <= 0
+        ? 'Quantity must be greater than 0'
+        : expiryTicks <= 0
+          ? 'Expiry must be at least 1 tick'
+          : side === 'sell' && quantity > availableQuantity
+            ? `Only ${formatNumber(availableQuantity, { decimals: 0 })} unreserved in this facility`
+            : null;
+
+  const handleConfirm = async () => {
+    if (!facility || validationError) return;
+
+    await withLoading(async () => {
+      const result = counterTo
+        ? await counterOffer(counterTo, companyId, { quantity, pricePerUnit, facilityId: facility.id, expiryTicks })
+        : await proposeTradeOffer({
+            companyId,
+            counterpartyName,
+            side,
+            facilityId: facility.id,
+            resourceId,
+            quantity,
+            pricePerUnit,
+            expiryTicks,
+          });
+
+      if (result.success && result.offer) {
+        toast({
+          title: counterTo ? 'Counter Offer Sent' : 'Trade Offer Sent',
+          description: `${describeTradeOffer(result.offer)} to ${getTradeCounterparty(result.offer, companyId).name}, expires at tick ${result.offer.expiresAtTick}`,
+        });
+        onOpenChange(false);
+        onSubmitted?.();
+      } else {
+        toast({
+          title: counterTo ? 'Counter Failed' : 'Offer Failed',
+          description: result.error || 'Failed to send trade offer',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {counterTo
+              ? `Counter Offer to ${getTradeCounterparty(counterTo, companyId).name}`
+              : 'Propose Trade'}
+          </DialogTitle>
+          <DialogDescription>
+            {counterTo
+              ? `${getResourceIcon(counterTo.resourceId)} Currently ${describeTradeOffer(counterTo)}`
+              : 'Offer another company a private trade; they can accept, reject or counter'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {!counterTo && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="trade-company">Company</Label>
+                <Input
+                  id="trade-company"
+                  value={counterpartyName}
+                  onChange={(e) => setCounterpartyName(e.target.value)}
+                  placeholder="Company name"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="trade-side">You want to</Label>
+                <select
+                  id="trade-side"
+                  value={side}
+                  onChange={(e) => setSide(e.target.value as TradeOfferSide)}
+                  disabled={isSubmitting}
+                  className={selectClassName}
+                >
+                  <option value="sell">Sell</option>
+                  <option value="buy">Buy</option>
+                </select>
+              </div>
+            </div>
+          )}
+          {!counterTo && (
+            <div className="space-y-2">
+              <Label htmlFor="trade-resource">Resource</Label>
+              <select
+                id="trade-resource"
+                value={resourceId}
+                onChange={(e) => setResourceId(e.target.value as ResourceId)}
+                disabled={isSubmitting}
+                className={selectClassName}
+              >
+                {resourceIds.map((id) => (
+                  <option key={id} value={id}>
+                    {getResourceIcon(id)} {getResourceName(id)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="trade-facility">{side === 'sell' ? 'Ship From' : 'Deliver To'}</Label>
+            <select
+              id="trade-facility"
+              value={facilityId}
+              onChange={(e) => setFacilityId(e.target.value)}
+              disabled={isSubmitting}
+              className={selectClassName}
+            >
+              {facilities.length === 0 && <option value="">No facilities available</option>}
+              {facilities.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name} ({getFreeCapacity(f.inventory)} free)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trade-quantity">Quantity</Label>
+              <Input
+                id="trade-quantity"
+                type="number"
+                min="1"
+                value={quantity}
+                onChange={(e) => setQuantity(Math.max(0, parseInt(e.target.value) || 0))}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade-price">Price/Unit</Label>
+              <Input
+                id="trade-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={pricePerUnit}
+                onChange={(e) => setPricePerUnit(Math.max(0, parseFloat(e.target.value) || 0))}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trade-expiry">Expires (ticks)</Label>
+              <Input
+                id="trade-expiry"
+                type="number"
+                min="1"
+                value={expiryTicks}
+                onChange={(e) => setExpiryTicks(Math.max(0, parseInt(e.target.value) || 0))}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          <div className="rounded-lg bg-muted p-3 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Total Value</span>
+              <span className="font-semibold">{formatNumber(quantity * pricePerUnit, { currency: true, decimals: 2 })}</span>
+            </div>
+            {side === 'sell' && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Unreserved In Facility</span>
+                <span>{formatNumber(availableQuantity, { decimals: 0 })}</span>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Settles like a market purchase: the seller pays the sales fee, the buyer pays shipping between cities.
+            </p>
+            {validationError && (
+              <p className="text-xs text-red-600">{validationError}</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={isSubmitting || !!validationError}>
+              {isSubmitting ? 'Sending...' : counterTo ? 'Send Counter' : 'Send Offer'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
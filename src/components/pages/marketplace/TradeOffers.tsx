@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, Button, Badge } from '@/components/ui';
+import { getResourceIcon } from '@/lib/constants';
+import {
+  getCompanyTradeOffers,
+  acceptOffer,
+  rejectOffer,
+  cancelOffer,
+  getTradeCounterparty,
+  isAwaitingResponse,
+  describeTradeOffer,
+} from '@/lib/services';
+import { toast, getErrorMessage } from '@/lib/utils';
+import type { TradeOffer } from '@/lib/database';
+import type { Facility } from '@/lib/types/types';
+import { Handshake, Plus } from 'lucide-react';
+import { TradeOfferDialog } from './TradeOfferDialog';
+
+interface TradeOffersProps {
+  currentCompany?: { id: string; name: string; money?: number } | null;
+  facilities: Facility[];
+  currentTick: number;
+  onTraded?: () => void;
+}
+
+const RECENT_OFFER_LIMIT = 5;
+
+const STATUS_BADGE_CLASSES: Record<TradeOffer['offerStatus'], string> = {
+  pending: 'bg-blue-50 text-blue-700',
+  accepted: 'bg-emerald-50 text-emerald-700',
+  rejected: 'bg-red-50 text-red-700',
+  countered: 'bg-amber-50 text-amber-700',
+  cancelled: 'bg-gray-50 text-gray-700',
+  expired: 'bg-gray-50 text-gray-700',
+};
+
+const selectClassName = 'flex h-8 rounded-md border border-input bg-transparent px-2 py-1 text-xs shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50';
+
+export function TradeOffers({ currentCompany, facilities, currentTick, onTraded }: TradeOffersProps) {
+  const [offers, setOffers] = useState<TradeOffer[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [counterTo, setCounterTo] = useState<TradeOffer | null>(null);
+  const [acceptFacilityIds, setAcceptFacilityIds] = useState<Record<string, string>>({});
+  const [busyOfferId, setBusyOfferId] = useState<string | null>(null);
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  // Offers expire and arrive from other companies between ticks
+  const companyId = currentCompany?.id;
+  useEffect(() => {
+    if (!companyId) return;
+    let cancelled = false;
+
+    getCompanyTradeOffers(companyId)
+      .then((data) => {
+        if (!cancelled) setOffers(data);
+      })
+      .catch((err) => console.error('Error loading trade offers:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [companyId, currentTick, refreshToken]);
+
+  if (!currentCompany) return null;
+
+  const incoming = offers.filter(o => isAwaitingResponse(o, currentCompany.id));
+  const outgoing = offers.filter(o => o.offerStatus === 'pending' && o.proposedByCompanyId === currentCompany.id);
+  const recent = offers.filter(o => o.offerStatus !== 'pending').slice(0, RECENT_OFFER_LIMIT);
+
+  const refresh = () => setRefreshToken(t => t + 1);
+
+  const ownFacilityIdOf = (offer: TradeOffer) =>
+    offer.sellerCompanyId === currentCompany.id ? offer.sellerFacilityId : offer.buyerFacilityId;
+
+  const handleAccept = async (offer: TradeOffer) => {
+    const facilityId = ownFacilityIdOf(offer) ?? acceptFacilityIds[offer.id] ?? facilities[0]?.id ?? null;
+    setBusyOfferId(offer.id);
+    try {
+      const result = await acceptOffer(offer, currentCompany.id, facilityId);
+      if (result.success) {
+        toast({
+          title: 'Trade Accepted',
+          description: `${describeTradeOffer(offer)} with ${getTradeCounterparty(offer, currentCompany.id).name}${result.arrivesAtTick != null ? `, arriving at tick ${result.arrivesAtTick}` : ''}`,
+        });
+        refresh();
+        onTraded?.();
+      } else {
+        toast({ title: 'Accept Failed', description: result.error || 'Failed to accept trade offer', variant: 'destructive' });
+      }
+    } finally {
+      setBusyOfferId(null);
+    }
+  };
+
+  const handleReject = async (offer: TradeOffer) => {
+    setBusyOfferId(offer.id);
+    try {
+      await rejectOffer(offer, currentCompany.id);
+      toast({ title: 'Trade Rejected', description: describeTradeOffer(offer) });
+      refresh();
+    } catch (error) {
+      toast({ title: 'Error', description: getErrorMessage(error, 'Failed to reject trade offer'), variant: 'destructive' });
+    } finally {
+      setBusyOfferId(null);
+    }
+  };
+
+  const handleWithdraw = async (offer: TradeOffer) => {
+    setBusyOfferId(offer.id);
+    try {
+      await cancelOffer(offer, currentCompany.id);
+      toast({ title: 'Trade Offer Withdrawn', description: describeTradeOffer(offer) });
+      refresh();
+    } catch (error) {
+      toast({ title: 'Error', description: getErrorMessage(error, 'Failed to withdraw trade offer'), variant: 'destructive' });
+    } finally {
+      setBusyOfferId(null);
+    }
+  };
+
+  const openDialog = (offer: TradeOffer | null) => {
+    setCounterTo(offer);
+    setIsDialogOpen(true);
+  };
+
+  const describeSide = (offer: TradeOffer) => {
+    const counterparty = getTradeCounterparty(offer, currentCompany.id).name;
+    return offer.sellerCompanyId === currentCompany.id ? `Sell to ${counterparty}` : `Buy from ${counterparty}`;
+  };
+
+  const ticksLeft = (offer: TradeOffer) => Math.max(0, offer.expiresAtTick - currentTick);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Handshake className="h-5 w-5" />
+              Trade Offers
+            </CardTitle>
+            <CardDescription>Private trades with other companies, settled like market purchases</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)} disabled={facilities.length === 0}>
+            <Plus className="h-4 w-4 mr-1" />
+            Propose Trade
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Awaiting Your Response</h4>
+          {incoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No offers waiting for you</p>
+          ) : (
+            <div className="space-y-2">
+              {incoming.map((offer) => (
+                <div key={offer.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{getResourceIcon(offer.resourceId)}</span>
+                    <span className="font-medium">{describeSide(offer)}</span>
+                    <span className="text-muted-foreground">{describeTradeOffer(offer)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      · expires in {ticksLeft(offer)} tick{ticksLeft(offer) !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!ownFacilityIdOf(offer) && (
+                      <select
+                        value={acceptFacilityIds[offer.id] ?? facilities[0]?.id ?? ''}
+                        onChange={(e) => setAcceptFacilityIds(ids => ({ ...ids, [offer.id]: e.target.value }))}
+                        disabled={busyOfferId === offer.id}
+                        className={selectClassName}
+                      >
+                        {facilities.map((f) => (
+                          <option key={f.id} value={f.id}>
+                            {f.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <Button size="sm" onClick={() => handleAccept(offer)} disabled={busyOfferId === offer.id || facilities.length === 0}>
+                      Accept
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => openDialog(offer)} disabled={busyOfferId === offer.id}>
+                      Counter
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleReject(offer)} disabled={busyOfferId === offer.id}>
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {outgoing.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Your Open Offers</h4>
+            <div className="space-y-2">
+              {outgoing.map((offer) => (
+                <div key={offer.id} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{getResourceIcon(offer.resourceId)}</span>
+                    <span className="font-medium">{describeSide(offer)}</span>
+                    <span className="text-muted-foreground">{describeTradeOffer(offer)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      · expires in {ticksLeft(offer)} tick{ticksLeft(offer) !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleWithdraw(offer)} disabled={busyOfferId === offer.id}>
+                    Withdraw
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {recent.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Recent</h4>
+            <div className="space-y-2">
+              {recent.map((offer) => (
+                <div key={offer.id} className="flex items-center gap-2 rounded-lg border p-2 text-sm">
+                  <Badge variant="outline" className={`text-xs capitalize ${STATUS_BADGE_CLASSES[offer.offerStatus]}`}>
+                    {offer.offerStatus}
+                  </Badge>
+                  <span>{getResourceIcon(offer.resourceId)}</span>
+                  <span className="font-medium">{describeSide(offer)}</span>
+                  <span className="text-muted-foreground">{describeTradeOffer(offer)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <TradeOfferDialog
+        key={`${counterTo?.id ?? 'new'}-${isDialogOpen}`}
+        open={isDialogOpen}
+        companyId={currentCompany.id}
+        facilities={facilities}
+        counterTo={counterTo}
+        onOpenChange={setIsDialogOpen}
+        onSubmitted={refresh}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,5 @@
+export { PurchaseDialog } from './PurchaseDialog';
+export { BuyOrderDialog } from './BuyOrderDialog';
+export { OrderBook } from './OrderBook';
+export { TradeOffers } from './TradeOffers';
+export { TradeOfferDialog } from './TradeOfferDialog';
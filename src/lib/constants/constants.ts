@@ -6,7 +6,11 @@ export const DAYS_PER_MONTH = 24;
 export const MONTHS_PER_YEAR = 7;
 export const DAYS_PER_YEAR = DAYS_PER_MONTH * MONTHS_PER_YEAR;
 
+// The main world; companies created before worlds existed belong to it
+export const DEFAULT_WORLD_ID = 'global';
+
 // Starting values for new games
+// Defaults for worlds that do not configure their own (see getWorldInitialization)
 export const GAME_INITIALIZATION = {
   // Starting time (Day-Month-Year system)
   STARTING_DAY: 1,
@@ -16,3 +20,71 @@ export const GAME_INITIALIZATION = {
   // Starting capital for new companies
   STARTING_CAPITAL: 1000,
 } as const;
+
+// Private company-to-company trade offers
+export const TRADE_OFFER_DEFAULTS = {
+  // Ticks a pending offer stays open before the game tick expires it
+  EXPIRY_TICKS: 5,
+} as const;
+
+// Facility construction and demolition
+export const FACILITY_DEFAULTS = {
+  // Fraction of the build cost paid back when a facility is demolished
+  DEMOLITION_REFUND_RATE: 0.5,
+} as const;
+
+// Facility workforce
+export const WORKFORCE_DEFAULTS = {
+  // Workers needed for full effectivity when a facility type sets no required_workers
+  REQUIRED_WORKERS: 5,
+  // Monthly wage per worker = city baseWage × this
+  MONTHLY_WAGE_PER_BASE_WAGE: 20,
+} as const;
+
+// Retail sales to city consumers
+export const RETAIL_DEFAULTS = {
+  // How strongly demand reacts to the shelf price (demand ∝ (fair price / shelf price)^elasticity)
+  PRICE_ELASTICITY: 2,
+  // Demand cap as a multiple of the city's demand at the fair price (reached by very cheap shelves)
+  MAX_DEMAND_MULTIPLIER: 2,
+  // Bounds of quality / city qualityDemand, which scales the fair price (and demand below 1)
+  MIN_QUALITY_FACTOR: 0.25,
+  MAX_QUALITY_FACTOR: 2,
+} as const;
+
+// City economy (derived city stats and the monthly evolution of wealth and population)
+export const CITY_ECONOMY = {
+  // Population at which city size neither raises nor lowers the derived stats
+  REFERENCE_POPULATION: 10000,
+  // Effect of each tenfold population on wages (+) and purchase power (-)
+  SIZE_WEIGHT: 0.1,
+  // Quality demand = 1 + wealth × this × size factor
+  QUALITY_DEMAND_PER_WEALTH: 4,
+  // Target wealth above base wealth per unit of monthly wages + retail spending per resident
+  WEALTH_PER_ACTIVITY: 5,
+  // Fraction of the gap to the target wealth closed each month
+  WEALTH_ADJUSTMENT_RATE: 0.1,
+  MIN_WEALTH: 0.05,
+  MAX_WEALTH: 1,
+  // Monthly population growth per worker employed per resident
+  GROWTH_PER_EMPLOYMENT: 0.5,
+  // Monthly population growth per point of wealth above base wealth
+  GROWTH_PER_WEALTH: 0.02,
+  // Largest monthly population change (either way)
+  MAX_MONTHLY_GROWTH: 0.02,
+  MIN_POPULATION: 1000,
+} as const;
+
+// Production control
+export const PRODUCTION_DEFAULTS = {
+  // Fraction of a cancelled cycle's consumed inputs returned to the inventory
+  CANCEL_REFUND_RATE: 0.5,
+} as const;
+
+// Recurring supply contracts between facilities
+export const CONTRACT_DEFAULTS = {
+  // Penalty for a missed delivery, as a fraction of the delivery value
+  PENALTY_RATE: 0.25,
+  // Missed deliveries after which the contract is breached
+  MAX_MISSED_DELIVERIES: 3,
+} as const;
@@ -3,10 +3,17 @@
  * All database-loaded game configuration in one place
  */
 
-import type { Recipe, RecipeId, Resource, ResourceId, ProductionFacilityType, FacilityInventory } from '@/lib/types/types';
+import type { Recipe, RecipeId, Resource, ResourceId, FacilityType, ProductionFacilityType, FacilityInventory, MarketFee, MarketFeeId, City, CityRoute, FacilityUpgradeLevel, World } from '@/lib/types/types';
 import { fetchRecipes } from '@/lib/services/core/recipeService';
 import { fetchResources } from '@/lib/services/core/resourceService';
 import { fetchFacilityTypes } from '@/lib/services/core/facilityTypeService';
+import { fetchMarketFees } from '@/lib/services/core/marketFeeService';
+import { fetchCities, clearCitiesCache } from '@/lib/services/core/cityService';
+import { fetchCityRoutes } from '@/lib/services/core/cityRouteService';
+import { fetchWorlds } from '@/lib/services/core/worldService';
+import { fetchFacilityUpgradeLevels } from '@/lib/services/core/facilityUpgradeService';
+import { DEFAULT_INVENTORY_CAPACITY } from '@/lib/services/production/productionSimulation';
+import { DEFAULT_WORLD_ID, GAME_INITIALIZATION } from './constants';
 
 // ============================================================================
 // TYPES
@@ -15,17 +22,20 @@ import { fetchFacilityTypes } from '@/lib/services/core/facilityTypeService';
 export interface FacilityTypeConfig {
   id: string;
   name: string;
+  type: FacilityType; // Production, warehouse or retail
   availableRecipeIds: RecipeId[];
   autoStartRecipe: RecipeId;
   inventoryCapacity: number;
   effectivity: number;
+  requiredWorkers: number; // Workers needed for full effectivity
+  buildCost: number; // Money paid to build a facility of this type
+  constructionTicks: number; // Ticks before a new facility can produce
   icon: string;
 }
 
 export const DEFAULT_FACILITY_CONFIG = {
   effectivity: 100,
-  inventoryCapacity: 1000,
-  workerCount: 0,
+  inventoryCapacity: DEFAULT_INVENTORY_CAPACITY,
   type: 'production' as const,
 } as const;
 
@@ -36,6 +46,11 @@ export const DEFAULT_FACILITY_CONFIG = {
 let recipes: Record<RecipeId, Recipe> = {};
 let resources: Record<string, Resource> = {};
 let facilityTypes: Record<string, FacilityTypeConfig> = {};
+let marketFees: Record<MarketFeeId, MarketFee> = {};
+let cities: City[] = [];
+let cityRoutes: CityRoute[] = [];
+let facilityUpgradeLevels: FacilityUpgradeLevel[] = [];
+let worlds: World[] = [];
 let isLoaded = false;
 
 // ============================================================================
@@ -50,21 +65,36 @@ export async function loadGameData(): Promise<void> {
   if (isLoaded) return;
 
   try {
-    const [recipesData, resourcesData, facilityTypesData] = await Promise.all([
+    const [recipesData, resourcesData, facilityTypesData, marketFeesData, citiesData, cityRoutesData, facilityUpgradeLevelsData, worldsData] = await Promise.all([
       fetchRecipes(),
       fetchResources(),
       fetchFacilityTypes(),
+      fetchMarketFees(),
+      fetchCities(),
+      fetchCityRoutes(),
+      fetchFacilityUpgradeLevels(),
+      fetchWorlds(),
     ]);
 
     recipes = recipesData as Record<RecipeId, Recipe>;
     resources = resourcesData;
     facilityTypes = facilityTypesData;
+    marketFees = marketFeesData;
+    cities = citiesData;
+    cityRoutes = cityRoutesData;
+    facilityUpgradeLevels = facilityUpgradeLevelsData;
+    worlds = worldsData;
     isLoaded = true;
 
     console.log('✅ Game data loaded:', {
       recipes: Object.keys(recipes).length,
       resources: Object.keys(resources).length,
       facilityTypes: Object.keys(facilityTypes).length,
+      marketFees: Object.keys(marketFees).length,
+      cities: cities.length,
+      cityRoutes: cityRoutes.length,
+      facilityUpgradeLevels: facilityUpgradeLevels.length,
+      worlds: worlds.length,
     });
   } catch (error) {
     console.error('Failed to load game data:', error);
@@ -134,6 +164,111 @@ export function getResourceIcon(resourceId: ResourceId | string): string {
   return resources[resourceId]?.icon || '📦';
 }
 
+/**
+ * Get resources that city consumers buy from retail facilities
+ */
+export function getConsumerResources(): Resource[] {
+  return Object.values(resources).filter(resource => (resource.consumerPrice ?? 0) > 0);
+}
+
+// ============================================================================
+// MARKET FEES
+// ============================================================================
+
+/**
+ * Market fee IDs seeded in the market_fees table
+ */
+export const MARKET_FEE_IDS = {
+  LISTING: 'listing_fee',
+  SALES: 'sales_fee',
+} as const;
+
+/**
+ * Get all market fees
+ */
+export function getAllMarketFees(): Record<MarketFeeId, MarketFee> {
+  return marketFees;
+}
+
+/**
+ * Get market fee by ID
+ */
+export function getMarketFee(feeId: MarketFeeId): MarketFee | undefined {
+  return marketFees[feeId];
+}
+
+/**
+ * Calculate a market fee, rounded to cents
+ * Flat fees ignore the value; percent fees apply their rate to it.
+ * Unknown fees cost nothing.
+ */
+export function calculateMarketFee(feeId: MarketFeeId, value: number = 0): number {
+  const fee = marketFees[feeId];
+  if (!fee) return 0;
+
+  const amount = fee.feeType === 'percent' ? value * fee.rate : fee.rate;
+  return Math.round(Math.max(0, amount) * 100) / 100;
+}
+
+// ============================================================================
+// CITIES
+// ============================================================================
+
+/**
+ * Get all cities
+ */
+export function getAllCities(): City[] {
+  return cities;
+}
+
+/**
+ * Get city by ID
+ */
+export function getCityById(cityId: string): City | undefined {
+  return cities.find(city => city.id === cityId);
+}
+
+/**
+ * Get city by name
+ */
+export function getCityByName(cityName: string): City | undefined {
+  return cities.find(city => city.name === cityName);
+}
+
+/**
+ * Reload cities from database
+ * Wealth and population change on monthly ticks, so the cache is refreshed then
+ */
+export async function reloadCities(): Promise<void> {
+  try {
+    clearCitiesCache();
+    cities = await fetchCities();
+  } catch (error) {
+    console.error('Failed to reload cities:', error);
+  }
+}
+
+// ============================================================================
+// CITY ROUTES
+// ============================================================================
+
+/**
+ * Get all city routes
+ */
+export function getAllCityRoutes(): CityRoute[] {
+  return cityRoutes;
+}
+
+/**
+ * Get the route between two cities in either direction
+ * Returns undefined for the same city or an unknown pair
+ */
+export function getCityRoute(cityA: string, cityB: string): CityRoute | undefined {
+  if (cityA === cityB) return undefined;
+  const [fromCityId, toCityId] = cityA < cityB ? [cityA, cityB] : [cityB, cityA];
+  return cityRoutes.find(route => route.fromCityId === fromCityId && route.toCityId === toCityId);
+}
+
 // ============================================================================
 // FACILITY TYPES
 // ============================================================================
@@ -163,6 +298,8 @@ export const FACILITY_SUBTYPE_ICONS: Record<ProductionFacilityType, string> = {
   farm: '🌾',
   mill: '⚙️',
   bakery: '🍞',
+  warehouse: '📦',
+  shop: '🏪',
 };
 
 /**
@@ -171,3 +308,64 @@ export const FACILITY_SUBTYPE_ICONS: Record<ProductionFacilityType, string> = {
 export function getFacilitySubtypeIcon(subtype: ProductionFacilityType): string {
   return FACILITY_SUBTYPE_ICONS[subtype] || '🏭';
 }
+
+// ============================================================================
+// FACILITY UPGRADES
+// ============================================================================
+
+/**
+ * Get the upgrade levels of a facility type, lowest level first
+ */
+export function getFacilityUpgradeLevels(facilityTypeId: string): FacilityUpgradeLevel[] {
+  return facilityUpgradeLevels
+    .filter(level => level.facilityTypeId === facilityTypeId)
+    .sort((a, b) => a.level - b.level);
+}
+
+/**
+ * Get one upgrade level of a facility type
+ * Level 0 has no entry: it is the facility type's default configuration
+ */
+export function getFacilityUpgradeLevel(facilityTypeId: string, level: number): FacilityUpgradeLevel | undefined {
+  return facilityUpgradeLevels.find(l => l.facilityTypeId === facilityTypeId && l.level === level);
+}
+
+// ============================================================================
+// WORLDS
+// ============================================================================
+
+/**
+ * Get all game worlds
+ */
+export function getAllWorlds(): World[] {
+  return worlds;
+}
+
+/**
+ * Get world by ID
+ */
+export function getWorld(worldId: string): World | undefined {
+  return worlds.find(world => world.id === worldId);
+}
+
+/**
+ * Starting values of a world, keyed like GAME_INITIALIZATION
+ */
+export type WorldInitialization = Record<keyof typeof GAME_INITIALIZATION, number>;
+
+/**
+ * Get the starting values of a world
+ * Falls back to GAME_INITIALIZATION for unknown worlds or before game data loads
+ */
+export function getWorldInitialization(worldId: string = DEFAULT_WORLD_ID): WorldInitialization {
+  const world = getWorld(worldId);
+  if (!world) return GAME_INITIALIZATION;
+
+  return {
+    STARTING_DAY: world.startingDay,
+    STARTING_MONTH: world.startingMonth,
+    STARTING_YEAR: world.startingYear,
+    STARTING_TICK: world.startingTick,
+    STARTING_CAPITAL: world.startingCapital,
+  };
+}
@@ -1,6 +1,5 @@
 // Barrel export for constants
 // Navigation emojis are exported from @/lib/utils/icons
 export * from './constants';
-export * from './cities';
 export * from './gameData';
 
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/utils/supabase';
+import { DEFAULT_WORLD_ID } from '@/lib/constants/constants';
 
 /**
  * Company interface - only required fields, no optionals
@@ -13,6 +14,7 @@ export interface Company {
   created_at: string;
   avatar: string;
   avatar_color: string;
+  world_id: string;
 }
 
 /**
@@ -46,6 +48,7 @@ export async function getCompanyByName(companyName: string): Promise<Company | n
       created_at: data.created_at ?? new Date().toISOString(),
       avatar: data.avatar ?? 'default',
       avatar_color: data.avatar_color ?? 'blue',
+      world_id: data.world_id ?? DEFAULT_WORLD_ID,
     };
   } catch (error: any) {
     console.error('Error getting company:', error);
@@ -54,16 +57,17 @@ export async function getCompanyByName(companyName: string): Promise<Company | n
 }
 
 /**
- * Create a new company
+ * Create a new company in a world
  * Note: Company is created with 0 money, starting capital is added via transaction
  */
-export async function createCompany(companyName: string): Promise<Company> {
+export async function createCompany(companyName: string, worldId: string = DEFAULT_WORLD_ID): Promise<Company> {
   try {
     const { data, error } = await supabase
       .from('companies')
       .insert({
         name: companyName,
         money: 0, // Start with 0, transaction service will add starting capital
+        world_id: worldId,
       })
       .select()
       .single();
@@ -87,6 +91,7 @@ export async function createCompany(companyName: string): Promise<Company> {
       created_at: data.created_at ?? new Date().toISOString(),
       avatar: data.avatar ?? 'default',
       avatar_color: data.avatar_color ?? 'blue',
+      world_id: data.world_id ?? DEFAULT_WORLD_ID,
     };
   } catch (error: any) {
     throw new Error(`Failed to create company: ${error.message || error}`);
@@ -126,6 +131,7 @@ export async function getCompanyById(companyId: string): Promise<Company | null>
       created_at: data.created_at ?? new Date().toISOString(),
       avatar: data.avatar ?? 'default',
       avatar_color: data.avatar_color ?? 'blue',
+      world_id: data.world_id ?? DEFAULT_WORLD_ID,
     };
   } catch (error: any) {
     console.error('Error getting company by ID:', error);
@@ -133,6 +139,35 @@ export async function getCompanyById(companyId: string): Promise<Company | null>
   }
 }
 
+/**
+ * Get company names by ID
+ * Unknown IDs are left out of the result
+ */
+export async function getCompanyNamesByIds(companyIds: string[]): Promise<Record<string, string>> {
+  if (companyIds.length === 0) {
+    return {};
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('id, name')
+      .in('id', companyIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).reduce((acc, company) => {
+      acc[company.id] = company.name;
+      return acc;
+    }, {} as Record<string, string>);
+  } catch (error) {
+    console.error('Error getting company names:', error);
+    return {};
+  }
+}
+
 /**
  * Update company
  */
@@ -167,6 +202,7 @@ export async function updateCompany(companyId: string, updates: Partial<Omit<Com
       created_at: data.created_at ?? new Date().toISOString(),
       avatar: data.avatar ?? 'default',
       avatar_color: data.avatar_color ?? 'blue',
+      world_id: data.world_id ?? DEFAULT_WORLD_ID,
     };
   } catch (error: any) {
     throw new Error(`Failed to update company: ${error.message || error}`);
@@ -1,5 +1,6 @@
 import { supabase } from '@/lib/utils/supabase';
-import type { Facility, FacilityInventory, RecipeId, FacilityType, ProductionFacilityType } from '@/lib/types/types';
+import { getErrorMessage } from '@/lib/utils/utils';
+import type { Facility, FacilityInventory, RecipeId, FacilityType, ProductionFacilityType, ProductionBlockedReason, ProductionQueue, ResourceId } from '@/lib/types/types';
 
 /**
  * Generate a facility name in the format: [Company name] [City] [Facilitytype] #X
@@ -63,7 +64,19 @@ export interface DbFacilityRecord {
   available_recipe_ids: RecipeId[];
   active_recipe_id: RecipeId | null;
   progress_ticks: number | null;
+  is_producing?: boolean;
+  is_paused?: boolean;
+  cycle_inputs_consumed?: boolean;
+  cycle_input_quality?: number | null;
+  blocked_reason?: ProductionBlockedReason | null;
+  production_queue?: ProductionQueue | null;
+  construction_ticks_remaining?: number;
+  level?: number;
+  processing_ticks_multiplier?: number;
+  upgrade_target_level?: number | null;
+  upgrade_ticks_remaining?: number;
   worker_count: number;
+  shelf_prices?: Record<ResourceId, number> | null;
   created_at: string;
   updated_at: string;
 }
@@ -84,7 +97,19 @@ function dbRecordToFacility(record: DbFacilityRecord): Facility {
     availableRecipeIds: record.available_recipe_ids,
     activeRecipeId: record.active_recipe_id || undefined,
     progressTicks: record.progress_ticks ?? undefined,
+    isProducing: record.is_producing ?? false,
+    isPaused: record.is_paused ?? false,
+    cycleInputsConsumed: record.cycle_inputs_consumed ?? false,
+    cycleInputQuality: record.cycle_input_quality != null ? Number(record.cycle_input_quality) : null,
+    blockedReason: record.blocked_reason ?? null,
+    productionQueue: record.production_queue ?? { entries: [], loop: false },
+    constructionTicksRemaining: record.construction_ticks_remaining ?? 0,
+    level: record.level ?? 0,
+    processingTicksMultiplier: Number(record.processing_ticks_multiplier ?? 1),
+    upgradeTargetLevel: record.upgrade_target_level ?? null,
+    upgradeTicksRemaining: record.upgrade_ticks_remaining ?? 0,
     workerCount: record.worker_count,
+    shelfPrices: record.shelf_prices ?? {},
   };
 }
 
@@ -103,6 +128,8 @@ function facilityToDbRecord(facility: Omit<Facility, 'id' | 'created_at' | 'upda
     available_recipe_ids: facility.availableRecipeIds,
     active_recipe_id: facility.activeRecipeId || null,
     progress_ticks: facility.progressTicks ?? null,
+    is_producing: facility.isProducing,
+    construction_ticks_remaining: facility.constructionTicksRemaining ?? 0,
     worker_count: facility.workerCount,
   };
 }
@@ -134,6 +161,34 @@ export async function getFacilitiesByCompanyId(companyId: string): Promise<Facil
   }
 }
 
+/**
+ * Get all facilities in a city, of every company in a world
+ */
+export async function getFacilitiesByCityId(cityId: string, worldId: string): Promise<Facility[]> {
+  try {
+    const { data, error } = await supabase
+      .from('facilities')
+      .select('*')
+      .eq('world_id', worldId)
+      .eq('city_id', cityId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw error;
+    }
+
+    if (!data) {
+      return [];
+    }
+
+    return data.map(dbRecordToFacility);
+  } catch (error) {
+    console.error('Error getting city facilities:', error);
+    throw new Error(`Failed to get city facilities: ${getErrorMessage(error)}`);
+  }
+}
+
 /**
  * Get facility by ID
  */
@@ -209,7 +264,19 @@ export async function updateFacility(
     if (updates.availableRecipeIds !== undefined) updateData.available_recipe_ids = updates.availableRecipeIds;
     if (updates.activeRecipeId !== undefined) updateData.active_recipe_id = updates.activeRecipeId || null;
     if (updates.progressTicks !== undefined) updateData.progress_ticks = updates.progressTicks ?? null;
+    if (updates.isProducing !== undefined) updateData.is_producing = updates.isProducing;
+    if (updates.isPaused !== undefined) updateData.is_paused = updates.isPaused;
+    if (updates.cycleInputsConsumed !== undefined) updateData.cycle_inputs_consumed = updates.cycleInputsConsumed;
+    if (updates.cycleInputQuality !== undefined) updateData.cycle_input_quality = updates.cycleInputQuality;
+    if (updates.blockedReason !== undefined) updateData.blocked_reason = updates.blockedReason;
+    if (updates.productionQueue !== undefined) updateData.production_queue = updates.productionQueue;
+    if (updates.constructionTicksRemaining !== undefined) updateData.construction_ticks_remaining = updates.constructionTicksRemaining;
+    if (updates.level !== undefined) updateData.level = updates.level;
+    if (updates.processingTicksMultiplier !== undefined) updateData.processing_ticks_multiplier = updates.processingTicksMultiplier;
+    if (updates.upgradeTargetLevel !== undefined) updateData.upgrade_target_level = updates.upgradeTargetLevel;
+    if (updates.upgradeTicksRemaining !== undefined) updateData.upgrade_ticks_remaining = updates.upgradeTicksRemaining;
     if (updates.workerCount !== undefined) updateData.worker_count = updates.workerCount;
+    if (updates.shelfPrices !== undefined) updateData.shelf_prices = updates.shelfPrices;
 
     const { data, error } = await supabase
       .from('facilities')
@@ -252,3 +319,190 @@ export async function deleteFacility(facilityId: string): Promise<void> {
   }
 }
 
+
+/**
+ * Result of an inventory reservation attempt
+ */
+export interface InventoryReservationResult {
+  success: boolean;
+  error?: string;
+  availableQuantity: number;
+}
+
+/**
+ * Reserve unreserved stock of a resource (e.g. for a market listing)
+ * Runs server-side with a row lock so concurrent reservations cannot oversell
+ */
+export async function reserveFacilityInventory(
+  facilityId: string,
+  resourceId: string,
+  quantity: number
+): Promise<InventoryReservationResult> {
+  try {
+    const { data, error } = await supabase.rpc('reserve_inventory', {
+      p_facility_id: facilityId,
+      p_resource_id: resourceId,
+      p_quantity: quantity,
+    });
+
+    if (error) {
+      throw new Error(`Failed to reserve inventory: ${error.message}`);
+    }
+
+    return (data as InventoryReservationResult) || { success: false, error: 'No data returned', availableQuantity: 0 };
+  } catch (error) {
+    console.error('Reserve inventory error:', error);
+    throw new Error(`Failed to reserve inventory: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Release a previously reserved quantity of a resource
+ */
+export async function releaseFacilityInventory(
+  facilityId: string,
+  resourceId: string,
+  quantity: number
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('release_inventory', {
+      p_facility_id: facilityId,
+      p_resource_id: resourceId,
+      p_quantity: quantity,
+    });
+
+    if (error) {
+      throw new Error(`Failed to release inventory: ${error.message}`);
+    }
+  } catch (error) {
+    console.error('Release inventory error:', error);
+    throw new Error(`Failed to release inventory: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Result returned by the transfer_inventory RPC
+ */
+export interface InventoryTransferResult {
+  success: boolean;
+  error?: string;
+  shippingCost?: number; // Charged for transfers between cities
+  arrivesAtTick?: number | null; // Set when the goods were shipped instead of moved immediately
+}
+
+/**
+ * Move unreserved stock between two facilities of a company
+ * Runs server-side: same-city transfers land immediately, transfers between
+ * cities become shipments and charge shipping (see transfer_inventory RPC)
+ */
+export async function transferFacilityInventory(
+  companyId: string,
+  fromFacilityId: string,
+  toFacilityId: string,
+  resourceId: string,
+  quantity: number,
+  shippingCategory: string
+): Promise<InventoryTransferResult> {
+  try {
+    const { data, error } = await supabase.rpc('transfer_inventory', {
+      p_company_id: companyId,
+      p_from_facility_id: fromFacilityId,
+      p_to_facility_id: toFacilityId,
+      p_resource_id: resourceId,
+      p_quantity: quantity,
+      p_shipping_category: shippingCategory,
+    });
+
+    if (error) {
+      throw new Error(`Failed to transfer inventory: ${error.message}`);
+    }
+
+    return (data as InventoryTransferResult) || { success: false, error: 'No data returned' };
+  } catch (error) {
+    console.error('Transfer inventory error:', error);
+    throw new Error(`Failed to transfer inventory: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Result of the cancel_production RPC
+ */
+export interface ProductionCancelResult {
+  success: boolean;
+  error?: string;
+  refunded?: { resourceId: ResourceId; quantity: number }[];
+  facility?: Facility; // The facility after the cancel
+}
+
+/**
+ * Cancel the running production cycle of a facility server-side
+ * Refunds refundRate of the consumed inputs onto the locked, current inventory
+ * (0 refunds nothing; see cancel_production RPC)
+ */
+export async function cancelFacilityProduction(
+  facilityId: string,
+  refundRate: number
+): Promise<ProductionCancelResult> {
+  try {
+    const { data, error } = await supabase.rpc('cancel_production', {
+      p_facility_id: facilityId,
+      p_refund_rate: refundRate,
+    });
+
+    if (error) {
+      throw new Error(`Failed to cancel production: ${error.message}`);
+    }
+
+    if (!data) {
+      return { success: false, error: 'No data returned' };
+    }
+
+    return {
+      success: data.success,
+      error: data.error,
+      refunded: data.refunded,
+      facility: data.facility ? dbRecordToFacility(data.facility as DbFacilityRecord) : undefined,
+    };
+  } catch (error) {
+    console.error('Cancel production error:', error);
+    throw new Error(`Failed to cancel production: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Result returned by the demolish_facility RPC
+ */
+export interface FacilityDemolitionResult {
+  success: boolean;
+  error?: string;
+  refund?: number; // Part of the build cost paid back
+  shippingCost?: number; // Charged for shipping the inventory to another city
+}
+
+/**
+ * Demolish a facility of a company in one server-side transaction
+ * Cancels its listings, moves the inventory to transferToFacilityId (or destroys
+ * it when null), pays the refund and deletes the facility (see demolish_facility RPC)
+ */
+export async function demolishFacilityDB(
+  companyId: string,
+  facilityId: string,
+  transferToFacilityId: string | null
+): Promise<FacilityDemolitionResult> {
+  try {
+    const { data, error } = await supabase.rpc('demolish_facility', {
+      p_company_id: companyId,
+      p_facility_id: facilityId,
+      p_transfer_to_facility_id: transferToFacilityId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to demolish facility: ${error.message}`);
+    }
+
+    return (data as FacilityDemolitionResult) || { success: false, error: 'No data returned' };
+  } catch (error) {
+    console.error('Demolish facility error:', error);
+    throw new Error(`Failed to demolish facility: ${getErrorMessage(error)}`);
+  }
+}
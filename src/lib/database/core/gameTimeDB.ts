@@ -1,17 +1,19 @@
 import { supabase } from '@/lib/utils/supabase';
 import type { GameTime } from '@/lib/types/types';
-import { GAME_INITIALIZATION } from '@/lib/constants';
-import { getNextHourBoundary } from '@/lib/services/core/gameState';
+import { DEFAULT_WORLD_ID, getWorld, getWorldInitialization } from '@/lib/constants';
+import { getNextTickTime } from '@/lib/services/core/gameTick';
 
 const GAME_TIME_TABLE = 'game_time';
-const GLOBAL_GAME_TIME_ID = 'global';
 
-export async function getGameTimeFromDB(): Promise<GameTime | null> {
+/**
+ * Each world's clock is the game_time row whose id is the world id
+ */
+export async function getGameTimeFromDB(worldId: string = DEFAULT_WORLD_ID): Promise<GameTime | null> {
   try {
     const { data, error } = await supabase
       .from(GAME_TIME_TABLE)
       .select('*')
-      .eq('id', GLOBAL_GAME_TIME_ID)
+      .eq('id', worldId)
       .maybeSingle();
 
     if (error || !data) {
@@ -19,11 +21,12 @@ export async function getGameTimeFromDB(): Promise<GameTime | null> {
       return null;
     }
 
+    const initialization = getWorldInitialization(worldId);
     return {
-      tick: data.tick ?? GAME_INITIALIZATION.STARTING_TICK,
-      day: data.day ?? GAME_INITIALIZATION.STARTING_DAY,
-      month: data.month ?? GAME_INITIALIZATION.STARTING_MONTH,
-      year: data.year ?? GAME_INITIALIZATION.STARTING_YEAR,
+      tick: data.tick ?? initialization.STARTING_TICK,
+      day: data.day ?? initialization.STARTING_DAY,
+      month: data.month ?? initialization.STARTING_MONTH,
+      year: data.year ?? initialization.STARTING_YEAR,
       lastTickTime: data.last_tick_time ?? new Date().toISOString(),
       nextTickTime: data.next_tick_time ?? new Date().toISOString(),
     };
@@ -33,12 +36,12 @@ export async function getGameTimeFromDB(): Promise<GameTime | null> {
   }
 }
 
-export async function saveGameTimeToDB(gameTime: GameTime): Promise<boolean> {
+export async function saveGameTimeToDB(gameTime: GameTime, worldId: string = DEFAULT_WORLD_ID): Promise<boolean> {
   try {
     const { error } = await supabase
       .from(GAME_TIME_TABLE)
       .upsert({
-        id: GLOBAL_GAME_TIME_ID,
+        id: worldId,
         tick: gameTime.tick,
         day: gameTime.day,
         month: gameTime.month,
@@ -59,21 +62,24 @@ export async function saveGameTimeToDB(gameTime: GameTime): Promise<boolean> {
   }
 }
 
-export async function resetGameTimeToInitial(): Promise<boolean> {
+/**
+ * Reset a world's clock to its configured start
+ */
+export async function resetGameTimeToInitial(worldId: string = DEFAULT_WORLD_ID): Promise<boolean> {
   try {
+    const initialization = getWorldInitialization(worldId);
     const resetTime: GameTime = {
-      tick: GAME_INITIALIZATION.STARTING_TICK,
-      day: GAME_INITIALIZATION.STARTING_DAY,
-      month: GAME_INITIALIZATION.STARTING_MONTH,
-      year: GAME_INITIALIZATION.STARTING_YEAR,
+      tick: initialization.STARTING_TICK,
+      day: initialization.STARTING_DAY,
+      month: initialization.STARTING_MONTH,
+      year: initialization.STARTING_YEAR,
       lastTickTime: new Date().toISOString(),
-      nextTickTime: getNextHourBoundary().toISOString(),
+      nextTickTime: getNextTickTime(getWorld(worldId)?.tickIntervalSeconds).toISOString(),
     };
 
-    return await saveGameTimeToDB(resetTime);
+    return await saveGameTimeToDB(resetTime, worldId);
   } catch (error) {
     console.error('Error resetting game time:', error);
     return false;
   }
 }
-
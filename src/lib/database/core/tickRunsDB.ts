@@ -0,0 +1,100 @@
+import { supabase } from '@/lib/utils/supabase';
+
+/**
+ * Tick Run Status
+ */
+export type TickRunStatus = 'running' | 'completed' | 'completed_with_errors' | 'failed';
+
+/**
+ * Database record interface for tick runs
+ */
+export interface DbTickRunRecord {
+  id: string;
+  world_id: string;
+  tick: number;
+  game_day: number;
+  game_month: number;
+  game_year: number;
+  is_manual: boolean;
+  run_status: TickRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  facilities_advanced: number;
+  facilities_completed: number;
+  production_applied_at: string | null;
+  completed_steps: string[] | null;
+  attempts: number;
+  summary: Record<string, number> | null;
+  errors: string[] | null;
+}
+
+/**
+ * Tick run interface (frontend format)
+ * One processed tick of a world, written by the game-tick edge function
+ */
+export interface TickRun {
+  id: string;
+  worldId: string;
+  tick: number; // Tick the run advanced the world to
+  gameDay: number;
+  gameMonth: number;
+  gameYear: number;
+  isManual: boolean;
+  runStatus: TickRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  facilitiesAdvanced: number;
+  facilitiesCompleted: number;
+  completedSteps: string[]; // A failed run resumes after the last of these
+  attempts: number; // 1 + the times the run was resumed
+  summary: Record<string, number>; // Counts of the tick steps, by step
+  errors: string[];
+}
+
+/**
+ * Convert database record to TickRun interface
+ */
+function dbRecordToTickRun(record: DbTickRunRecord): TickRun {
+  return {
+    id: record.id,
+    worldId: record.world_id,
+    tick: record.tick,
+    gameDay: record.game_day,
+    gameMonth: record.game_month,
+    gameYear: record.game_year,
+    isManual: record.is_manual,
+    runStatus: record.run_status,
+    startedAt: record.started_at,
+    finishedAt: record.finished_at,
+    facilitiesAdvanced: record.facilities_advanced,
+    facilitiesCompleted: record.facilities_completed,
+    completedSteps: record.completed_steps ?? [],
+    attempts: record.attempts ?? 1,
+    summary: record.summary ?? {},
+    errors: record.errors ?? [],
+  };
+}
+
+/**
+ * Get the latest tick runs of a world, newest first
+ */
+export async function getTickRunsByWorldId(worldId: string, limit: number = 50): Promise<TickRun[]> {
+  try {
+    const { data, error } = await supabase
+      .from('tick_runs')
+      .select('*')
+      .eq('world_id', worldId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error(`Error fetching tick runs for world ${worldId}:`, error);
+      throw new Error(`Failed to fetch tick runs: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToTickRun);
+  } catch (error) {
+    console.error('Get tick runs by world error:', error);
+    throw error;
+  }
+}
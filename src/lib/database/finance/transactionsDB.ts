@@ -197,6 +197,28 @@ export async function getTransactionsByCategory(
   }
 }
 
+/**
+ * Get the net amount recorded under categories across all companies
+ * (see sum_transactions_by_category RPC)
+ */
+export async function sumTransactionsByCategory(categories: string[]): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('sum_transactions_by_category', {
+      p_categories: categories,
+    });
+
+    if (error) {
+      console.error('Error summing transactions by category:', error);
+      throw new Error(`Failed to sum transactions: ${error.message}`);
+    }
+
+    return Number(data) || 0;
+  } catch (error) {
+    console.error('Sum transactions by category error:', error);
+    throw error;
+  }
+}
+
 /**
  * Get transactions for a specific game date range
  */
@@ -4,6 +4,12 @@ export * from './core/notificationsDB';
 export * from './core/companySettingsDB';
 export * from './core/gameTimeDB';
 export * from './core/facilitiesDB';
+export * from './core/tickRunsDB';
 export * from './market/marketListingsDB';
+export * from './market/marketOrdersDB';
+export * from './market/priceHistoryDB';
+export * from './market/shipmentsDB';
+export * from './market/tradeOffersDB';
+export * from './market/supplyContractsDB';
 export * from './finance/transactionsDB';
 
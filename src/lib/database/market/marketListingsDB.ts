@@ -16,7 +16,11 @@ export interface DbMarketListingRecord {
   resource_id: ResourceId;
   quantity: number;
   price_per_unit: number;
+  quality: number;
   listing_status: ListingStatus;
+  expiry_ticks: number | null;
+  expires_at_tick: number | null;
+  city_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -31,7 +35,11 @@ export interface MarketListing {
   resourceId: ResourceId;
   quantity: number;
   pricePerUnit: number;
+  quality: number; // Current quality of the listed stock (kept in sync by the database)
   listingStatus: ListingStatus;
+  expiryTicks: number | null; // Lifetime in game ticks (null = never expires)
+  expiresAtTick: number | null; // Game tick at which the listing expires
+  cityId: string | null; // Seller facility city (set by the database on insert)
   createdAt: string;
   updatedAt: string;
 }
@@ -47,36 +55,25 @@ function dbRecordToListing(record: DbMarketListingRecord): MarketListing {
     resourceId: record.resource_id,
     quantity: record.quantity,
     pricePerUnit: record.price_per_unit,
+    quality: Number(record.quality ?? 3),
     listingStatus: record.listing_status,
+    expiryTicks: record.expiry_ticks ?? null,
+    expiresAtTick: record.expires_at_tick ?? null,
+    cityId: record.city_id ?? null,
     createdAt: record.created_at,
     updatedAt: record.updated_at,
   };
 }
 
 /**
- * Convert MarketListing to database record format
+ * Get all active listings from a world's marketplace
  */
-function listingToDbRecord(
-  listing: Omit<MarketListing, 'id' | 'createdAt' | 'updatedAt'>
-): Omit<DbMarketListingRecord, 'id' | 'created_at' | 'updated_at'> {
-  return {
-    facility_id: listing.facilityId,
-    company_id: listing.companyId,
-    resource_id: listing.resourceId,
-    quantity: listing.quantity,
-    price_per_unit: listing.pricePerUnit,
-    listing_status: listing.listingStatus,
-  };
-}
-
-/**
- * Get all active listings from the marketplace
- */
-export async function getActiveMarketListings(): Promise<MarketListing[]> {
+export async function getActiveMarketListings(worldId: string): Promise<MarketListing[]> {
   try {
     const { data, error } = await supabase
       .from('market_listings')
       .select('*')
+      .eq('world_id', worldId)
       .eq('listing_status', 'active')
       .order('created_at', { ascending: false });
 
@@ -93,13 +90,14 @@ export async function getActiveMarketListings(): Promise<MarketListing[]> {
 }
 
 /**
- * Get active listings for a specific resource
+ * Get active listings for a specific resource in a world
  */
-export async function getActiveListingsByResource(resourceId: ResourceId): Promise<MarketListing[]> {
+export async function getActiveListingsByResource(resourceId: ResourceId, worldId: string): Promise<MarketListing[]> {
   try {
     const { data, error } = await supabase
       .from('market_listings')
       .select('*')
+      .eq('world_id', worldId)
       .eq('resource_id', resourceId)
       .eq('listing_status', 'active')
       .order('price_per_unit', { ascending: true }); // Cheapest first
@@ -116,6 +114,31 @@ export async function getActiveListingsByResource(resourceId: ResourceId): Promi
   }
 }
 
+/**
+ * Get active listings sold from facilities in a city, in one world
+ */
+export async function getActiveListingsByCity(cityId: string, worldId: string): Promise<MarketListing[]> {
+  try {
+    const { data, error } = await supabase
+      .from('market_listings')
+      .select('*')
+      .eq('world_id', worldId)
+      .eq('city_id', cityId)
+      .eq('listing_status', 'active')
+      .order('price_per_unit', { ascending: true }); // Cheapest first
+
+    if (error) {
+      console.error(`Error fetching listings for city ${cityId}:`, error);
+      throw new Error(`Failed to fetch listings: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToListing);
+  } catch (error) {
+    console.error('Get listings by city error:', error);
+    throw error;
+  }
+}
+
 /**
  * Get all listings for a facility (all statuses)
  */
@@ -189,32 +212,63 @@ export async function getListingById(listingId: string): Promise<MarketListing |
 }
 
 /**
- * Create a new market listing
+ * A listing to create through createFacilityListings
  */
-export async function createMarketListing(
-  listing: Omit<MarketListing, 'id' | 'createdAt' | 'updatedAt'>
-): Promise<MarketListing> {
-  try {
-    const dbRecord = listingToDbRecord(listing);
+export interface NewMarketListing {
+  resourceId: ResourceId;
+  quantity: number;
+  pricePerUnit: number;
+  expiryTicks: number | null;
+  expiresAtTick: number | null;
+}
 
-    const { data, error } = await supabase
-      .from('market_listings')
-      .insert(dbRecord)
-      .select('*')
-      .single();
+/**
+ * Result returned by the create_market_listings RPC
+ */
+export interface ListingCreationResult {
+  success: boolean;
+  error?: string;
+  listingFee?: number; // Charged to the company for all created listings
+  listings?: MarketListing[];
+}
+
+/**
+ * Create listings for a facility atomically on the server
+ * Reserves the stock of every listing and charges the listing fee in one
+ * database transaction; nothing is created when any part fails
+ * (see create_market_listings RPC)
+ */
+export async function createFacilityListings(
+  facilityId: string,
+  companyId: string,
+  listings: NewMarketListing[],
+  feeCategory: string
+): Promise<ListingCreationResult> {
+  try {
+    const { data, error } = await supabase.rpc('create_market_listings', {
+      p_company_id: companyId,
+      p_facility_id: facilityId,
+      p_listings: listings,
+      p_fee_category: feeCategory,
+    });
 
     if (error) {
-      console.error('Supabase create listing error:', error);
-      throw new Error(`Failed to create listing: ${error.message}`);
+      console.error('Supabase create listings error:', error);
+      throw new Error(`Failed to create listings: ${error.message}`);
     }
 
     if (!data) {
-      throw new Error('Failed to create listing: No data returned');
+      return { success: false, error: 'No data returned' };
     }
 
-    return dbRecordToListing(data);
-  } catch (error: any) {
-    console.error('Create market listing error:', error);
+    return {
+      success: data.success,
+      error: data.error,
+      listingFee: data.listingFee,
+      listings: data.listings ? (data.listings as DbMarketListingRecord[]).map(dbRecordToListing) : undefined,
+    };
+  } catch (error) {
+    console.error('Create facility listings error:', error);
     throw error;
   }
 }
@@ -224,7 +278,7 @@ export async function createMarketListing(
  */
 export async function updateMarketListing(
   listingId: string,
-  updates: Partial<Omit<MarketListing, 'id' | 'facilityId' | 'companyId' | 'createdAt' | 'updatedAt'>>
+  updates: Partial<Omit<MarketListing, 'id' | 'facilityId' | 'companyId' | 'cityId' | 'quality' | 'createdAt' | 'updatedAt'>>
 ): Promise<MarketListing> {
   try {
     const dbUpdates: Partial<DbMarketListingRecord> = {};
@@ -233,6 +287,8 @@ export async function updateMarketListing(
     if (updates.pricePerUnit !== undefined) dbUpdates.price_per_unit = updates.pricePerUnit;
     if (updates.listingStatus !== undefined) dbUpdates.listing_status = updates.listingStatus;
     if (updates.resourceId !== undefined) dbUpdates.resource_id = updates.resourceId;
+    if (updates.expiryTicks !== undefined) dbUpdates.expiry_ticks = updates.expiryTicks;
+    if (updates.expiresAtTick !== undefined) dbUpdates.expires_at_tick = updates.expiresAtTick;
 
     const { data, error } = await supabase
       .from('market_listings')
@@ -259,9 +315,28 @@ export async function updateMarketListing(
 
 /**
  * Cancel a market listing (set status to 'cancelled')
+ * Releases the listing's inventory reservation in the same database transaction
  */
 export async function cancelMarketListing(listingId: string): Promise<MarketListing> {
-  return updateMarketListing(listingId, { listingStatus: 'cancelled' });
+  try {
+    const { data, error } = await supabase.rpc('cancel_market_listing', {
+      p_listing_id: listingId,
+    });
+
+    if (error) {
+      console.error('Supabase cancel listing error:', error);
+      throw new Error(`Failed to cancel listing: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to cancel listing: No data returned');
+    }
+
+    return dbRecordToListing(data as DbMarketListingRecord);
+  } catch (error) {
+    console.error('Cancel market listing error:', error);
+    throw error;
+  }
 }
 
 /**
@@ -292,57 +367,105 @@ export async function deleteMarketListing(listingId: string): Promise<void> {
 }
 
 /**
- * Batch create multiple listings for a facility
- * Useful when a facility wants to list multiple resources at once
+ * Cancel all active listings for a facility
+ * Releases all of their inventory reservations in the same database transaction
  */
-export async function batchCreateListings(
-  listings: Array<Omit<MarketListing, 'id' | 'createdAt' | 'updatedAt'>>
-): Promise<MarketListing[]> {
+export async function cancelAllFacilityListings(facilityId: string): Promise<number> {
   try {
-    const dbRecords = listings.map(listingToDbRecord);
-
-    const { data, error } = await supabase
-      .from('market_listings')
-      .insert(dbRecords)
-      .select('*');
+    const { data, error } = await supabase.rpc('cancel_facility_listings', {
+      p_facility_id: facilityId,
+    });
 
     if (error) {
-      console.error('Supabase batch create listings error:', error);
-      throw new Error(`Failed to create listings: ${error.message}`);
-    }
-
-    if (!data) {
-      throw new Error('Failed to create listings: No data returned');
+      console.error('Supabase cancel facility listings error:', error);
+      throw new Error(`Failed to cancel listings: ${error.message}`);
     }
 
-    return data.map(dbRecordToListing);
+    return (data as number) || 0;
   } catch (error: any) {
-    console.error('Batch create listings error:', error);
+    console.error('Cancel all facility listings error:', error);
     throw error;
   }
 }
 
 /**
- * Cancel all active listings for a facility
+ * Result returned by the purchase_from_listing RPC
  */
-export async function cancelAllFacilityListings(facilityId: string): Promise<number> {
+export interface ListingPurchaseResult {
+  success: boolean;
+  error?: string;
+  totalPrice?: number;
+  remainingQuantity?: number;
+  salesFee?: number; // Charged to the seller
+  shippingCost?: number; // Charged to the buyer for trades between cities
+  arrivesAtTick?: number | null; // Set when the goods were shipped instead of delivered
+}
+
+/**
+ * Execute a listing purchase atomically on the server
+ * Inventory transfer, payment, listing update and transaction records
+ * all happen inside one database transaction (see purchase_from_listing RPC)
+ */
+export async function executeListingPurchase(
+  listingId: string,
+  buyerFacilityId: string,
+  quantity: number,
+  categories: { purchase: string; sale: string; fee: string; shipping: string }
+): Promise<ListingPurchaseResult> {
   try {
-    const { data, error } = await supabase
-      .from('market_listings')
-      .update({ listing_status: 'cancelled' })
-      .eq('facility_id', facilityId)
-      .eq('listing_status', 'active')
-      .select('id');
+    const { data, error } = await supabase.rpc('purchase_from_listing', {
+      p_listing_id: listingId,
+      p_buyer_facility_id: buyerFacilityId,
+      p_quantity: quantity,
+      p_purchase_category: categories.purchase,
+      p_sale_category: categories.sale,
+      p_fee_category: categories.fee,
+      p_shipping_category: categories.shipping,
+    });
 
     if (error) {
-      console.error('Supabase cancel facility listings error:', error);
-      throw new Error(`Failed to cancel listings: ${error.message}`);
+      console.error('Supabase purchase listing error:', error);
+      throw new Error(`Failed to purchase listing: ${error.message}`);
     }
 
-    return data?.length || 0;
-  } catch (error: any) {
-    console.error('Cancel all facility listings error:', error);
+    return (data as ListingPurchaseResult) || { success: false, error: 'No data returned' };
+  } catch (error) {
+    console.error('Execute listing purchase error:', error);
     throw error;
   }
 }
 
+/**
+ * Result returned by the renew_market_listing RPC
+ */
+export interface ListingRenewalResult {
+  success: boolean;
+  error?: string;
+  expiresAtTick?: number;
+}
+
+/**
+ * Renew an active or expired listing for another expiryTicks
+ * (defaults to the listing's own lifetime). Expired listings re-reserve their stock.
+ */
+export async function renewMarketListing(
+  listingId: string,
+  expiryTicks?: number
+): Promise<ListingRenewalResult> {
+  try {
+    const { data, error } = await supabase.rpc('renew_market_listing', {
+      p_listing_id: listingId,
+      p_expiry_ticks: expiryTicks ?? null,
+    });
+
+    if (error) {
+      console.error('Supabase renew listing error:', error);
+      throw new Error(`Failed to renew listing: ${error.message}`);
+    }
+
+    return (data as ListingRenewalResult) || { success: false, error: 'No data returned' };
+  } catch (error) {
+    console.error('Renew market listing error:', error);
+    throw error;
+  }
+}
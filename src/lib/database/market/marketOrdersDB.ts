@@ -0,0 +1,231 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { ResourceId } from '@/lib/types/types';
+
+/**
+ * Market Order Status
+ */
+export type OrderStatus = 'open' | 'filled' | 'cancelled';
+
+/**
+ * Database record interface for market buy orders
+ */
+export interface DbMarketOrderRecord {
+  id: string;
+  company_id: string;
+  facility_id: string;
+  resource_id: ResourceId;
+  quantity: number;
+  filled_quantity: number;
+  max_price_per_unit: number;
+  order_status: OrderStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Market Order interface (frontend format)
+ * quantity is the remaining (unfilled) quantity of the order
+ */
+export interface MarketOrder {
+  id: string;
+  companyId: string;
+  facilityId: string;
+  resourceId: ResourceId;
+  quantity: number;
+  filledQuantity: number;
+  maxPricePerUnit: number;
+  orderStatus: OrderStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Convert database record to MarketOrder interface
+ */
+function dbRecordToOrder(record: DbMarketOrderRecord): MarketOrder {
+  return {
+    id: record.id,
+    companyId: record.company_id,
+    facilityId: record.facility_id,
+    resourceId: record.resource_id,
+    quantity: record.quantity,
+    filledQuantity: record.filled_quantity,
+    maxPricePerUnit: record.max_price_per_unit,
+    orderStatus: record.order_status,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+/**
+ * Get open buy orders for a specific resource in a world
+ * Sorted by price-time priority (highest bid first, oldest first within a price)
+ */
+export async function getOpenOrdersByResource(resourceId: ResourceId, worldId: string): Promise<MarketOrder[]> {
+  try {
+    const { data, error } = await supabase
+      .from('market_orders')
+      .select('*')
+      .eq('world_id', worldId)
+      .eq('resource_id', resourceId)
+      .eq('order_status', 'open')
+      .order('max_price_per_unit', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching orders for resource ${resourceId}:`, error);
+      throw new Error(`Failed to fetch orders: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToOrder);
+  } catch (error) {
+    console.error('Get orders by resource error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all orders for a company (all statuses)
+ */
+export async function getOrdersByCompanyId(companyId: string): Promise<MarketOrder[]> {
+  try {
+    const { data, error } = await supabase
+      .from('market_orders')
+      .select('*')
+      .eq('company_id', companyId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error(`Error fetching orders for company ${companyId}:`, error);
+      throw new Error(`Failed to fetch company orders: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToOrder);
+  } catch (error) {
+    console.error('Get orders by company error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Result returned by the place_market_order RPC
+ */
+export interface OrderPlacementResult {
+  success: boolean;
+  error?: string;
+  order?: MarketOrder;
+  filledQuantity: number;
+  totalCost: number;
+}
+
+/**
+ * Insert a buy order and match it against active listings atomically on the server
+ * (see place_market_order RPC)
+ */
+export async function placeMarketOrder(
+  order: {
+    companyId: string;
+    facilityId: string;
+    resourceId: ResourceId;
+    quantity: number;
+    maxPricePerUnit: number;
+  },
+  categories: { purchase: string; sale: string; fee: string; shipping: string }
+): Promise<OrderPlacementResult> {
+  try {
+    const { data, error } = await supabase.rpc('place_market_order', {
+      p_company_id: order.companyId,
+      p_facility_id: order.facilityId,
+      p_resource_id: order.resourceId,
+      p_quantity: order.quantity,
+      p_max_price_per_unit: order.maxPricePerUnit,
+      p_purchase_category: categories.purchase,
+      p_sale_category: categories.sale,
+      p_fee_category: categories.fee,
+      p_shipping_category: categories.shipping,
+    });
+
+    if (error) {
+      console.error('Supabase place order error:', error);
+      throw new Error(`Failed to place order: ${error.message}`);
+    }
+
+    if (!data) {
+      return { success: false, error: 'No data returned', filledQuantity: 0, totalCost: 0 };
+    }
+
+    return {
+      success: data.success,
+      error: data.error,
+      order: data.order ? dbRecordToOrder(data.order) : undefined,
+      filledQuantity: data.filledQuantity ?? 0,
+      totalCost: data.totalCost ?? 0,
+    };
+  } catch (error) {
+    console.error('Place market order error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Result returned by the match_listing_orders RPC
+ */
+export interface ListingMatchResult {
+  success: boolean;
+  filledQuantity: number;
+  totalPrice: number;
+  ordersFilled: number;
+}
+
+/**
+ * Fill open buy orders from a newly created listing (see match_listing_orders RPC)
+ */
+export async function matchListingOrders(
+  listingId: string,
+  categories: { purchase: string; sale: string; fee: string; shipping: string }
+): Promise<ListingMatchResult> {
+  try {
+    const { data, error } = await supabase.rpc('match_listing_orders', {
+      p_listing_id: listingId,
+      p_purchase_category: categories.purchase,
+      p_sale_category: categories.sale,
+      p_fee_category: categories.fee,
+      p_shipping_category: categories.shipping,
+    });
+
+    if (error) {
+      console.error('Supabase match listing orders error:', error);
+      throw new Error(`Failed to match listing: ${error.message}`);
+    }
+
+    return (data as ListingMatchResult) || { success: false, filledQuantity: 0, totalPrice: 0, ordersFilled: 0 };
+  } catch (error) {
+    console.error('Match listing orders error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel an open buy order
+ */
+export async function cancelMarketOrder(orderId: string): Promise<MarketOrder> {
+  try {
+    const { data, error } = await supabase.rpc('cancel_market_order', {
+      p_order_id: orderId,
+    });
+
+    if (error) {
+      console.error('Supabase cancel order error:', error);
+      throw new Error(`Failed to cancel order: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to cancel order: No data returned');
+    }
+
+    return dbRecordToOrder(data as DbMarketOrderRecord);
+  } catch (error) {
+    console.error('Cancel market order error:', error);
+    throw error;
+  }
+}
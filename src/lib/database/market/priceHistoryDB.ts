@@ -0,0 +1,99 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { ResourceId } from '@/lib/types/types';
+
+/**
+ * Kind of listing event stored in the price history
+ */
+export type PriceEventType = 'price_change' | 'sale' | 'cancellation';
+
+/**
+ * Database record interface for market price events
+ */
+export interface DbPriceEventRecord {
+  id: string;
+  listing_id: string | null;
+  resource_id: ResourceId;
+  event_type: PriceEventType;
+  quantity: number;
+  price_per_unit: number;
+  game_tick: number;
+  game_day: number;
+  game_month: number;
+  game_year: number;
+  created_at: string;
+}
+
+/**
+ * Price Event interface (frontend format)
+ */
+export interface PriceEvent {
+  id: string;
+  listingId: string | null;
+  resourceId: ResourceId;
+  eventType: PriceEventType;
+  quantity: number;
+  pricePerUnit: number;
+  gameTick: number;
+  gameDay: number;
+  gameMonth: number;
+  gameYear: number;
+  createdAt: string;
+}
+
+/**
+ * Convert database record to PriceEvent interface
+ */
+function dbRecordToPriceEvent(record: DbPriceEventRecord): PriceEvent {
+  return {
+    id: record.id,
+    listingId: record.listing_id,
+    resourceId: record.resource_id,
+    eventType: record.event_type,
+    quantity: record.quantity,
+    pricePerUnit: record.price_per_unit,
+    gameTick: record.game_tick,
+    gameDay: record.game_day,
+    gameMonth: record.game_month,
+    gameYear: record.game_year,
+    createdAt: record.created_at,
+  };
+}
+
+/**
+ * Get the newest price events for a resource in a world, returned oldest first
+ * Optionally limited to events at or after a game tick. The newest `limit`
+ * events are fetched, so busy resources lose their oldest events, never the latest.
+ */
+export async function getPriceEventsByResource(
+  resourceId: ResourceId,
+  worldId: string,
+  sinceTick?: number,
+  limit: number = 1000
+): Promise<PriceEvent[]> {
+  try {
+    let query = supabase
+      .from('market_price_events')
+      .select('*')
+      .eq('world_id', worldId)
+      .eq('resource_id', resourceId);
+
+    if (sinceTick !== undefined) {
+      query = query.gte('game_tick', sinceTick);
+    }
+
+    const { data, error } = await query
+      .order('game_tick', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error(`Error fetching price history for resource ${resourceId}:`, error);
+      throw new Error(`Failed to fetch price history: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToPriceEvent).reverse();
+  } catch (error) {
+    console.error('Get price events by resource error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,111 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { ResourceId } from '@/lib/types/types';
+
+/**
+ * Shipment Status
+ */
+export type ShipmentStatus = 'in_transit' | 'delivered';
+
+/**
+ * Database record interface for shipments
+ */
+export interface DbShipmentRecord {
+  id: string;
+  company_id: string;
+  listing_id: string | null;
+  from_facility_id: string | null;
+  to_facility_id: string;
+  from_city_id: string;
+  to_city_id: string;
+  resource_id: ResourceId;
+  quantity: number;
+  quality: number;
+  shipping_cost: number;
+  dispatched_tick: number;
+  arrives_at_tick: number;
+  shipment_status: ShipmentStatus;
+  delivered_tick: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Shipment interface (frontend format)
+ * Goods bought from another city, travelling to the buyer facility
+ */
+export interface Shipment {
+  id: string;
+  companyId: string; // Receiving company
+  listingId: string | null;
+  fromFacilityId: string | null;
+  toFacilityId: string;
+  fromCityId: string;
+  toCityId: string;
+  resourceId: ResourceId;
+  quantity: number;
+  quality: number; // Quality of the goods, added to the receiving stock on delivery
+  shippingCost: number;
+  dispatchedTick: number;
+  arrivesAtTick: number;
+  shipmentStatus: ShipmentStatus;
+  deliveredTick: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Convert database record to Shipment interface
+ */
+function dbRecordToShipment(record: DbShipmentRecord): Shipment {
+  return {
+    id: record.id,
+    companyId: record.company_id,
+    listingId: record.listing_id,
+    fromFacilityId: record.from_facility_id,
+    toFacilityId: record.to_facility_id,
+    fromCityId: record.from_city_id,
+    toCityId: record.to_city_id,
+    resourceId: record.resource_id,
+    quantity: record.quantity,
+    quality: Number(record.quality ?? 3),
+    shippingCost: record.shipping_cost,
+    dispatchedTick: record.dispatched_tick,
+    arrivesAtTick: record.arrives_at_tick,
+    shipmentStatus: record.shipment_status,
+    deliveredTick: record.delivered_tick,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+/**
+ * Get shipments for a company, soonest arrival first
+ * Optionally filtered by status
+ */
+export async function getShipmentsByCompanyId(
+  companyId: string,
+  status?: ShipmentStatus
+): Promise<Shipment[]> {
+  try {
+    let query = supabase
+      .from('shipments')
+      .select('*')
+      .eq('company_id', companyId);
+
+    if (status) {
+      query = query.eq('shipment_status', status);
+    }
+
+    const { data, error } = await query.order('arrives_at_tick', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching shipments for company ${companyId}:`, error);
+      throw new Error(`Failed to fetch shipments: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToShipment);
+  } catch (error) {
+    console.error('Get shipments by company error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,349 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { ResourceId } from '@/lib/types/types';
+
+/**
+ * Supply Contract Status
+ */
+export type ContractStatus = 'proposed' | 'active' | 'fulfilled' | 'breached' | 'rejected' | 'cancelled';
+
+/**
+ * Side of a contract from the proposing company's point of view
+ */
+export type ContractSide = 'supply' | 'buy';
+
+/**
+ * Outcome of one scheduled contract delivery
+ * Everything but 'delivered' is a shortfall that costs the party at fault a penalty
+ */
+export type ContractDeliveryOutcome = 'delivered' | 'supplier_short' | 'buyer_unpaid' | 'buyer_no_capacity';
+
+/**
+ * Database record interface for supply contracts
+ */
+export interface DbSupplyContractRecord {
+  id: string;
+  supplier_company_id: string;
+  buyer_company_id: string;
+  supplier_company_name: string;
+  buyer_company_name: string;
+  proposed_by_company_id: string;
+  supplier_facility_id: string | null;
+  buyer_facility_id: string | null;
+  resource_id: ResourceId;
+  quantity_per_delivery: number;
+  price_per_unit: number;
+  interval_ticks: number;
+  total_deliveries: number;
+  deliveries_completed: number;
+  deliveries_missed: number;
+  max_missed_deliveries: number;
+  penalty_rate: number;
+  next_delivery_tick: number | null;
+  contract_status: ContractStatus;
+  breached_by_company_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Supply Contract interface (frontend format)
+ * Recurring deliveries from a supplier facility to a buyer facility
+ */
+export interface SupplyContract {
+  id: string;
+  supplierCompanyId: string;
+  buyerCompanyId: string;
+  supplierCompanyName: string;
+  buyerCompanyName: string;
+  proposedByCompanyId: string;
+  supplierFacilityId: string | null; // Set by the supplier when proposing or accepting
+  buyerFacilityId: string | null; // Set by the buyer when proposing or accepting
+  resourceId: ResourceId;
+  quantityPerDelivery: number;
+  pricePerUnit: number;
+  intervalTicks: number; // Ticks between deliveries
+  totalDeliveries: number;
+  deliveriesCompleted: number;
+  deliveriesMissed: number; // Shortfalls so far
+  maxMissedDeliveries: number; // Shortfalls that breach the contract
+  penaltyRate: number; // Fraction of the delivery value paid per shortfall
+  nextDeliveryTick: number | null; // null until accepted
+  contractStatus: ContractStatus;
+  breachedByCompanyId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Database record interface for contract deliveries
+ */
+export interface DbContractDeliveryRecord {
+  id: string;
+  contract_id: string;
+  delivery_number: number;
+  game_tick: number;
+  quantity: number;
+  amount: number;
+  outcome: ContractDeliveryOutcome;
+  penalty: number;
+  penalty_paid_by_company_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Contract Delivery interface (frontend format)
+ */
+export interface ContractDelivery {
+  id: string;
+  contractId: string;
+  deliveryNumber: number;
+  gameTick: number;
+  quantity: number;
+  amount: number; // Paid by the buyer (0 for shortfalls)
+  outcome: ContractDeliveryOutcome;
+  penalty: number;
+  penaltyPaidByCompanyId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Convert database record to SupplyContract interface
+ */
+function dbRecordToContract(record: DbSupplyContractRecord): SupplyContract {
+  return {
+    id: record.id,
+    supplierCompanyId: record.supplier_company_id,
+    buyerCompanyId: record.buyer_company_id,
+    supplierCompanyName: record.supplier_company_name,
+    buyerCompanyName: record.buyer_company_name,
+    proposedByCompanyId: record.proposed_by_company_id,
+    supplierFacilityId: record.supplier_facility_id,
+    buyerFacilityId: record.buyer_facility_id,
+    resourceId: record.resource_id,
+    quantityPerDelivery: record.quantity_per_delivery,
+    pricePerUnit: record.price_per_unit,
+    intervalTicks: record.interval_ticks,
+    totalDeliveries: record.total_deliveries,
+    deliveriesCompleted: record.deliveries_completed,
+    deliveriesMissed: record.deliveries_missed,
+    maxMissedDeliveries: record.max_missed_deliveries,
+    penaltyRate: record.penalty_rate,
+    nextDeliveryTick: record.next_delivery_tick,
+    contractStatus: record.contract_status,
+    breachedByCompanyId: record.breached_by_company_id,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+/**
+ * Convert database record to ContractDelivery interface
+ */
+function dbRecordToDelivery(record: DbContractDeliveryRecord): ContractDelivery {
+  return {
+    id: record.id,
+    contractId: record.contract_id,
+    deliveryNumber: record.delivery_number,
+    gameTick: record.game_tick,
+    quantity: record.quantity,
+    amount: record.amount,
+    outcome: record.outcome,
+    penalty: record.penalty,
+    penaltyPaidByCompanyId: record.penalty_paid_by_company_id,
+    createdAt: record.created_at,
+  };
+}
+
+/**
+ * Get supply contracts where the company is supplier or buyer, newest first
+ */
+export async function getSupplyContractsByCompanyId(companyId: string): Promise<SupplyContract[]> {
+  try {
+    const { data, error } = await supabase
+      .from('supply_contracts')
+      .select('*')
+      .or(`supplier_company_id.eq.${companyId},buyer_company_id.eq.${companyId}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error(`Error fetching supply contracts for company ${companyId}:`, error);
+      throw new Error(`Failed to fetch contracts: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToContract);
+  } catch (error) {
+    console.error('Get supply contracts by company error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the delivery history of a contract, first delivery first
+ */
+export async function getContractDeliveries(contractId: string): Promise<ContractDelivery[]> {
+  try {
+    const { data, error } = await supabase
+      .from('supply_contract_deliveries')
+      .select('*')
+      .eq('contract_id', contractId)
+      .order('delivery_number', { ascending: true });
+
+    if (error) {
+      console.error(`Error fetching deliveries for contract ${contractId}:`, error);
+      throw new Error(`Failed to fetch deliveries: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToDelivery);
+  } catch (error) {
+    console.error('Get contract deliveries error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Result returned by the create_supply_contract and accept_supply_contract RPCs
+ */
+export interface SupplyContractResult {
+  success: boolean;
+  error?: string;
+  contract?: SupplyContract;
+}
+
+/**
+ * Convert a create/accept RPC response to SupplyContractResult
+ */
+function toContractResult(
+  data: { success: boolean; error?: string; contract?: DbSupplyContractRecord } | null
+): SupplyContractResult {
+  if (!data) {
+    return { success: false, error: 'No data returned' };
+  }
+
+  return {
+    success: data.success,
+    error: data.error,
+    contract: data.contract ? dbRecordToContract(data.contract) : undefined,
+  };
+}
+
+/**
+ * Propose a supply contract to another company (see create_supply_contract RPC)
+ */
+export async function createSupplyContract(contract: {
+  companyId: string;
+  counterpartyCompanyId: string;
+  side: ContractSide;
+  facilityId: string;
+  resourceId: ResourceId;
+  quantityPerDelivery: number;
+  pricePerUnit: number;
+  intervalTicks: number;
+  totalDeliveries: number;
+  penaltyRate: number;
+  maxMissedDeliveries: number;
+}): Promise<SupplyContractResult> {
+  try {
+    const { data, error } = await supabase.rpc('create_supply_contract', {
+      p_company_id: contract.companyId,
+      p_counterparty_company_id: contract.counterpartyCompanyId,
+      p_side: contract.side,
+      p_facility_id: contract.facilityId,
+      p_resource_id: contract.resourceId,
+      p_quantity_per_delivery: contract.quantityPerDelivery,
+      p_price_per_unit: contract.pricePerUnit,
+      p_interval_ticks: contract.intervalTicks,
+      p_total_deliveries: contract.totalDeliveries,
+      p_penalty_rate: contract.penaltyRate,
+      p_max_missed_deliveries: contract.maxMissedDeliveries,
+    });
+
+    if (error) {
+      console.error('Supabase create supply contract error:', error);
+      throw new Error(`Failed to create contract: ${error.message}`);
+    }
+
+    return toContractResult(data);
+  } catch (error) {
+    console.error('Create supply contract error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accept a proposed contract with one of the accepting company's facilities
+ */
+export async function acceptSupplyContract(
+  contractId: string,
+  companyId: string,
+  facilityId: string
+): Promise<SupplyContractResult> {
+  try {
+    const { data, error } = await supabase.rpc('accept_supply_contract', {
+      p_contract_id: contractId,
+      p_company_id: companyId,
+      p_facility_id: facilityId,
+    });
+
+    if (error) {
+      console.error('Supabase accept supply contract error:', error);
+      throw new Error(`Failed to accept contract: ${error.message}`);
+    }
+
+    return toContractResult(data);
+  } catch (error) {
+    console.error('Accept supply contract error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reject a proposed contract addressed to the company
+ */
+export async function rejectSupplyContract(contractId: string, companyId: string): Promise<SupplyContract> {
+  try {
+    const { data, error } = await supabase.rpc('reject_supply_contract', {
+      p_contract_id: contractId,
+      p_company_id: companyId,
+    });
+
+    if (error) {
+      console.error('Supabase reject supply contract error:', error);
+      throw new Error(`Failed to reject contract: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to reject contract: No data returned');
+    }
+
+    return dbRecordToContract(data as DbSupplyContractRecord);
+  } catch (error) {
+    console.error('Reject supply contract error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a proposed contract before it is accepted
+ */
+export async function cancelSupplyContract(contractId: string, companyId: string): Promise<SupplyContract> {
+  try {
+    const { data, error } = await supabase.rpc('cancel_supply_contract', {
+      p_contract_id: contractId,
+      p_company_id: companyId,
+    });
+
+    if (error) {
+      console.error('Supabase cancel supply contract error:', error);
+      throw new Error(`Failed to cancel contract: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to cancel contract: No data returned');
+    }
+
+    return dbRecordToContract(data as DbSupplyContractRecord);
+  } catch (error) {
+    console.error('Cancel supply contract error:', error);
+    throw error;
+  }
+}
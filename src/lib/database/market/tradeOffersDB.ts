@@ -0,0 +1,311 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { ResourceId } from '@/lib/types/types';
+import type { ListingPurchaseResult } from './marketListingsDB';
+
+/**
+ * Trade Offer Status
+ * 'countered' offers are replaced by a new pending offer (parentOfferId)
+ */
+export type TradeOfferStatus = 'pending' | 'accepted' | 'rejected' | 'countered' | 'cancelled' | 'expired';
+
+/**
+ * Side of a trade from the proposing company's point of view
+ */
+export type TradeOfferSide = 'sell' | 'buy';
+
+/**
+ * Database record interface for trade offers
+ */
+export interface DbTradeOfferRecord {
+  id: string;
+  seller_company_id: string;
+  buyer_company_id: string;
+  seller_company_name: string;
+  buyer_company_name: string;
+  proposed_by_company_id: string;
+  seller_facility_id: string | null;
+  buyer_facility_id: string | null;
+  resource_id: ResourceId;
+  quantity: number;
+  price_per_unit: number;
+  expiry_ticks: number;
+  expires_at_tick: number;
+  parent_offer_id: string | null;
+  offer_status: TradeOfferStatus;
+  settled_tick: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Trade Offer interface (frontend format)
+ * A private trade proposed by one company to another
+ */
+export interface TradeOffer {
+  id: string;
+  sellerCompanyId: string;
+  buyerCompanyId: string;
+  sellerCompanyName: string;
+  buyerCompanyName: string;
+  proposedByCompanyId: string;
+  sellerFacilityId: string | null; // Set by the seller when proposing, countering or accepting
+  buyerFacilityId: string | null; // Set by the buyer when proposing, countering or accepting
+  resourceId: ResourceId;
+  quantity: number;
+  pricePerUnit: number;
+  expiryTicks: number;
+  expiresAtTick: number;
+  parentOfferId: string | null; // Offer this one counters
+  offerStatus: TradeOfferStatus;
+  settledTick: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Convert database record to TradeOffer interface
+ */
+function dbRecordToTradeOffer(record: DbTradeOfferRecord): TradeOffer {
+  return {
+    id: record.id,
+    sellerCompanyId: record.seller_company_id,
+    buyerCompanyId: record.buyer_company_id,
+    sellerCompanyName: record.seller_company_name,
+    buyerCompanyName: record.buyer_company_name,
+    proposedByCompanyId: record.proposed_by_company_id,
+    sellerFacilityId: record.seller_facility_id,
+    buyerFacilityId: record.buyer_facility_id,
+    resourceId: record.resource_id,
+    quantity: record.quantity,
+    pricePerUnit: record.price_per_unit,
+    expiryTicks: record.expiry_ticks,
+    expiresAtTick: record.expires_at_tick,
+    parentOfferId: record.parent_offer_id,
+    offerStatus: record.offer_status,
+    settledTick: record.settled_tick,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+/**
+ * Get trade offers where the company is buyer or seller, newest first
+ * Optionally filtered by status
+ */
+export async function getTradeOffersByCompanyId(
+  companyId: string,
+  status?: TradeOfferStatus
+): Promise<TradeOffer[]> {
+  try {
+    let query = supabase
+      .from('trade_offers')
+      .select('*')
+      .or(`seller_company_id.eq.${companyId},buyer_company_id.eq.${companyId}`);
+
+    if (status) {
+      query = query.eq('offer_status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      console.error(`Error fetching trade offers for company ${companyId}:`, error);
+      throw new Error(`Failed to fetch trade offers: ${error.message}`);
+    }
+
+    return (data || []).map(dbRecordToTradeOffer);
+  } catch (error) {
+    console.error('Get trade offers by company error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Result returned by the create_trade_offer and counter_trade_offer RPCs
+ */
+export interface TradeOfferResult {
+  success: boolean;
+  error?: string;
+  offer?: TradeOffer;
+  expiresAtTick?: number;
+}
+
+/**
+ * Convert a create/counter RPC response to TradeOfferResult
+ */
+function toTradeOfferResult(
+  data: { success: boolean; error?: string; offer?: DbTradeOfferRecord; expiresAtTick?: number } | null
+): TradeOfferResult {
+  if (!data) {
+    return { success: false, error: 'No data returned' };
+  }
+
+  return {
+    success: data.success,
+    error: data.error,
+    offer: data.offer ? dbRecordToTradeOffer(data.offer) : undefined,
+    expiresAtTick: data.expiresAtTick,
+  };
+}
+
+/**
+ * Propose a trade to another company (see create_trade_offer RPC)
+ */
+export async function createTradeOffer(offer: {
+  companyId: string;
+  counterpartyCompanyId: string;
+  side: TradeOfferSide;
+  facilityId: string;
+  resourceId: ResourceId;
+  quantity: number;
+  pricePerUnit: number;
+  expiryTicks: number;
+}): Promise<TradeOfferResult> {
+  try {
+    const { data, error } = await supabase.rpc('create_trade_offer', {
+      p_company_id: offer.companyId,
+      p_counterparty_company_id: offer.counterpartyCompanyId,
+      p_side: offer.side,
+      p_facility_id: offer.facilityId,
+      p_resource_id: offer.resourceId,
+      p_quantity: offer.quantity,
+      p_price_per_unit: offer.pricePerUnit,
+      p_expiry_ticks: offer.expiryTicks,
+    });
+
+    if (error) {
+      console.error('Supabase create trade offer error:', error);
+      throw new Error(`Failed to create trade offer: ${error.message}`);
+    }
+
+    return toTradeOfferResult(data);
+  } catch (error) {
+    console.error('Create trade offer error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Counter a pending offer with a new quantity and price
+ * The original offer becomes 'countered' and a new pending offer is returned
+ */
+export async function counterTradeOffer(
+  offerId: string,
+  companyId: string,
+  counter: { quantity: number; pricePerUnit: number; facilityId?: string; expiryTicks?: number }
+): Promise<TradeOfferResult> {
+  try {
+    const { data, error } = await supabase.rpc('counter_trade_offer', {
+      p_offer_id: offerId,
+      p_company_id: companyId,
+      p_quantity: counter.quantity,
+      p_price_per_unit: counter.pricePerUnit,
+      p_facility_id: counter.facilityId ?? null,
+      p_expiry_ticks: counter.expiryTicks ?? null,
+    });
+
+    if (error) {
+      console.error('Supabase counter trade offer error:', error);
+      throw new Error(`Failed to counter trade offer: ${error.message}`);
+    }
+
+    return toTradeOfferResult(data);
+  } catch (error) {
+    console.error('Counter trade offer error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Result returned by the accept_trade_offer RPC
+ * Same settlement fields as a listing purchase
+ */
+export interface TradeAcceptResult extends Omit<ListingPurchaseResult, 'remainingQuantity'> {
+  offerId?: string;
+}
+
+/**
+ * Accept a pending offer and settle it atomically on the server
+ * Inventory (or shipment), payment, sales fee and transaction records
+ * all happen inside one database transaction (see accept_trade_offer RPC)
+ */
+export async function acceptTradeOffer(
+  offerId: string,
+  companyId: string,
+  facilityId: string | null,
+  categories: { purchase: string; sale: string; fee: string; shipping: string }
+): Promise<TradeAcceptResult> {
+  try {
+    const { data, error } = await supabase.rpc('accept_trade_offer', {
+      p_offer_id: offerId,
+      p_company_id: companyId,
+      p_facility_id: facilityId,
+      p_purchase_category: categories.purchase,
+      p_sale_category: categories.sale,
+      p_fee_category: categories.fee,
+      p_shipping_category: categories.shipping,
+    });
+
+    if (error) {
+      console.error('Supabase accept trade offer error:', error);
+      throw new Error(`Failed to accept trade offer: ${error.message}`);
+    }
+
+    return (data as TradeAcceptResult) || { success: false, error: 'No data returned' };
+  } catch (error) {
+    console.error('Accept trade offer error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reject a pending offer addressed to the company
+ */
+export async function rejectTradeOffer(offerId: string, companyId: string): Promise<TradeOffer> {
+  try {
+    const { data, error } = await supabase.rpc('reject_trade_offer', {
+      p_offer_id: offerId,
+      p_company_id: companyId,
+    });
+
+    if (error) {
+      console.error('Supabase reject trade offer error:', error);
+      throw new Error(`Failed to reject trade offer: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to reject trade offer: No data returned');
+    }
+
+    return dbRecordToTradeOffer(data as DbTradeOfferRecord);
+  } catch (error) {
+    console.error('Reject trade offer error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a pending offer proposed by the company
+ */
+export async function cancelTradeOffer(offerId: string, companyId: string): Promise<TradeOffer> {
+  try {
+    const { data, error } = await supabase.rpc('cancel_trade_offer', {
+      p_offer_id: offerId,
+      p_company_id: companyId,
+    });
+
+    if (error) {
+      console.error('Supabase cancel trade offer error:', error);
+      throw new Error(`Failed to cancel trade offer: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Failed to cancel trade offer: No data returned');
+    }
+
+    return dbRecordToTradeOffer(data as DbTradeOfferRecord);
+  } catch (error) {
+    console.error('Cancel trade offer error:', error);
+    throw error;
+  }
+}
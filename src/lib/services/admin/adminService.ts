@@ -1,13 +1,17 @@
 import { supabase } from '@/lib/utils/supabase';
+import { getErrorMessage } from '@/lib/utils/utils';
 import { resetGameTimeToInitial } from '@/lib/database/core/gameTimeDB';
+import { getTickRunsByWorldId, type TickRun } from '@/lib/database/core/tickRunsDB';
+import { DEFAULT_WORLD_ID, getAllWorlds } from '@/lib/constants';
+import { getGameState } from '../core/gameState';
 
 /**
  * Admin service - Administrative operations for game management
  */
 
 /**
- * Clear all companies from the database
- * Also resets game time to 1.1.2024
+ * Clear all companies from the database, in every world
+ * Also resets every world's game time to its start
  */
 export async function adminClearAllCompanies(): Promise<void> {
   try {
@@ -22,10 +26,13 @@ export async function adminClearAllCompanies(): Promise<void> {
       throw new Error(`Failed to clear all companies: ${error.message}`);
     }
 
-    // Reset game time to initial values (1.1.2024)
-    const timeReset = await resetGameTimeToInitial();
-    if (!timeReset) {
-      console.warn('Failed to reset game time after clearing companies');
+    // Reset each world's game time to its initial values
+    const worldIds = getAllWorlds().map(world => world.id);
+    for (const worldId of worldIds.length > 0 ? worldIds : [DEFAULT_WORLD_ID]) {
+      const timeReset = await resetGameTimeToInitial(worldId);
+      if (!timeReset) {
+        console.warn(`Failed to reset game time of world ${worldId} after clearing companies`);
+      }
     }
   } catch (error: any) {
     throw new Error(`Failed to clear all companies: ${error.message || error}`);
@@ -33,12 +40,12 @@ export async function adminClearAllCompanies(): Promise<void> {
 }
 
 /**
- * Reset game time to initial values (1.1.2024)
+ * Reset a world's game time to its initial values
  * Does not affect other database data
  */
-export async function adminResetGameTime(): Promise<void> {
+export async function adminResetGameTime(worldId: string = DEFAULT_WORLD_ID): Promise<void> {
   try {
-    const success = await resetGameTimeToInitial();
+    const success = await resetGameTimeToInitial(worldId);
     if (!success) {
       throw new Error('Failed to reset game time');
     }
@@ -47,3 +54,16 @@ export async function adminResetGameTime(): Promise<void> {
   }
 }
 
+
+/**
+ * Get the latest tick runs of the current world, newest first
+ * Each run records when the tick started and finished, the facilities it
+ * advanced and completed, and any step errors
+ */
+export async function adminGetTickHistory(limit: number = 50): Promise<TickRun[]> {
+  try {
+    return await getTickRunsByWorldId(getGameState().worldId, limit);
+  } catch (error) {
+    throw new Error(`Failed to load tick history: ${getErrorMessage(error)}`);
+  }
+}
@@ -0,0 +1,89 @@
+import { CITY_ECONOMY } from '../../constants/constants.ts';
+import type { City } from '../../types/types.ts';
+
+/**
+ * City Economy
+ * Pure city formulas shared by the React app and the game-tick edge function.
+ */
+
+/**
+ * City as stored in the cities table, before derived fields
+ */
+export interface CityRecord {
+  id: string;
+  name: string;
+  wealth: number;
+  population: number;
+  baseWealth: number;
+}
+
+/**
+ * Economic activity player facilities generated in a city over a month
+ */
+export interface CityActivity {
+  workers: number; // Workers employed by facilities in the city
+  wages: number; // Wages paid to those workers
+  retailSpending: number; // Money residents spent in the city's retail facilities
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * How a city's size shifts its derived stats
+ * 1 at CITY_ECONOMY.REFERENCE_POPULATION, +SIZE_WEIGHT per tenfold population
+ */
+export function getCitySizeFactor(population: number): number {
+  const ratio = Math.max(CITY_ECONOMY.MIN_POPULATION, population) / CITY_ECONOMY.REFERENCE_POPULATION;
+  return 1 + CITY_ECONOMY.SIZE_WEIGHT * Math.log10(ratio);
+}
+
+/**
+ * Compute a city's derived fields from its wealth and population
+ * Larger cities pay higher wages but leave residents less to spend,
+ * and richer, larger cities expect better goods.
+ */
+export function deriveCity(record: CityRecord): City {
+  const sizeFactor = getCitySizeFactor(record.population);
+
+  return {
+    ...record,
+    baseWage: round(record.wealth * sizeFactor, 2),
+    purchasePower: round(record.wealth / sizeFactor, 2),
+    qualityDemand: round(1 + record.wealth * CITY_ECONOMY.QUALITY_DEMAND_PER_WEALTH * sizeFactor, 1),
+  };
+}
+
+/**
+ * Advance a city's wealth and population by one month
+ * Wealth moves towards its base wealth plus the wages and retail spending per
+ * resident; population grows with employment and wealth above the base.
+ * @returns The city record for the next month (derive it again for the new stats)
+ */
+export function evolveCity(city: CityRecord, activity: CityActivity): CityRecord {
+  const population = Math.max(1, city.population);
+
+  const activityPerResident = (activity.wages + activity.retailSpending) / population;
+  const targetWealth = Math.min(
+    CITY_ECONOMY.MAX_WEALTH,
+    Math.max(CITY_ECONOMY.MIN_WEALTH, city.baseWealth + CITY_ECONOMY.WEALTH_PER_ACTIVITY * activityPerResident)
+  );
+  const wealth = round(city.wealth + CITY_ECONOMY.WEALTH_ADJUSTMENT_RATE * (targetWealth - city.wealth), 3);
+
+  const growth = Math.min(
+    CITY_ECONOMY.MAX_MONTHLY_GROWTH,
+    Math.max(
+      -CITY_ECONOMY.MAX_MONTHLY_GROWTH,
+      CITY_ECONOMY.GROWTH_PER_EMPLOYMENT * (activity.workers / population)
+        + CITY_ECONOMY.GROWTH_PER_WEALTH * (city.wealth - city.baseWealth)
+    )
+  );
+
+  return {
+    ...city,
+    wealth,
+    population: Math.max(CITY_ECONOMY.MIN_POPULATION, Math.round(city.population * (1 + growth))),
+  };
+}
@@ -0,0 +1,88 @@
+import { getFacilitiesByCityId, getCompanyNamesByIds, getActiveListingsByCity, type MarketListing } from '@/lib/database';
+import type { Facility, ResourceId } from '@/lib/types/types';
+import { getGameState } from '../core/gameState';
+
+/**
+ * City Overview Service
+ * Gathers what a city offers for the city page: the facilities every company
+ * of the current world runs there and the prices its marketplace listings ask.
+ */
+
+/**
+ * A facility in a city with the name of the company that owns it
+ */
+export interface CityFacilityEntry {
+  facility: Facility;
+  companyName: string;
+}
+
+/**
+ * Local market prices of one resource in a city (active listings only)
+ */
+export interface LocalResourcePrice {
+  resourceId: ResourceId;
+  lowestPrice: number;
+  averagePrice: number; // Weighted by listed quantity
+  quantity: number; // Units listed
+  listingCount: number;
+}
+
+/**
+ * Get all facilities in a city with their owners' names
+ * Returns an empty list when the facilities cannot be loaded
+ */
+export async function getCityFacilities(cityId: string): Promise<CityFacilityEntry[]> {
+  try {
+    const facilities = await getFacilitiesByCityId(cityId, getGameState().worldId);
+    const companyNames = await getCompanyNamesByIds([...new Set(facilities.map(f => f.companyId))]);
+
+    return facilities.map(facility => ({
+      facility,
+      companyName: companyNames[facility.companyId] ?? 'Unknown company',
+    }));
+  } catch (error) {
+    console.error('Get city facilities error:', error);
+    return [];
+  }
+}
+
+/**
+ * Summarize listings into one price entry per resource, sorted by resource
+ */
+export function summarizeLocalPrices(listings: MarketListing[]): LocalResourcePrice[] {
+  const byResource = new Map<ResourceId, { lowest: number; turnover: number; quantity: number; count: number }>();
+
+  for (const listing of listings) {
+    if (listing.quantity <= 0) continue;
+
+    const entry = byResource.get(listing.resourceId) ?? { lowest: listing.pricePerUnit, turnover: 0, quantity: 0, count: 0 };
+    entry.lowest = Math.min(entry.lowest, listing.pricePerUnit);
+    entry.turnover += listing.pricePerUnit * listing.quantity;
+    entry.quantity += listing.quantity;
+    entry.count++;
+    byResource.set(listing.resourceId, entry);
+  }
+
+  return [...byResource.entries()]
+    .map(([resourceId, entry]) => ({
+      resourceId,
+      lowestPrice: entry.lowest,
+      averagePrice: Math.round((entry.turnover / entry.quantity) * 100) / 100,
+      quantity: entry.quantity,
+      listingCount: entry.count,
+    }))
+    .sort((a, b) => a.resourceId.localeCompare(b.resourceId));
+}
+
+/**
+ * Get the local market prices of every resource listed in a city
+ * Returns an empty list when the listings cannot be loaded
+ */
+export async function getLocalPrices(cityId: string): Promise<LocalResourcePrice[]> {
+  try {
+    return summarizeLocalPrices(await getActiveListingsByCity(cityId, getGameState().worldId));
+  } catch (error) {
+    console.error('Get local prices error:', error);
+    return [];
+  }
+}
@@ -0,0 +1,2 @@
+export * from './cityEconomy';
+export * from './cityOverviewService';
@@ -0,0 +1,46 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { CityRoute } from '@/lib/types/types';
+
+// Cache for city routes to avoid repeated database calls
+let cityRoutesCache: CityRoute[] | null = null;
+
+/**
+ * Fetch all city routes from database with caching
+ */
+export async function fetchCityRoutes(): Promise<CityRoute[]> {
+  // Return cached data if available
+  if (cityRoutesCache) {
+    return cityRoutesCache;
+  }
+
+  const { data, error } = await supabase
+    .from('city_routes')
+    .select('*');
+
+  if (error) {
+    console.error('Error fetching city routes:', error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('No city routes data returned from database');
+  }
+
+  // Convert database format to frontend format
+  cityRoutesCache = data.map((route) => ({
+    fromCityId: route.from_city_id,
+    toCityId: route.to_city_id,
+    distance: Number(route.distance),
+    shippingCostPerUnit: Number(route.shipping_cost_per_unit),
+    transitTicks: route.transit_ticks,
+  }));
+
+  return cityRoutesCache || [];
+}
+
+/**
+ * Clear city routes cache (call after database updates)
+ */
+export function clearCityRoutesCache(): void {
+  cityRoutesCache = null;
+}
@@ -0,0 +1,54 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { City } from '@/lib/types/types';
+import { deriveCity } from '../city/cityEconomy';
+
+// Cache for cities to avoid repeated database calls
+let citiesCache: City[] | null = null;
+
+/**
+ * Fetch all cities from database with caching
+ * Derived fields (wages, purchase power, quality demand) are computed from
+ * the stored wealth and population
+ */
+export async function fetchCities(): Promise<City[]> {
+  // Return cached data if available
+  if (citiesCache) {
+    return citiesCache;
+  }
+
+  const { data, error } = await supabase
+    .from('cities')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching cities:', error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('No cities data returned from database');
+  }
+
+  // Convert database format to frontend format
+  citiesCache = data.map((city) => ({
+    ...deriveCity({
+      id: city.id,
+      name: city.name,
+      wealth: Number(city.wealth),
+      population: city.population,
+      baseWealth: Number(city.base_wealth),
+    }),
+    mapX: city.map_x != null ? Number(city.map_x) : undefined,
+    mapY: city.map_y != null ? Number(city.map_y) : undefined,
+  }));
+
+  return citiesCache || [];
+}
+
+/**
+ * Clear cities cache (call after database updates)
+ */
+export function clearCitiesCache(): void {
+  citiesCache = null;
+}
@@ -1,13 +1,18 @@
 import { supabase } from '@/lib/utils/supabase';
-import type { RecipeId } from '@/lib/types/types';
+import type { FacilityType, RecipeId } from '@/lib/types/types';
+import { WORKFORCE_DEFAULTS } from '@/lib/constants/constants';
 
 export interface FacilityTypeConfig {
   id: string;
   name: string;
+  type: FacilityType; // Production, warehouse or retail
   availableRecipeIds: RecipeId[];
   autoStartRecipe: RecipeId;
   inventoryCapacity: number;
   effectivity: number;
+  requiredWorkers: number; // Workers needed for full effectivity
+  buildCost: number; // Money paid to build a facility of this type
+  constructionTicks: number; // Ticks before a new facility can produce
   icon: string;
 }
 
@@ -58,10 +63,14 @@ export async function fetchFacilityTypes(): Promise<Record<string, FacilityTypeC
     acc[facilityType.id] = {
       id: facilityType.id,
       name: facilityType.name,
+      type: (facilityType.facility_type ?? 'production') as FacilityType,
       availableRecipeIds: availableRecipes,
       autoStartRecipe: facilityType.auto_start_recipe_id as RecipeId,
       inventoryCapacity: facilityType.default_inventory_capacity,
       effectivity: facilityType.default_effectivity,
+      requiredWorkers: facilityType.required_workers ?? WORKFORCE_DEFAULTS.REQUIRED_WORKERS,
+      buildCost: Number(facilityType.build_cost ?? 0),
+      constructionTicks: facilityType.construction_ticks ?? 0,
       icon: facilityType.icon,
     };
     return acc;
@@ -109,10 +118,14 @@ export async function getFacilityTypeFromDB(facilityTypeId: string): Promise<Fac
   return {
     id: facilityTypeData.id,
     name: facilityTypeData.name,
+    type: (facilityTypeData.facility_type ?? 'production') as FacilityType,
     availableRecipeIds: availableRecipes,
     autoStartRecipe: facilityTypeData.auto_start_recipe_id as RecipeId,
     inventoryCapacity: facilityTypeData.default_inventory_capacity,
     effectivity: facilityTypeData.default_effectivity,
+    requiredWorkers: facilityTypeData.required_workers ?? WORKFORCE_DEFAULTS.REQUIRED_WORKERS,
+    buildCost: Number(facilityTypeData.build_cost ?? 0),
+    constructionTicks: facilityTypeData.construction_ticks ?? 0,
     icon: facilityTypeData.icon,
   };
 }
@@ -0,0 +1,51 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { FacilityUpgradeLevel } from '@/lib/types/types';
+
+// Cache for facility upgrade levels to avoid repeated database calls
+let facilityUpgradeLevelsCache: FacilityUpgradeLevel[] | null = null;
+
+/**
+ * Fetch all facility upgrade levels from database with caching
+ */
+export async function fetchFacilityUpgradeLevels(): Promise<FacilityUpgradeLevel[]> {
+  // Return cached data if available
+  if (facilityUpgradeLevelsCache) {
+    return facilityUpgradeLevelsCache;
+  }
+
+  const { data, error } = await supabase
+    .from('facility_upgrade_levels')
+    .select('*')
+    .order('facility_type_id', { ascending: true })
+    .order('level', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching facility upgrade levels:', error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('No facility upgrade levels data returned from database');
+  }
+
+  // Convert database format to frontend format
+  facilityUpgradeLevelsCache = data.map((level) => ({
+    facilityTypeId: level.facility_type_id,
+    level: level.level,
+    name: level.name,
+    cost: Number(level.cost),
+    constructionTicks: level.construction_ticks,
+    inventoryCapacity: level.inventory_capacity,
+    effectivityCap: level.effectivity_cap,
+    processingTicksMultiplier: Number(level.processing_ticks_multiplier),
+  }));
+
+  return facilityUpgradeLevelsCache || [];
+}
+
+/**
+ * Clear facility upgrade levels cache (call after database updates)
+ */
+export function clearFacilityUpgradeLevelsCache(): void {
+  facilityUpgradeLevelsCache = null;
+}
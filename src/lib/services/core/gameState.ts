@@ -1,34 +1,60 @@
 import type { GameState, GameTime } from '@/lib/types/types';
-import { GAME_INITIALIZATION } from '@/lib/constants';
+import { DEFAULT_WORLD_ID, getCityById, getWorld, getWorldInitialization, reloadCities } from '@/lib/constants';
 import { notificationService } from './notificationService';
 import { getGameTimeFromDB } from '@/lib/database/core/gameTimeDB';
 import { supabase } from '@/lib/utils/supabase';
 import { advanceAllFacilitiesProduction } from '@/lib/services/production';
 import { refreshAllActiveFacilities } from './gameData';
+import { getNextTickTime } from './gameTick';
 
-export function getNextHourBoundary(): Date {
-  const now = new Date();
-  now.setMinutes(0, 0, 0);
-  now.setHours(now.getHours() + 1);
-  return now;
+type GameStateListener = (state: GameState) => void;
+
+/**
+ * game_time row as delivered by realtime changes
+ */
+interface GameTimeRow {
+  id: string;
+  tick: number | null;
+  day: number | null;
+  month: number | null;
+  year: number | null;
+  last_tick_time: string | null;
+  next_tick_time: string | null;
 }
 
-type GameStateListener = (state: GameState) => void;
+/**
+ * Fields of a cities row the subscription compares (numeric columns may arrive as strings)
+ */
+interface CityRow {
+  id: string;
+  wealth: number | string;
+  population: number;
+}
 
-let gameState: GameState = {
-  time: {
-    tick: GAME_INITIALIZATION.STARTING_TICK,
-    day: GAME_INITIALIZATION.STARTING_DAY,
-    month: GAME_INITIALIZATION.STARTING_MONTH,
-    year: GAME_INITIALIZATION.STARTING_YEAR,
+/**
+ * Clock of a world that has no game_time row yet, at the world's configured start
+ */
+function getInitialGameTime(worldId: string): GameTime {
+  const initialization = getWorldInitialization(worldId);
+  return {
+    tick: initialization.STARTING_TICK,
+    day: initialization.STARTING_DAY,
+    month: initialization.STARTING_MONTH,
+    year: initialization.STARTING_YEAR,
     lastTickTime: new Date().toISOString(),
-    nextTickTime: getNextHourBoundary().toISOString(),
-  },
+    nextTickTime: getNextTickTime(getWorld(worldId)?.tickIntervalSeconds).toISOString(),
+  };
+}
+
+let gameState: GameState = {
+  worldId: DEFAULT_WORLD_ID,
+  time: getInitialGameTime(DEFAULT_WORLD_ID),
   isProcessing: false,
 };
 
 let currentCompanyForNotifications: string | null = null;
 let gameTimeSubscription: ReturnType<typeof supabase.channel> | null = null;
+let citiesSubscription: ReturnType<typeof supabase.channel> | null = null;
 let isInitialized = false;
 let initializationPromise: Promise<void> | null = null;
 let stateListeners: GameStateListener[] = [];
@@ -52,24 +78,9 @@ export async function initializeGameState(): Promise<void> {
 
   initializationPromise = (async () => {
     try {
-      const dbTime = await getGameTimeFromDB();
-      
-      if (!dbTime) {
-        console.error('Game time not found in database - using fallback');
-        const fallbackTime: GameTime = {
-          tick: GAME_INITIALIZATION.STARTING_TICK,
-          day: GAME_INITIALIZATION.STARTING_DAY,
-          month: GAME_INITIALIZATION.STARTING_MONTH,
-          year: GAME_INITIALIZATION.STARTING_YEAR,
-          lastTickTime: new Date().toISOString(),
-          nextTickTime: getNextHourBoundary().toISOString(),
-        };
-        setGameState({ ...gameState, time: fallbackTime });
-      } else {
-        setGameState({ ...gameState, time: dbTime });
-      }
-
+      await loadWorldTime(gameState.worldId);
       setupGameTimeSubscription();
+      setupCitiesSubscription();
       isInitialized = true;
     } catch (error) {
       console.error('Error initializing game state:', error);
@@ -80,17 +91,54 @@ export async function initializeGameState(): Promise<void> {
   return initializationPromise;
 }
 
+/**
+ * Load a world's clock into the game state
+ */
+async function loadWorldTime(worldId: string): Promise<void> {
+  const dbTime = await getGameTimeFromDB(worldId);
+
+  if (!dbTime) {
+    console.error(`Game time of world ${worldId} not found in database - using fallback`);
+    setGameState({ ...gameState, worldId, time: getInitialGameTime(worldId) });
+  } else {
+    setGameState({ ...gameState, worldId, time: dbTime });
+  }
+}
+
+/**
+ * Follow another world's clock (the world of the company that logged in)
+ */
+export async function setCurrentWorld(worldId: string): Promise<void> {
+  if (worldId === gameState.worldId) return;
+
+  // Switch right away so world-scoped queries use the new world while its clock loads
+  setGameState({ ...gameState, worldId });
+
+  try {
+    await loadWorldTime(worldId);
+
+    // The realtime filter is fixed per channel, so subscribe again for the new world
+    if (gameTimeSubscription) {
+      supabase.removeChannel(gameTimeSubscription);
+      gameTimeSubscription = null;
+      setupGameTimeSubscription();
+    }
+  } catch (error) {
+    console.error('Error switching world:', error);
+  }
+}
+
 function setupGameTimeSubscription(): void {
   if (gameTimeSubscription) return;
 
   gameTimeSubscription = supabase
-    .channel('game_time_changes')
+    .channel(`game_time_changes_${gameState.worldId}`)
     .on(
       'postgres_changes',
-      { event: '*', schema: 'public', table: 'game_time', filter: 'id=eq.global' },
+      { event: '*', schema: 'public', table: 'game_time', filter: `id=eq.${gameState.worldId}` },
       (payload) => {
         if (payload.eventType === 'UPDATE' || payload.eventType === 'INSERT') {
-          const newData = payload.new as any;
+          const newData = payload.new as GameTimeRow;
           if (!newData) return;
 
           const newTime: GameTime = {
@@ -125,6 +173,29 @@ function setupGameTimeSubscription(): void {
     .subscribe();
 }
 
+/**
+ * Reload cities when the monthly tick evolves their wealth and population
+ */
+function setupCitiesSubscription(): void {
+  if (citiesSubscription) return;
+
+  citiesSubscription = supabase
+    .channel('cities_changes')
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'cities' },
+      (payload) => {
+        const newData = payload.new as CityRow;
+        const city = newData ? getCityById(newData.id) : undefined;
+        // Retail sales update the month's spending every tick; only reload on evolution
+        if (city && Number(newData.wealth) === city.wealth && newData.population === city.population) return;
+
+        reloadCities().then(notifyStateListeners);
+      }
+    )
+    .subscribe();
+}
+
 export function getGameState(): GameState {
   return { ...gameState };
 }
@@ -150,7 +221,7 @@ export async function processGameTickManual(): Promise<void> {
   
   try {
     // Call edge function - it handles time advancement and production
-    const facilitiesAdvanced = await advanceAllFacilitiesProduction();
+    const facilitiesAdvanced = await advanceAllFacilitiesProduction(gameState.worldId);
 
     // Refresh UI data for all active companies
     await refreshAllActiveFacilities();
@@ -183,6 +254,10 @@ export function cleanupGameState(): void {
     supabase.removeChannel(gameTimeSubscription);
     gameTimeSubscription = null;
   }
+  if (citiesSubscription) {
+    supabase.removeChannel(citiesSubscription);
+    citiesSubscription = null;
+  }
   stateListeners = [];
 }
 
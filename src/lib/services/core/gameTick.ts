@@ -1,3 +1,17 @@
+/**
+ * Tick cadence of a world that does not configure one (one tick per hour)
+ */
+export const DEFAULT_TICK_INTERVAL_SECONDS = 3600;
+
+/**
+ * Get the next tick time for a world ticking every intervalSeconds
+ * Ticks fall on multiples of the interval (on the hour for hourly worlds)
+ */
+export function getNextTickTime(intervalSeconds: number = DEFAULT_TICK_INTERVAL_SECONDS, from: Date = new Date()): Date {
+  const intervalMs = Math.max(1, intervalSeconds) * 1000;
+  return new Date((Math.floor(from.getTime() / intervalMs) + 1) * intervalMs);
+}
+
 /**
  * Get time until next tick as formatted string
  */
@@ -5,11 +5,12 @@ export {
   setProcessingState,
   setCurrentCompanyForNotifications,
   initializeGameState,
+  setCurrentWorld,
   cleanupGameState,
   addGameStateListener,
 } from './gameState';
 
-export { getTimeUntilNextTick } from './gametick';
+export { getTimeUntilNextTick, getNextTickTime, DEFAULT_TICK_INTERVAL_SECONDS } from './gametick';
 
 export { notificationService, type PlayerNotification } from './notificationService';
 
@@ -25,6 +26,31 @@ export {
   clearResourcesCache,
 } from './resourceService';
 
+export {
+  fetchMarketFees,
+  clearMarketFeesCache,
+} from './marketFeeService';
+
+export {
+  fetchCities,
+  clearCitiesCache,
+} from './cityService';
+
+export {
+  fetchWorlds,
+  clearWorldsCache,
+} from './worldService';
+
+export {
+  fetchCityRoutes,
+  clearCityRoutesCache,
+} from './cityRouteService';
+
+export {
+  fetchFacilityUpgradeLevels,
+  clearFacilityUpgradeLevelsCache,
+} from './facilityUpgradeService';
+
 export {
   fetchFacilityTypes,
   getFacilityTypeFromDB,
@@ -0,0 +1,50 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { MarketFee } from '@/lib/types/types';
+
+// Cache for market fees to avoid repeated database calls
+let marketFeesCache: Record<string, MarketFee> | null = null;
+
+/**
+ * Fetch all market fees from database with caching
+ */
+export async function fetchMarketFees(): Promise<Record<string, MarketFee>> {
+  // Return cached data if available
+  if (marketFeesCache) {
+    return marketFeesCache;
+  }
+
+  const { data, error } = await supabase
+    .from('market_fees')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching market fees:', error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('No market fees data returned from database');
+  }
+
+  // Convert database format to frontend format
+  marketFeesCache = data.reduce((acc, fee) => {
+    acc[fee.id] = {
+      id: fee.id,
+      name: fee.name,
+      feeType: fee.fee_type,
+      rate: Number(fee.rate),
+      description: fee.description || '',
+    };
+    return acc;
+  }, {} as Record<string, MarketFee>);
+
+  return marketFeesCache || {};
+}
+
+/**
+ * Clear market fees cache (call after database updates)
+ */
+export function clearMarketFeesCache(): void {
+  marketFeesCache = null;
+}
@@ -135,11 +135,18 @@ export const notificationService = {
       return null;
     }
 
-    await loadFiltersFromDbIfNeeded(company);
+    // Messages for another company (e.g. a trade partner) are only stored;
+    // they appear in that company's NotificationCenter, filtered by its own filters
+    const isOtherCompany = currentCompanyName !== null && company !== currentCompanyName;
 
-    const blockStatus = isNotificationBlocked(origin, category);
-    if (blockStatus === true) {
-      return null;
+    let blockStatus: boolean | 'history' = false;
+    if (!isOtherCompany) {
+      await loadFiltersFromDbIfNeeded(company);
+
+      blockStatus = isNotificationBlocked(origin, category);
+      if (blockStatus === true) {
+        return null;
+      }
     }
 
     const id = (globalThis.crypto && 'randomUUID' in globalThis.crypto)
@@ -163,8 +170,10 @@ export const notificationService = {
       category
     };
 
-    notifications = [message, ...notifications];
-    notifyListeners();
+    if (!isOtherCompany) {
+      notifications = [message, ...notifications];
+      notifyListeners();
+    }
 
     saveNotification({
       id,
@@ -178,7 +187,7 @@ export const notificationService = {
     }, company);
 
     const showToasts = localStorage.getItem('showNotifications') !== 'false';
-    const shouldShowToast = showToasts && blockStatus === false;
+    const shouldShowToast = showToasts && !isOtherCompany && blockStatus === false;
     if (shouldShowToast) {
       toast({
         title: userFriendlyOrigin,
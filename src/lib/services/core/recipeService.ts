@@ -35,6 +35,7 @@ export async function fetchRecipes(): Promise<Record<string, Recipe>> {
       inputs: recipe.inputs || [],
       outputs: recipe.outputs || [],
       processingTicks: recipe.processing_ticks,
+      seasonalMultipliers: recipe.seasonal_multipliers ?? null,
       facilityTypes: recipe.facility_types || [],
     };
     return acc;
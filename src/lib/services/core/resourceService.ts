@@ -33,6 +33,8 @@ export async function fetchResources(): Promise<Record<string, Resource>> {
       id: resource.id,
       name: resource.name,
       icon: resource.icon,
+      consumerPrice: resource.consumer_price ?? null,
+      consumerDemand: resource.consumer_demand ?? 0,
     };
     return acc;
   }, {} as Record<string, Resource>);
@@ -68,6 +70,8 @@ export async function getResourceFromDB(resourceId: string): Promise<Resource |
     id: data.id,
     name: data.name,
     icon: data.icon,
+    consumerPrice: data.consumer_price ?? null,
+    consumerDemand: data.consumer_demand ?? 0,
   };
 }
 
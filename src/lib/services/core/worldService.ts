@@ -0,0 +1,55 @@
+import { supabase } from '@/lib/utils/supabase';
+import type { World } from '@/lib/types/types';
+import { GAME_INITIALIZATION } from '@/lib/constants/constants';
+import { DEFAULT_TICK_INTERVAL_SECONDS } from './gameTick';
+
+// Cache for worlds to avoid repeated database calls
+let worldsCache: World[] | null = null;
+
+/**
+ * Fetch all game worlds from database with caching
+ * Missing start values fall back to GAME_INITIALIZATION
+ */
+export async function fetchWorlds(): Promise<World[]> {
+  // Return cached data if available
+  if (worldsCache) {
+    return worldsCache;
+  }
+
+  const { data, error } = await supabase
+    .from('worlds')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching worlds:', error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('No worlds data returned from database');
+  }
+
+  // Convert database format to frontend format
+  worldsCache = data.map((world) => ({
+    id: world.id,
+    name: world.name,
+    description: world.description ?? undefined,
+    tickIntervalSeconds: world.tick_interval_seconds ?? DEFAULT_TICK_INTERVAL_SECONDS,
+    startingDay: world.starting_day ?? GAME_INITIALIZATION.STARTING_DAY,
+    startingMonth: world.starting_month ?? GAME_INITIALIZATION.STARTING_MONTH,
+    startingYear: world.starting_year ?? GAME_INITIALIZATION.STARTING_YEAR,
+    startingTick: world.starting_tick ?? GAME_INITIALIZATION.STARTING_TICK,
+    startingCapital: world.starting_capital != null ? Number(world.starting_capital) : GAME_INITIALIZATION.STARTING_CAPITAL,
+    sortOrder: world.sort_order ?? 0,
+  }));
+
+  return worldsCache || [];
+}
+
+/**
+ * Clear worlds cache (call after database updates)
+ */
+export function clearWorldsCache(): void {
+  worldsCache = null;
+}
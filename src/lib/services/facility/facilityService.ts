@@ -1,15 +1,28 @@
-import type { Facility, ProductionFacilityType, RecipeId } from '@/lib/types/types';
-import { createFacilityDB, generateFacilityName } from '@/lib/database';
-import { getAllFacilityTypeConfigs, createInitialInventory, DEFAULT_FACILITY_CONFIG, getRecipe } from '@/lib/constants';
+import type { Facility, ProductionFacilityType, RecipeId, ResourceId } from '@/lib/types/types';
+import {
+  createFacilityDB,
+  generateFacilityName,
+  updateFacility,
+  deleteFacility,
+  demolishFacilityDB,
+} from '@/lib/database';
+import { getAllFacilityTypeConfigs, createInitialInventory, DEFAULT_FACILITY_CONFIG, getRecipe, getCityById, getFacilityUpgradeLevel, getAllResources, WORKFORCE_DEFAULTS, FACILITY_DEFAULTS } from '@/lib/constants';
+import { calculateStaffingEffectivity, calculateMonthlyWages } from './workforce';
+import { calculateConsumerDemand } from './retail';
+import { getMissingInputs, getItemQuality, type MissingResource } from '../production/productionSimulation';
+import { canAfford, processPurchase, TRANSACTION_CATEGORIES } from '../finance/transactionService';
 
 /**
  * Create a new facility of the specified type with default settings
+ * Charges the facility type's build cost. The facility exists right away but
+ * only starts producing once its construction ticks have passed (game tick).
  * 
  * @param facilityType - The type of facility to create (farm, mill, bakery, etc.)
  * @param companyId - The company ID that owns the facility
  * @param companyName - The company name for naming
  * @param cityId - The city where the facility is located
  * @returns Created facility
+ * @throws When the company cannot afford the build cost
  */
 export async function createFacility(
   facilityType: ProductionFacilityType,
@@ -21,22 +34,29 @@ export async function createFacility(
   if (!config) {
     throw new Error(`Unknown facility type: ${facilityType}`);
   }
+
+  if (config.buildCost > 0 && !(await canAfford(companyName, config.buildCost))) {
+    throw new Error(`Insufficient funds for the build cost of ${config.buildCost.toFixed(2)}`);
+  }
   
   const facilityName = await generateFacilityName(
     companyId,
     companyName,
     cityId,
-    DEFAULT_FACILITY_CONFIG.type,
+    config.type ?? DEFAULT_FACILITY_CONFIG.type,
     facilityType
   );
 
   const inventoryCapacity = config.inventoryCapacity ?? DEFAULT_FACILITY_CONFIG.inventoryCapacity;
   const effectivity = config.effectivity ?? DEFAULT_FACILITY_CONFIG.effectivity;
+  // New facilities start fully staffed
+  const workerCount = config.requiredWorkers;
+  const needsConstruction = config.constructionTicks > 0;
 
-  return await createFacilityDB({
+  const facility = await createFacilityDB({
     companyId,
     name: facilityName,
-    type: DEFAULT_FACILITY_CONFIG.type,
+    type: config.type ?? DEFAULT_FACILITY_CONFIG.type,
     facilitySubtype: facilityType,
     cityId,
     effectivity,
@@ -44,8 +64,73 @@ export async function createFacility(
     availableRecipeIds: config.availableRecipeIds,
     activeRecipeId: config.autoStartRecipe,
     progressTicks: config.autoStartRecipe ? 0 : undefined,
-    workerCount: DEFAULT_FACILITY_CONFIG.workerCount,
+    isProducing: !needsConstruction && !!config.autoStartRecipe,
+    constructionTicksRemaining: config.constructionTicks,
+    workerCount,
   });
+
+  if (config.buildCost > 0) {
+    const transaction = await processPurchase(
+      companyName,
+      config.buildCost,
+      `Build: ${facility.name}`,
+      TRANSACTION_CATEGORIES.FACILITY_PURCHASE
+    );
+
+    // Balance changed since the check above: undo the facility
+    if (!transaction) {
+      await deleteFacility(facility.id);
+      throw new Error(`Insufficient funds for the build cost of ${config.buildCost.toFixed(2)}`);
+    }
+  }
+
+  return facility;
+}
+
+/**
+ * Check if a facility is still being built
+ */
+export function isUnderConstruction(facility: Facility): boolean {
+  return (facility.constructionTicksRemaining ?? 0) > 0;
+}
+
+/**
+ * Money paid back when a facility is demolished
+ */
+export function getDemolitionRefund(facility: Facility): number {
+  const config = facility.facilitySubtype ? getAllFacilityTypeConfigs()[facility.facilitySubtype] : undefined;
+  const buildCost = config?.buildCost ?? 0;
+  return Math.round(buildCost * FACILITY_DEFAULTS.DEMOLITION_REFUND_RATE * 100) / 100;
+}
+
+/**
+ * Demolish (sell) a facility
+ * Runs server-side in one transaction (demolish_facility RPC): cancels its
+ * market listings, transfers the leftover inventory to another of the company's
+ * facilities (shipped and charged between cities) or destroys it, pays back part
+ * of the build cost and deletes the facility with its open buy orders.
+ * Refused while shipments are on their way to the facility or a proposed or
+ * active supply contract names it.
+ * 
+ * @param facility - The facility to demolish
+ * @param transferToFacilityId - Facility receiving the leftover inventory, or null to destroy it
+ * @returns The refunded amount
+ * @throws When the demolition is refused or the transfer fails
+ */
+export async function demolishFacility(
+  facility: Facility,
+  transferToFacilityId: string | null
+): Promise<number> {
+  try {
+    const result = await demolishFacilityDB(facility.companyId, facility.id, transferToFacilityId);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to demolish facility');
+    }
+    return result.refund ?? 0;
+  } catch (error) {
+    console.error('Error demolishing facility:', error);
+    throw error;
+  }
 }
 
 /**
@@ -53,11 +138,7 @@ export async function createFacility(
  */
 export interface RecipeAvailabilityResult {
   available: boolean;
-  missingResources: Array<{
-    resourceId: string;
-    required: number;
-    available: number;
-  }>;
+  missingResources: MissingResource[];
 }
 
 /**
@@ -77,34 +158,115 @@ export function checkRecipeAvailability(
     return { available: false, missingResources: [] };
   }
 
-  if (recipe.inputs.length === 0) {
-    return { available: true, missingResources: [] };
+  const missingResources = getMissingInputs(facility.inventory, recipe.inputs);
+
+  return {
+    available: missingResources.length === 0,
+    missingResources,
+  };
+}
+
+/**
+ * Workers a facility needs for full effectivity (from its facility type)
+ */
+export function getRequiredWorkers(facility: Facility): number {
+  const config = facility.facilitySubtype ? getAllFacilityTypeConfigs()[facility.facilitySubtype] : undefined;
+  return config?.requiredWorkers ?? WORKFORCE_DEFAULTS.REQUIRED_WORKERS;
+}
+
+/**
+ * Effectivity of a facility at full staffing
+ * Comes from its upgrade level, or the facility type defaults at level 0
+ */
+export function getFacilityBaseEffectivity(facility: Facility): number {
+  if (facility.facilitySubtype && facility.level) {
+    const level = getFacilityUpgradeLevel(facility.facilitySubtype, facility.level);
+    if (level) return level.effectivityCap;
   }
 
-  const missingResources: Array<{
-    resourceId: string;
-    required: number;
-    available: number;
-  }> = [];
+  const config = facility.facilitySubtype ? getAllFacilityTypeConfigs()[facility.facilitySubtype] : undefined;
+  return config?.effectivity ?? DEFAULT_FACILITY_CONFIG.effectivity;
+}
 
-  for (const input of recipe.inputs) {
-    const inventoryItem = facility.inventory.items.find(
-      item => item.resourceId === input.resourceId
-    );
-    const available = inventoryItem?.quantity || 0;
-    
-    if (available < input.quantity) {
-      missingResources.push({
-        resourceId: input.resourceId,
-        required: input.quantity,
-        available: available,
-      });
+/**
+ * Monthly wages of a facility, priced from its city's baseWage
+ */
+export function getFacilityMonthlyWages(facility: Facility, workerCount: number = facility.workerCount): number {
+  const baseWage = getCityById(facility.cityId)?.baseWage ?? 0;
+  return calculateMonthlyWages(baseWage, workerCount);
+}
+
+/**
+ * Hire or fire workers by setting a facility's headcount
+ * Recalculates effectivity from staffing relative to the facility type's required workers.
+ * Wages are charged monthly by the game tick.
+ * 
+ * @param facility - The facility to staff
+ * @param workerCount - The new number of workers (0 or more)
+ * @returns Updated facility or null if the headcount is invalid or saving failed
+ */
+export async function setWorkerCount(facility: Facility, workerCount: number): Promise<Facility | null> {
+  try {
+    if (!Number.isInteger(workerCount) || workerCount < 0) {
+      return null;
     }
+
+    return await updateFacility(facility.id, {
+      workerCount,
+      effectivity: calculateStaffingEffectivity(getFacilityBaseEffectivity(facility), workerCount, getRequiredWorkers(facility)),
+    });
+  } catch (error) {
+    console.error('Error updating worker count:', error);
+    return null;
   }
+}
 
-  return {
-    available: missingResources.length === 0,
-    missingResources,
-  };
+/**
+ * Units per tick a retail facility's city would buy at a shelf price
+ * Demand of the whole city for the facility's stock quality; shops offering
+ * better value take their share first
+ */
+export function getExpectedConsumerDemand(facility: Facility, resourceId: ResourceId, shelfPrice: number): number {
+  const resource = getAllResources()[resourceId];
+  const city = getCityById(facility.cityId);
+  if (!resource || !city) return 0;
+  return calculateConsumerDemand(resource, city, shelfPrice, getItemQuality(facility.inventory, resourceId));
 }
 
+/**
+ * Set or clear a retail facility's shelf price for a resource
+ * Each game tick city consumers buy priced, unreserved stock and pay the shelf price;
+ * clearing the price takes the resource off the shelf.
+ * 
+ * @param facility - The retail facility
+ * @param resourceId - The resource to price
+ * @param shelfPrice - Price per unit, or null to stop selling the resource
+ * @returns Updated facility or null if the facility is not retail, the price is invalid or saving failed
+ */
+export async function setShelfPrice(
+  facility: Facility,
+  resourceId: ResourceId,
+  shelfPrice: number | null
+): Promise<Facility | null> {
+  try {
+    if (facility.type !== 'retail') {
+      return null;
+    }
+
+    if (shelfPrice !== null && (!Number.isFinite(shelfPrice) || shelfPrice <= 0)) {
+      return null;
+    }
+
+    const shelfPrices = { ...(facility.shelfPrices ?? {}) };
+    if (shelfPrice === null) {
+      delete shelfPrices[resourceId];
+    } else {
+      shelfPrices[resourceId] = Math.round(shelfPrice * 100) / 100;
+    }
+
+    return await updateFacility(facility.id, { shelfPrices });
+  } catch (error) {
+    console.error('Error updating shelf price:', error);
+    return null;
+  }
+}
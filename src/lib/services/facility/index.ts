@@ -1,2 +1,5 @@
 export * from './facilityService';
-
+export * from './workforce';
+export * from './retail';
+export * from './upgradeService';
+export * from './transferService';
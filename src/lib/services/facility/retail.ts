@@ -0,0 +1,84 @@
+import { RETAIL_DEFAULTS } from '../../constants/constants.ts';
+import type { City, Resource } from '../../types/types.ts';
+
+/**
+ * Retail
+ * Pure consumer demand math shared by the React app and the game-tick edge
+ * function.
+ */
+
+/**
+ * One retail facility's shelf offer of a resource in a city
+ */
+export interface RetailOffer {
+  facilityId: string;
+  shelfPrice: number;
+  available: number; // Unreserved stock on the shelf
+  quality: number; // Quality of the stock on the shelf
+}
+
+/**
+ * How goods of a quality meet a city's expectations
+ * quality / qualityDemand, bounded by RETAIL_DEFAULTS (1 = exactly what residents expect)
+ */
+export function getQualityFactor(city: City, quality: number): number {
+  const factor = city.qualityDemand > 0 ? quality / city.qualityDemand : 1;
+  return Math.min(RETAIL_DEFAULTS.MAX_QUALITY_FACTOR, Math.max(RETAIL_DEFAULTS.MIN_QUALITY_FACTOR, factor));
+}
+
+/**
+ * Shelf price a city's consumers consider fair for a resource of a quality
+ * The resource's consumerPrice at a purchase power of 0.5, higher in richer cities
+ * and for goods above the city's quality demand
+ */
+export function getFairConsumerPrice(resource: Resource, city: City, quality: number): number {
+  const basePrice = resource.consumerPrice ?? 0;
+  return Math.round(basePrice * (0.5 + city.purchasePower) * getQualityFactor(city, quality) * 100) / 100;
+}
+
+/**
+ * Units a city's consumers buy per tick at a shelf price, before competition and stock
+ * Demand scales with population, shrinks for goods below the city's quality demand
+ * and falls off as the price rises above the fair price
+ */
+export function calculateConsumerDemand(resource: Resource, city: City, shelfPrice: number, quality: number): number {
+  const fairPrice = getFairConsumerPrice(resource, city, quality);
+  if (fairPrice <= 0 || shelfPrice <= 0) return 0;
+
+  const baseDemand = (city.population / 1000) * (resource.consumerDemand ?? 0) * Math.min(1, getQualityFactor(city, quality));
+  const priceFactor = Math.min(
+    RETAIL_DEFAULTS.MAX_DEMAND_MULTIPLIER,
+    Math.pow(fairPrice / shelfPrice, RETAIL_DEFAULTS.PRICE_ELASTICITY)
+  );
+  return Math.floor(baseDemand * priceFactor);
+}
+
+/**
+ * Split a city's demand for a resource across its retail offers
+ * Consumers shop best value first (shelf price relative to the fair price of its
+ * quality): a shop only sells what its offer's demand exceeds the units better
+ * offers already sold, up to its stock.
+ * @returns Units sold per facility id (facilities that sold nothing are omitted)
+ */
+export function allocateConsumerDemand(
+  resource: Resource,
+  city: City,
+  offers: RetailOffer[]
+): Record<string, number> {
+  const sales: Record<string, number> = {};
+  let unitsSold = 0;
+
+  const priceRatio = (offer: RetailOffer) =>
+    offer.shelfPrice / Math.max(0.01, getFairConsumerPrice(resource, city, offer.quality));
+
+  for (const offer of [...offers].sort((a, b) => priceRatio(a) - priceRatio(b))) {
+    const demand = calculateConsumerDemand(resource, city, offer.shelfPrice, offer.quality) - unitsSold;
+    const units = Math.max(0, Math.min(Math.floor(offer.available), demand));
+    if (units > 0) {
+      sales[offer.facilityId] = units;
+      unitsSold += units;
+    }
+  }
+
+  return sales;
+}
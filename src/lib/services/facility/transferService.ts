@@ -0,0 +1,63 @@
+import type { Facility, ResourceId } from '@/lib/types/types';
+import { transferFacilityInventory, type InventoryTransferResult } from '@/lib/database';
+import { calculateShipping, type ShippingQuote } from '../market/shippingService';
+import { TRANSACTION_CATEGORIES } from '../finance/transactionService';
+import { getAvailableQuantity } from '../production/productionSimulation';
+
+/**
+ * Quote moving goods between two facilities
+ * Same-city transfers are free and instant; between cities the city route
+ * prices shipping and sets the travel time. Returns null without a route.
+ */
+export function quoteTransfer(from: Facility, to: Facility, quantity: number): ShippingQuote | null {
+  return calculateShipping(from.cityId, to.cityId, quantity);
+}
+
+/**
+ * Move unreserved stock of a resource to another facility of the same company
+ *
+ * @param from - The facility the goods leave
+ * @param to - The receiving facility
+ * @param resourceId - The resource to move
+ * @param quantity - Units to move (unreserved stock only)
+ * @returns Transfer result with the shipping cost and arrival tick for shipped goods
+ * @throws When the transfer is invalid or the server rejects it
+ */
+export async function transferResource(
+  from: Facility,
+  to: Facility,
+  resourceId: ResourceId,
+  quantity: number
+): Promise<InventoryTransferResult> {
+  try {
+    if (from.companyId !== to.companyId) {
+      throw new Error('Goods can only be transferred between your own facilities');
+    }
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Quantity must be a whole number greater than 0');
+    }
+
+    if (quantity > getAvailableQuantity(from.inventory, resourceId)) {
+      throw new Error('Not enough unreserved stock to transfer');
+    }
+
+    const result = await transferFacilityInventory(
+      from.companyId,
+      from.id,
+      to.id,
+      resourceId,
+      quantity,
+      TRANSACTION_CATEGORIES.SHIPPING
+    );
+
+    if (!result.success) {
+      throw new Error(result.error || 'Transfer failed');
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Transfer resource error:', error);
+    throw error;
+  }
+}
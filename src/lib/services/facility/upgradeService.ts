@@ -0,0 +1,105 @@
+import type { Facility, FacilityUpgradeLevel } from '@/lib/types/types';
+import { getCompanyById, updateFacility } from '@/lib/database';
+import { getAllFacilityTypeConfigs, getFacilityUpgradeLevel, getFacilityUpgradeLevels, DEFAULT_FACILITY_CONFIG } from '@/lib/constants';
+import { processPurchase, TRANSACTION_CATEGORIES } from '../finance/transactionService';
+import { isUnderConstruction } from './facilityService';
+
+/**
+ * Stats a facility has at an upgrade level
+ * Level 0 uses the facility type defaults
+ */
+export interface FacilityLevelStats {
+  level: number;
+  name: string;
+  inventoryCapacity: number;
+  effectivityCap: number;
+  processingTicksMultiplier: number;
+}
+
+/**
+ * Get the stats of a facility type at an upgrade level
+ * Returns undefined for levels the facility type does not have
+ */
+export function getFacilityLevelStats(facilityTypeId: string, level: number): FacilityLevelStats | undefined {
+  if (level === 0) {
+    const config = getAllFacilityTypeConfigs()[facilityTypeId];
+    return {
+      level: 0,
+      name: 'Basic',
+      inventoryCapacity: config?.inventoryCapacity ?? DEFAULT_FACILITY_CONFIG.inventoryCapacity,
+      effectivityCap: config?.effectivity ?? DEFAULT_FACILITY_CONFIG.effectivity,
+      processingTicksMultiplier: 1,
+    };
+  }
+
+  const upgradeLevel = getFacilityUpgradeLevel(facilityTypeId, level);
+  if (!upgradeLevel) return undefined;
+
+  return {
+    level: upgradeLevel.level,
+    name: upgradeLevel.name,
+    inventoryCapacity: upgradeLevel.inventoryCapacity,
+    effectivityCap: upgradeLevel.effectivityCap,
+    processingTicksMultiplier: upgradeLevel.processingTicksMultiplier,
+  };
+}
+
+/**
+ * Get the next upgrade level a facility can build
+ * Returns undefined at the highest level or for facilities without a type
+ */
+export function getNextUpgradeLevel(facility: Facility): FacilityUpgradeLevel | undefined {
+  if (!facility.facilitySubtype) return undefined;
+  return getFacilityUpgradeLevels(facility.facilitySubtype).find(level => level.level === (facility.level ?? 0) + 1);
+}
+
+/**
+ * Start building the next upgrade level of a facility
+ * Pays the level cost via processPurchase; the game tick applies the level
+ * (capacity, effectivity cap, speed) once its construction ticks have passed.
+ * Production keeps running while the upgrade is under construction.
+ *
+ * @param facility - The facility to upgrade
+ * @returns Updated facility
+ * @throws When the facility is already upgrading, fully upgraded or the company cannot afford it
+ */
+export async function startFacilityUpgrade(facility: Facility): Promise<Facility> {
+  try {
+    if (isUnderConstruction(facility)) {
+      throw new Error('The facility is still under construction');
+    }
+
+    if (facility.upgradeTargetLevel) {
+      throw new Error('An upgrade is already under construction');
+    }
+
+    const nextLevel = getNextUpgradeLevel(facility);
+    if (!nextLevel) {
+      throw new Error('This facility is already at its highest level');
+    }
+
+    const company = await getCompanyById(facility.companyId);
+    if (!company) {
+      throw new Error('Company not found');
+    }
+
+    const transaction = await processPurchase(
+      company.name,
+      nextLevel.cost,
+      `Upgrade: ${facility.name} to ${nextLevel.name}`,
+      TRANSACTION_CATEGORIES.FACILITY_UPGRADE
+    );
+
+    if (!transaction) {
+      throw new Error(`Insufficient funds for the upgrade cost of ${nextLevel.cost.toFixed(2)}`);
+    }
+
+    return await updateFacility(facility.id, {
+      upgradeTargetLevel: nextLevel.level,
+      upgradeTicksRemaining: nextLevel.constructionTicks,
+    });
+  } catch (error) {
+    console.error('Error starting facility upgrade:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,36 @@
+import { WORKFORCE_DEFAULTS } from '../../constants/constants.ts';
+
+/**
+ * Workforce
+ * Pure staffing and wage math shared by the React app and the game-tick edge
+ * function.
+ */
+
+/**
+ * Effectivity of a facility from its staffing
+ * Scales the facility type's base effectivity by workers / required workers (capped at 100% staffing)
+ */
+export function calculateStaffingEffectivity(
+  baseEffectivity: number,
+  workerCount: number,
+  requiredWorkers: number
+): number {
+  if (requiredWorkers <= 0) return baseEffectivity;
+
+  const staffing = Math.min(1, Math.max(0, workerCount) / requiredWorkers);
+  return Math.round(baseEffectivity * staffing);
+}
+
+/**
+ * Monthly wage of one worker in a city
+ */
+export function getMonthlyWagePerWorker(baseWage: number): number {
+  return Math.round(baseWage * WORKFORCE_DEFAULTS.MONTHLY_WAGE_PER_BASE_WAGE * 100) / 100;
+}
+
+/**
+ * Monthly wages of a facility's workers
+ */
+export function calculateMonthlyWages(baseWage: number, workerCount: number): number {
+  return Math.round(getMonthlyWagePerWorker(baseWage) * Math.max(0, workerCount) * 100) / 100;
+}
@@ -22,10 +22,25 @@ export const TRANSACTION_CATEGORIES = {
   // Income categories
   SALES: 'sales',
   MARKET_SALE: 'market_sale',
+  CONTRACT_SALE: 'contract_sale',
+  FACILITY_SALE: 'facility_sale',
+  RETAIL_SALE: 'retail_sale',
   
   // Expense categories
   PURCHASE: 'purchase',
   MARKET_PURCHASE: 'market_purchase',
+  SHIPPING: 'shipping',
+  CONTRACT_PURCHASE: 'contract_purchase',
+  WAGES: 'wages',
+  FACILITY_UPGRADE: 'facility_upgrade',
+  FACILITY_PURCHASE: 'facility_purchase',
+
+  // Supply contract shortfalls (paid by the party at fault, received by the other)
+  CONTRACT_PENALTY: 'contract_penalty',
+
+  // Marketplace fees (paid to the system account, i.e. removed from the economy)
+  LISTING_FEE: 'listing_fee',
+  SALES_FEE: 'sales_fee',
   
   // Capital flow (not included in income/expense calculations)
   STARTING_CAPITAL: 'starting_capital',
@@ -39,10 +54,19 @@ export const TRANSACTION_CATEGORIES = {
  * Categories that represent capital flow (not operational income/expense)
  * These don't affect profit/loss calculations
  */
-export const CAPITAL_FLOW_CATEGORIES = new Set([
+export const CAPITAL_FLOW_CATEGORIES = new Set<string>([
   TRANSACTION_CATEGORIES.STARTING_CAPITAL,
 ]);
 
+/**
+ * Categories of fees paid to the system account
+ * Money charged under these is credited to the market_fees system account
+ */
+export const FEE_CATEGORIES = new Set<string>([
+  TRANSACTION_CATEGORIES.LISTING_FEE,
+  TRANSACTION_CATEGORIES.SALES_FEE,
+]);
+
 /**
  * Create a transaction and update company balance
  * This is the primary function for recording financial activity
@@ -190,7 +214,7 @@ export async function getFinancialSummary(companyName: string): Promise<{
     
     transactions.forEach(transaction => {
       // Skip capital flow transactions
-      if (CAPITAL_FLOW_CATEGORIES.has(transaction.category as any)) {
+      if (CAPITAL_FLOW_CATEGORIES.has(transaction.category)) {
         return;
       }
       
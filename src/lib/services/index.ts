@@ -2,6 +2,7 @@
 // Add services here as they are created
 
 export * from './admin';
+export * from './city';
 export * from './core';
 export * from './facility';
 export * from './finance';
@@ -0,0 +1,246 @@
+import {
+  getCompanyByName,
+  getSupplyContractsByCompanyId,
+  getContractDeliveries,
+  createSupplyContract,
+  acceptSupplyContract,
+  rejectSupplyContract,
+  cancelSupplyContract,
+  type SupplyContract,
+  type ContractDelivery,
+  type ContractSide,
+  type ContractStatus,
+  type SupplyContractResult,
+} from '@/lib/database';
+import { getResourceName, CONTRACT_DEFAULTS } from '@/lib/constants';
+import { getErrorMessage } from '@/lib/utils/utils';
+import { notificationService } from '../core/notificationService';
+import type { ResourceId } from '@/lib/types/types';
+
+/**
+ * Contract Service
+ * Recurring supply contracts between facilities of two companies.
+ * One company proposes, the other accepts with its facility or rejects.
+ * Deliveries, payments and shortfall penalties run in the game tick
+ * (processSupplyContracts in the game-tick edge function).
+ */
+
+const NOTIFICATION_ORIGIN = 'supplyContracts';
+const NOTIFICATION_SOURCE = 'Contracts';
+
+/**
+ * Interface for proposing a supply contract
+ */
+export interface ProposeContractRequest {
+  companyId: string;
+  counterpartyName: string; // Company name of the contract partner
+  side: ContractSide; // 'supply': facilityId delivers, 'buy': facilityId receives
+  facilityId: string;
+  resourceId: ResourceId;
+  quantityPerDelivery: number;
+  pricePerUnit: number;
+  intervalTicks: number;
+  totalDeliveries: number;
+}
+
+/**
+ * Contracts grouped for the overview page
+ */
+export interface ContractOverview {
+  proposed: SupplyContract[];
+  active: SupplyContract[];
+  fulfilled: SupplyContract[];
+  breached: SupplyContract[];
+  closed: SupplyContract[]; // Rejected or cancelled proposals
+}
+
+/**
+ * The company on the other side of a contract
+ */
+export function getContractCounterparty(contract: SupplyContract, companyId: string): { id: string; name: string } {
+  return contract.supplierCompanyId === companyId
+    ? { id: contract.buyerCompanyId, name: contract.buyerCompanyName }
+    : { id: contract.supplierCompanyId, name: contract.supplierCompanyName };
+}
+
+/**
+ * Name of one of the two companies of a contract
+ */
+function getPartyName(contract: SupplyContract, companyId: string): string {
+  return contract.supplierCompanyId === companyId ? contract.supplierCompanyName : contract.buyerCompanyName;
+}
+
+/**
+ * Short description of the contract terms, e.g. "50 Flour every 3 ticks at 2.50/unit, 10 deliveries"
+ */
+export function describeContract(
+  contract: Pick<SupplyContract, 'resourceId' | 'quantityPerDelivery' | 'pricePerUnit' | 'intervalTicks' | 'totalDeliveries'>
+): string {
+  const interval = contract.intervalTicks === 1 ? 'every tick' : `every ${contract.intervalTicks} ticks`;
+  return `${contract.quantityPerDelivery} ${getResourceName(contract.resourceId)} ${interval} at ${contract.pricePerUnit.toFixed(2)}/unit, ${contract.totalDeliveries} deliveries`;
+}
+
+/**
+ * Value of a single delivery
+ */
+export function getDeliveryValue(contract: Pick<SupplyContract, 'quantityPerDelivery' | 'pricePerUnit'>): number {
+  return Math.round(contract.quantityPerDelivery * contract.pricePerUnit * 100) / 100;
+}
+
+/**
+ * Deliveries still scheduled (successful and missed deliveries both use up a slot)
+ */
+export function getRemainingDeliveries(contract: SupplyContract): number {
+  return Math.max(0, contract.totalDeliveries - contract.deliveriesCompleted - contract.deliveriesMissed);
+}
+
+/**
+ * Group contracts by status for the overview page
+ */
+export function groupContractsByStatus(contracts: SupplyContract[]): ContractOverview {
+  const byStatus = (...statuses: ContractStatus[]) => contracts.filter(c => statuses.includes(c.contractStatus));
+  return {
+    proposed: byStatus('proposed'),
+    active: byStatus('active'),
+    fulfilled: byStatus('fulfilled'),
+    breached: byStatus('breached'),
+    closed: byStatus('rejected', 'cancelled'),
+  };
+}
+
+/**
+ * Notify the other party of a contract
+ */
+async function notifyCounterparty(contract: SupplyContract, companyId: string, text: string): Promise<void> {
+  try {
+    const counterparty = getContractCounterparty(contract, companyId);
+    await notificationService.addMessage(text, NOTIFICATION_ORIGIN, NOTIFICATION_SOURCE, 'sales', counterparty.name);
+  } catch (error) {
+    // The contract change already succeeded; a missing notification must not undo it
+    console.error('Supply contract notification error:', error);
+  }
+}
+
+/**
+ * Propose a supply contract to another company by name
+ */
+export async function proposeSupplyContract(request: ProposeContractRequest): Promise<SupplyContractResult> {
+  try {
+    if (!Number.isFinite(request.quantityPerDelivery) || request.quantityPerDelivery <= 0) {
+      return { success: false, error: 'Quantity per delivery must be greater than 0' };
+    }
+
+    if (!Number.isFinite(request.pricePerUnit) || request.pricePerUnit < 0) {
+      return { success: false, error: 'Price cannot be negative' };
+    }
+
+    if (!Number.isInteger(request.intervalTicks) || request.intervalTicks <= 0) {
+      return { success: false, error: 'Interval must be a whole number of ticks' };
+    }
+
+    if (!Number.isInteger(request.totalDeliveries) || request.totalDeliveries <= 0) {
+      return { success: false, error: 'Contract needs at least one delivery' };
+    }
+
+    const counterparty = await getCompanyByName(request.counterpartyName.trim());
+    if (!counterparty) {
+      return { success: false, error: `Company "${request.counterpartyName}" not found` };
+    }
+
+    const result = await createSupplyContract({
+      companyId: request.companyId,
+      counterpartyCompanyId: counterparty.id,
+      side: request.side,
+      facilityId: request.facilityId,
+      resourceId: request.resourceId,
+      quantityPerDelivery: request.quantityPerDelivery,
+      pricePerUnit: request.pricePerUnit,
+      intervalTicks: request.intervalTicks,
+      totalDeliveries: request.totalDeliveries,
+      penaltyRate: CONTRACT_DEFAULTS.PENALTY_RATE,
+      maxMissedDeliveries: CONTRACT_DEFAULTS.MAX_MISSED_DELIVERIES,
+    });
+
+    if (result.success && result.contract) {
+      const role = request.side === 'supply' ? 'supply you with' : 'buy from you';
+      await notifyCounterparty(
+        result.contract,
+        request.companyId,
+        `📝 ${getPartyName(result.contract, request.companyId)} proposes a contract to ${role} ${describeContract(result.contract)}`
+      );
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Propose supply contract error:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to propose contract') };
+  }
+}
+
+/**
+ * Accept a proposed contract; the first delivery is due one interval later
+ */
+export async function acceptContract(
+  contract: SupplyContract,
+  companyId: string,
+  facilityId: string
+): Promise<SupplyContractResult> {
+  try {
+    const result = await acceptSupplyContract(contract.id, companyId, facilityId);
+
+    if (result.success && result.contract) {
+      await notifyCounterparty(
+        result.contract,
+        companyId,
+        `🤝 ${getPartyName(contract, companyId)} accepted your contract: ${describeContract(contract)}; first delivery at tick ${result.contract.nextDeliveryTick}`
+      );
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Accept supply contract error:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to accept contract') };
+  }
+}
+
+/**
+ * Reject a proposed contract addressed to the company
+ */
+export async function rejectContract(contract: SupplyContract, companyId: string): Promise<SupplyContract> {
+  try {
+    const rejected = await rejectSupplyContract(contract.id, companyId);
+    await notifyCounterparty(contract, companyId, `❌ ${getPartyName(contract, companyId)} rejected your contract: ${describeContract(contract)}`);
+    return rejected;
+  } catch (error) {
+    console.error('Reject supply contract error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a contract proposal before it is accepted
+ */
+export async function cancelContract(contract: SupplyContract, companyId: string): Promise<SupplyContract> {
+  try {
+    const cancelled = await cancelSupplyContract(contract.id, companyId);
+    await notifyCounterparty(contract, companyId, `🚫 ${getPartyName(contract, companyId)} withdrew a contract proposal: ${describeContract(contract)}`);
+    return cancelled;
+  } catch (error) {
+    console.error('Cancel supply contract error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all contracts of a company (both sides, all statuses), newest first
+ */
+export async function getCompanyContracts(companyId: string): Promise<SupplyContract[]> {
+  return getSupplyContractsByCompanyId(companyId);
+}
+
+/**
+ * Get the delivery history of a contract
+ */
+export async function getContractHistory(contractId: string): Promise<ContractDelivery[]> {
+  return getContractDeliveries(contractId);
+}
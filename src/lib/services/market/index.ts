@@ -1,3 +1,7 @@
 // Market service barrel export
 export * from './marketService';
-
+export * from './orderService';
+export * from './priceHistoryService';
+export * from './shippingService';
+export * from './tradeOfferService';
+export * from './contractService';
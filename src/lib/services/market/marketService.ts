@@ -1,16 +1,32 @@
 import { 
-  createMarketListing, 
+  createFacilityListings,
   updateMarketListing, 
   cancelMarketListing,
   getListingsByFacilityId,
+  getListingsByCompanyId,
   getActiveMarketListings,
   getActiveListingsByResource,
-  batchCreateListings,
+  getListingById,
   cancelAllFacilityListings,
+  executeListingPurchase,
+  renewMarketListing,
   type MarketListing,
-  type ListingStatus
+  type NewMarketListing,
+  type ListingPurchaseResult,
+  type ListingRenewalResult
 } from '@/lib/database/market/marketListingsDB';
-import { getFacilityById } from '@/lib/database';
+import {
+  getFacilityById,
+  reserveFacilityInventory,
+  releaseFacilityInventory,
+  sumTransactionsByCategory,
+} from '@/lib/database';
+import { getErrorMessage } from '@/lib/utils/utils';
+import { TRANSACTION_CATEGORIES, FEE_CATEGORIES } from '../finance/transactionService';
+import { getAvailableQuantity, getFreeCapacity } from '../production/productionSimulation';
+import { matchListingAgainstOrders } from './orderService';
+import { calculateShipping, type ShippingQuote } from './shippingService';
+import { getGameState } from '../core/gameState';
 import type { Facility, ResourceId } from '@/lib/types/types';
 
 /**
@@ -28,6 +44,7 @@ export interface CreateListingRequest {
   resourceId: ResourceId;
   quantity: number;
   pricePerUnit: number;
+  expiryTicks?: number; // Optional lifetime in game ticks
 }
 
 /**
@@ -41,7 +58,8 @@ export interface ListingValidationResult {
 
 /**
  * Validate if a facility can create a listing for a resource
- * Checks if facility has enough quantity in inventory
+ * Checks if facility has enough unreserved quantity in inventory
+ * (stock already reserved by other listings cannot be listed again)
  */
 export function validateListingCreation(
   facility: Facility,
@@ -61,12 +79,14 @@ export function validateListingCreation(
     };
   }
 
-  // Check if facility has enough quantity
-  if (inventoryItem.quantity < quantity) {
+  const availableQuantity = getAvailableQuantity(facility.inventory, resourceId);
+
+  // Check if facility has enough unreserved quantity
+  if (availableQuantity < quantity) {
     return {
       valid: false,
-      error: `Insufficient quantity. Available: ${inventoryItem.quantity}, Requested: ${quantity}`,
-      availableQuantity: inventoryItem.quantity,
+      error: `Insufficient quantity. Available: ${availableQuantity}, Requested: ${quantity}`,
+      availableQuantity,
     };
   }
 
@@ -75,20 +95,84 @@ export function validateListingCreation(
     return {
       valid: false,
       error: 'Quantity must be greater than 0',
-      availableQuantity: inventoryItem.quantity,
+      availableQuantity,
     };
   }
 
   return {
     valid: true,
-    availableQuantity: inventoryItem.quantity,
+    availableQuantity,
+  };
+}
+
+/**
+ * Resolve the expiry fields for a new listing from an optional lifetime in ticks
+ * Listings without a lifetime never expire
+ */
+function resolveListingExpiry(expiryTicks?: number): { expiryTicks: number | null; expiresAtTick: number | null } {
+  if (expiryTicks === undefined || expiryTicks === null || expiryTicks === 0) {
+    return { expiryTicks: null, expiresAtTick: null };
+  }
+
+  if (!Number.isInteger(expiryTicks) || expiryTicks < 0) {
+    throw new Error('Expiry must be a whole number of ticks');
+  }
+
+  return {
+    expiryTicks,
+    expiresAtTick: getGameState().time.tick + expiryTicks,
   };
 }
 
+/**
+ * Create validated listings server-side, charging the listing fee with them
+ * Throws when the stock can no longer be reserved or the fee cannot be paid
+ */
+async function createListingsWithFee(
+  facilityId: string,
+  companyId: string,
+  listings: NewMarketListing[]
+): Promise<MarketListing[]> {
+  const result = await createFacilityListings(
+    facilityId,
+    companyId,
+    listings,
+    TRANSACTION_CATEGORIES.LISTING_FEE
+  );
+
+  if (!result.success || !result.listings) {
+    throw new Error(result.error || 'Failed to create listings');
+  }
+
+  return result.listings;
+}
+
+/**
+ * Fill open buy orders from newly created listings
+ * Matching failures are logged but never undo the listings themselves
+ * Returns the listings reloaded when any of them traded
+ */
+async function matchNewListings(listings: MarketListing[]): Promise<MarketListing[]> {
+  const matched: MarketListing[] = [];
+
+  for (const listing of listings) {
+    try {
+      const result = await matchListingAgainstOrders(listing.id);
+      matched.push(result.filledQuantity > 0 ? (await getListingById(listing.id)) ?? listing : listing);
+    } catch (error) {
+      console.error(`Matching listing ${listing.id} against buy orders failed:`, error);
+      matched.push(listing);
+    }
+  }
+
+  return matched;
+}
+
 /**
  * Create a single market listing
- * Validates inventory and creates the listing
- * Note: This does NOT remove items from inventory until they are sold
+ * Validates inventory and reserves the listed quantity in the facility inventory
+ * Items stay in inventory (reserved) until sold, or released when the listing is cancelled
+ * Charges the listing fee, then matches the new listing against open buy orders right away
  */
 export async function createListing(
   request: CreateListingRequest
@@ -99,6 +183,8 @@ export async function createListing(
       throw new Error('Price per unit cannot be negative');
     }
 
+    const expiry = resolveListingExpiry(request.expiryTicks);
+
     // Get facility to validate inventory
     const facility = await getFacilityById(request.facilityId);
     if (!facility) {
@@ -116,17 +202,16 @@ export async function createListing(
       throw new Error(validation.error);
     }
 
-    // Create listing
-    const listing = await createMarketListing({
-      facilityId: request.facilityId,
-      companyId: request.companyId,
+    // Reserve stock, create the listing and charge the fee in one transaction
+    const [listing] = await createListingsWithFee(request.facilityId, request.companyId, [{
       resourceId: request.resourceId,
       quantity: request.quantity,
       pricePerUnit: request.pricePerUnit,
-      listingStatus: 'active',
-    });
+      ...expiry,
+    }]);
 
-    return listing;
+    const [matchedListing] = await matchNewListings([listing]);
+    return matchedListing;
   } catch (error: any) {
     console.error('Create listing error:', error);
     throw error;
@@ -135,14 +220,17 @@ export async function createListing(
 
 /**
  * Create multiple listings at once for a facility
- * Validates all listings before creating any
+ * Validates all listings before creating any, charges one listing fee per listing,
+ * then matches each against open buy orders
  */
 export async function createMultipleListings(
   facilityId: string,
   companyId: string,
-  listings: Array<{ resourceId: ResourceId; quantity: number; pricePerUnit: number }>
+  listings: Array<{ resourceId: ResourceId; quantity: number; pricePerUnit: number; expiryTicks?: number }>
 ): Promise<MarketListing[]> {
   try {
+    const expiries = listings.map(listing => resolveListingExpiry(listing.expiryTicks));
+
     // Get facility to validate inventory
     const facility = await getFacilityById(facilityId);
     if (!facility) {
@@ -173,19 +261,19 @@ export async function createMultipleListings(
       throw new Error(`Validation failed:\n${validationErrors.join('\n')}`);
     }
 
-    // Create all listings
-    const listingRequests = listings.map(listing => ({
+    // Reserve stock, create all listings and charge the fees in one transaction
+    const created = await createListingsWithFee(
       facilityId,
       companyId,
-      resourceId: listing.resourceId,
-      quantity: listing.quantity,
-      pricePerUnit: listing.pricePerUnit,
-      listingStatus: 'active' as ListingStatus,
-    }));
-
-    const createdListings = await batchCreateListings(listingRequests);
+      listings.map((listing, index) => ({
+        resourceId: listing.resourceId,
+        quantity: listing.quantity,
+        pricePerUnit: listing.pricePerUnit,
+        ...expiries[index],
+      }))
+    );
 
-    return createdListings;
+    return await matchNewListings(created);
   } catch (error: any) {
     console.error('Create multiple listings error:', error);
     throw error;
@@ -195,7 +283,7 @@ export async function createMultipleListings(
 /**
  * Update an existing listing
  * Can update quantity and/or price
- * Validates new quantity against current inventory
+ * Quantity changes reserve or release the difference in the facility inventory
  */
 export async function updateListing(
   listingId: string,
@@ -211,10 +299,34 @@ export async function updateListing(
       throw new Error('Price per unit cannot be negative');
     }
 
-    // Update listing
-    const updatedListing = await updateMarketListing(listingId, updates);
+    // Adjust the reservation by the quantity difference
+    let undoReservation: (() => Promise<unknown>) | null = null;
+    if (updates.quantity !== undefined) {
+      const listing = await getListingById(listingId);
+      if (!listing || listing.listingStatus !== 'active') {
+        throw new Error('Only active listings can be updated');
+      }
+
+      const delta = updates.quantity - listing.quantity;
+      if (delta > 0) {
+        const reservation = await reserveFacilityInventory(listing.facilityId, listing.resourceId, delta);
+        if (!reservation.success) {
+          throw new Error(reservation.error);
+        }
+        undoReservation = () => releaseFacilityInventory(listing.facilityId, listing.resourceId, delta);
+      } else if (delta < 0) {
+        await releaseFacilityInventory(listing.facilityId, listing.resourceId, -delta);
+        undoReservation = () => reserveFacilityInventory(listing.facilityId, listing.resourceId, -delta);
+      }
+    }
 
-    return updatedListing;
+    // Update listing, restoring the previous reservation if that fails
+    try {
+      return await updateMarketListing(listingId, updates);
+    } catch (error) {
+      await undoReservation?.();
+      throw error;
+    }
   } catch (error: any) {
     console.error('Update listing error:', error);
     throw error;
@@ -223,7 +335,7 @@ export async function updateListing(
 
 /**
  * Cancel a listing
- * Sets status to 'cancelled' and makes it inactive
+ * Sets status to 'cancelled' and releases its inventory reservation
  */
 export async function cancelListing(listingId: string): Promise<MarketListing> {
   try {
@@ -236,9 +348,39 @@ export async function cancelListing(listingId: string): Promise<MarketListing> {
   }
 }
 
+/**
+ * Renew an active or expired listing
+ * Extends it by expiryTicks (defaults to its original lifetime) from the current tick;
+ * expired listings re-reserve their quantity and fail if the stock is gone
+ */
+export async function renewListing(listingId: string, expiryTicks?: number): Promise<ListingRenewalResult> {
+  try {
+    if (expiryTicks !== undefined && (!Number.isInteger(expiryTicks) || expiryTicks <= 0)) {
+      return { success: false, error: 'Expiry must be a positive whole number of ticks' };
+    }
+
+    return await renewMarketListing(listingId, expiryTicks);
+  } catch (error) {
+    console.error('Renew listing error:', error);
+    return {
+      success: false,
+      error: getErrorMessage(error, 'Failed to renew listing'),
+    };
+  }
+}
+
+/**
+ * Ticks left before an active listing expires
+ * Returns null for listings without an expiry, 0 once the expiry tick is reached
+ */
+export function getListingTicksRemaining(listing: MarketListing, currentTick: number): number | null {
+  if (listing.expiresAtTick === null) return null;
+  return Math.max(0, listing.expiresAtTick - currentTick);
+}
+
 /**
  * Cancel all active listings for a facility
- * Useful when a facility is being closed or needs to remove all listings
+ * Releases their reservations; useful when a facility is being closed or needs to remove all listings
  */
 export async function cancelAllListingsForFacility(facilityId: string): Promise<number> {
   try {
@@ -252,18 +394,18 @@ export async function cancelAllListingsForFacility(facilityId: string): Promise<
 }
 
 /**
- * Get all active listings from the marketplace
+ * Get all active listings from the current world's marketplace
  */
 export async function getAllActiveListings(): Promise<MarketListing[]> {
-  return getActiveMarketListings();
+  return getActiveMarketListings(getGameState().worldId);
 }
 
 /**
- * Get all active listings for a specific resource
+ * Get all active listings for a specific resource in the current world
  * Sorted by price (cheapest first)
  */
 export async function getListingsForResource(resourceId: ResourceId): Promise<MarketListing[]> {
-  return getActiveListingsByResource(resourceId);
+  return getActiveListingsByResource(resourceId, getGameState().worldId);
 }
 
 /**
@@ -273,42 +415,124 @@ export async function getFacilityListings(facilityId: string): Promise<MarketLis
   return getListingsByFacilityId(facilityId);
 }
 
+/**
+ * Get all listings for a company (all statuses)
+ */
+export async function getCompanyListings(companyId: string): Promise<MarketListing[]> {
+  return getListingsByCompanyId(companyId);
+}
+
+/**
+ * Preview of a purchase before it is submitted
+ * Used by the purchase dialog for live cost and capacity feedback
+ */
+export interface PurchasePreview {
+  quantity: number;
+  totalCost: number; // Goods only
+  shipping: ShippingQuote | null; // null until a destination is chosen or when no route exists
+  landedCost: number; // Goods plus shipping
+  freeCapacity: number; // Free capacity of the destination facility before the purchase (minus goods in transit to it)
+  remainingCapacity: number; // Free capacity left after the purchase
+  maxQuantity: number; // Largest quantity that fits the listing and the destination facility
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Calculate cost, shipping and destination capacity for buying part of a listing
+ * inboundQuantity is what is already in transit to the destination facility
+ */
+export function calculatePurchasePreview(
+  listing: MarketListing,
+  buyerFacility: Facility | null,
+  quantity: number,
+  inboundQuantity: number = 0
+): PurchasePreview {
+  const freeCapacity = buyerFacility ? getFreeCapacity(buyerFacility.inventory, inboundQuantity) : 0;
+  const maxQuantity = Math.min(listing.quantity, freeCapacity);
+  const totalCost = Math.max(0, quantity) * listing.pricePerUnit;
+  const shipping = buyerFacility && listing.cityId
+    ? calculateShipping(listing.cityId, buyerFacility.cityId, quantity)
+    : null;
+
+  const preview: PurchasePreview = {
+    quantity,
+    totalCost,
+    shipping,
+    landedCost: totalCost + (shipping?.cost ?? 0),
+    freeCapacity,
+    remainingCapacity: freeCapacity - quantity,
+    maxQuantity,
+    valid: true,
+  };
+
+  if (!buyerFacility) {
+    return { ...preview, valid: false, error: 'Select a destination facility' };
+  }
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return { ...preview, valid: false, error: 'Quantity must be greater than 0' };
+  }
+  if (quantity > listing.quantity) {
+    return { ...preview, valid: false, error: `Only ${listing.quantity} units available on this listing` };
+  }
+  if (quantity > freeCapacity) {
+    return { ...preview, valid: false, error: `Destination facility only has room for ${freeCapacity} units` };
+  }
+  if (listing.cityId && !shipping) {
+    return { ...preview, valid: false, error: 'No shipping route to the destination facility' };
+  }
+
+  return preview;
+}
+
 /**
  * Purchase from a market listing
- * Handles inventory transfer and payment
- * TODO: Implement when transaction/finance system is ready
+ * Validation, inventory transfer, payment and the paired market_purchase/market_sale
+ * transactions run server-side in a single database transaction, so two buyers
+ * racing for the same listing can never both succeed.
+ * Goods from another city are charged shipping and arrive as a shipment later.
  */
 export async function purchaseFromListing(
-  _listingId: string,
-  _buyerFacilityId: string,
-  _quantity: number
-): Promise<{ success: boolean; error?: string }> {
-  // TODO: Implement purchase logic
-  // 1. Validate buyer facility exists and has space
-  // 2. Validate buyer company has enough money
-  // 3. Remove items from seller facility inventory
-  // 4. Add items to buyer facility inventory
-  // 5. Transfer money from buyer to seller
-  // 6. Update or mark listing as sold
-  // 7. Create transaction record
-  
-  return {
-    success: false,
-    error: 'Purchase functionality not yet implemented - requires transaction system',
-  };
+  listingId: string,
+  buyerFacilityId: string,
+  quantity: number
+): Promise<ListingPurchaseResult> {
+  try {
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      return { success: false, error: 'Quantity must be greater than 0' };
+    }
+
+    return await executeListingPurchase(listingId, buyerFacilityId, quantity, {
+      purchase: TRANSACTION_CATEGORIES.MARKET_PURCHASE,
+      sale: TRANSACTION_CATEGORIES.MARKET_SALE,
+      fee: TRANSACTION_CATEGORIES.SALES_FEE,
+      shipping: TRANSACTION_CATEGORIES.SHIPPING,
+    });
+  } catch (error) {
+    console.error('Purchase from listing error:', error);
+    return {
+      success: false,
+      error: getErrorMessage(error, 'Purchase failed'),
+    };
+  }
 }
 
 /**
- * Get marketplace statistics
+ * Get marketplace statistics of the current world
  * Useful for analytics and UI display
+ * totalFeesCollected is all listing and sales fees ever paid to the system account (all worlds)
  */
 export async function getMarketplaceStats(): Promise<{
   totalActiveListings: number;
   uniqueResources: number;
   uniqueSellers: number;
+  totalFeesCollected: number;
 }> {
   try {
-    const listings = await getActiveMarketListings();
+    const [listings, feeTotal] = await Promise.all([
+      getActiveMarketListings(getGameState().worldId),
+      sumTransactionsByCategory(Array.from(FEE_CATEGORIES)),
+    ]);
 
     const uniqueResources = new Set(listings.map(l => l.resourceId)).size;
     const uniqueSellers = new Set(listings.map(l => l.facilityId)).size;
@@ -317,6 +541,7 @@ export async function getMarketplaceStats(): Promise<{
       totalActiveListings: listings.length,
       uniqueResources,
       uniqueSellers,
+      totalFeesCollected: -feeTotal, // Fees are recorded as negative amounts
     };
   } catch (error: any) {
     console.error('Get marketplace stats error:', error);
@@ -0,0 +1,203 @@
+import {
+  placeMarketOrder,
+  cancelMarketOrder,
+  matchListingOrders,
+  getOpenOrdersByResource,
+  getOrdersByCompanyId,
+  getActiveListingsByResource,
+  type MarketOrder,
+  type MarketListing,
+  type OrderPlacementResult,
+  type ListingMatchResult,
+} from '@/lib/database';
+import { getErrorMessage } from '@/lib/utils/utils';
+import { TRANSACTION_CATEGORIES } from '../finance/transactionService';
+import { getGameState } from '../core/gameState';
+import type { ResourceId } from '@/lib/types/types';
+
+/**
+ * Order Service
+ * Buy side of the marketplace: companies post buy orders (bids) that are
+ * matched against sell listings with price-time priority.
+ * Matching and settlement run server-side (place_market_order / match_listing_orders RPCs).
+ */
+
+export const MARKET_TRADE_CATEGORIES = {
+  purchase: TRANSACTION_CATEGORIES.MARKET_PURCHASE,
+  sale: TRANSACTION_CATEGORIES.MARKET_SALE,
+  fee: TRANSACTION_CATEGORIES.SALES_FEE,
+  shipping: TRANSACTION_CATEGORIES.SHIPPING,
+};
+
+/**
+ * Interface for placing a new buy order
+ */
+export interface PlaceOrderRequest {
+  companyId: string;
+  facilityId: string; // Destination facility for filled quantities
+  resourceId: ResourceId;
+  quantity: number;
+  maxPricePerUnit: number;
+}
+
+/**
+ * Place a buy order
+ * The order is matched immediately against active listings; any unfilled
+ * remainder stays open and is matched against listings created later
+ */
+export async function placeBuyOrder(request: PlaceOrderRequest): Promise<OrderPlacementResult> {
+  try {
+    if (!Number.isFinite(request.quantity) || request.quantity <= 0) {
+      return { success: false, error: 'Quantity must be greater than 0', filledQuantity: 0, totalCost: 0 };
+    }
+
+    if (!Number.isFinite(request.maxPricePerUnit) || request.maxPricePerUnit < 0) {
+      return { success: false, error: 'Maximum price cannot be negative', filledQuantity: 0, totalCost: 0 };
+    }
+
+    return await placeMarketOrder(request, MARKET_TRADE_CATEGORIES);
+  } catch (error) {
+    console.error('Place buy order error:', error);
+    return {
+      success: false,
+      error: getErrorMessage(error, 'Failed to place order'),
+      filledQuantity: 0,
+      totalCost: 0,
+    };
+  }
+}
+
+/**
+ * Cancel an open buy order
+ */
+export async function cancelBuyOrder(orderId: string): Promise<MarketOrder> {
+  try {
+    return await cancelMarketOrder(orderId);
+  } catch (error) {
+    console.error('Cancel buy order error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fill open buy orders from a newly created listing
+ * Called after createListing/createMultipleListings
+ */
+export async function matchListingAgainstOrders(listingId: string): Promise<ListingMatchResult> {
+  return matchListingOrders(listingId, MARKET_TRADE_CATEGORIES);
+}
+
+/**
+ * Get open buy orders for a resource in the current world, in price-time priority
+ */
+export async function getOpenOrdersForResource(resourceId: ResourceId): Promise<MarketOrder[]> {
+  return getOpenOrdersByResource(resourceId, getGameState().worldId);
+}
+
+/**
+ * Get all orders for a company (all statuses)
+ */
+export async function getCompanyOrders(companyId: string): Promise<MarketOrder[]> {
+  return getOrdersByCompanyId(companyId);
+}
+
+/**
+ * One price level of the order book
+ */
+export interface OrderBookLevel {
+  price: number;
+  quantity: number; // Total quantity at this price
+  count: number; // Number of listings/orders at this price
+  cumulativeQuantity: number; // Depth from the best price up to and including this level
+}
+
+/**
+ * Order book for one resource
+ * asks: sell listings, cheapest first; bids: buy orders, highest first
+ */
+export interface OrderBook {
+  resourceId: ResourceId;
+  asks: OrderBookLevel[];
+  bids: OrderBookLevel[];
+  bestAsk: number | null;
+  bestBid: number | null;
+  spread: number | null;
+  orders: MarketOrder[]; // Open bids, price-time priority
+}
+
+/**
+ * Aggregate entries into price levels in the given (already sorted) order
+ */
+function aggregateLevels(entries: Array<{ price: number; quantity: number }>): OrderBookLevel[] {
+  const levels: OrderBookLevel[] = [];
+  let cumulativeQuantity = 0;
+
+  for (const entry of entries) {
+    cumulativeQuantity += entry.quantity;
+    const last = levels[levels.length - 1];
+    if (last && last.price === entry.price) {
+      last.quantity += entry.quantity;
+      last.count += 1;
+      last.cumulativeQuantity = cumulativeQuantity;
+    } else {
+      levels.push({ price: entry.price, quantity: entry.quantity, count: 1, cumulativeQuantity });
+    }
+  }
+
+  return levels;
+}
+
+/**
+ * Build the order book from active listings and open orders
+ */
+export function buildOrderBook(
+  resourceId: ResourceId,
+  listings: MarketListing[],
+  orders: MarketOrder[]
+): OrderBook {
+  const asks = aggregateLevels(
+    listings
+      .filter(l => l.resourceId === resourceId && l.listingStatus === 'active')
+      .sort((a, b) => a.pricePerUnit - b.pricePerUnit || a.createdAt.localeCompare(b.createdAt))
+      .map(l => ({ price: l.pricePerUnit, quantity: l.quantity }))
+  );
+
+  const openOrders = orders
+    .filter(o => o.resourceId === resourceId && o.orderStatus === 'open')
+    .sort((a, b) => b.maxPricePerUnit - a.maxPricePerUnit || a.createdAt.localeCompare(b.createdAt));
+
+  const bids = aggregateLevels(
+    openOrders.map(o => ({ price: o.maxPricePerUnit, quantity: o.quantity }))
+  );
+
+  const bestAsk = asks.length > 0 ? asks[0].price : null;
+  const bestBid = bids.length > 0 ? bids[0].price : null;
+
+  return {
+    resourceId,
+    asks,
+    bids,
+    bestAsk,
+    bestBid,
+    spread: bestAsk !== null && bestBid !== null ? bestAsk - bestBid : null,
+    orders: openOrders,
+  };
+}
+
+/**
+ * Fetch listings and open orders for a resource in the current world and build its order book
+ */
+export async function getOrderBook(resourceId: ResourceId): Promise<OrderBook> {
+  try {
+    const { worldId } = getGameState();
+    const [listings, orders] = await Promise.all([
+      getActiveListingsByResource(resourceId, worldId),
+      getOpenOrdersByResource(resourceId, worldId),
+    ]);
+
+    return buildOrderBook(resourceId, listings, orders);
+  } catch (error) {
+    console.error('Get order book error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,152 @@
+import { getPriceEventsByResource, type PriceEvent } from '@/lib/database';
+import { DAYS_PER_MONTH } from '@/lib/constants';
+import type { ResourceId } from '@/lib/types/types';
+import { getGameState } from '../core/gameState';
+
+/**
+ * Price History Service
+ * Turns recorded listing events (sales, price changes, cancellations) into
+ * OHLC/volume series and price suggestions. Only sales count as trades.
+ */
+
+/**
+ * Window used for the suggested price: the last game month (one tick per day)
+ */
+export const PRICE_SUGGESTION_WINDOW_TICKS = DAYS_PER_MONTH;
+
+/**
+ * Newest price events loaded per resource; candles reach back as far as these go
+ */
+export const PRICE_HISTORY_MAX_EVENTS = 1000;
+
+export type PricePeriod = 'day' | 'month';
+
+/**
+ * One OHLC candle of traded prices for a game day or game month
+ */
+export interface PriceCandle {
+  year: number;
+  month: number;
+  day: number | null; // null for monthly candles
+  label: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Units traded
+  vwap: number;
+  tradeCount: number;
+}
+
+/**
+ * Aggregate sale events into daily or monthly candles, oldest first
+ * Events are expected in chronological order
+ */
+export function aggregatePriceCandles(events: PriceEvent[], period: PricePeriod): PriceCandle[] {
+  const candles = new Map<string, PriceCandle>();
+  const turnovers = new Map<string, number>();
+
+  for (const event of events) {
+    if (event.eventType !== 'sale' || event.quantity <= 0) continue;
+
+    const day = period === 'day' ? event.gameDay : null;
+    const key = `${event.gameYear}-${event.gameMonth}-${day ?? 0}`;
+    const candle = candles.get(key);
+
+    if (!candle) {
+      candles.set(key, {
+        year: event.gameYear,
+        month: event.gameMonth,
+        day,
+        label: day !== null ? `${day}/${event.gameMonth}/${event.gameYear}` : `${event.gameMonth}/${event.gameYear}`,
+        open: event.pricePerUnit,
+        high: event.pricePerUnit,
+        low: event.pricePerUnit,
+        close: event.pricePerUnit,
+        volume: event.quantity,
+        vwap: event.pricePerUnit,
+        tradeCount: 1,
+      });
+      turnovers.set(key, event.quantity * event.pricePerUnit);
+      continue;
+    }
+
+    candle.high = Math.max(candle.high, event.pricePerUnit);
+    candle.low = Math.min(candle.low, event.pricePerUnit);
+    candle.close = event.pricePerUnit;
+    candle.volume += event.quantity;
+    const turnover = (turnovers.get(key) ?? 0) + event.quantity * event.pricePerUnit;
+    turnovers.set(key, turnover);
+    candle.vwap = turnover / candle.volume;
+    candle.tradeCount += 1;
+  }
+
+  return Array.from(candles.values())
+    .sort((a, b) => a.year - b.year || a.month - b.month || (a.day ?? 0) - (b.day ?? 0));
+}
+
+/**
+ * Volume-weighted average sale price, optionally from a game tick onwards
+ * Returns null when nothing traded
+ */
+export function calculateVWAP(events: PriceEvent[], fromTick?: number): number | null {
+  let volume = 0;
+  let turnover = 0;
+
+  for (const event of events) {
+    if (event.eventType !== 'sale') continue;
+    if (fromTick !== undefined && event.gameTick < fromTick) continue;
+    volume += event.quantity;
+    turnover += event.quantity * event.pricePerUnit;
+  }
+
+  return volume > 0 ? turnover / volume : null;
+}
+
+/**
+ * Suggest a listing price: recent VWAP, else the last sale, else the last asked price
+ */
+export function suggestPrice(events: PriceEvent[], currentTick: number): number | null {
+  const recentVwap = calculateVWAP(events, currentTick - PRICE_SUGGESTION_WINDOW_TICKS);
+  if (recentVwap !== null) return Math.round(recentVwap * 100) / 100;
+
+  const lastSale = [...events].reverse().find(e => e.eventType === 'sale');
+  if (lastSale) return lastSale.pricePerUnit;
+
+  const lastPrice = [...events].reverse().find(e => e.eventType === 'price_change');
+  return lastPrice ? lastPrice.pricePerUnit : null;
+}
+
+/**
+ * Price history summary for one resource
+ */
+export interface PriceHistory {
+  resourceId: ResourceId;
+  events: PriceEvent[];
+  daily: PriceCandle[];
+  monthly: PriceCandle[];
+  recentVwap: number | null; // VWAP over PRICE_SUGGESTION_WINDOW_TICKS
+  suggestedPrice: number | null;
+}
+
+/**
+ * Load and aggregate the price history of a resource in the current world
+ * Uses the newest PRICE_HISTORY_MAX_EVENTS events
+ */
+export async function getPriceHistory(resourceId: ResourceId, currentTick: number): Promise<PriceHistory> {
+  try {
+    const events = await getPriceEventsByResource(resourceId, getGameState().worldId, undefined, PRICE_HISTORY_MAX_EVENTS);
+
+    return {
+      resourceId,
+      events,
+      daily: aggregatePriceCandles(events, 'day'),
+      monthly: aggregatePriceCandles(events, 'month'),
+      recentVwap: calculateVWAP(events, currentTick - PRICE_SUGGESTION_WINDOW_TICKS),
+      suggestedPrice: suggestPrice(events, currentTick),
+    };
+  } catch (error) {
+    console.error('Get price history error:', error);
+    throw error;
+  }
+}
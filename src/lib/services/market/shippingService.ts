@@ -0,0 +1,103 @@
+import { getShipmentsByCompanyId, type MarketListing, type Shipment } from '@/lib/database';
+import { getCityRoute } from '@/lib/constants';
+import type { Facility } from '@/lib/types/types';
+
+/**
+ * Shipping Service
+ * Prices trades between cities using the city route table.
+ * The purchase RPC charges the same rates and creates the shipments;
+ * the game tick delivers them (see create_shipping.sql).
+ */
+
+/**
+ * Shipping cost and delivery time for moving goods between two cities
+ */
+export interface ShippingQuote {
+  fromCityId: string;
+  toCityId: string;
+  isLocal: boolean; // Same city: free and delivered immediately
+  distance: number;
+  costPerUnit: number;
+  cost: number;
+  transitTicks: number;
+}
+
+/**
+ * Quote shipping for a quantity between two cities
+ * Returns null when the cities differ but no route connects them
+ */
+export function calculateShipping(
+  fromCityId: string,
+  toCityId: string,
+  quantity: number
+): ShippingQuote | null {
+  if (fromCityId === toCityId) {
+    return { fromCityId, toCityId, isLocal: true, distance: 0, costPerUnit: 0, cost: 0, transitTicks: 0 };
+  }
+
+  const route = getCityRoute(fromCityId, toCityId);
+  if (!route) return null;
+
+  return {
+    fromCityId,
+    toCityId,
+    isLocal: false,
+    distance: route.distance,
+    costPerUnit: route.shippingCostPerUnit,
+    cost: Math.round(Math.max(0, quantity) * route.shippingCostPerUnit * 100) / 100,
+    transitTicks: route.transitTicks,
+  };
+}
+
+/**
+ * Per-unit price of a listing delivered to a buyer facility
+ */
+export interface LandedCost {
+  pricePerUnit: number;
+  shippingPerUnit: number;
+  landedPricePerUnit: number;
+  transitTicks: number;
+}
+
+/**
+ * Landed cost (price plus shipping) of a listing for a buyer facility
+ * Returns null when the seller city is unknown or unreachable
+ */
+export function calculateLandedCost(listing: MarketListing, buyerFacility: Facility): LandedCost | null {
+  if (!listing.cityId) return null;
+
+  const quote = calculateShipping(listing.cityId, buyerFacility.cityId, 1);
+  if (!quote) return null;
+
+  return {
+    pricePerUnit: listing.pricePerUnit,
+    shippingPerUnit: quote.costPerUnit,
+    landedPricePerUnit: listing.pricePerUnit + quote.costPerUnit,
+    transitTicks: quote.transitTicks,
+  };
+}
+
+/**
+ * Get shipments still travelling to a company's facilities
+ */
+export async function getInTransitShipments(companyId: string): Promise<Shipment[]> {
+  try {
+    return await getShipmentsByCompanyId(companyId, 'in_transit');
+  } catch (error) {
+    console.error('Get in-transit shipments error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Units in transit per destination facility
+ * These units already hold space in the destination inventory
+ */
+export function getInboundQuantityByFacility(shipments: Shipment[]): Record<string, number> {
+  return shipments.reduce((acc, shipment) => {
+    if (shipment.shipmentStatus === 'in_transit') {
+      acc[shipment.toFacilityId] = (acc[shipment.toFacilityId] ?? 0) + shipment.quantity;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+}
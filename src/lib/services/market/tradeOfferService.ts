@@ -0,0 +1,234 @@
+import {
+  getCompanyByName,
+  getTradeOffersByCompanyId,
+  createTradeOffer,
+  counterTradeOffer,
+  acceptTradeOffer,
+  rejectTradeOffer,
+  cancelTradeOffer,
+  type TradeOffer,
+  type TradeOfferSide,
+  type TradeOfferResult,
+  type TradeAcceptResult,
+} from '@/lib/database';
+import { getResourceName, TRADE_OFFER_DEFAULTS } from '@/lib/constants';
+import { getErrorMessage } from '@/lib/utils/utils';
+import { notificationService } from '../core/notificationService';
+import { MARKET_TRADE_CATEGORIES } from './orderService';
+import type { ResourceId } from '@/lib/types/types';
+
+/**
+ * Trade Offer Service
+ * Private company-to-company trades next to the public marketplace.
+ * One company proposes, the other accepts, rejects or counters; pending offers
+ * expire after their expiry ticks (game tick). Accepted offers settle through
+ * the same server-side settlement as listing purchases (accept_trade_offer RPC).
+ * Every step notifies the other party in the 'sales' category.
+ */
+
+const NOTIFICATION_ORIGIN = 'tradeOffers';
+const NOTIFICATION_SOURCE = 'Trade Offers';
+
+/**
+ * Interface for proposing a trade to another company
+ */
+export interface ProposeTradeOfferRequest {
+  companyId: string;
+  counterpartyName: string; // Company name of the trade partner
+  side: TradeOfferSide; // 'sell': facilityId supplies the goods, 'buy': facilityId receives them
+  facilityId: string;
+  resourceId: ResourceId;
+  quantity: number;
+  pricePerUnit: number;
+  expiryTicks?: number; // Defaults to TRADE_OFFER_DEFAULTS.EXPIRY_TICKS
+}
+
+/**
+ * The company on the other side of an offer
+ */
+export function getTradeCounterparty(offer: TradeOffer, companyId: string): { id: string; name: string } {
+  return offer.sellerCompanyId === companyId
+    ? { id: offer.buyerCompanyId, name: offer.buyerCompanyName }
+    : { id: offer.sellerCompanyId, name: offer.sellerCompanyName };
+}
+
+/**
+ * Name of one of the two companies of an offer
+ */
+function getPartyName(offer: TradeOffer, companyId: string): string {
+  return offer.sellerCompanyId === companyId ? offer.sellerCompanyName : offer.buyerCompanyName;
+}
+
+/**
+ * Whether an offer is pending and waiting for this company's answer
+ */
+export function isAwaitingResponse(offer: TradeOffer, companyId: string): boolean {
+  return offer.offerStatus === 'pending' && offer.proposedByCompanyId !== companyId;
+}
+
+/**
+ * Short description of the traded goods, e.g. "10 Wheat at 2.50/unit"
+ */
+export function describeTradeOffer(offer: Pick<TradeOffer, 'resourceId' | 'quantity' | 'pricePerUnit'>): string {
+  return `${offer.quantity} ${getResourceName(offer.resourceId)} at ${offer.pricePerUnit.toFixed(2)}/unit`;
+}
+
+/**
+ * Notify the other party of an offer about a step in the negotiation
+ */
+async function notifyCounterparty(offer: TradeOffer, companyId: string, text: string): Promise<void> {
+  try {
+    const counterparty = getTradeCounterparty(offer, companyId);
+    await notificationService.addMessage(text, NOTIFICATION_ORIGIN, NOTIFICATION_SOURCE, 'sales', counterparty.name);
+  } catch (error) {
+    // The trade itself already succeeded; a missing notification must not undo it
+    console.error('Trade offer notification error:', error);
+  }
+}
+
+/**
+ * Propose a trade to another company by name
+ */
+export async function proposeTradeOffer(request: ProposeTradeOfferRequest): Promise<TradeOfferResult> {
+  try {
+    if (!Number.isFinite(request.quantity) || request.quantity <= 0) {
+      return { success: false, error: 'Quantity must be greater than 0' };
+    }
+
+    if (!Number.isFinite(request.pricePerUnit) || request.pricePerUnit < 0) {
+      return { success: false, error: 'Price cannot be negative' };
+    }
+
+    const expiryTicks = request.expiryTicks ?? TRADE_OFFER_DEFAULTS.EXPIRY_TICKS;
+    if (!Number.isInteger(expiryTicks) || expiryTicks <= 0) {
+      return { success: false, error: 'Expiry must be a whole number of ticks' };
+    }
+
+    const counterparty = await getCompanyByName(request.counterpartyName.trim());
+    if (!counterparty) {
+      return { success: false, error: `Company "${request.counterpartyName}" not found` };
+    }
+
+    const result = await createTradeOffer({
+      companyId: request.companyId,
+      counterpartyCompanyId: counterparty.id,
+      side: request.side,
+      facilityId: request.facilityId,
+      resourceId: request.resourceId,
+      quantity: request.quantity,
+      pricePerUnit: request.pricePerUnit,
+      expiryTicks,
+    });
+
+    if (result.success && result.offer) {
+      await notifyCounterparty(
+        result.offer,
+        request.companyId,
+        `📨 ${getPartyName(result.offer, request.companyId)} offers to ${request.side} ${describeTradeOffer(result.offer)} (expires at tick ${result.offer.expiresAtTick})`
+      );
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Propose trade offer error:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to propose trade') };
+  }
+}
+
+/**
+ * Counter a pending offer with a new quantity and price
+ * facilityId optionally sets the countering company's facility
+ */
+export async function counterOffer(
+  offer: TradeOffer,
+  companyId: string,
+  counter: { quantity: number; pricePerUnit: number; facilityId?: string; expiryTicks?: number }
+): Promise<TradeOfferResult> {
+  try {
+    if (!Number.isFinite(counter.quantity) || counter.quantity <= 0) {
+      return { success: false, error: 'Quantity must be greater than 0' };
+    }
+
+    if (!Number.isFinite(counter.pricePerUnit) || counter.pricePerUnit < 0) {
+      return { success: false, error: 'Price cannot be negative' };
+    }
+
+    const result = await counterTradeOffer(offer.id, companyId, counter);
+
+    if (result.success && result.offer) {
+      await notifyCounterparty(
+        result.offer,
+        companyId,
+        `↔️ ${getPartyName(offer, companyId)} countered your trade offer: ${describeTradeOffer(result.offer)} (expires at tick ${result.offer.expiresAtTick})`
+      );
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Counter trade offer error:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to counter trade offer') };
+  }
+}
+
+/**
+ * Accept a pending offer; settles like a market purchase
+ * facilityId is the accepting company's facility (required if the offer has none for its side)
+ */
+export async function acceptOffer(
+  offer: TradeOffer,
+  companyId: string,
+  facilityId: string | null
+): Promise<TradeAcceptResult> {
+  try {
+    const result = await acceptTradeOffer(offer.id, companyId, facilityId, MARKET_TRADE_CATEGORIES);
+
+    if (result.success) {
+      const delivery = result.arrivesAtTick != null ? `, shipping arrives at tick ${result.arrivesAtTick}` : '';
+      await notifyCounterparty(
+        offer,
+        companyId,
+        `✅ ${getPartyName(offer, companyId)} accepted your trade offer: ${describeTradeOffer(offer)}${delivery}`
+      );
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Accept trade offer error:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to accept trade offer') };
+  }
+}
+
+/**
+ * Reject a pending offer addressed to the company
+ */
+export async function rejectOffer(offer: TradeOffer, companyId: string): Promise<TradeOffer> {
+  try {
+    const rejected = await rejectTradeOffer(offer.id, companyId);
+    await notifyCounterparty(offer, companyId, `❌ ${getPartyName(offer, companyId)} rejected your trade offer: ${describeTradeOffer(offer)}`);
+    return rejected;
+  } catch (error) {
+    console.error('Reject trade offer error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a pending offer the company proposed
+ */
+export async function cancelOffer(offer: TradeOffer, companyId: string): Promise<TradeOffer> {
+  try {
+    const cancelled = await cancelTradeOffer(offer.id, companyId);
+    await notifyCounterparty(offer, companyId, `🚫 ${getPartyName(offer, companyId)} withdrew a trade offer: ${describeTradeOffer(offer)}`);
+    return cancelled;
+  } catch (error) {
+    console.error('Cancel trade offer error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all trade offers of a company (both sides, all statuses), newest first
+ */
+export async function getCompanyTradeOffers(companyId: string): Promise<TradeOffer[]> {
+  return getTradeOffersByCompanyId(companyId);
+}
@@ -1,2 +1,3 @@
 // Barrel export for production services
 export * from './productionService';
+export * from './productionSimulation';
@@ -1,6 +1,8 @@
-import type { Facility, RecipeId } from '@/lib/types/types';
-import { getRecipe } from '@/lib/constants';
-import { updateFacility } from '@/lib/database/core/facilitiesDB';
+import type { Facility, GameTime, ProductionQueue, ProductionQueueEntry, ProductionQueueMode, Recipe, RecipeId, RecipeItem } from '@/lib/types/types';
+import { getRecipe, getResourceName, PRODUCTION_DEFAULTS, DAYS_PER_MONTH, MONTHS_PER_YEAR, DEFAULT_WORLD_ID } from '@/lib/constants';
+import { updateFacility, cancelFacilityProduction } from '@/lib/database/core/facilitiesDB';
+import { calculateOutputs, getProcessingTicks, getSeasonalMultiplier, withSeason } from './productionSimulation';
+import { isUnderConstruction } from '../facility/facilityService';
 
 /**
  * Result of a production advancement
@@ -14,6 +16,7 @@ export interface ProductionAdvancementResult {
 /**
  * Start or change production recipe at a facility
  * Sets the recipe and starts production - inputs will be consumed at completion of current cycle
+ * Choosing a recipe by hand replaces the facility's production queue
  * 
  * @param facility - The facility to start/change production at
  * @param recipeId - The recipe ID to produce
@@ -25,7 +28,7 @@ export async function startProduction(
 ): Promise<Facility | null> {
   try {
     const recipe = getRecipe(recipeId);
-    if (!recipe || !facility.availableRecipeIds.includes(recipeId)) {
+    if (!recipe || !facility.availableRecipeIds.includes(recipeId) || isUnderConstruction(facility)) {
       return null;
     }
 
@@ -33,7 +36,12 @@ export async function startProduction(
     return await updateFacility(facility.id, {
       activeRecipeId: recipeId,
       isProducing: true,
+      isPaused: false,
       progressTicks: 0,
+      blockedReason: null,
+      cycleInputsConsumed: false,
+      cycleInputQuality: null,
+      productionQueue: { entries: [], loop: false },
     });
   } catch (error: any) {
     console.error('Error starting production:', error);
@@ -42,41 +50,231 @@ export async function startProduction(
 }
 
 /**
- * Stop/pause production at a facility (keeps recipe selected)
- * Production can be resumed by calling startProduction with the same recipe
+ * Pause production at a facility
+ * Keeps the progress and the inputs already consumed for the running cycle,
+ * so resumeProduction continues exactly where the cycle stopped
  * 
- * @param facility - The facility to stop production at
+ * @param facility - The facility to pause
  * @returns Updated facility or null if failed
  */
-export async function stopProduction(facility: Facility): Promise<Facility | null> {
+export async function pauseProduction(facility: Facility): Promise<Facility | null> {
   try {
     return await updateFacility(facility.id, {
       isProducing: false,
-      progressTicks: 0, // Reset progress when stopping
+      isPaused: true,
     });
   } catch (error: any) {
-    console.error('Error stopping production:', error);
+    console.error('Error pausing production:', error);
     return null;
   }
 }
 
 /**
- * Advance production for ALL facilities with active production
+ * Resume production at a facility with its current recipe and progress
+ * Also retries a facility that stopped for missing inputs. That cycle never took
+ * its inputs, so it starts over at 0 progress instead of completing on the next
+ * tick; the tick checks the inputs again when it completes.
+ * 
+ * @param facility - The facility to resume
+ * @returns Updated facility or null if failed
+ */
+export async function resumeProduction(facility: Facility): Promise<Facility | null> {
+  try {
+    if (!getRecipe(facility.activeRecipeId) || isUnderConstruction(facility)) {
+      return null;
+    }
+
+    const stoppedForInputs = !facility.isPaused && !facility.cycleInputsConsumed;
+
+    return await updateFacility(facility.id, {
+      isProducing: true,
+      isPaused: false,
+      ...(stoppedForInputs ? { progressTicks: 0 } : {}),
+    });
+  } catch (error) {
+    console.error('Error resuming production:', error);
+    return null;
+  }
+}
+
+/**
+ * Cancel the running production cycle (keeps recipe selected)
+ * Progress is discarded. With refundInputs, refundRate of the cycle's consumed
+ * inputs go back into the inventory (see calculateCancelRefund). Runs server-side
+ * on the locked facility row (cancel_production RPC), so changes to the inventory
+ * since the facility was loaded are kept.
+ * Production can be restarted with resumeProduction or startProduction.
+ * 
+ * @param facility - The facility to cancel production at
+ * @param refundInputs - Whether to return part of the consumed inputs
+ * @param refundRate - Fraction of the inputs returned (default PRODUCTION_DEFAULTS.CANCEL_REFUND_RATE)
+ * @returns Updated facility or null if failed (including a refund that does not fit)
+ */
+export async function cancelProduction(
+  facility: Facility,
+  refundInputs: boolean,
+  refundRate: number = PRODUCTION_DEFAULTS.CANCEL_REFUND_RATE
+): Promise<Facility | null> {
+  try {
+    const result = await cancelFacilityProduction(facility.id, refundInputs ? refundRate : 0);
+    if (!result.success) {
+      console.error('Error cancelling production:', result.error);
+      return null;
+    }
+    return result.facility ?? null;
+  } catch (error) {
+    console.error('Error cancelling production:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a production queue entry
+ */
+export function createQueueEntry(recipeId: RecipeId, mode: ProductionQueueMode, target: number): ProductionQueueEntry {
+  return {
+    id: crypto.randomUUID(),
+    recipeId,
+    mode,
+    target,
+    completedCycles: 0,
+  };
+}
+
+/**
+ * Short description of a queue entry, e.g. "Flour × 3 cycles" or "Bran until 200 in stock"
+ */
+export function describeQueueEntry(entry: ProductionQueueEntry): string {
+  const recipe = getRecipe(entry.recipeId);
+  const recipeName = recipe?.name || 'Unknown Recipe';
+
+  if (entry.mode === 'repeat') {
+    return `${recipeName} × ${entry.target} ${entry.target === 1 ? 'cycle' : 'cycles'}`;
+  }
+
+  const mainOutput = recipe?.outputs[0];
+  return `${recipeName} until ${entry.target} ${mainOutput ? getResourceName(mainOutput.resourceId) : 'units'} in stock`;
+}
+
+/**
+ * Replace the production queue of a facility
+ * When the first entry uses another recipe, production switches to it right away
+ * (progress resets as with startProduction); otherwise the running cycle continues.
+ * 
+ * @param facility - The facility to schedule
+ * @param queue - The new queue (validated against the facility's recipes)
+ * @returns Updated facility or null if the queue is invalid or saving failed
+ */
+export async function setProductionQueue(
+  facility: Facility,
+  queue: ProductionQueue
+): Promise<Facility | null> {
+  try {
+    const isValid = queue.entries.every(entry =>
+      facility.availableRecipeIds.includes(entry.recipeId) &&
+      Number.isInteger(entry.target) &&
+      entry.target > 0
+    );
+    if (!isValid) {
+      return null;
+    }
+
+    const head = queue.entries[0];
+    if (!head || head.recipeId === facility.activeRecipeId) {
+      return await updateFacility(facility.id, { productionQueue: queue });
+    }
+
+    return await updateFacility(facility.id, {
+      productionQueue: queue,
+      activeRecipeId: head.recipeId,
+      isProducing: !isUnderConstruction(facility), // Construction starts the queue when it finishes
+      isPaused: false,
+      progressTicks: 0,
+      blockedReason: null,
+      cycleInputsConsumed: false,
+      cycleInputQuality: null,
+    });
+  } catch (error) {
+    console.error('Error updating production queue:', error);
+    return null;
+  }
+}
+
+/**
+ * One game month of a yield calendar
+ */
+export interface SeasonalYieldMonth {
+  month: number;
+  year: number;
+  multiplier: number; // Seasonal output multiplier of the recipe
+  cycles: number; // Cycles completing in the month
+  outputsPerCycle: RecipeItem[];
+  outputs: RecipeItem[]; // Total outputs of the month's cycles
+}
+
+/**
+ * Game month and year a number of ticks from now (one tick per game day)
+ */
+export function getGameMonthAfterTicks(time: Pick<GameTime, 'day' | 'month' | 'year'>, ticks: number): { month: number; year: number } {
+  const monthIndex = (time.month - 1) + Math.floor((time.day - 1 + Math.max(0, ticks)) / DAYS_PER_MONTH);
+  return {
+    month: (monthIndex % MONTHS_PER_YEAR) + 1,
+    year: time.year + Math.floor(monthIndex / MONTHS_PER_YEAR),
+  };
+}
+
+/**
+ * Year-ahead yield calendar of a recipe at a facility, starting with the current month
+ * Assumes production keeps running from the facility's current progress (inputs and
+ * storage permitting); each cycle yields the seasonal multiplier of the month it completes in.
+ */
+export function getYieldCalendar(
+  facility: Pick<Facility, 'effectivity' | 'progressTicks' | 'processingTicksMultiplier'>,
+  recipe: Recipe,
+  time: Pick<GameTime, 'day' | 'month' | 'year'>
+): SeasonalYieldMonth[] {
+  const cycleTicks = getProcessingTicks(recipe, facility.processingTicksMultiplier);
+  const horizonTicks = DAYS_PER_MONTH * MONTHS_PER_YEAR - (time.day - 1);
+  const cyclesByMonth = new Array<number>(MONTHS_PER_YEAR).fill(0);
+
+  let ticks = Math.max(1, cycleTicks - (facility.progressTicks ?? 0));
+  for (; ticks <= horizonTicks; ticks += cycleTicks) {
+    const monthOffset = Math.floor((time.day - 1 + ticks) / DAYS_PER_MONTH);
+    if (monthOffset < MONTHS_PER_YEAR) cyclesByMonth[monthOffset]++;
+  }
+
+  return cyclesByMonth.map((cycles, monthOffset) => {
+    const { month, year } = getGameMonthAfterTicks({ ...time, day: 1 }, monthOffset * DAYS_PER_MONTH);
+    const seasonalRecipe = withSeason(() => recipe, month)(recipe.id) ?? recipe;
+    const outputsPerCycle = calculateOutputs(seasonalRecipe, facility.effectivity);
+
+    return {
+      month,
+      year,
+      multiplier: getSeasonalMultiplier(recipe, month),
+      cycles,
+      outputsPerCycle,
+      outputs: outputsPerCycle.map(output => ({ ...output, quantity: output.quantity * cycles })),
+    };
+  });
+}
+
+/**
+ * Advance production for ALL facilities with active production in a world
  * This is called from client-side admin button
  * Calls the game-tick edge function which handles:
- * - Time advancement
- * - Progress increment (via PostgreSQL function)
- * - Production completion (applying recipes, updating inventory)
+ * - Time advancement (claimed once per tick, logged as a tick run)
+ * - Progress increment and production completion, applied in one transaction
  * 
  * @returns Number of facilities advanced
  */
-export async function advanceAllFacilitiesProduction(): Promise<number> {
+export async function advanceAllFacilitiesProduction(worldId: string = DEFAULT_WORLD_ID): Promise<number> {
   try {
     const { supabase } = await import('@/lib/utils/supabase');
     
     // Call edge function with manual flag
     const { data, error } = await supabase.functions.invoke('game-tick', {
-      body: { manual: true }
+      body: { manual: true, worldId }
     });
 
     if (error) {
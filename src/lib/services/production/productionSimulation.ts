@@ -0,0 +1,492 @@
+import type {
+  Facility,
+  FacilityInventory,
+  ProductionBlockedReason,
+  ProductionQueue,
+  ProductionQueueEntry,
+  Recipe,
+  RecipeId,
+  RecipeItem,
+  ResourceId,
+} from '../../types/types.ts';
+
+/**
+ * Production Simulation
+ * Pure, typed recipe math shared by the React app and the game-tick edge function
+ * (supabase/functions/game-tick imports this file directly). It must stay free of
+ * runtime imports (no '@/' aliases, no supabase client) so Deno can load it, and
+ * every function returns new objects instead of mutating its arguments.
+ * The same rule holds for every src file the edge function imports: only
+ * relative imports with explicit .ts extensions.
+ */
+
+/**
+ * Storage capacity used when a facility inventory has none recorded
+ */
+export const DEFAULT_INVENTORY_CAPACITY = 1000;
+
+/**
+ * Quality of stock with no recorded quality, and the base quality recipes
+ * without inputs produce at 100% effectivity
+ */
+export const DEFAULT_RESOURCE_QUALITY = 3;
+
+/**
+ * Lowest quality a production cycle can yield
+ */
+export const MIN_RESOURCE_QUALITY = 1;
+
+/**
+ * Recipe lookup (getRecipe on the client, the loaded recipe rows in the game tick)
+ */
+export type RecipeLookup = (recipeId: RecipeId) => Recipe | undefined;
+
+/**
+ * A recipe input the inventory cannot cover
+ */
+export interface MissingResource {
+  resourceId: ResourceId;
+  required: number;
+  available: number;
+}
+
+/**
+ * Result of completing one production cycle
+ */
+export interface ProductionCycleResult {
+  inventory: FacilityInventory; // Inventory after outputs were added (and next inputs consumed)
+  outputs: RecipeItem[]; // Outputs produced by this cycle (empty while blocked)
+  isProducing: boolean; // Whether the next cycle could start (stays true while blocked)
+  progressTicks: number; // Overflow carried into the next cycle, or unchanged when stopped
+  missingInputs: MissingResource[]; // Inputs missing for the next cycle
+  blockedReason: ProductionBlockedReason | null; // Why the cycle could not complete
+  cycleInputsConsumed: boolean; // Inputs of the (next) running cycle were taken from the inventory
+  cycleInputQuality: number | null; // Average quality of the (next) running cycle's consumed inputs
+  outputQuality: number; // Quality of the outputs produced by this cycle
+}
+
+/**
+ * Result of completing a cycle of a facility with a production queue
+ */
+export interface QueuedProductionCycleResult extends ProductionCycleResult {
+  activeRecipeId: RecipeId; // Recipe of the next cycle
+  productionQueue: ProductionQueue; // Queue after counting the finished cycle
+}
+
+/**
+ * Build a complete inventory from a possibly partial stored one
+ * Recalculates currentUsage from the items
+ */
+export function normalizeInventory(inventory: Partial<FacilityInventory> | null | undefined): FacilityInventory {
+  const items = (inventory?.items || []).map(item => ({ ...item }));
+  return {
+    items,
+    capacity: inventory?.capacity ?? DEFAULT_INVENTORY_CAPACITY,
+    currentUsage: items.reduce((sum, item) => sum + item.quantity, 0),
+  };
+}
+
+/**
+ * Get the quality of a resource's stock in an inventory
+ * Stock without a recorded quality (and missing stock) counts as DEFAULT_RESOURCE_QUALITY
+ */
+export function getItemQuality(inventory: FacilityInventory, resourceId: ResourceId): number {
+  return inventory.items.find(i => i.resourceId === resourceId)?.quality ?? DEFAULT_RESOURCE_QUALITY;
+}
+
+/**
+ * Get the usable (unreserved) quantity of a resource in an inventory
+ * Quantities reserved by active market listings cannot be consumed or listed again
+ */
+export function getAvailableQuantity(inventory: FacilityInventory, resourceId: ResourceId): number {
+  const item = inventory.items.find(i => i.resourceId === resourceId);
+  if (!item) return 0;
+  return Math.max(0, item.quantity - (item.reservedQuantity || 0));
+}
+
+/**
+ * Free storage left in an inventory, optionally minus goods already on their way to it
+ */
+export function getFreeCapacity(inventory: FacilityInventory, inboundQuantity: number = 0): number {
+  return Math.max(0, inventory.capacity - inventory.currentUsage - inboundQuantity);
+}
+
+/**
+ * Check if items fit into the free storage of an inventory
+ * inboundQuantity is storage held by goods already on their way to it
+ */
+export function canStoreItems(inventory: FacilityInventory, items: RecipeItem[], inboundQuantity: number = 0): boolean {
+  const quantity = items.reduce((sum, item) => sum + item.quantity, 0);
+  return quantity <= getFreeCapacity(inventory, inboundQuantity);
+}
+
+/**
+ * List the inputs the inventory cannot cover from unreserved stock
+ */
+export function getMissingInputs(inventory: FacilityInventory, inputs: RecipeItem[]): MissingResource[] {
+  return inputs
+    .map(input => ({
+      resourceId: input.resourceId,
+      required: input.quantity,
+      available: getAvailableQuantity(inventory, input.resourceId),
+    }))
+    .filter(input => input.available < input.required);
+}
+
+/**
+ * Check if the inventory has the required inputs (unreserved stock only)
+ */
+export function checkHasInputs(inventory: FacilityInventory, inputs: RecipeItem[]): boolean {
+  return getMissingInputs(inventory, inputs).length === 0;
+}
+
+/**
+ * Remove inputs from an inventory (at production start/continuation)
+ */
+export function consumeInputsFromInventory(inventory: FacilityInventory, inputs: RecipeItem[]): FacilityInventory {
+  const { items, capacity } = normalizeInventory(inventory);
+
+  for (const input of inputs) {
+    const itemIndex = items.findIndex(item => item.resourceId === input.resourceId);
+    if (itemIndex >= 0) {
+      items[itemIndex].quantity -= input.quantity;
+      if (items[itemIndex].quantity <= 0) {
+        items.splice(itemIndex, 1);
+      }
+    }
+  }
+
+  return normalizeInventory({ items, capacity });
+}
+
+/**
+ * Add outputs to an inventory (at production completion)
+ * Units of the given quality blend into the stock's quality (quantity-weighted
+ * average); without a quality the stock keeps its quality, like adjust_inventory_item.
+ */
+export function addOutputsToInventory(
+  inventory: FacilityInventory,
+  outputs: RecipeItem[],
+  quality?: number | null
+): FacilityInventory {
+  const { items, capacity } = normalizeInventory(inventory);
+
+  for (const output of outputs) {
+    if (output.quantity <= 0) continue;
+
+    const item = items.find(i => i.resourceId === output.resourceId);
+    if (item) {
+      if (quality != null) {
+        const existingQuality = item.quality ?? quality;
+        item.quality = roundQuality(
+          (item.quantity * existingQuality + output.quantity * quality) / (item.quantity + output.quantity)
+        );
+      }
+      item.quantity += output.quantity;
+    } else {
+      items.push({
+        resourceId: output.resourceId,
+        quantity: output.quantity,
+        ...(quality != null ? { quality: roundQuality(quality) } : {}),
+      });
+    }
+  }
+
+  return normalizeInventory({ items, capacity });
+}
+
+/**
+ * Round a quality value to 2 decimals (as stored by the database functions)
+ */
+function roundQuality(quality: number): number {
+  return Math.round(quality * 100) / 100;
+}
+
+/**
+ * Quantity-weighted average quality of the stock recipe inputs would consume
+ * Returns null for recipes without inputs
+ */
+export function getInputQuality(inventory: FacilityInventory, inputs: RecipeItem[]): number | null {
+  const quantity = inputs.reduce((sum, input) => sum + input.quantity, 0);
+  if (quantity <= 0) return null;
+
+  const weighted = inputs.reduce((sum, input) => sum + input.quantity * getItemQuality(inventory, input.resourceId), 0);
+  return roundQuality(weighted / quantity);
+}
+
+/**
+ * Quality of one cycle's outputs
+ * The input quality (DEFAULT_RESOURCE_QUALITY without consumed inputs) scaled by
+ * effectivity, so upgraded facilities above 100% raise quality along the chain
+ */
+export function calculateOutputQuality(effectivity: number, inputQuality: number | null): number {
+  const baseQuality = inputQuality ?? DEFAULT_RESOURCE_QUALITY;
+  return Math.max(MIN_RESOURCE_QUALITY, roundQuality(baseQuality * (effectivity / 100)));
+}
+
+/**
+ * Outputs of one cycle at the given effectivity (0-100%)
+ */
+export function calculateOutputs(recipe: Recipe, effectivity: number): RecipeItem[] {
+  const effectivityMultiplier = effectivity / 100;
+  return recipe.outputs.map(output => ({
+    resourceId: output.resourceId,
+    quantity: Math.floor(output.quantity * effectivityMultiplier),
+  }));
+}
+
+/**
+ * Ticks one cycle of a recipe takes at a facility's processing speed (at least 1)
+ */
+export function getProcessingTicks(recipe: Recipe, processingTicksMultiplier: number = 1): number {
+  return Math.max(1, Math.round(recipe.processingTicks * processingTicksMultiplier));
+}
+
+/**
+ * Wrap a recipe lookup so its recipes run at a facility's processing speed
+ * (facility upgrades shorten processingTicks)
+ */
+export function withProcessingSpeed(lookupRecipe: RecipeLookup, processingTicksMultiplier: number = 1): RecipeLookup {
+  if (processingTicksMultiplier === 1) return lookupRecipe;
+
+  return (recipeId) => {
+    const recipe = lookupRecipe(recipeId);
+    return recipe ? { ...recipe, processingTicks: getProcessingTicks(recipe, processingTicksMultiplier) } : undefined;
+  };
+}
+
+/**
+ * Output multiplier of a recipe in a game month (1-based)
+ * Recipes without seasonal multipliers, and months they leave out, yield 1
+ */
+export function getSeasonalMultiplier(recipe: Recipe, month: number): number {
+  const multiplier = recipe.seasonalMultipliers?.[month - 1];
+  return multiplier != null && multiplier >= 0 ? multiplier : 1;
+}
+
+/**
+ * Wrap a recipe lookup so recipe outputs follow the season of a game month
+ * (a cycle yields its outputs × the multiplier of the month it completes in)
+ */
+export function withSeason(lookupRecipe: RecipeLookup, month: number): RecipeLookup {
+  return (recipeId) => {
+    const recipe = lookupRecipe(recipeId);
+    if (!recipe) return undefined;
+
+    const multiplier = getSeasonalMultiplier(recipe, month);
+    if (multiplier === 1) return recipe;
+
+    return {
+      ...recipe,
+      outputs: recipe.outputs.map(output => ({ ...output, quantity: output.quantity * multiplier })),
+    };
+  };
+}
+
+/**
+ * Complete a production cycle (progressTicks >= recipe.processingTicks)
+ * Adds the outputs, then consumes inputs for the next cycle and carries the
+ * overflow progress over. Without inputs production stops and keeps its progress
+ * (resumeProduction starts that cycle over, as its inputs were never taken).
+ * Outputs that do not fit block the cycle: nothing is added, production stays on
+ * and the finished cycle waits (progress held at processingTicks) until space frees up.
+ * Space held by shipments on their way (inboundQuantity) does not count as free.
+ * nextRecipe is the recipe of the following cycle (a different recipe starts at 0
+ * progress, null stops production after storing the outputs).
+ */
+export function completeProductionCycle(
+  facility: Pick<Facility, 'inventory' | 'effectivity' | 'progressTicks' | 'cycleInputsConsumed' | 'cycleInputQuality'> & { inboundQuantity?: number },
+  recipe: Recipe,
+  nextRecipe: Recipe | null = recipe
+): ProductionCycleResult {
+  const outputs = calculateOutputs(recipe, facility.effectivity);
+  const cycleInputQuality = facility.cycleInputsConsumed ? facility.cycleInputQuality ?? null : null;
+  const outputQuality = calculateOutputQuality(facility.effectivity, cycleInputQuality);
+
+  if (!canStoreItems(normalizeInventory(facility.inventory), outputs, facility.inboundQuantity)) {
+    return {
+      inventory: normalizeInventory(facility.inventory),
+      outputs: [],
+      isProducing: true,
+      progressTicks: recipe.processingTicks,
+      missingInputs: [],
+      blockedReason: 'storage_full',
+      cycleInputsConsumed: facility.cycleInputsConsumed ?? false,
+      cycleInputQuality,
+      outputQuality,
+    };
+  }
+
+  const inventoryWithOutputs = addOutputsToInventory(facility.inventory, outputs, outputQuality);
+
+  if (!nextRecipe) {
+    return {
+      inventory: inventoryWithOutputs,
+      outputs,
+      isProducing: false,
+      progressTicks: 0,
+      missingInputs: [],
+      blockedReason: null,
+      cycleInputsConsumed: false,
+      cycleInputQuality: null,
+      outputQuality,
+    };
+  }
+
+  const isSameRecipe = nextRecipe.id === recipe.id;
+  const missingInputs = getMissingInputs(inventoryWithOutputs, nextRecipe.inputs);
+
+  if (missingInputs.length > 0) {
+    return {
+      inventory: inventoryWithOutputs,
+      outputs,
+      isProducing: false,
+      progressTicks: isSameRecipe ? facility.progressTicks : 0,
+      missingInputs,
+      blockedReason: null,
+      cycleInputsConsumed: false,
+      cycleInputQuality: null,
+      outputQuality,
+    };
+  }
+
+  return {
+    inventory: consumeInputsFromInventory(inventoryWithOutputs, nextRecipe.inputs),
+    outputs,
+    isProducing: true,
+    progressTicks: isSameRecipe ? facility.progressTicks - recipe.processingTicks : 0,
+    missingInputs,
+    blockedReason: null,
+    cycleInputsConsumed: true,
+    cycleInputQuality: getInputQuality(inventoryWithOutputs, nextRecipe.inputs),
+    outputQuality,
+  };
+}
+
+/**
+ * Inputs returned when a running cycle is cancelled
+ * Only a cycle whose inputs were consumed refunds anything; quantities round down
+ */
+export function calculateCancelRefund(
+  facility: Pick<Facility, 'cycleInputsConsumed'>,
+  recipe: Recipe,
+  refundRate: number
+): RecipeItem[] {
+  if (!facility.cycleInputsConsumed) return [];
+
+  const rate = Math.min(1, Math.max(0, refundRate));
+  return recipe.inputs
+    .map(input => ({ resourceId: input.resourceId, quantity: Math.floor(input.quantity * rate) }))
+    .filter(item => item.quantity > 0);
+}
+
+/**
+ * Check if a queue entry has reached its target
+ * until_stock counts the total stock of the recipe's first output
+ */
+export function isQueueEntryDone(
+  entry: ProductionQueueEntry,
+  inventory: FacilityInventory,
+  lookupRecipe: RecipeLookup
+): boolean {
+  if (entry.mode === 'repeat') {
+    return entry.completedCycles >= entry.target;
+  }
+
+  const mainOutput = lookupRecipe(entry.recipeId)?.outputs[0];
+  if (!mainOutput) return true;
+
+  const stock = inventory.items.find(item => item.resourceId === mainOutput.resourceId)?.quantity ?? 0;
+  return stock >= entry.target;
+}
+
+/**
+ * Count a finished cycle on the first queue entry and move past done entries
+ * Done entries are removed, or moved to the end with a fresh count when the queue loops.
+ * Entries whose stock target is already met are skipped (one pass at most).
+ */
+export function advanceProductionQueue(
+  queue: ProductionQueue,
+  inventory: FacilityInventory,
+  lookupRecipe: RecipeLookup
+): ProductionQueue {
+  if (queue.entries.length === 0) return queue;
+
+  const [head, ...rest] = queue.entries;
+  let entries = [{ ...head, completedCycles: head.completedCycles + 1 }, ...rest];
+
+  for (let checked = 0; checked < queue.entries.length && entries.length > 0; checked++) {
+    const [current, ...others] = entries;
+    if (!isQueueEntryDone(current, inventory, lookupRecipe)) break;
+    entries = queue.loop ? [...others, { ...current, completedCycles: 0 }] : others;
+  }
+
+  return { ...queue, entries };
+}
+
+/**
+ * Complete a production cycle and advance the facility's production queue
+ * Without queue entries this is completeProductionCycle on the active recipe.
+ * A blocked cycle does not count. When the last entry of a non-looping queue is
+ * done, production stops after storing the outputs.
+ */
+export function completeQueuedProductionCycle(
+  facility: Pick<Facility, 'inventory' | 'effectivity' | 'progressTicks' | 'cycleInputsConsumed' | 'cycleInputQuality' | 'activeRecipeId' | 'productionQueue'> & { inboundQuantity?: number },
+  lookupRecipe: RecipeLookup
+): QueuedProductionCycleResult | null {
+  const recipe = lookupRecipe(facility.activeRecipeId);
+  if (!recipe) return null;
+
+  const queue = facility.productionQueue ?? { entries: [], loop: false };
+  const outputs = calculateOutputs(recipe, facility.effectivity);
+
+  if (queue.entries.length === 0 || !canStoreItems(normalizeInventory(facility.inventory), outputs, facility.inboundQuantity)) {
+    return {
+      ...completeProductionCycle(facility, recipe),
+      activeRecipeId: facility.activeRecipeId,
+      productionQueue: queue,
+    };
+  }
+
+  const nextQueue = advanceProductionQueue(queue, addOutputsToInventory(facility.inventory, outputs), lookupRecipe);
+  const nextEntry = nextQueue.entries[0];
+  const nextRecipe = nextEntry ? lookupRecipe(nextEntry.recipeId) ?? null : null;
+
+  return {
+    ...completeProductionCycle(facility, recipe, nextRecipe),
+    activeRecipeId: nextRecipe?.id ?? facility.activeRecipeId,
+    productionQueue: nextQueue,
+  };
+}
+
+/**
+ * Predict whether production continues after the current cycle completes
+ * Runs the same completion step as the game tick on the current inventory,
+ * including the switch to the next queued recipe
+ */
+export function predictNextCycle(
+  facility: Pick<Facility, 'inventory' | 'effectivity' | 'progressTicks' | 'cycleInputsConsumed' | 'cycleInputQuality' | 'activeRecipeId' | 'productionQueue'>,
+  lookupRecipe: RecipeLookup
+): {
+  willContinue: boolean;
+  missingInputs: MissingResource[];
+  blockedReason: ProductionBlockedReason | null;
+  nextRecipeId: RecipeId;
+} {
+  const processingTicks = lookupRecipe(facility.activeRecipeId)?.processingTicks ?? 0;
+  const result = completeQueuedProductionCycle(
+    { ...facility, progressTicks: Math.max(facility.progressTicks, processingTicks) },
+    lookupRecipe
+  );
+
+  if (!result) {
+    return { willContinue: false, missingInputs: [], blockedReason: null, nextRecipeId: facility.activeRecipeId };
+  }
+
+  return {
+    willContinue: result.isProducing && !result.blockedReason,
+    missingInputs: result.missingInputs,
+    blockedReason: result.blockedReason,
+    nextRecipeId: result.activeRecipeId,
+  };
+}
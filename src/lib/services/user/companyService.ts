@@ -1,11 +1,14 @@
 import { getCompanyByName, createCompany, type Company } from '@/lib/database/core/companiesDB';
 import { createStartingCapitalTransaction } from '../finance/transactionService';
+import { setCurrentWorld } from '../core/gameState';
+import { DEFAULT_WORLD_ID, getWorldInitialization } from '@/lib/constants';
 
 /**
  * Get or create company by name (simplified login - no password)
- * If company exists, return it. If not, create it with starting capital transaction.
+ * If company exists, return it (in the world it already belongs to).
+ * If not, create it in the chosen world with that world's starting capital.
  */
-export async function getOrCreateCompany(companyName: string): Promise<Company> {
+export async function getOrCreateCompany(companyName: string, worldId: string = DEFAULT_WORLD_ID): Promise<Company> {
   try {
     // Try to get existing company
     const existingCompany = await getCompanyByName(companyName);
@@ -15,11 +18,14 @@ export async function getOrCreateCompany(companyName: string): Promise<Company>
     }
 
     // Company doesn't exist, create it
-    const newCompany = await createCompany(companyName);
+    await createCompany(companyName, worldId);
+
+    // The starting capital transaction is dated on the new company's world clock
+    await setCurrentWorld(worldId);
     
     // Create starting capital transaction (this updates company.money in DB)
     try {
-      await createStartingCapitalTransaction(companyName);
+      await createStartingCapitalTransaction(companyName, getWorldInitialization(worldId).STARTING_CAPITAL);
     } catch (transactionError) {
       console.error('Failed to create starting capital transaction:', transactionError);
       // Don't fail company creation if transaction fails - it can be added manually
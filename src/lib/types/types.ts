@@ -8,20 +8,36 @@
 /**
  * City data structure
  * Cities are the fundamental geographic units with economic characteristics
+ * Loaded from database; wealth and population evolve monthly (cityEconomy.ts)
  */
 export interface City {
   id: string;
   name: string;
   wealth: number; // City wealth level (0-1 scale)
   population: number; // Number of residents
+  baseWealth: number; // Wealth the city settles at without player activity
+  mapX?: number; // Position on the city map (0-100, west to east)
+  mapY?: number; // Position on the city map (0-100, north to south)
   
-  // Derived properties (calculated from wealth/population)
-  baseWage: number; // Base wage multiplier (based on wealth 0-1)
-  purchasePower: number; // Spending capacity of residents
+  // Derived properties (calculated from wealth/population, see deriveCity)
+  baseWage: number; // Base wage multiplier (wealth, higher in larger cities)
+  purchasePower: number; // Spending capacity of residents (wealth, lower in larger cities)
   qualityDemand: number; // Minimum quality expectations (1->inf)
   
 }
 
+/**
+ * Route between two cities
+ * Loaded from database; each pair is stored once (fromCityId < toCityId)
+ */
+export interface CityRoute {
+  fromCityId: string;
+  toCityId: string;
+  distance: number;
+  shippingCostPerUnit: number; // Money per unit shipped along the route
+  transitTicks: number; // Game ticks until shipped goods arrive
+}
+
 // ============================================================================
 // FACILITY SYSTEM
 // ============================================================================
@@ -44,6 +60,8 @@ export type ProductionFacilityType = string;
 export interface FacilityInventoryItem {
   resourceId: string;
   quantity: number;
+  reservedQuantity?: number; // Portion of quantity reserved by active market listings (not usable for production or new listings)
+  quality?: number; // Quantity-weighted average quality of the stock (1->inf, unset = DEFAULT_RESOURCE_QUALITY)
 }
 
 /**
@@ -56,6 +74,38 @@ export interface FacilityInventory {
 }
 
 
+/**
+ * Reason a producing facility is stalled
+ * storage_full: the finished cycle's outputs do not fit into the inventory
+ */
+export type ProductionBlockedReason = 'storage_full';
+
+/**
+ * Completion condition of a production queue entry
+ * repeat: run `target` cycles; until_stock: run until the main output reaches `target` units in stock
+ */
+export type ProductionQueueMode = 'repeat' | 'until_stock';
+
+/**
+ * Scheduled recipe in a facility's production queue
+ */
+export interface ProductionQueueEntry {
+  id: string;
+  recipeId: RecipeId;
+  mode: ProductionQueueMode;
+  target: number; // Cycles (repeat) or units of the main output in stock (until_stock)
+  completedCycles: number; // Cycles completed since the entry became active
+}
+
+/**
+ * Ordered production schedule of a facility
+ * The first entry is the active one; the game tick moves on when it is done
+ */
+export interface ProductionQueue {
+  entries: ProductionQueueEntry[];
+  loop: boolean; // Finished entries go back to the end instead of being removed
+}
+
 /**
  * Facility interface
  * All facilities (production, warehouse, retail) share these core properties
@@ -71,7 +121,7 @@ export interface Facility {
   cityId: string; // Location
   
   // Production properties
-  effectivity: number; // Production efficiency (0-100%)
+  effectivity: number; // Production efficiency (0-100%, upgrade levels can raise the cap above 100)
   
   // Inventory
   inventory: FacilityInventory;
@@ -82,14 +132,46 @@ export interface Facility {
   // Active production (always set for production facilities)
   activeRecipeId: RecipeId; // Currently selected recipe
   isProducing: boolean; // Whether production is actively running
+  isPaused?: boolean; // Paused by the owner; progress and consumed inputs are kept for resume
+  cycleInputsConsumed?: boolean; // Inputs of the running cycle were already taken from the inventory
+  cycleInputQuality?: number | null; // Average quality of the running cycle's consumed inputs (drives output quality)
   progressTicks: number; // Number of ticks completed for current production (0 to processingTicks)
+  blockedReason?: ProductionBlockedReason | null; // Set while production is stalled (isProducing stays true)
+  productionQueue?: ProductionQueue; // Scheduled recipes; empty = keep producing activeRecipeId
+
+  // Construction
+  constructionTicksRemaining?: number; // Ticks until a newly built facility can produce (0 = operational)
 
+  // Upgrades
+  level?: number; // Upgrade level (0 = facility type defaults)
+  processingTicksMultiplier?: number; // Recipe speed from the upgrade level (1 = recipe processingTicks)
+  upgradeTargetLevel?: number | null; // Level under construction, null when not upgrading
+  upgradeTicksRemaining?: number; // Construction ticks left until upgradeTargetLevel applies
   
   // Financial
-  workerCount: number; // Number of workers (future: affects effectivity)
+  workerCount: number; // Number of workers (staffing vs required workers drives effectivity)
+
+  // Retail
+  shelfPrices?: Record<ResourceId, number>; // Retail facilities: price per unit consumers pay; unpriced stock is not for sale
 
 }
 
+/**
+ * Facility upgrade level
+ * Loaded from database; levels 1..n per facility type (level 0 = facility type defaults)
+ * Values are absolute for the level, not increments over the previous one
+ */
+export interface FacilityUpgradeLevel {
+  facilityTypeId: ProductionFacilityType;
+  level: number;
+  name: string;
+  cost: number; // Money paid when the upgrade starts
+  constructionTicks: number; // Game ticks until the level applies
+  inventoryCapacity: number;
+  effectivityCap: number; // Effectivity at full staffing
+  processingTicksMultiplier: number; // Applied to recipe processingTicks (0.8 = 20% faster)
+}
+
 // ============================================================================
 // GAME TIME SYSTEM
 // ============================================================================
@@ -108,11 +190,30 @@ export interface GameTime {
   nextTickTime: string; // ISO timestamp of next scheduled real-time tick
 }
 
+/**
+ * Game world
+ * Loaded from database; each world keeps its own clock (game_time row with the
+ * world's id) and its own companies, facilities and marketplace
+ */
+export interface World {
+  id: string;
+  name: string;
+  description?: string;
+  tickIntervalSeconds: number; // Real seconds between automatic ticks
+  startingDay: number;
+  startingMonth: number;
+  startingYear: number;
+  startingTick: number;
+  startingCapital: number; // Money new companies in this world start with
+  sortOrder: number;
+}
+
 /**
  * Game state structure
  * Central game state management (separate from time tracking)
  */
 export interface GameState {
+  worldId: string; // World whose clock the client follows
   time: GameTime;
   isProcessing: boolean; // Whether tick is currently being processed
 }
@@ -135,6 +236,8 @@ export interface Resource {
   id: string;
   name: string;
   icon: string; // Emoji/icon for display
+  consumerPrice?: number | null; // Shelf price city consumers consider fair; null = not bought by consumers
+  consumerDemand?: number; // Units bought per 1000 residents per tick at consumerPrice
 }
 // ============================================================================
 // RECIPE SYSTEM
@@ -168,10 +271,33 @@ export interface Recipe {
   
   // Processing
   processingTicks: number; // Number of game ticks to complete (default: 1)
+  seasonalMultipliers?: number[] | null; // Output multiplier per game month (index 0 = month 1; missing = 1)
   
   // Compatibility
   facilityTypes: ProductionFacilityType[]; // Facility types that can use this recipe
-  
+
+}
+
+// ============================================================================
+// MARKET FEE SYSTEM
+// ============================================================================
+
+/**
+ * Market fee ID type
+ * Fees are loaded from database ('listing_fee', 'sales_fee')
+ */
+export type MarketFeeId = string;
+
+/**
+ * Market fee definition
+ * Flat fees are charged per listing, percent fees on the traded value
+ */
+export interface MarketFee {
+  id: MarketFeeId;
+  name: string;
+  feeType: 'flat' | 'percent';
+  rate: number; // Money for flat fees, fraction (0.02 = 2%) for percent fees
+  description: string;
 }
 
 // ============================================================================
@@ -83,7 +83,9 @@ export const NAVIGATION_EMOJIS = {
   dashboard: '🏠',
   finance: '💰',
   facilities: '🏭',
-  marketplace: '🛒'
+  marketplace: '🛒',
+  contracts: '📝',
+  cities: '🏙️'
 } as const;
 
 export const STATUS_EMOJIS = {
@@ -17,6 +17,11 @@ export function clamp01(value: number): number {
   return Math.max(0, Math.min(1, value));
 }
 
+// Message of a caught error, or the fallback when it carries none
+export function getErrorMessage(error: unknown, fallback: string = String(error)): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
 // ========================================
 // SECTION 2: NUMBER & CURRENCY FORMATTING
 // ========================================
@@ -1,10 +1,50 @@
-import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import {
+  completeQueuedProductionCycle,
+  getAvailableQuantity,
+  getItemQuality,
+  normalizeInventory,
+  withProcessingSpeed,
+  withSeason,
+  type RecipeLookup,
+} from '../../../src/lib/services/production/productionSimulation.ts';
+import { calculateMonthlyWages, calculateStaffingEffectivity } from '../../../src/lib/services/facility/workforce.ts';
+import { allocateConsumerDemand, type RetailOffer } from '../../../src/lib/services/facility/retail.ts';
+import { DEFAULT_WORLD_ID, WORKFORCE_DEFAULTS } from '../../../src/lib/constants/constants.ts';
+import { DEFAULT_TICK_INTERVAL_SECONDS, getNextTickTime } from '../../../src/lib/services/core/gameTick.ts';
+import { deriveCity, evolveCity, type CityRecord } from '../../../src/lib/services/city/cityEconomy.ts';
+import type {
+  City,
+  FacilityInventory,
+  ProductionBlockedReason,
+  ProductionFacilityType,
+  ProductionQueue,
+  Recipe,
+  RecipeItem,
+  Resource,
+} from '../../../src/lib/types/types.ts';
 
 // Game constants
 const DAYS_PER_MONTH = 24;
 const MONTHS_PER_YEAR = 7;
 const GAME_TIME_TABLE = 'game_time';
-const GLOBAL_GAME_TIME_ID = 'global';
+const MAX_PRODUCTION_ATTEMPTS = 3; // Reads of facilities that changed during the production step
+const TICK_RUN_MAX_ATTEMPTS = 3; // Matches tick_run_max_attempts() (create_tick_runs.sql)
+
+// Tick steps in order; a tick run records each one it completes
+const TICK_STEPS = [
+  'shipmentsDelivered',
+  'production',
+  'contractDeliveries',
+  'retailUnitsSold',
+  'facilitiesBuilt',
+  'upgradesCompleted',
+  'wagesPaid',
+  'citiesUpdated',
+  'listingsExpired',
+  'tradeOffersExpired',
+] as const;
+type TickStep = typeof TICK_STEPS[number];
 
 interface GameTime {
   tick: number;
@@ -16,19 +56,186 @@ interface GameTime {
 }
 
 /**
- * Get next hour boundary from current time
+ * A world due for a tick, with its clock
+ */
+interface WorldClock {
+  id: string;
+  name: string;
+  tickIntervalSeconds: number;
+  time: GameTime;
+}
+
+/**
+ * Row shapes of the tables and RPC results the tick reads (only the selected columns)
+ */
+interface RecipeRow {
+  id: string;
+  name: string;
+  inputs: RecipeItem[] | null;
+  outputs: RecipeItem[] | null;
+  processing_ticks: number;
+  seasonal_multipliers: number[] | null;
+  facility_types: ProductionFacilityType[] | null;
+}
+
+interface ProductionFacilityRow {
+  id: string;
+  company_id: string;
+  name: string;
+  active_recipe_id: string; // Set on every producing facility
+  progress_ticks: number;
+  effectivity: number;
+  inventory: Partial<FacilityInventory> | null;
+  is_producing: boolean;
+  blocked_reason: ProductionBlockedReason | null;
+  production_queue: ProductionQueue | null;
+  cycle_inputs_consumed: boolean | null;
+  cycle_input_quality: number | null;
+  processing_ticks_multiplier: number | null;
+  updated_at: string;
+}
+
+interface InboundShipmentRow {
+  to_facility_id: string;
+  quantity: number;
+}
+
+interface CompanyNameRow {
+  id: string;
+  name: string;
+}
+
+interface FacilityOwnerRow {
+  id: string;
+  name: string;
+  company_id: string;
+}
+
+interface UpgradingFacilityRow extends FacilityOwnerRow {
+  facility_subtype: string;
+  worker_count: number;
+  upgrade_target_level: number;
+}
+
+interface StaffedFacilityRow extends FacilityOwnerRow {
+  city_id: string;
+  worker_count: number;
+}
+
+interface RetailFacilityRow extends FacilityOwnerRow {
+  city_id: string;
+  inventory: Partial<FacilityInventory> | null;
+  shelf_prices: Record<string, number> | null;
+}
+
+interface CityRow {
+  id: string;
+  name: string;
+  wealth: number;
+  population: number;
+  base_wealth: number;
+  retail_spending_month?: number | null;
+}
+
+interface ResourceRow {
+  id: string;
+  name: string;
+  icon: string;
+  consumer_price: number;
+  consumer_demand: number | null;
+}
+
+interface SupplyContractRow {
+  id: string;
+  resource_id: string;
+  quantity_per_delivery: number;
+  total_deliveries: number;
+  supplier_company_id: string;
+  supplier_company_name: string;
+  buyer_company_name: string;
+}
+
+interface ExpiredListingRow {
+  company_name: string | null;
+  resource_id: string;
+  resource_name: string | null;
+  quantity: number;
+}
+
+interface ExpiredTradeOfferRow {
+  proposer_company_name: string | null;
+  recipient_company_name: string | null;
+  resource_id: string;
+  resource_name: string | null;
+  quantity: number;
+  price_per_unit: number;
+}
+
+interface DeliveredShipmentRow {
+  company_name: string | null;
+  facility_name: string | null;
+  resource_id: string;
+  resource_name: string | null;
+  quantity: number;
+}
+
+interface WorldRow {
+  id: string;
+  name: string;
+  tick_interval_seconds: number | null;
+}
+
+interface GameTimeRow {
+  id: string;
+  tick: number;
+  day: number;
+  month: number;
+  year: number;
+  last_tick_time: string;
+  next_tick_time: string;
+}
+
+interface TickRunRow {
+  world_id: string;
+  tick: number;
+}
+
+/**
+ * Notification row written by the tick steps
+ */
+interface NotificationRow {
+  id: string;
+  company_name: string;
+  game_day: number;
+  game_month: number;
+  game_year: number;
+  text: string;
+  origin: string;
+  userfriendlyorigin: string;
+  category: string;
+}
+
+/**
+ * Errors of the tick run in progress, per world
+ * claim_world_tick allows one running tick per world, so steps of concurrent
+ * world ticks never share a list
  */
-function getNextHourBoundary(): Date {
-  const now = new Date();
-  now.setMinutes(0, 0, 0);
-  now.setHours(now.getHours() + 1);
-  return now;
+const tickRunErrors = new Map<string, string[]>();
+
+/**
+ * Log a tick step error and keep it for the world's tick run record
+ */
+function recordTickError(worldId: string, message: string, error?: unknown): void {
+  console.error(message, error);
+  const detail = error instanceof Error ? error.message : error ? JSON.stringify(error) : '';
+  tickRunErrors.get(worldId)?.push(detail ? `${message} ${detail}` : message);
 }
 
 /**
  * Advance game time by one tick
+ * The next tick is scheduled on the world's own cadence
  */
-function advanceGameTime(currentTime: GameTime): GameTime {
+function advanceGameTime(currentTime: GameTime, tickIntervalSeconds: number): GameTime {
   let { day, month, year, tick } = currentTime;
   
   tick += 1;
@@ -50,219 +257,1162 @@ function advanceGameTime(currentTime: GameTime): GameTime {
     month,
     year,
     lastTickTime: new Date().toISOString(),
-    nextTickTime: getNextHourBoundary().toISOString(),
+    nextTickTime: getNextTickTime(tickIntervalSeconds).toISOString(),
   };
 }
 
 /**
- * Advance production for all active facilities (globally, all players)
- * Uses PostgreSQL function to increment progress, then handles completions
+ * Advance production for all active facilities of a world (all players)
+ * Every running facility gains a tick of progress; cycles that reach their
+ * processing ticks are completed with the shared production simulation (outputs,
+ * next inputs, overflow carry-over, production queue) so the client predicts the
+ * same result. Outputs only fit into storage not held by shipments on their way
+ * to the facility. Progress and completions are applied in one transaction by the
+ * apply_world_production RPC. Facilities that changed between the read and the
+ * apply (a purchase, a delivery) come back as conflicts and are read and
+ * computed again, up to MAX_PRODUCTION_ATTEMPTS times.
+ * Owners get a 'production' notification when a facility becomes blocked
+ */
+async function advanceAllFacilitiesProduction(
+  supabase: SupabaseClient,
+  gameTime: GameTime,
+  worldId: string,
+  runId: string
+): Promise<{ advanced: number; completed: number }> {
+  const totals = { advanced: 0, completed: 0 };
+  try {
+    // Fetch all recipes from database (single source of truth)
+    const { data: recipes, error: recipesError } = await supabase
+      .from('recipes')
+      .select('*');
+
+    if (recipesError || !recipes) {
+      recordTickError(worldId, 'Error fetching recipes:', recipesError);
+      return totals;
+    }
+
+    // Create recipe lookup map (database rows to the shared Recipe type)
+    const recipeMap = new Map<string, Recipe>(recipes.map((r: RecipeRow) => [r.id, {
+      id: r.id,
+      name: r.name,
+      inputs: r.inputs || [],
+      outputs: r.outputs || [],
+      processingTicks: r.processing_ticks,
+      seasonalMultipliers: r.seasonal_multipliers ?? null,
+      facilityTypes: r.facility_types || [],
+    }]));
+
+    let conflictIds: string[] | null = null;
+    for (let attempt = 1; attempt <= MAX_PRODUCTION_ATTEMPTS; attempt++) {
+      // Running production facilities not yet applied this tick (only the conflicts on retries)
+      let query = supabase
+        .from('facilities')
+        .select(`
+          id,
+          company_id,
+          name,
+          active_recipe_id,
+          progress_ticks,
+          effectivity,
+          inventory,
+          is_producing,
+          blocked_reason,
+          production_queue,
+          cycle_inputs_consumed,
+          cycle_input_quality,
+          processing_ticks_multiplier,
+          updated_at
+        `)
+        .eq('world_id', worldId)
+        .eq('type', 'production')
+        .eq('is_producing', true)
+        .eq('construction_ticks_remaining', 0)
+        .or(`production_tick.is.null,production_tick.neq.${gameTime.tick}`);
+
+      if (conflictIds) {
+        query = query.in('id', conflictIds);
+      }
+
+      const { data: facilities, error: fetchError } = await query;
+
+      if (fetchError) {
+        recordTickError(worldId, 'Error fetching facilities:', fetchError);
+        return totals;
+      }
+
+      // Work out this tick's progress and the cycles it completes
+      const advancedIds: string[] = [];
+      const due: { facility: ProductionFacilityRow; lookupRecipe: RecipeLookup; progressTicks: number }[] = [];
+      for (const facility of (facilities || []) as ProductionFacilityRow[]) {
+        // Upgraded facilities run their recipes in fewer ticks; outputs follow the season
+        const lookupRecipe = withSeason(
+          withProcessingSpeed(
+            (recipeId) => recipeMap.get(recipeId),
+            Number(facility.processing_ticks_multiplier ?? 1)
+          ),
+          gameTime.month
+        );
+        const recipe = lookupRecipe(facility.active_recipe_id);
+        const progressTicks = facility.progress_ticks + 1;
+
+        if (!recipe || progressTicks < recipe.processingTicks) {
+          advancedIds.push(facility.id);
+        } else {
+          due.push({ facility, lookupRecipe, progressTicks });
+        }
+      }
+
+      // Goods on their way hold storage, like in every other capacity check (inbound_shipment_quantity)
+      const inboundByFacility = new Map<string, number>();
+      if (due.length > 0) {
+        const { data: inbound, error: inboundError } = await supabase
+          .from('shipments')
+          .select('to_facility_id, quantity')
+          .eq('shipment_status', 'in_transit')
+          .in('to_facility_id', due.map(({ facility }) => facility.id));
+
+        if (inboundError) {
+          recordTickError(worldId, 'Error fetching inbound shipments:', inboundError);
+          return totals;
+        }
+
+        for (const shipment of (inbound || []) as InboundShipmentRow[]) {
+          inboundByFacility.set(
+            shipment.to_facility_id,
+            (inboundByFacility.get(shipment.to_facility_id) ?? 0) + Number(shipment.quantity)
+          );
+        }
+      }
+
+      const completions: Record<string, unknown>[] = [];
+      const blockingFacilities = new Map<string, ProductionFacilityRow>();
+      for (const { facility, lookupRecipe, progressTicks } of due) {
+        const result = completeQueuedProductionCycle(
+          {
+            inventory: normalizeInventory(facility.inventory),
+            effectivity: facility.effectivity,
+            progressTicks,
+            cycleInputsConsumed: facility.cycle_inputs_consumed ?? false,
+            cycleInputQuality: facility.cycle_input_quality != null ? Number(facility.cycle_input_quality) : null,
+            activeRecipeId: facility.active_recipe_id,
+            productionQueue: facility.production_queue ?? undefined,
+            inboundQuantity: inboundByFacility.get(facility.id) ?? 0,
+          },
+          lookupRecipe
+        );
+
+        if (!result) {
+          advancedIds.push(facility.id);
+          continue;
+        }
+
+        completions.push({
+          id: facility.id,
+          updated_at: facility.updated_at,
+          inventory: result.inventory,
+          is_producing: result.isProducing,
+          progress_ticks: result.progressTicks,
+          blocked_reason: result.blockedReason,
+          active_recipe_id: result.activeRecipeId,
+          production_queue: result.productionQueue,
+          cycle_inputs_consumed: result.cycleInputsConsumed,
+          cycle_input_quality: result.cycleInputQuality,
+        });
+        if (result.blockedReason && !facility.blocked_reason) blockingFacilities.set(facility.id, facility);
+      }
+
+      // Apply progress and completions together
+      const { data: applied, error: applyError } = await supabase.rpc('apply_world_production', {
+        p_run_id: runId,
+        p_advanced_ids: advancedIds,
+        p_completions: completions,
+      });
+
+      if (applyError || !applied?.success) {
+        recordTickError(worldId, 'Error applying production:', applyError ?? applied?.error);
+        return totals;
+      }
+
+      totals.advanced += applied.facilitiesAdvanced;
+      totals.completed += applied.facilitiesCompleted;
+
+      const conflicts: string[] = applied.conflicts ?? [];
+      const newlyBlocked = [...blockingFacilities.values()].filter((facility) => !conflicts.includes(facility.id));
+      if (newlyBlocked.length > 0) {
+        await notifyStorageFull(supabase, newlyBlocked, gameTime, worldId);
+      }
+
+      if (conflicts.length === 0) break;
+
+      if (attempt === MAX_PRODUCTION_ATTEMPTS) {
+        recordTickError(worldId, `Production of ${conflicts.length} facilities kept changing and was not applied:`, conflicts);
+      }
+      conflictIds = conflicts;
+    }
+
+    console.log(`Advanced ${totals.advanced} facilities, completed production for ${totals.completed}`);
+    return totals;
+  } catch (error) {
+    recordTickError(worldId, 'Error in advanceAllFacilitiesProduction:', error);
+    return totals;
+  }
+}
+
+/**
+ * Notify owners that production stalled because the outputs do not fit
+ */
+async function notifyStorageFull(
+  supabase: SupabaseClient,
+  facilities: Pick<ProductionFacilityRow, 'company_id' | 'name'>[],
+  gameTime: GameTime,
+  worldId: string
+): Promise<void> {
+  try {
+    const companyIds = [...new Set(facilities.map((facility) => facility.company_id))];
+    const { data: companies, error } = await supabase
+      .from('companies')
+      .select('id, name')
+      .in('id', companyIds);
+
+    if (error) {
+      recordTickError(worldId, 'Error fetching companies for storage notifications:', error);
+      return;
+    }
+
+    const companyNames = new Map((companies || []).map((c: CompanyNameRow) => [c.id, c.name]));
+    const notifications = facilities
+      .filter((facility) => companyNames.has(facility.company_id))
+      .map((facility) => ({
+        id: crypto.randomUUID(),
+        company_name: companyNames.get(facility.company_id),
+        game_day: gameTime.day,
+        game_month: gameTime.month,
+        game_year: gameTime.year,
+        text: `🚫 Storage full at ${facility.name}: production is blocked until there is room for the outputs`,
+        origin: 'advanceAllFacilitiesProduction',
+        userfriendlyorigin: 'Production',
+        category: 'production',
+      }));
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+      if (notifyError) {
+        recordTickError(worldId, 'Error saving storage full notifications:', notifyError);
+      }
+    }
+  } catch (error) {
+    recordTickError(worldId, 'Error in notifyStorageFull:', error);
+  }
+}
+
+/**
+ * Expire market listings whose lifetime has run out
+ * The expire_market_listings RPC marks them expired and releases their inventory;
+ * each seller then receives a 'sales' notification
+ */
+async function expireMarketListings(supabase: SupabaseClient, gameTime: GameTime, worldId: string): Promise<number> {
+  try {
+    const { data: expired, error } = await supabase.rpc('expire_market_listings', {
+      p_current_tick: gameTime.tick,
+      p_world_id: worldId,
+    });
+
+    if (error) {
+      recordTickError(worldId, 'Error calling expire_market_listings:', error);
+      return 0;
+    }
+
+    if (!expired || expired.length === 0) {
+      return 0;
+    }
+
+    const notifications = expired
+      .filter((listing: ExpiredListingRow) => listing.company_name)
+      .map((listing: ExpiredListingRow) => ({
+        id: crypto.randomUUID(),
+        company_name: listing.company_name,
+        game_day: gameTime.day,
+        game_month: gameTime.month,
+        game_year: gameTime.year,
+        text: `Your listing of ${listing.quantity} ${listing.resource_name || listing.resource_id} expired and was returned to inventory`,
+        origin: 'expireMarketListings',
+        userfriendlyorigin: 'Marketplace',
+        category: 'sales',
+      }));
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+      if (notifyError) {
+        recordTickError(worldId, 'Error saving listing expiry notifications:', notifyError);
+      }
+    }
+
+    console.log(`Expired ${expired.length} market listings`);
+    return expired.length;
+  } catch (error) {
+    recordTickError(worldId, 'Error in expireMarketListings:', error);
+    return 0;
+  }
+}
+
+/**
+ * Expire pending trade offers that reached their expiry tick
+ * Both the proposing and the receiving company get a 'sales' notification
+ */
+async function expireTradeOffers(supabase: SupabaseClient, gameTime: GameTime, worldId: string): Promise<number> {
+  try {
+    const { data: expired, error } = await supabase.rpc('expire_trade_offers', {
+      p_current_tick: gameTime.tick,
+      p_world_id: worldId,
+    });
+
+    if (error) {
+      recordTickError(worldId, 'Error calling expire_trade_offers:', error);
+      return 0;
+    }
+
+    if (!expired || expired.length === 0) {
+      return 0;
+    }
+
+    const notifications = expired.flatMap((offer: ExpiredTradeOfferRow) => {
+      const goods = `${offer.quantity} ${offer.resource_name || offer.resource_id} at ${Number(offer.price_per_unit).toFixed(2)}/unit`;
+      return [
+        { company_name: offer.proposer_company_name, text: `Your trade offer to ${offer.recipient_company_name} (${goods}) expired` },
+        { company_name: offer.recipient_company_name, text: `The trade offer from ${offer.proposer_company_name} (${goods}) expired` },
+      ]
+        .filter((notification) => notification.company_name)
+        .map((notification) => ({
+          id: crypto.randomUUID(),
+          company_name: notification.company_name,
+          game_day: gameTime.day,
+          game_month: gameTime.month,
+          game_year: gameTime.year,
+          text: notification.text,
+          origin: 'expireTradeOffers',
+          userfriendlyorigin: 'Trade Offers',
+          category: 'sales',
+        }));
+    });
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+      if (notifyError) {
+        recordTickError(worldId, 'Error saving trade offer expiry notifications:', notifyError);
+      }
+    }
+
+    console.log(`Expired ${expired.length} trade offers`);
+    return expired.length;
+  } catch (error) {
+    recordTickError(worldId, 'Error in expireTradeOffers:', error);
+    return 0;
+  }
+}
+
+/**
+ * Advance newly built facilities under construction
+ * The advance_world_construction RPC counts down the construction ticks and
+ * starts the selected recipe of finished facilities, once per tick run; the
+ * owners of finished facilities get a 'production' notification.
  */
-async function advanceAllFacilitiesProduction(supabase: any): Promise<number> {
+async function advanceFacilityConstruction(
+  supabase: SupabaseClient,
+  gameTime: GameTime,
+  worldId: string,
+  runId: string
+): Promise<number> {
   try {
-    // Step 1: Call PostgreSQL function to increment all facilities' progress
-    const { data: incrementCount, error: rpcError } = await supabase.rpc('advance_all_production');
-    
-    if (rpcError) {
-      console.error('Error calling advance_all_production:', rpcError);
+    const { data: advanced, error } = await supabase.rpc('advance_world_construction', { p_run_id: runId });
+
+    if (error || !advanced?.success) {
+      recordTickError(worldId, 'Error advancing facilities being built:', error ?? advanced?.error);
       return 0;
     }
 
-    console.log(`Incremented progress for ${incrementCount} facilities`);
+    const finished: FacilityOwnerRow[] = advanced.finished ?? [];
+
+    if (finished.length > 0) {
+      const companyIds = [...new Set(finished.map((facility) => facility.company_id))];
+      const { data: companies } = await supabase
+        .from('companies')
+        .select('id, name')
+        .in('id', companyIds);
 
-    // Step 2: Fetch facilities that need completion processing (progress >= processingTicks)
-    const { data: facilities, error: fetchError } = await supabase
+      const companyNames = new Map((companies || []).map((c: CompanyNameRow) => [c.id, c.name]));
+      const notifications = finished
+        .filter((facility) => companyNames.has(facility.company_id))
+        .map((facility) => ({
+          id: crypto.randomUUID(),
+          company_name: companyNames.get(facility.company_id),
+          game_day: gameTime.day,
+          game_month: gameTime.month,
+          game_year: gameTime.year,
+          text: `🏗️ Construction of ${facility.name} is finished`,
+          origin: 'advanceFacilityConstruction',
+          userfriendlyorigin: 'Construction',
+          category: 'production',
+        }));
+
+      if (notifications.length > 0) {
+        const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+        if (notifyError) {
+          recordTickError(worldId, 'Error saving construction notifications:', notifyError);
+        }
+      }
+    }
+
+    console.log(`Finished construction of ${finished.length} facilities`);
+    return finished.length;
+  } catch (error) {
+    recordTickError(worldId, 'Error in advanceFacilityConstruction:', error);
+    return 0;
+  }
+}
+
+/**
+ * Advance facility upgrades under construction
+ * The count_down_world_upgrades RPC counts down the construction ticks once per
+ * tick run; upgrades at zero then get their level's inventory capacity,
+ * effectivity cap (scaled by staffing) and processing speed
+ * (complete_facility_upgrade), and the owner gets a 'production' notification.
+ */
+async function advanceFacilityUpgrades(
+  supabase: SupabaseClient,
+  gameTime: GameTime,
+  worldId: string,
+  runId: string,
+  completedSteps: string[]
+): Promise<number> {
+  try {
+    // A resumed run already counted down when only the completions failed
+    if (!completedSteps.includes('upgradeCountdown')) {
+      const { data: countdown, error: countdownError } = await supabase.rpc('count_down_world_upgrades', { p_run_id: runId });
+
+      if (countdownError || !countdown?.success) {
+        recordTickError(worldId, 'Error counting down facility upgrades:', countdownError ?? countdown?.error);
+        return 0;
+      }
+    }
+
+    const { data: facilities, error } = await supabase
       .from('facilities')
-      .select(`
-        id,
-        active_recipe_id,
-        progress_ticks,
-        effectivity,
-        inventory,
-        is_producing
-      `)
-      .eq('type', 'production')
-      .eq('is_producing', true);
-
-    if (fetchError) {
-      console.error('Error fetching facilities:', fetchError);
-      return incrementCount ?? 0;
+      .select('id, name, company_id, facility_subtype, worker_count, upgrade_target_level')
+      .eq('world_id', worldId)
+      .not('upgrade_target_level', 'is', null)
+      .eq('upgrade_ticks_remaining', 0);
+
+    if (error) {
+      recordTickError(worldId, 'Error fetching finished facility upgrades:', error);
+      return 0;
     }
 
     if (!facilities || facilities.length === 0) {
-      return incrementCount ?? 0;
+      return 0;
     }
 
-    // Step 3: Fetch all recipes from database (single source of truth)
-    const { data: recipes, error: recipesError } = await supabase
-      .from('recipes')
-      .select('*');
+    const finished: { facility: UpgradingFacilityRow; levelName: string }[] = [];
 
-    if (recipesError || !recipes) {
-      console.error('Error fetching recipes:', recipesError);
-      return incrementCount ?? 0;
+    for (const facility of facilities as UpgradingFacilityRow[]) {
+      const { data: level, error: levelError } = await supabase
+        .from('facility_upgrade_levels')
+        .select('effectivity_cap')
+        .eq('facility_type_id', facility.facility_subtype)
+        .eq('level', facility.upgrade_target_level)
+        .maybeSingle();
+
+      if (levelError || !level) {
+        recordTickError(worldId, `Upgrade level ${facility.upgrade_target_level} of ${facility.facility_subtype} not found:`, levelError);
+        continue;
+      }
+
+      const { data: facilityType } = await supabase
+        .from('facility_types')
+        .select('required_workers')
+        .eq('id', facility.facility_subtype)
+        .maybeSingle();
+
+      // Applies the level and changes only the inventory capacity
+      const { data: completed, error: completeError } = await supabase.rpc('complete_facility_upgrade', {
+        p_facility_id: facility.id,
+        p_effectivity: calculateStaffingEffectivity(
+          level.effectivity_cap,
+          facility.worker_count,
+          facilityType?.required_workers ?? WORKFORCE_DEFAULTS.REQUIRED_WORKERS
+        ),
+      });
+
+      if (completeError || !completed?.success) {
+        recordTickError(worldId, `Error completing upgrade of facility ${facility.id}:`, completeError ?? completed?.error);
+        continue;
+      }
+
+      finished.push({ facility, levelName: completed.levelName });
     }
 
-    // Create recipe lookup map
-    const recipeMap = new Map(recipes.map((r: any) => [r.id, r]));
+    if (finished.length > 0) {
+      const companyIds = [...new Set(finished.map(({ facility }) => facility.company_id))];
+      const { data: companies } = await supabase
+        .from('companies')
+        .select('id, name')
+        .in('id', companyIds);
 
-    // Step 4: Process facilities that completed production
-    let completedCount = 0;
-    for (const facility of facilities) {
-      const recipe = recipeMap.get(facility.active_recipe_id);
-      if (!recipe) continue;
+      const companyNames = new Map((companies || []).map((c: CompanyNameRow) => [c.id, c.name]));
+      const notifications = finished
+        .filter(({ facility }) => companyNames.has(facility.company_id))
+        .map(({ facility, levelName }) => ({
+          id: crypto.randomUUID(),
+          company_name: companyNames.get(facility.company_id),
+          game_day: gameTime.day,
+          game_month: gameTime.month,
+          game_year: gameTime.year,
+          text: `🏗️ ${facility.name} was upgraded to ${levelName}`,
+          origin: 'advanceFacilityUpgrades',
+          userfriendlyorigin: 'Construction',
+          category: 'production',
+        }));
 
-      // Check if this facility completed a cycle
-      if (facility.progress_ticks >= recipe.processing_ticks) {
-        const success = await completeProduction(facility, recipe, supabase);
-        if (success) completedCount++;
+      if (notifications.length > 0) {
+        const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+        if (notifyError) {
+          recordTickError(worldId, 'Error saving upgrade notifications:', notifyError);
+        }
       }
     }
 
-    console.log(`Completed production for ${completedCount} facilities`);
-    return incrementCount ?? 0;
+    console.log(`Completed ${finished.length} facility upgrades`);
+    return finished.length;
   } catch (error) {
-    console.error('Error in advanceAllFacilitiesProduction:', error);
+    recordTickError(worldId, 'Error in advanceFacilityUpgrades:', error);
     return 0;
   }
 }
 
 /**
- * Complete a production cycle for a facility
- * Handles production completion with overflow carry-over
+ * Load all cities with their derived fields, keyed by id
+ */
+async function fetchCities(supabase: SupabaseClient, worldId: string): Promise<Map<string, City>> {
+  const { data, error } = await supabase
+    .from('cities')
+    .select('id, name, wealth, population, base_wealth');
+
+  if (error) {
+    recordTickError(worldId, 'Error fetching cities:', error);
+    return new Map();
+  }
+
+  return new Map((data || []).map((city: CityRow) => [city.id, deriveCity({
+    id: city.id,
+    name: city.name,
+    wealth: Number(city.wealth),
+    population: city.population,
+    baseWealth: Number(city.base_wealth),
+  })]));
+}
+
+/**
+ * Pay the monthly wages of all staffed facilities
+ * Runs on the first tick of each game month. Every facility is charged its
+ * workers' wages (priced from its city's baseWage) as a 'wages' transaction by
+ * pay_facility_wages, once per tick; each owner gets one 'finance' notification
+ * with the total.
  */
-async function completeProduction(facility: any, recipe: any, supabase: any): Promise<boolean> {
+async function processWages(supabase: SupabaseClient, gameTime: GameTime, worldId: string): Promise<number> {
+  if (gameTime.day !== 1) {
+    return 0;
+  }
+
   try {
-    // Calculate overflow progress (supports fractional progress systems)
-    const overflow = facility.progress_ticks - recipe.processing_ticks;
-
-    // Apply effectivity to outputs
-    const effectivityMultiplier = facility.effectivity / 100;
-    const outputs = recipe.outputs.map((output: any) => ({
-      resourceId: output.resourceId,
-      quantity: Math.floor(output.quantity * effectivityMultiplier),
-    }));
-
-    // Add outputs to inventory (no input consumption - inputs were consumed at cycle start)
-    const inventoryWithOutputs = addOutputsToInventory(facility.inventory, outputs);
-
-    // Check if we can start next cycle (have inputs available)
-    const canContinue = checkHasInputs(inventoryWithOutputs, recipe.inputs);
-
-    let finalInventory = inventoryWithOutputs;
-    let finalProgress = overflow;
-    
-    if (canContinue) {
-      // Consume inputs for next cycle and carry over progress
-      finalInventory = consumeInputsFromInventory(inventoryWithOutputs, recipe.inputs);
-      // Progress starts at overflow (carry-over from previous cycle)
-    } else {
-      // No inputs for next cycle - stop production, keep overflow progress
-      finalProgress = facility.progress_ticks;
-    }
-
-    // Update facility
-    const { error } = await supabase
+    // Facilities already paid for this tick (a resumed run) are skipped
+    const { data: facilities, error } = await supabase
       .from('facilities')
-      .update({
-        inventory: finalInventory,
-        is_producing: canContinue,
-        progress_ticks: finalProgress,
-      })
-      .eq('id', facility.id);
+      .select('id, name, company_id, city_id, worker_count')
+      .eq('world_id', worldId)
+      .gt('worker_count', 0)
+      .or(`wages_paid_tick.is.null,wages_paid_tick.neq.${gameTime.tick}`);
 
     if (error) {
-      console.error(`Error completing production for facility ${facility.id}:`, error);
+      recordTickError(worldId, 'Error fetching staffed facilities:', error);
+      return 0;
     }
 
-    return !error;
+    if (!facilities || facilities.length === 0) {
+      return 0;
+    }
+
+    const cities = await fetchCities(supabase, worldId);
+    const wagesByCompany = new Map<string, number>();
+    let paidCount = 0;
+
+    for (const facility of facilities as StaffedFacilityRow[]) {
+      const baseWage = cities.get(facility.city_id)?.baseWage ?? 0;
+      const wages = calculateMonthlyWages(baseWage, facility.worker_count);
+      if (wages <= 0) continue;
+
+      const { data: paid, error: payError } = await supabase.rpc('pay_facility_wages', {
+        p_facility_id: facility.id,
+        p_amount: wages,
+        p_description: `Wages: ${facility.name} (${facility.worker_count} workers)`,
+        p_tick: gameTime.tick,
+      });
+
+      if (payError || !paid?.success) {
+        recordTickError(worldId, `Error paying wages of facility ${facility.id}:`, payError ?? paid?.error);
+        continue;
+      }
+
+      paidCount++;
+      wagesByCompany.set(facility.company_id, (wagesByCompany.get(facility.company_id) ?? 0) + wages);
+    }
+
+    if (wagesByCompany.size > 0) {
+      const { data: companies } = await supabase
+        .from('companies')
+        .select('id, name')
+        .in('id', [...wagesByCompany.keys()]);
+
+      const notifications = (companies || []).map((company: CompanyNameRow) => ({
+        id: crypto.randomUUID(),
+        company_name: company.name,
+        game_day: gameTime.day,
+        game_month: gameTime.month,
+        game_year: gameTime.year,
+        text: `💼 Paid €${(wagesByCompany.get(company.id) ?? 0).toFixed(2)} in monthly wages`,
+        origin: 'processWages',
+        userfriendlyorigin: 'Wages',
+        category: 'finance',
+      }));
+
+      if (notifications.length > 0) {
+        const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+        if (notifyError) {
+          recordTickError(worldId, 'Error saving wage notifications:', notifyError);
+        }
+      }
+    }
+
+    console.log(`Paid wages for ${paidCount} facilities`);
+    return paidCount;
   } catch (error) {
-    console.error('Error completing production:', error);
-    return false;
+    recordTickError(worldId, 'Error in processWages:', error);
+    return 0;
   }
 }
 
 /**
- * Consume inputs from inventory (at production start/continuation)
+ * Evolve city wealth and population for the month that just ended
+ * Runs on the first tick of each game month, after wages are paid. The workers
+ * and wages of each city's staffed facilities and the month's retail spending
+ * move the city (evolveCity); apply_city_economy writes every city and starts the
+ * spending total over in one transaction, once per tick run.
+ * Cities are shared by all worlds; only the main world's activity moves them.
  */
-function consumeInputsFromInventory(
-  inventory: any,
-  inputs: Array<{ resourceId: string; quantity: number }>
-): any {
-  const items = [...(inventory?.items || [])];
-
-  // Remove inputs from inventory
-  for (const input of inputs) {
-    const itemIndex = items.findIndex((item: any) => item.resourceId === input.resourceId);
-    if (itemIndex >= 0) {
-      items[itemIndex].quantity -= input.quantity;
-      if (items[itemIndex].quantity <= 0) {
-        items.splice(itemIndex, 1);
-      }
+async function processCityEconomy(
+  supabase: SupabaseClient,
+  gameTime: GameTime,
+  worldId: string,
+  runId: string
+): Promise<number> {
+  if (gameTime.day !== 1 || worldId !== DEFAULT_WORLD_ID) {
+    return 0;
+  }
+
+  try {
+    const { data: cityRows, error } = await supabase
+      .from('cities')
+      .select('id, name, wealth, population, base_wealth, retail_spending_month');
+
+    if (error) {
+      recordTickError(worldId, 'Error fetching cities:', error);
+      return 0;
+    }
+
+    if (!cityRows || cityRows.length === 0) {
+      return 0;
     }
+
+    const { data: facilities, error: facilitiesError } = await supabase
+      .from('facilities')
+      .select('city_id, worker_count')
+      .eq('world_id', worldId)
+      .gt('worker_count', 0);
+
+    if (facilitiesError) {
+      recordTickError(worldId, 'Error fetching staffed facilities:', facilitiesError);
+      return 0;
+    }
+
+    const updates = cityRows.map((row: CityRow) => {
+      const record: CityRecord = {
+        id: row.id,
+        name: row.name,
+        wealth: Number(row.wealth),
+        population: row.population,
+        baseWealth: Number(row.base_wealth),
+      };
+      const baseWage = deriveCity(record).baseWage;
+      const cityFacilities = (facilities || []).filter((facility: Pick<StaffedFacilityRow, 'city_id' | 'worker_count'>) => facility.city_id === row.id);
+
+      const next = evolveCity(record, {
+        workers: cityFacilities.reduce((sum: number, facility: Pick<StaffedFacilityRow, 'worker_count'>) => sum + facility.worker_count, 0),
+        wages: cityFacilities.reduce((sum: number, facility: Pick<StaffedFacilityRow, 'worker_count'>) => sum + calculateMonthlyWages(baseWage, facility.worker_count), 0),
+        retailSpending: Number(row.retail_spending_month ?? 0),
+      });
+      return { id: row.id, wealth: next.wealth, population: next.population };
+    });
+
+    // All cities change together, once per tick run
+    const { data: applied, error: applyError } = await supabase.rpc('apply_city_economy', {
+      p_run_id: runId,
+      p_cities: updates,
+    });
+
+    if (applyError || !applied?.success) {
+      recordTickError(worldId, 'Error updating city economies:', applyError ?? applied?.error);
+      return 0;
+    }
+
+    const updatedCount: number = applied.updated;
+    console.log(`Updated economy of ${updatedCount} cities`);
+    return updatedCount;
+  } catch (error) {
+    recordTickError(worldId, 'Error in processCityEconomy:', error);
+    return 0;
   }
+}
+
+/**
+ * Run supply contract deliveries that are due this tick
+ * Each due contract is settled by the settle_supply_contract_delivery RPC in one
+ * transaction: the goods move (shipped at the buyer's cost between cities) and
+ * the supplier is paid, or a supplier without stock or a buyer without money or
+ * space pays the other party a penalty.
+ * Contracts end 'fulfilled' after their last delivery, or 'breached' once the
+ * shortfalls reach max_missed_deliveries. Both parties get 'sales' notifications.
+ */
+async function processSupplyContracts(supabase: SupabaseClient, gameTime: GameTime, worldId: string): Promise<number> {
+  try {
+    // Both parties of a contract play in the same world (create_supply_contract)
+    const { data: worldCompanies, error: companiesError } = await supabase
+      .from('companies')
+      .select('id')
+      .eq('world_id', worldId);
 
-  const currentUsage = items.reduce((sum: number, item: any) => sum + item.quantity, 0);
+    if (companiesError) {
+      recordTickError(worldId, 'Error fetching companies for supply contracts:', companiesError);
+      return 0;
+    }
 
-  return {
-    items,
-    capacity: inventory?.capacity || 1000,
-    currentUsage,
-  };
+    if (!worldCompanies || worldCompanies.length === 0) {
+      return 0;
+    }
+
+    const { data: contracts, error } = await supabase
+      .from('supply_contracts')
+      .select('*')
+      .in('buyer_company_id', worldCompanies.map((company: Pick<CompanyNameRow, 'id'>) => company.id))
+      .eq('contract_status', 'active')
+      .lte('next_delivery_tick', gameTime.tick)
+      .order('next_delivery_tick', { ascending: true });
+
+    if (error) {
+      recordTickError(worldId, 'Error fetching due supply contracts:', error);
+      return 0;
+    }
+
+    if (!contracts || contracts.length === 0) {
+      return 0;
+    }
+
+    const { data: resources } = await supabase.from('resources').select('id, name');
+    const resourceNames = new Map((resources || []).map((r: Pick<ResourceRow, 'id' | 'name'>) => [r.id, r.name]));
+
+    const notifications: NotificationRow[] = [];
+    const notify = (companyName: string, text: string) => {
+      notifications.push({
+        id: crypto.randomUUID(),
+        company_name: companyName,
+        game_day: gameTime.day,
+        game_month: gameTime.month,
+        game_year: gameTime.year,
+        text,
+        origin: 'processSupplyContracts',
+        userfriendlyorigin: 'Contracts',
+        category: 'sales',
+      });
+    };
+
+    let settledCount = 0;
+
+    for (const contract of contracts as SupplyContractRow[]) {
+      const { data: delivery, error: settleError } = await supabase.rpc('settle_supply_contract_delivery', {
+        p_contract_id: contract.id,
+        p_tick: gameTime.tick,
+      });
+
+      if (settleError || !delivery?.success) {
+        recordTickError(worldId, `Error settling delivery of supply contract ${contract.id}:`, settleError ?? delivery?.error);
+        continue;
+      }
+
+      settledCount++;
+      const resourceName = resourceNames.get(contract.resource_id) || contract.resource_id;
+      const goods = `${Number(contract.quantity_per_delivery)} ${resourceName}`;
+      const progress = `${delivery.deliveryNumber}/${contract.total_deliveries}`;
+      const value = Number(delivery.value);
+
+      if (delivery.outcome === 'delivered') {
+        notify(contract.supplier_company_name, `📦 Contract delivery ${progress}: ${goods} delivered to ${contract.buyer_company_name} for ${value.toFixed(2)}`);
+        if (delivery.arrivesAtTick != null) {
+          notify(contract.buyer_company_name, `📦 Contract delivery ${progress}: ${goods} shipped from ${contract.supplier_company_name} for ${value.toFixed(2)} plus ${Number(delivery.shippingCost).toFixed(2)} shipping, arriving at tick ${delivery.arrivesAtTick}`);
+        } else {
+          notify(contract.buyer_company_name, `📦 Contract delivery ${progress}: received ${goods} from ${contract.supplier_company_name} for ${value.toFixed(2)}`);
+        }
+      } else {
+        const supplierAtFault = delivery.outcome === 'supplier_short';
+        const payerName = supplierAtFault ? contract.supplier_company_name : contract.buyer_company_name;
+        const payeeName = supplierAtFault ? contract.buyer_company_name : contract.supplier_company_name;
+        const penalty = Number(delivery.penalty);
+
+        notify(payerName, `⚠️ Contract delivery ${progress} to ${contract.buyer_company_name} missed (${delivery.reason}); you paid a penalty of ${penalty.toFixed(2)}`);
+        notify(payeeName, `⚠️ Contract delivery ${progress} from ${contract.supplier_company_name} missed (${delivery.reason}); you received a penalty of ${penalty.toFixed(2)}`);
+      }
+
+      if (delivery.contractStatus === 'breached') {
+        const breacher = delivery.penaltyPaidBy === contract.supplier_company_id ? contract.supplier_company_name : contract.buyer_company_name;
+        notify(contract.supplier_company_name, `❌ Supply contract for ${resourceName} with ${contract.buyer_company_name} was breached by ${breacher}`);
+        notify(contract.buyer_company_name, `❌ Supply contract for ${resourceName} with ${contract.supplier_company_name} was breached by ${breacher}`);
+      } else if (delivery.contractStatus === 'fulfilled') {
+        notify(contract.supplier_company_name, `✅ Supply contract for ${resourceName} with ${contract.buyer_company_name} is complete`);
+        notify(contract.buyer_company_name, `✅ Supply contract for ${resourceName} with ${contract.supplier_company_name} is complete`);
+      }
+    }
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+      if (notifyError) {
+        recordTickError(worldId, 'Error saving supply contract notifications:', notifyError);
+      }
+    }
+
+    console.log(`Processed ${settledCount} supply contract deliveries`);
+    return settledCount;
+  } catch (error) {
+    recordTickError(worldId, 'Error in processSupplyContracts:', error);
+    return 0;
+  }
 }
 
 /**
- * Add outputs to inventory (at production completion)
+ * Sell retail shelf stock to city consumers
+ * Each city's demand for a consumer resource is split across the retail
+ * facilities pricing it, best value for its quality first (allocateConsumerDemand).
+ * settle_retail_sales removes the sold units and pays the owner the shelf price
+ * as a 'retail_sale' transaction, one per facility and tick.
  */
-function addOutputsToInventory(
-  inventory: any,
-  outputs: Array<{ resourceId: string; quantity: number }>
-): any {
-  const items = [...(inventory?.items || [])];
-
-  // Add outputs to inventory
-  for (const output of outputs) {
-    const itemIndex = items.findIndex((item: any) => item.resourceId === output.resourceId);
-    if (itemIndex >= 0) {
-      items[itemIndex].quantity += output.quantity;
-    } else {
-      items.push({
-        resourceId: output.resourceId,
-        quantity: output.quantity,
+async function processRetailSales(supabase: SupabaseClient, gameTime: GameTime, worldId: string): Promise<number> {
+  try {
+    const { data: facilities, error } = await supabase
+      .from('facilities')
+      .select('id, name, company_id, city_id, inventory, shelf_prices')
+      .eq('world_id', worldId)
+      .eq('type', 'retail')
+      .eq('construction_ticks_remaining', 0)
+      .or(`retail_sold_tick.is.null,retail_sold_tick.neq.${gameTime.tick}`);
+
+    if (error) {
+      recordTickError(worldId, 'Error fetching retail facilities:', error);
+      return 0;
+    }
+
+    if (!facilities || facilities.length === 0) {
+      return 0;
+    }
+
+    const { data: resourceRows } = await supabase
+      .from('resources')
+      .select('id, name, icon, consumer_price, consumer_demand')
+      .gt('consumer_price', 0);
+
+    const resources = new Map<string, Resource>((resourceRows || []).map((r: ResourceRow) => [r.id, {
+      id: r.id,
+      name: r.name,
+      icon: r.icon,
+      consumerPrice: Number(r.consumer_price),
+      consumerDemand: Number(r.consumer_demand ?? 0),
+    }]));
+
+    // Group the shelf offers by city and resource
+    const offersByMarket = new Map<string, RetailOffer[]>();
+    for (const facility of facilities as RetailFacilityRow[]) {
+      const inventory = normalizeInventory(facility.inventory);
+      for (const [resourceId, shelfPrice] of Object.entries(facility.shelf_prices || {})) {
+        const available = getAvailableQuantity(inventory, resourceId);
+        if (!resources.has(resourceId) || Number(shelfPrice) <= 0 || available <= 0) continue;
+
+        const key = `${facility.city_id}|${resourceId}`;
+        const offers = offersByMarket.get(key) || [];
+        offers.push({
+          facilityId: facility.id,
+          shelfPrice: Number(shelfPrice),
+          available,
+          quality: getItemQuality(inventory, resourceId),
+        });
+        offersByMarket.set(key, offers);
+      }
+    }
+
+    // Units sold per facility and resource
+    const cities = await fetchCities(supabase, worldId);
+    const salesByFacility = new Map<string, { resourceId: string; quantity: number }[]>();
+    for (const [key, offers] of offersByMarket) {
+      const [cityId, resourceId] = key.split('|');
+      const city = cities.get(cityId);
+      const resource = resources.get(resourceId);
+      if (!city || !resource) continue;
+
+      for (const [facilityId, quantity] of Object.entries(allocateConsumerDemand(resource, city, offers))) {
+        const sales = salesByFacility.get(facilityId) || [];
+        sales.push({ resourceId, quantity });
+        salesByFacility.set(facilityId, sales);
+      }
+    }
+
+    // Each shop settles in one transaction: stock, payment and city spending
+    let unitsSold = 0;
+    for (const [facilityId, sales] of salesByFacility) {
+      const { data: settled, error: settleError } = await supabase.rpc('settle_retail_sales', {
+        p_facility_id: facilityId,
+        p_sales: sales,
+        p_tick: gameTime.tick,
       });
+
+      if (settleError || !settled?.success) {
+        recordTickError(worldId, `Error settling retail sales of facility ${facilityId}:`, settleError ?? settled?.error);
+        continue;
+      }
+
+      unitsSold += Number(settled.unitsSold);
     }
+
+    console.log(`Sold ${unitsSold} units to city consumers`);
+    return unitsSold;
+  } catch (error) {
+    recordTickError(worldId, 'Error in processRetailSales:', error);
+    return 0;
   }
+}
 
-  const currentUsage = items.reduce((sum: number, item: any) => sum + item.quantity, 0);
+/**
+ * Deliver market shipments that arrive this tick
+ * The deliver_shipments RPC moves the goods into the destination facility;
+ * each receiving company then gets a 'sales' notification
+ */
+async function deliverShipments(supabase: SupabaseClient, gameTime: GameTime, worldId: string): Promise<number> {
+  try {
+    const { data: delivered, error } = await supabase.rpc('deliver_shipments', {
+      p_current_tick: gameTime.tick,
+      p_world_id: worldId,
+    });
 
-  return {
-    items,
-    capacity: inventory?.capacity || 1000,
-    currentUsage,
-  };
+    if (error) {
+      recordTickError(worldId, 'Error calling deliver_shipments:', error);
+      return 0;
+    }
+
+    if (!delivered || delivered.length === 0) {
+      return 0;
+    }
+
+    const notifications = delivered
+      .filter((shipment: DeliveredShipmentRow) => shipment.company_name)
+      .map((shipment: DeliveredShipmentRow) => ({
+        id: crypto.randomUUID(),
+        company_name: shipment.company_name,
+        game_day: gameTime.day,
+        game_month: gameTime.month,
+        game_year: gameTime.year,
+        text: `${shipment.quantity} ${shipment.resource_name || shipment.resource_id} arrived at ${shipment.facility_name || 'your facility'}`,
+        origin: 'deliverShipments',
+        userfriendlyorigin: 'Marketplace',
+        category: 'sales',
+      }));
+
+    if (notifications.length > 0) {
+      const { error: notifyError } = await supabase.from('notifications').insert(notifications);
+      if (notifyError) {
+        recordTickError(worldId, 'Error saving shipment delivery notifications:', notifyError);
+      }
+    }
+
+    console.log(`Delivered ${delivered.length} shipments`);
+    return delivered.length;
+  } catch (error) {
+    recordTickError(worldId, 'Error in deliverShipments:', error);
+    return 0;
+  }
 }
 
 /**
- * Check if inventory has required inputs
+ * Advance one world by one tick and run every tick step for it
+ * claim_world_tick advances the world's clock and opens its tick run only if
+ * nobody processed this tick yet; otherwise the world is skipped with the reason.
+ * A run that failed partway is resumed instead: the clock stays and the steps
+ * it completed are skipped. Manual ticks keep the scheduled next tick. A step
+ * that logged errors is not completed, and the run is closed as failed so the
+ * next invocation resumes it; otherwise it is closed with its step counts.
  */
-function checkHasInputs(
-  inventory: any,
-  inputs: Array<{ resourceId: string; quantity: number }>
-): boolean {
-  if (!inputs || inputs.length === 0) return true;
-
-  const items = inventory?.items || [];
-  for (const input of inputs) {
-    const item = items.find((i: any) => i.resourceId === input.resourceId);
-    if (!item || item.quantity < input.quantity) {
-      return false;
+async function processWorldTick(supabase: SupabaseClient, world: WorldClock, isManualTick: boolean) {
+  const currentTime = world.time;
+
+  // Advance game time
+  const newTime = advanceGameTime(currentTime, world.tickIntervalSeconds);
+
+  // Claim the tick: saves the new time and opens the run in one transaction
+  const { data: claim, error: claimError } = await supabase.rpc('claim_world_tick', {
+    p_world_id: world.id,
+    p_expected_tick: currentTime.tick,
+    p_day: newTime.day,
+    p_month: newTime.month,
+    p_year: newTime.year,
+    p_next_tick_time: newTime.nextTickTime,
+    p_manual: isManualTick,
+  });
+
+  if (claimError) {
+    console.error(`Error claiming tick of world ${world.id}:`, claimError);
+    throw new Error(`Failed to claim tick of world ${world.id}: ${claimError.message}`);
+  }
+
+  if (!claim?.success) {
+    console.log(`Skipped tick of world ${world.id}: ${claim?.error}`);
+    return { worldId: world.id, skipped: true as const, reason: claim?.error ?? 'Tick not claimed' };
+  }
+
+  const runId: string = claim.runId;
+  const resumed = claim.resumed === true;
+  // A resumed run finishes the tick the clock already shows
+  const tickTime = resumed ? currentTime : newTime;
+  const completedSteps: string[] = claim.completedSteps ?? [];
+  const summary: Record<string, number> = { ...(claim.summary ?? {}) };
+  const errors: string[] = [];
+  tickRunErrors.set(world.id, errors);
+
+  // Run a step unless an earlier attempt completed it
+  const runStep = async (step: TickStep, process: () => Promise<number>) => {
+    if (completedSteps.includes(step)) return;
+    const errorCount = errors.length;
+    summary[step] = await process();
+    if (errors.length === errorCount) {
+      completedSteps.push(step);
+      await completeTickStep(supabase, runId, step, summary[step]);
     }
+  };
+
+  try {
+    let production = { advanced: 0, completed: 0 };
+
+    // Deliver shipments first so arriving goods can feed this tick's production
+    await runStep('shipmentsDelivered', () => deliverShipments(supabase, tickTime, world.id));
+
+    // Advance production for all facilities
+    await runStep('production', async () => {
+      production = await advanceAllFacilitiesProduction(supabase, tickTime, world.id, runId);
+      return production.advanced;
+    });
+
+    // Run due supply contract deliveries after production, so fresh outputs can be delivered
+    await runStep('contractDeliveries', () => processSupplyContracts(supabase, tickTime, world.id));
+
+    // City consumers buy from retail shelves after this tick's deliveries arrived
+    await runStep('retailUnitsSold', () => processRetailSales(supabase, tickTime, world.id));
+
+    // Count down new facilities under construction
+    await runStep('facilitiesBuilt', () => advanceFacilityConstruction(supabase, tickTime, world.id, runId));
+
+    // Count down facility upgrades under construction
+    await runStep('upgradesCompleted', () => advanceFacilityUpgrades(supabase, tickTime, world.id, runId, completedSteps));
+
+    // Pay monthly wages on the first day of each month
+    await runStep('wagesPaid', () => processWages(supabase, tickTime, world.id));
+
+    // Evolve city wealth and population on the first day of each month
+    await runStep('citiesUpdated', () => processCityEconomy(supabase, tickTime, world.id, runId));
+
+    // Expire listings that reached their expiry tick
+    await runStep('listingsExpired', () => expireMarketListings(supabase, tickTime, world.id));
+
+    // Expire pending trade offers that reached their expiry tick
+    await runStep('tradeOffersExpired', () => expireTradeOffers(supabase, tickTime, world.id));
+
+    const finished = TICK_STEPS.every((step) => completedSteps.includes(step));
+    await finishTickRun(supabase, runId, summary, errors, finished ? undefined : 'failed');
+
+    console.log(`Game tick ${finished ? 'processed' : 'failed'} in ${world.name}${isManualTick ? ' (manual)' : ''}${resumed ? ' (resumed)' : ''}: Day ${tickTime.day}, Month ${tickTime.month}, Year ${tickTime.year}`);
+    console.log(`Advanced ${production.advanced} facilities`);
+
+    return {
+      worldId: world.id,
+      skipped: false as const,
+      runId,
+      resumed,
+      completed: finished,
+      newTime: tickTime,
+      ...summary,
+      facilitiesAdvanced: production.advanced,
+      facilitiesCompleted: production.completed,
+      errors,
+    };
+  } catch (error) {
+    errors.push(`Tick aborted: ${error instanceof Error ? error.message : String(error)}`);
+    await finishTickRun(supabase, runId, summary, errors, 'failed');
+    throw error;
+  } finally {
+    tickRunErrors.delete(world.id);
+  }
+}
+
+/**
+ * Record a completed step of a tick run, so a resumed run skips it
+ */
+async function completeTickStep(supabase: SupabaseClient, runId: string, step: TickStep, count: number): Promise<void> {
+  const { error } = await supabase.rpc('complete_tick_step', {
+    p_run_id: runId,
+    p_step: step,
+    p_count: count,
+  });
+
+  if (error) {
+    console.error(`Error completing step ${step} of tick run ${runId}:`, error);
+  }
+}
+
+/**
+ * Close a tick run with its step counts and errors
+ */
+async function finishTickRun(
+  supabase: SupabaseClient,
+  runId: string,
+  summary: Record<string, number>,
+  errors: string[],
+  status?: 'failed'
+): Promise<void> {
+  const { error } = await supabase.rpc('finish_tick_run', {
+    p_run_id: runId,
+    p_summary: summary,
+    p_errors: errors,
+    p_status: status ?? null,
+  });
+
+  if (error) {
+    console.error(`Error finishing tick run ${runId}:`, error);
   }
-  return true;
 }
 
 /**
  * Main Edge Function handler
+ * Cron calls it every minute; each active world whose next tick time has passed
+ * advances one tick. Manual ticks advance only the requested world.
  */
 Deno.serve(async (req) => {
   // CORS headers
@@ -281,11 +1431,13 @@ Deno.serve(async (req) => {
   }
 
   try {
-    // Parse request body to check if this is a manual tick
+    // Parse request body to check if this is a manual tick, and for which world
     let isManualTick = false;
+    let manualWorldId = DEFAULT_WORLD_ID;
     try {
       const body = await req.json();
       isManualTick = body?.manual === true;
+      manualWorldId = body?.worldId ?? DEFAULT_WORLD_ID;
     } catch {
       // Not JSON or no body - treat as automatic cron tick
     }
@@ -302,87 +1454,137 @@ Deno.serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Get current game time
-    const { data: gameTimeData, error: fetchError } = await supabase
+    // Get the worlds and their current game time
+    const { data: worldRows, error: worldsError } = await supabase
+      .from('worlds')
+      .select('id, name, tick_interval_seconds')
+      .eq('is_active', true);
+
+    const { data: gameTimeRows, error: fetchError } = await supabase
       .from(GAME_TIME_TABLE)
-      .select('*')
-      .eq('id', GLOBAL_GAME_TIME_ID)
-      .single();
+      .select('*');
 
-    if (fetchError || !gameTimeData) {
+    if (worldsError || fetchError || !gameTimeRows) {
       return new Response(
-        JSON.stringify({ error: 'Game time not initialized' }),
+        JSON.stringify({ error: 'Game time not initialized', details: worldsError ?? fetchError }),
         { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const currentTime: GameTime = {
-      tick: gameTimeData.tick,
-      day: gameTimeData.day,
-      month: gameTimeData.month,
-      year: gameTimeData.year,
-      lastTickTime: gameTimeData.last_tick_time,
-      nextTickTime: gameTimeData.next_tick_time,
-    };
+    const gameTimeById = new Map((gameTimeRows as GameTimeRow[]).map((row) => [row.id, row]));
+    const worlds: WorldClock[] = ((worldRows || []) as WorldRow[])
+      .filter((world) => gameTimeById.has(world.id))
+      .map((world) => {
+        const gameTimeData = gameTimeById.get(world.id)!;
+        return {
+          id: world.id,
+          name: world.name,
+          tickIntervalSeconds: world.tick_interval_seconds ?? DEFAULT_TICK_INTERVAL_SECONDS,
+          time: {
+            tick: gameTimeData.tick,
+            day: gameTimeData.day,
+            month: gameTimeData.month,
+            year: gameTimeData.year,
+            lastTickTime: gameTimeData.last_tick_time,
+            nextTickTime: gameTimeData.next_tick_time,
+          },
+        };
+      });
 
-    // For manual ticks, skip time check
-    if (!isManualTick) {
-      // Check if it's time to advance (automatic cron tick)
-      const now = new Date();
-      const nextTick = new Date(currentTime.nextTickTime);
+    if (isManualTick) {
+      // For manual ticks, skip time check
+      const world = worlds.find(w => w.id === manualWorldId);
+      if (!world) {
+        return new Response(
+          JSON.stringify({ error: `World ${manualWorldId} not found or not initialized` }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-      if (now < nextTick) {
+      const result = await processWorldTick(supabase, world, true);
+      if (result.skipped) {
         return new Response(
-          JSON.stringify({
-            message: 'Not yet time to advance',
-            currentTime,
-            timeUntilNext: Math.floor((nextTick.getTime() - now.getTime()) / 1000),
-          }),
-          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify({ success: false, error: result.reason, worldId: world.id, manual: true }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: 'Game tick processed successfully (manual)',
+          ...result,
+          manual: true,
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Advance game time
-    const newTime = advanceGameTime(currentTime);
+    // Worlds whose current tick failed partway are resumed right away
+    const { data: failedRuns, error: failedRunsError } = await supabase
+      .from('tick_runs')
+      .select('world_id, tick')
+      .eq('run_status', 'failed')
+      .lt('attempts', TICK_RUN_MAX_ATTEMPTS)
+      .in('world_id', worlds.map(world => world.id));
 
-    // Save new time to database
-    const { error: saveError } = await supabase
-      .from(GAME_TIME_TABLE)
-      .upsert({
-        id: GLOBAL_GAME_TIME_ID,
-        tick: newTime.tick,
-        day: newTime.day,
-        month: newTime.month,
-        year: newTime.year,
-        last_tick_time: newTime.lastTickTime,
-        next_tick_time: isManualTick ? currentTime.nextTickTime : newTime.nextTickTime, // Preserve scheduled tick for manual
-        updated_at: new Date().toISOString(),
-      }, { onConflict: 'id' });
-
-    if (saveError) {
-      console.error('Error saving game time:', saveError);
+    if (failedRunsError) {
+      console.error('Error fetching failed tick runs:', failedRunsError);
+    }
+
+    const resumableWorldIds = new Set(
+      ((failedRuns || []) as TickRunRow[])
+        .filter((run) => worlds.some(world => world.id === run.world_id && world.time.tick === run.tick))
+        .map((run) => run.world_id)
+    );
+
+    // Check which worlds it is time to advance (automatic cron tick)
+    const now = new Date();
+    const dueWorlds = worlds.filter(world => resumableWorldIds.has(world.id) || now >= new Date(world.time.nextTickTime));
+
+    if (dueWorlds.length === 0) {
       return new Response(
-        JSON.stringify({ error: 'Failed to save game time', details: saveError }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({
+          message: 'Not yet time to advance',
+          worlds: worlds.map(world => ({
+            worldId: world.id,
+            currentTime: world.time,
+            timeUntilNext: Math.floor((new Date(world.time.nextTickTime).getTime() - now.getTime()) / 1000),
+          })),
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Advance production for all facilities
-    const facilitiesAdvanced = await advanceAllFacilitiesProduction(supabase);
-
-    console.log(`Game tick processed${isManualTick ? ' (manual)' : ''}: Day ${newTime.day}, Month ${newTime.month}, Year ${newTime.year}`);
-    console.log(`Advanced ${facilitiesAdvanced} facilities`);
+    // Worlds are independent: one failing world does not hold back the others.
+    // A world another invocation already ticked is skipped, not failed.
+    const results = [];
+    const skipped = [];
+    const failures = [];
+    for (const world of dueWorlds) {
+      try {
+        const result = await processWorldTick(supabase, world, false);
+        if (result.skipped) {
+          skipped.push({ worldId: world.id, reason: result.reason });
+        } else {
+          results.push(result);
+        }
+      } catch (error) {
+        console.error(`Error processing tick of world ${world.id}:`, error);
+        failures.push({ worldId: world.id, error: String(error) });
+      }
+    }
 
     return new Response(
       JSON.stringify({
-        success: true,
-        message: `Game tick processed successfully${isManualTick ? ' (manual)' : ''}`,
-        newTime,
-        facilitiesAdvanced,
-        manual: isManualTick,
+        success: failures.length === 0,
+        message: `Game tick processed for ${results.length} of ${dueWorlds.length} due worlds`,
+        worlds: results,
+        skipped,
+        failures,
+        manual: false,
       }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      { status: failures.length > 0 && results.length === 0 ? 500 : 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error in game-tick function:', error);